@@ -9,12 +9,14 @@ export class NavigationPage {
 	readonly mainNavigation: Locator;
 	readonly generateLink: Locator;
 	readonly flashcardsLink: Locator;
+	readonly studyLink: Locator;
 
 	constructor(page: Page) {
 		this.page = page;
 		this.mainNavigation = page.getByTestId('main-navigation');
 		this.generateLink = page.getByTestId('nav-generate-link');
 		this.flashcardsLink = page.getByTestId('nav-flashcards-link');
+		this.studyLink = page.getByTestId('nav-study-link');
 	}
 
 	/**
@@ -38,6 +40,13 @@ export class NavigationPage {
 		return await this.flashcardsLink.isVisible();
 	}
 
+	/**
+	 * Check if Study link is visible
+	 */
+	async isStudyLinkVisible() {
+		return await this.studyLink.isVisible();
+	}
+
 	/**
 	 * Click on the Generate link
 	 */
@@ -52,6 +61,13 @@ export class NavigationPage {
 		await this.flashcardsLink.click();
 	}
 
+	/**
+	 * Click on the Study link
+	 */
+	async clickStudyLink() {
+		await this.studyLink.click();
+	}
+
 	/**
 	 * Get Generate link text
 	 */
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, Square, Volume2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { FlashcardAudioDTO } from '@/types';
+
+interface AudioPlayButtonProps {
+	/** Accessible name, e.g. "Play front audio" */
+	label: string;
+	/** Uploaded clip, played instead of synthesized speech */
+	audio?: FlashcardAudioDTO;
+	/** Requests synthesized speech when there is no uploaded clip, resolves to null when it failed */
+	onSynthesize?: () => Promise<FlashcardAudioDTO | null>;
+	className?: string;
+}
+
+/**
+ * Plays the audio of a flashcard side, a second click stops it
+ * Renders nothing when there is neither a clip nor text-to-speech
+ */
+export function AudioPlayButton({ label, audio, onSynthesize, className }: AudioPlayButtonProps) {
+	const playerRef = useRef<HTMLAudioElement | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	const [isPlaying, setIsPlaying] = useState(false);
+
+	// Stop playback when the button goes away (e.g. the next study card is shown)
+	useEffect(() => () => playerRef.current?.pause(), []);
+
+	if (!audio && !onSynthesize) {
+		return null;
+	}
+
+	const stop = () => {
+		playerRef.current?.pause();
+		playerRef.current = null;
+		setIsPlaying(false);
+	};
+
+	const handleClick = async (e: React.MouseEvent<HTMLButtonElement>) => {
+		// Keeps study cards from flipping
+		e.stopPropagation();
+
+		if (isPlaying) {
+			stop();
+			return;
+		}
+
+		let url = audio?.url;
+		if (!url && onSynthesize) {
+			setIsLoading(true);
+			url = (await onSynthesize())?.url;
+			setIsLoading(false);
+		}
+
+		if (!url) {
+			return;
+		}
+
+		const player = new Audio(url);
+		player.onended = stop;
+		playerRef.current = player;
+		setIsPlaying(true);
+
+		try {
+			await player.play();
+		} catch {
+			// Blocked autoplay or an expired URL, the button is ready for another try
+			stop();
+		}
+	};
+
+	return (
+		<button
+			type="button"
+			onClick={handleClick}
+			disabled={isLoading}
+			aria-label={label}
+			aria-pressed={isPlaying}
+			title={label}
+			className={cn(
+				'inline-flex h-8 w-8 items-center justify-center rounded-full text-blue-200 hover:bg-white/10 hover:text-white disabled:opacity-50',
+				className
+			)}
+		>
+			{isLoading ? (
+				<Loader2 className="h-4 w-4 animate-spin" />
+			) : isPlaying ? (
+				<Square className="h-3.5 w-3.5" />
+			) : (
+				<Volume2 className="h-4 w-4" />
+			)}
+		</button>
+	);
+}
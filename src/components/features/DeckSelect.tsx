@@ -0,0 +1,38 @@
+import React, { useId } from 'react';
+import { Label } from '@/components/ui/label';
+import type { DeckDTO } from '@/types';
+
+interface DeckSelectProps {
+	decks: DeckDTO[];
+	value: string | null;
+	onChange: (deckId: string | null) => void;
+	label: string;
+	emptyOptionLabel: string;
+	disabled?: boolean;
+}
+
+export function DeckSelect({ decks, value, onChange, label, emptyOptionLabel, disabled }: DeckSelectProps) {
+	const selectId = useId();
+
+	return (
+		<div className="space-y-1">
+			<Label htmlFor={selectId} className="text-sm text-blue-100">
+				{label}
+			</Label>
+			<select
+				id={selectId}
+				value={value ?? ''}
+				onChange={(e) => onChange(e.target.value || null)}
+				disabled={disabled}
+				className="w-full h-9 rounded-md px-3 text-sm bg-white/10 border border-white/20 text-white backdrop-blur-sm focus:bg-white/15 focus:border-white/40 focus-visible:outline-none disabled:opacity-50 [&>option]:text-slate-900"
+			>
+				<option value="">{emptyOptionLabel}</option>
+				{decks.map((deck) => (
+					<option key={deck.id} value={deck.id}>
+						{deck.name} ({deck.flashcard_count})
+					</option>
+				))}
+			</select>
+		</div>
+	);
+}
@@ -0,0 +1,73 @@
+import React, { useId, useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { FlashcardExportFormat } from '@/types';
+
+const FORMAT_OPTIONS: { value: FlashcardExportFormat; label: string }[] = [
+	{ value: 'csv', label: 'CSV' },
+	{ value: 'tsv', label: 'TSV' },
+	{ value: 'json', label: 'JSON' },
+	{ value: 'anki-txt', label: 'Anki (.txt)' },
+];
+
+interface ExportFlashcardsButtonProps {
+	deckId: string | null;
+	tags: string[];
+	searchQuery: string;
+}
+
+/**
+ * Download link for GET /api/flashcards/export, exporting the flashcards matching the current filters
+ */
+export function ExportFlashcardsButton({ deckId, tags, searchQuery }: ExportFlashcardsButtonProps) {
+	const [format, setFormat] = useState<FlashcardExportFormat>('csv');
+	const selectId = useId();
+
+	const href = useMemo(() => {
+		const queryParams = new URLSearchParams({ format });
+
+		if (deckId) {
+			queryParams.set('deck_id', deckId);
+		}
+
+		if (tags.length > 0) {
+			queryParams.set('tags', tags.join(','));
+		}
+
+		if (searchQuery) {
+			queryParams.set('q', searchQuery);
+		}
+
+		return `/api/flashcards/export?${queryParams}`;
+	}, [format, deckId, tags, searchQuery]);
+
+	return (
+		<div className="flex items-center gap-2">
+			<label htmlFor={selectId} className="sr-only">
+				Export format
+			</label>
+			<select
+				id={selectId}
+				value={format}
+				onChange={(e) => setFormat(e.target.value as FlashcardExportFormat)}
+				className="h-9 rounded-md px-3 text-sm bg-white/10 border border-white/20 text-white backdrop-blur-sm focus:bg-white/15 focus:border-white/40 focus-visible:outline-none [&>option]:text-slate-900"
+			>
+				{FORMAT_OPTIONS.map((option) => (
+					<option key={option.value} value={option.value}>
+						{option.label}
+					</option>
+				))}
+			</select>
+			<Button
+				asChild
+				variant="outline"
+				className="border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white"
+			>
+				<a href={href} download>
+					<Download className="h-4 w-4" />
+					Export
+				</a>
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { Mic, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AudioPlayButton } from '@/components/features/AudioPlayButton';
+import { AUDIO_MIME_TYPES, validateAudioFile } from '@/lib/utils/media';
+import type { FlashcardAudioDTO, FlashcardSide } from '@/types';
+
+interface FlashcardAudioFieldProps {
+	side: FlashcardSide;
+	/** Uploaded clip of this side */
+	audio?: FlashcardAudioDTO;
+	/** Uploads the clip, resolves to false when it failed (errors are reported by the caller) */
+	onUpload: (side: FlashcardSide, file: File) => Promise<boolean>;
+	onRemove: (audio: FlashcardAudioDTO) => Promise<boolean>;
+	disabled?: boolean;
+}
+
+/**
+ * Uploaded audio clip of a flashcard side with buttons to play, attach and remove it, changes are saved immediately
+ */
+export function FlashcardAudioField({ side, audio, onUpload, onRemove, disabled = false }: FlashcardAudioFieldProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [isBusy, setIsBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const label = side === 'front' ? 'Front audio' : 'Back audio';
+
+	const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		// Reset so picking the same file again triggers another upload
+		e.target.value = '';
+
+		if (!file) {
+			return;
+		}
+
+		const message = validateAudioFile(file);
+		setError(message);
+		if (message) {
+			return;
+		}
+
+		setIsBusy(true);
+		await onUpload(side, file);
+		setIsBusy(false);
+	};
+
+	const handleRemove = async (item: FlashcardAudioDTO) => {
+		setIsBusy(true);
+		await onRemove(item);
+		setIsBusy(false);
+	};
+
+	return (
+		<div className="flex items-center gap-3">
+			{audio ? (
+				<>
+					<AudioPlayButton label={`Play ${label.toLowerCase()}`} audio={audio} />
+					<Button
+						type="button"
+						variant="ghost"
+						size="sm"
+						onClick={() => handleRemove(audio)}
+						disabled={disabled || isBusy}
+						aria-label={`Remove ${label.toLowerCase()}`}
+						className="h-7 text-blue-200 hover:bg-white/10 hover:text-white"
+					>
+						<Trash2 className="h-4 w-4" />
+						{isBusy ? 'Saving...' : 'Remove audio'}
+					</Button>
+				</>
+			) : (
+				<>
+					<input
+						ref={inputRef}
+						type="file"
+						accept={[...AUDIO_MIME_TYPES, '.mp3', '.m4a'].join(',')}
+						onChange={handleChange}
+						className="hidden"
+						aria-label={label}
+					/>
+					<Button
+						type="button"
+						variant="ghost"
+						size="sm"
+						onClick={() => inputRef.current?.click()}
+						disabled={disabled || isBusy}
+						className="h-7 text-blue-200 hover:bg-white/10 hover:text-white"
+					>
+						<Mic className="h-4 w-4" />
+						{isBusy ? 'Saving...' : 'Add audio'}
+					</Button>
+				</>
+			)}
+			{error ? (
+				<span className="text-sm text-red-300">{error}</span>
+			) : (
+				!audio && <span className="text-xs text-blue-200/60">MP3, Ogg, WAV, WebM or M4A, up to 5 MB</span>
+			)}
+		</div>
+	);
+}
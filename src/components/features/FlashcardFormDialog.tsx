@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useId } from 'react';
+import React, { useState, useCallback, useEffect, useId, useRef } from 'react';
 import {
 	Dialog,
 	DialogContent,
@@ -11,35 +11,79 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import type { FlashcardDTO, CreateFlashcardCommand, UpdateFlashcardCommand } from '@/types';
+import { TagInput } from '@/components/features/TagInput';
+import { RichText } from '@/components/features/RichText';
+import { FlashcardMediaField } from '@/components/features/FlashcardMediaField';
+import { FlashcardAudioField } from '@/components/features/FlashcardAudioField';
+import { describeClozeCards, getNextClozeIndex, validateClozeText } from '@/lib/utils/cloze';
+import type {
+	FlashcardAudioDTO,
+	FlashcardDTO,
+	FlashcardCardType,
+	FlashcardMediaDTO,
+	FlashcardSide,
+	CreateFlashcardCommand,
+	UpdateFlashcardCommand,
+} from '@/types';
 
 interface FlashcardFormDialogProps {
 	open: boolean;
 	onOpenChange: (open: boolean) => void;
 	flashcard?: FlashcardDTO | null;
 	onSubmit: (command: CreateFlashcardCommand | UpdateFlashcardCommand) => Promise<boolean>;
+	/** Attaches an image to the edited flashcard right away, images can be added once a flashcard is saved */
+	onUploadMedia?: (side: FlashcardSide, file: File) => Promise<FlashcardMediaDTO | null>;
+	/** Removes an image of the edited flashcard right away */
+	onDeleteMedia?: (mediaId: string) => Promise<boolean>;
+	/** Attaches an audio clip to the edited flashcard right away, like images */
+	onUploadAudio?: (side: FlashcardSide, file: File) => Promise<FlashcardAudioDTO | null>;
+	/** Removes an audio clip of the edited flashcard right away */
+	onDeleteAudio?: (audioId: string) => Promise<boolean>;
 }
 
-export function FlashcardFormDialog({ open, onOpenChange, flashcard, onSubmit }: FlashcardFormDialogProps) {
+export function FlashcardFormDialog({
+	open,
+	onOpenChange,
+	flashcard,
+	onSubmit,
+	onUploadMedia,
+	onDeleteMedia,
+	onUploadAudio,
+	onDeleteAudio,
+}: FlashcardFormDialogProps) {
+	const [cardType, setCardType] = useState<FlashcardCardType>('basic');
 	const [front, setFront] = useState('');
 	const [back, setBack] = useState('');
+	const [tags, setTags] = useState<string[]>([]);
+	const [media, setMedia] = useState<FlashcardMediaDTO[]>([]);
+	const [audio, setAudio] = useState<FlashcardAudioDTO[]>([]);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [errors, setErrors] = useState<{ front?: string; back?: string }>({});
 
 	const frontId = useId();
 	const backId = useId();
+	const frontRef = useRef<HTMLTextAreaElement>(null);
 
 	const isEditMode = !!flashcard;
+	const isCloze = cardType === 'cloze';
 
 	// Reset form when dialog opens or flashcard changes
 	useEffect(() => {
 		if (open) {
 			if (flashcard) {
+				setCardType(flashcard.card_type);
 				setFront(flashcard.front);
 				setBack(flashcard.back);
+				setTags(flashcard.tags);
+				setMedia(flashcard.media);
+				setAudio(flashcard.audio);
 			} else {
+				setCardType('basic');
 				setFront('');
 				setBack('');
+				setTags([]);
+				setMedia([]);
+				setAudio([]);
 			}
 			setErrors({});
 		}
@@ -50,20 +94,74 @@ export function FlashcardFormDialog({ open, onOpenChange, flashcard, onSubmit }:
 		const newErrors: { front?: string; back?: string } = {};
 
 		if (!front.trim()) {
-			newErrors.front = 'Question is required';
+			newErrors.front = isCloze ? 'Text is required' : 'Question is required';
 		} else if (front.length > 1000) {
-			newErrors.front = 'Question must not exceed 1000 characters';
+			newErrors.front = `${isCloze ? 'Text' : 'Question'} must not exceed 1000 characters`;
+		} else if (isCloze) {
+			newErrors.front = validateClozeText(front) ?? undefined;
 		}
 
-		if (!back.trim()) {
+		if (!back.trim() && !isCloze) {
 			newErrors.back = 'Answer is required';
 		} else if (back.length > 1000) {
-			newErrors.back = 'Answer must not exceed 1000 characters';
+			newErrors.back = `${isCloze ? 'Extra' : 'Answer'} must not exceed 1000 characters`;
 		}
 
-		setErrors(newErrors);
-		return Object.keys(newErrors).length === 0;
-	}, [front, back]);
+		const fieldErrors = Object.fromEntries(Object.entries(newErrors).filter(([, message]) => message));
+		setErrors(fieldErrors);
+		return Object.keys(fieldErrors).length === 0;
+	}, [front, back, isCloze]);
+
+	// Wrap the selected text of the front (or insert a placeholder) as the next cloze deletion
+	const handleAddCloze = useCallback(() => {
+		const textarea = frontRef.current;
+		const start = textarea?.selectionStart ?? front.length;
+		const end = textarea?.selectionEnd ?? front.length;
+		const selected = front.slice(start, end) || 'answer';
+		const deletion = `{{c${getNextClozeIndex(front)}::${selected}}}`;
+
+		setFront(front.slice(0, start) + deletion + front.slice(end));
+		textarea?.focus();
+	}, [front]);
+
+	// Attach an image, it is saved immediately and independently of the form
+	const handleUploadMedia = useCallback(async (side: FlashcardSide, file: File) => {
+		const uploaded = await onUploadMedia?.(side, file);
+		if (uploaded) {
+			setMedia((current) => [...current, uploaded]);
+		}
+		return !!uploaded;
+	}, [onUploadMedia]);
+
+	// Remove an image, also immediately
+	const handleRemoveMedia = useCallback(async (item: FlashcardMediaDTO) => {
+		const removed = (await onDeleteMedia?.(item.id)) ?? false;
+		if (removed) {
+			setMedia((current) => current.filter((other) => other.id !== item.id));
+		}
+		return removed;
+	}, [onDeleteMedia]);
+
+	const canEditMedia = isEditMode && !!onUploadMedia && !!onDeleteMedia;
+
+	// Attach an audio clip, saved immediately like images
+	const handleUploadAudio = useCallback(async (side: FlashcardSide, file: File) => {
+		const uploaded = await onUploadAudio?.(side, file);
+		if (uploaded) {
+			setAudio((current) => [...current, uploaded]);
+		}
+		return !!uploaded;
+	}, [onUploadAudio]);
+
+	const handleRemoveAudio = useCallback(async (item: FlashcardAudioDTO) => {
+		const removed = (await onDeleteAudio?.(item.id)) ?? false;
+		if (removed) {
+			setAudio((current) => current.filter((other) => other.id !== item.id));
+		}
+		return removed;
+	}, [onDeleteAudio]);
+
+	const canEditAudio = isEditMode && !!onUploadAudio && !!onDeleteAudio;
 
 	// Handle form submission
 	const handleSubmit = useCallback(async (e: React.FormEvent) => {
@@ -77,8 +175,8 @@ export function FlashcardFormDialog({ open, onOpenChange, flashcard, onSubmit }:
 
 		try {
 			const command = isEditMode
-				? { front: front.trim(), back: back.trim() } as UpdateFlashcardCommand
-				: { front: front.trim(), back: back.trim(), source: 'manual' as const } as CreateFlashcardCommand;
+				? { front: front.trim(), back: back.trim(), card_type: cardType, tags } as UpdateFlashcardCommand
+				: { front: front.trim(), back: back.trim(), card_type: cardType, source: 'manual' as const, tags } as CreateFlashcardCommand;
 
 			const success = await onSubmit(command);
 
@@ -88,7 +186,7 @@ export function FlashcardFormDialog({ open, onOpenChange, flashcard, onSubmit }:
 		} finally {
 			setIsSubmitting(false);
 		}
-	}, [front, back, isEditMode, onSubmit, onOpenChange, validate]);
+	}, [front, back, cardType, tags, isEditMode, onSubmit, onOpenChange, validate]);
 
 	// Handle cancel
 	const handleCancel = useCallback(() => {
@@ -111,16 +209,56 @@ export function FlashcardFormDialog({ open, onOpenChange, flashcard, onSubmit }:
 					</DialogHeader>
 
 					<div className="space-y-4 py-4">
-						{/* Front (Question) */}
+						{/* Card type */}
+						<div className="flex gap-2" role="group" aria-label="Card type">
+							{(['basic', 'cloze'] as const).map((type) => (
+								<Button
+									key={type}
+									type="button"
+									variant="outline"
+									size="sm"
+									aria-pressed={cardType === type}
+									onClick={() => {
+										setCardType(type);
+										setErrors({});
+									}}
+									disabled={isSubmitting}
+									className={
+										cardType === type
+											? 'border-blue-300/60 bg-blue-500/30 text-white hover:bg-blue-500/40 hover:text-white'
+											: 'border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white'
+									}
+								>
+									{type === 'basic' ? 'Basic' : 'Cloze'}
+								</Button>
+							))}
+						</div>
+
+						{/* Front (Question, or text with deletions) */}
 						<div className="space-y-2">
-							<Label htmlFor={frontId} className="text-blue-100">
-								Question <span className="text-red-400">*</span>
-							</Label>
+							<div className="flex items-center justify-between">
+								<Label htmlFor={frontId} className="text-blue-100">
+									{isCloze ? 'Text' : 'Question'} <span className="text-red-400">*</span>
+								</Label>
+								{isCloze && (
+									<Button
+										type="button"
+										variant="ghost"
+										size="sm"
+										onClick={handleAddCloze}
+										disabled={isSubmitting}
+										className="h-7 text-blue-200 hover:bg-white/10 hover:text-white"
+									>
+										Add deletion
+									</Button>
+								)}
+							</div>
 							<Textarea
 								id={frontId}
+								ref={frontRef}
 								value={front}
 								onChange={(e) => setFront(e.target.value)}
-								placeholder="Enter the question..."
+								placeholder={isCloze ? 'Enter the text, e.g. {{c1::Paris}} is the capital of {{c2::France}}' : 'Enter the question...'}
 								className="min-h-[100px] resize-none bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
 								disabled={isSubmitting}
 								aria-invalid={!!errors.front}
@@ -134,21 +272,40 @@ export function FlashcardFormDialog({ open, onOpenChange, flashcard, onSubmit }:
 								) : (
 									<span className="text-blue-200/70">
 										{front.length} / 1000 characters
+										{isCloze && ` · ${describeClozeCards(front)}`}
 									</span>
 								)}
 							</div>
+							{canEditMedia && (
+								<FlashcardMediaField
+									side="front"
+									media={media.filter((item) => item.side === 'front')}
+									onUpload={handleUploadMedia}
+									onRemove={handleRemoveMedia}
+									disabled={isSubmitting}
+								/>
+							)}
+							{canEditAudio && (
+								<FlashcardAudioField
+									side="front"
+									audio={audio.find((item) => item.side === 'front')}
+									onUpload={handleUploadAudio}
+									onRemove={handleRemoveAudio}
+									disabled={isSubmitting}
+								/>
+							)}
 						</div>
 
-						{/* Back (Answer) */}
+						{/* Back (Answer, or extra information of a cloze note) */}
 						<div className="space-y-2">
 							<Label htmlFor={backId} className="text-blue-100">
-								Answer <span className="text-red-400">*</span>
+								{isCloze ? 'Extra' : 'Answer'} {!isCloze && <span className="text-red-400">*</span>}
 							</Label>
 							<Textarea
 								id={backId}
 								value={back}
 								onChange={(e) => setBack(e.target.value)}
-								placeholder="Enter the answer..."
+								placeholder={isCloze ? 'Optional extra information shown with the answer...' : 'Enter the answer...'}
 								className="min-h-[100px] resize-none bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
 								disabled={isSubmitting}
 								aria-invalid={!!errors.back}
@@ -165,7 +322,50 @@ export function FlashcardFormDialog({ open, onOpenChange, flashcard, onSubmit }:
 									</span>
 								)}
 							</div>
+							{canEditMedia && (
+								<FlashcardMediaField
+									side="back"
+									media={media.filter((item) => item.side === 'back')}
+									onUpload={handleUploadMedia}
+									onRemove={handleRemoveMedia}
+									disabled={isSubmitting}
+								/>
+							)}
+							{canEditAudio && (
+								<FlashcardAudioField
+									side="back"
+									audio={audio.find((item) => item.side === 'back')}
+									onUpload={handleUploadAudio}
+									onRemove={handleRemoveAudio}
+									disabled={isSubmitting}
+								/>
+							)}
+							{!isEditMode && (onUploadMedia || onUploadAudio) && (
+								<p className="text-xs text-blue-200/60">
+									{onUploadAudio ? 'Images and audio' : 'Images'} can be attached once the flashcard is created.
+								</p>
+							)}
 						</div>
+
+						{/* Live preview of the rendered Markdown, code and math */}
+						{(front.trim() || back.trim()) && (
+							<section aria-label="Preview" className="space-y-2">
+								<div className="flex items-center justify-between text-sm">
+									<span className="font-medium text-blue-100">Preview</span>
+									<span className="text-blue-200/60">Markdown, code blocks and $math$</span>
+								</div>
+								<div className="space-y-3 rounded-md border border-white/10 bg-white/5 p-3 text-sm">
+									{front.trim() && (
+										<RichText text={front} cloze={isCloze ? {} : undefined} className="font-medium text-white" />
+									)}
+									{front.trim() && back.trim() && <hr className="border-white/10" />}
+									{back.trim() && <RichText text={back} className="text-blue-100/90" />}
+								</div>
+							</section>
+						)}
+
+						{/* Tags */}
+						<TagInput tags={tags} onChange={setTags} disabled={isSubmitting} />
 					</div>
 
 					<DialogFooter>
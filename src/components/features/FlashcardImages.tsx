@@ -0,0 +1,64 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { FlashcardMediaDTO } from '@/types';
+
+interface FlashcardImagesProps {
+	media: FlashcardMediaDTO[];
+	/** Thumbnails link to the full image, full size images fit the card */
+	variant: 'thumbnail' | 'full';
+	/** Shows a remove button on every image */
+	onRemove?: (media: FlashcardMediaDTO) => void;
+	disabled?: boolean;
+	className?: string;
+}
+
+/**
+ * Images attached to one side of a flashcard
+ */
+export function FlashcardImages({ media, variant, onRemove, disabled, className }: FlashcardImagesProps) {
+	if (media.length === 0) {
+		return null;
+	}
+
+	return (
+		<ul className={cn('flex flex-wrap gap-2', className)} aria-label={`${media[0].side === 'front' ? 'Front' : 'Back'} images`}>
+			{media.map((item, index) => {
+				const alt = `${item.side === 'front' ? 'Front' : 'Back'} image ${index + 1}`;
+
+				return (
+					<li key={item.id} className="relative">
+						{variant === 'thumbnail' ? (
+							<a href={item.url} target="_blank" rel="noopener noreferrer" className="block">
+								<img
+									src={item.url}
+									alt={alt}
+									loading="lazy"
+									className="h-16 w-16 rounded-md border border-white/20 object-cover"
+								/>
+							</a>
+						) : (
+							<img
+								src={item.url}
+								alt={alt}
+								loading="lazy"
+								className="max-h-64 max-w-full rounded-lg border border-white/20 object-contain"
+							/>
+						)}
+						{onRemove && (
+							<button
+								type="button"
+								onClick={() => onRemove(item)}
+								disabled={disabled}
+								aria-label={`Remove ${alt.toLowerCase()}`}
+								className="absolute -right-2 -top-2 rounded-full bg-red-600 p-0.5 text-white shadow hover:bg-red-500 disabled:opacity-50"
+							>
+								<X className="h-3 w-3" />
+							</button>
+						)}
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
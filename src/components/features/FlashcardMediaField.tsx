@@ -0,0 +1,88 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FlashcardImages } from '@/components/features/FlashcardImages';
+import { IMAGE_MIME_TYPES, MAX_IMAGES_PER_SIDE, validateImageFile } from '@/lib/utils/media';
+import type { FlashcardMediaDTO, FlashcardSide } from '@/types';
+
+interface FlashcardMediaFieldProps {
+	side: FlashcardSide;
+	/** Images of this side */
+	media: FlashcardMediaDTO[];
+	/** Uploads the image, resolves to false when it failed (errors are reported by the caller) */
+	onUpload: (side: FlashcardSide, file: File) => Promise<boolean>;
+	onRemove: (media: FlashcardMediaDTO) => Promise<boolean>;
+	disabled?: boolean;
+}
+
+/**
+ * Images of a flashcard side with buttons to attach and remove them, changes are saved immediately
+ */
+export function FlashcardMediaField({ side, media, onUpload, onRemove, disabled = false }: FlashcardMediaFieldProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [isBusy, setIsBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const label = side === 'front' ? 'Front image' : 'Back image';
+	const isFull = media.length >= MAX_IMAGES_PER_SIDE;
+
+	const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		// Reset so picking the same file again triggers another upload
+		e.target.value = '';
+
+		if (!file) {
+			return;
+		}
+
+		const message = validateImageFile(file);
+		setError(message);
+		if (message) {
+			return;
+		}
+
+		setIsBusy(true);
+		await onUpload(side, file);
+		setIsBusy(false);
+	};
+
+	const handleRemove = async (item: FlashcardMediaDTO) => {
+		setIsBusy(true);
+		await onRemove(item);
+		setIsBusy(false);
+	};
+
+	return (
+		<div className="space-y-2">
+			<FlashcardImages media={media} variant="thumbnail" onRemove={handleRemove} disabled={disabled || isBusy} />
+			<div className="flex items-center gap-3">
+				<input
+					ref={inputRef}
+					type="file"
+					accept={IMAGE_MIME_TYPES.join(',')}
+					onChange={handleChange}
+					className="hidden"
+					aria-label={label}
+				/>
+				<Button
+					type="button"
+					variant="ghost"
+					size="sm"
+					onClick={() => inputRef.current?.click()}
+					disabled={disabled || isBusy || isFull}
+					className="h-7 text-blue-200 hover:bg-white/10 hover:text-white"
+				>
+					<ImagePlus className="h-4 w-4" />
+					{isBusy ? 'Saving...' : 'Add image'}
+				</Button>
+				{error ? (
+					<span className="text-sm text-red-300">{error}</span>
+				) : (
+					<span className="text-xs text-blue-200/60">
+						{isFull ? `At most ${MAX_IMAGES_PER_SIDE} images` : 'PNG, JPEG, WebP or GIF, up to 5 MB'}
+					</span>
+				)}
+			</div>
+		</div>
+	);
+}
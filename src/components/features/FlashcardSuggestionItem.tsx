@@ -4,6 +4,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Trash2 } from 'lucide-react';
 import type { FlashcardSuggestionViewModel } from '@/components/hooks/useGenerateFlashcards';
+import { RichText } from '@/components/features/RichText';
+import { hasFormatting } from '@/lib/utils/rich-text';
 
 interface FlashcardSuggestionItemProps {
 	suggestion: FlashcardSuggestionViewModel;
@@ -26,6 +28,8 @@ export function FlashcardSuggestionItem({
 		onUpdate(suggestion.id, suggestion.front, e.target.value);
 	};
 
+	const isCloze = suggestion.card_type === 'cloze';
+
 	return (
 		<div
 			className={`backdrop-blur-sm rounded-lg p-4 border transition-all ${
@@ -47,7 +51,7 @@ export function FlashcardSuggestionItem({
 							htmlFor={`front-${suggestion.id}`}
 							className="text-sm font-medium block mb-1 text-blue-100"
 						>
-							Question
+							{isCloze ? 'Cloze text' : 'Question'}
 						</label>
 						<Input
 							id={`front-${suggestion.id}`}
@@ -56,22 +60,44 @@ export function FlashcardSuggestionItem({
 							placeholder="Front of flashcard..."
 							className="w-full bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
 						/>
+						{(isCloze || hasFormatting(suggestion.front)) && (
+							<RichText
+								text={suggestion.front}
+								cloze={isCloze ? {} : undefined}
+								className="mt-1 text-sm text-blue-100/90"
+							/>
+						)}
 					</div>
 					<div>
 						<label
 							htmlFor={`back-${suggestion.id}`}
 							className="text-sm font-medium block mb-1 text-blue-100"
 						>
-							Answer
+							{isCloze ? 'Extra' : 'Answer'}
 						</label>
 						<Input
 							id={`back-${suggestion.id}`}
 							value={suggestion.back}
 							onChange={handleBackChange}
-							placeholder="Back of flashcard..."
+							placeholder={isCloze ? 'Optional extra information...' : 'Back of flashcard...'}
 							className="w-full bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
 						/>
+						{hasFormatting(suggestion.back) && (
+							<RichText text={suggestion.back} className="mt-1 text-sm text-blue-100/90" />
+						)}
 					</div>
+					{suggestion.tags.length > 0 && (
+						<ul className="flex flex-wrap gap-2" aria-label="Suggested tags">
+							{suggestion.tags.map((tag) => (
+								<li
+									key={tag}
+									className="rounded-full bg-blue-500/20 border border-blue-400/40 px-2 py-0.5 text-xs text-blue-100"
+								>
+									#{tag}
+								</li>
+							))}
+						</ul>
+					)}
 				</div>
 				<Button
 					variant="ghost"
@@ -0,0 +1,122 @@
+import React, { useId } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	CARD_STYLE_LABELS,
+	describeLanguage,
+	DIFFICULTY_LABELS,
+	GENERATION_CARD_STYLES,
+	GENERATION_DIFFICULTIES,
+	MAX_CARD_COUNT,
+	MIN_CARD_COUNT,
+	SUGGESTED_LANGUAGES,
+} from '@/lib/utils/generation-settings';
+import type { GenerationCardStyle, GenerationDifficulty, GenerationSettingsCommand } from '@/types';
+
+interface GenerationSettingsFieldsProps {
+	value: GenerationSettingsCommand;
+	onChange: (value: GenerationSettingsCommand) => void;
+	disabled?: boolean;
+}
+
+const selectClassName =
+	'w-full h-9 rounded-md px-3 text-sm bg-white/10 border border-white/20 text-white backdrop-blur-sm focus:bg-white/15 focus:border-white/40 focus-visible:outline-none disabled:opacity-50 [&>option]:text-slate-900';
+
+/**
+ * Card count of the number input, undefined (left to the model) when it is empty
+ * Other values are rounded and clamped to the allowed range
+ */
+export function parseCardCount(value: string): number | undefined {
+	if (value.trim() === '' || Number.isNaN(Number(value))) {
+		return undefined;
+	}
+
+	return Math.min(MAX_CARD_COUNT, Math.max(MIN_CARD_COUNT, Math.round(Number(value))));
+}
+
+/**
+ * Number, difficulty, style and language of the flashcards to generate
+ * Empty fields are left out of the request, the server defaults apply
+ */
+export function GenerationSettingsFields({ value, onChange, disabled }: GenerationSettingsFieldsProps) {
+	const id = useId();
+
+	return (
+		<div className="grid grid-cols-2 gap-3">
+			<div className="space-y-1">
+				<Label htmlFor={`${id}-count`} className="text-sm text-blue-100">
+					Cards
+				</Label>
+				<Input
+					id={`${id}-count`}
+					type="number"
+					min={MIN_CARD_COUNT}
+					max={MAX_CARD_COUNT}
+					value={value.card_count ?? ''}
+					onChange={(e) => onChange({ ...value, card_count: parseCardCount(e.target.value) })}
+					placeholder="Auto"
+					disabled={disabled}
+					className="h-9 bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
+				/>
+			</div>
+			<div className="space-y-1">
+				<Label htmlFor={`${id}-difficulty`} className="text-sm text-blue-100">
+					Difficulty
+				</Label>
+				<select
+					id={`${id}-difficulty`}
+					value={value.difficulty ?? ''}
+					onChange={(e) =>
+						onChange({ ...value, difficulty: (e.target.value || undefined) as GenerationDifficulty | undefined })
+					}
+					disabled={disabled}
+					className={selectClassName}
+				>
+					<option value="">Any</option>
+					{GENERATION_DIFFICULTIES.map((difficulty) => (
+						<option key={difficulty} value={difficulty}>
+							{DIFFICULTY_LABELS[difficulty]}
+						</option>
+					))}
+				</select>
+			</div>
+			<div className="space-y-1">
+				<Label htmlFor={`${id}-style`} className="text-sm text-blue-100">
+					Card style
+				</Label>
+				<select
+					id={`${id}-style`}
+					value={value.card_style ?? 'qa'}
+					onChange={(e) => onChange({ ...value, card_style: e.target.value as GenerationCardStyle })}
+					disabled={disabled}
+					className={selectClassName}
+				>
+					{GENERATION_CARD_STYLES.map((style) => (
+						<option key={style} value={style}>
+							{CARD_STYLE_LABELS[style]}
+						</option>
+					))}
+				</select>
+			</div>
+			<div className="space-y-1">
+				<Label htmlFor={`${id}-language`} className="text-sm text-blue-100">
+					Language
+				</Label>
+				<select
+					id={`${id}-language`}
+					value={value.language ?? ''}
+					onChange={(e) => onChange({ ...value, language: e.target.value || undefined })}
+					disabled={disabled}
+					className={selectClassName}
+				>
+					<option value="">Same as the text</option>
+					{SUGGESTED_LANGUAGES.map((language) => (
+						<option key={language} value={language}>
+							{describeLanguage(language)}
+						</option>
+					))}
+				</select>
+			</div>
+		</div>
+	);
+}
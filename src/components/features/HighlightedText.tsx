@@ -0,0 +1,25 @@
+import React, { useMemo } from 'react';
+import { getSearchTerms, splitByTerms } from '@/lib/utils/search';
+
+interface HighlightedTextProps {
+	text: string;
+	query: string;
+}
+
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+	const segments = useMemo(() => splitByTerms(text, getSearchTerms(query)), [text, query]);
+
+	return (
+		<>
+			{segments.map((segment, index) =>
+				segment.match ? (
+					<mark key={index} className="rounded bg-yellow-300/40 px-0.5 text-inherit">
+						{segment.text}
+					</mark>
+				) : (
+					<React.Fragment key={index}>{segment.text}</React.Fragment>
+				)
+			)}
+		</>
+	);
+}
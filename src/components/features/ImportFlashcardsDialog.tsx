@@ -0,0 +1,253 @@
+import React, { useState, useCallback, useEffect, useId } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { FlashcardImportFormat, ImportFlashcardsResponseDTO } from '@/types';
+
+/**
+ * Row errors shown in the result summary, the rest is only counted
+ */
+const MAX_VISIBLE_ERRORS = 20;
+
+const COLUMN_FIELDS = [
+	{ name: 'front_column', label: 'Question' },
+	{ name: 'back_column', label: 'Answer' },
+	{ name: 'tags_column', label: 'Tags' },
+	{ name: 'deck_column', label: 'Deck' },
+] as const;
+
+type ColumnField = (typeof COLUMN_FIELDS)[number]['name'];
+
+const selectClassName =
+	'w-full h-9 rounded-md px-3 text-sm bg-white/10 border border-white/20 text-white backdrop-blur-sm focus:bg-white/15 focus:border-white/40 focus-visible:outline-none disabled:opacity-50 [&>option]:text-slate-900';
+const inputClassName =
+	'bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40';
+
+interface ImportFlashcardsDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	deckId: string | null;
+	onImport: (formData: FormData) => Promise<ImportFlashcardsResponseDTO | null>;
+}
+
+export function ImportFlashcardsDialog({ open, onOpenChange, deckId, onImport }: ImportFlashcardsDialogProps) {
+	const [file, setFile] = useState<File | null>(null);
+	const [format, setFormat] = useState<FlashcardImportFormat | ''>('');
+	const [delimiter, setDelimiter] = useState('');
+	const [hasHeader, setHasHeader] = useState<'' | 'true' | 'false'>('');
+	const [columns, setColumns] = useState<Record<ColumnField, string>>({
+		front_column: '',
+		back_column: '',
+		tags_column: '',
+		deck_column: '',
+	});
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [result, setResult] = useState<ImportFlashcardsResponseDTO | null>(null);
+
+	const fileId = useId();
+	const formatId = useId();
+	const delimiterId = useId();
+	const headerId = useId();
+	const columnsId = useId();
+
+	// Reset form when dialog opens
+	useEffect(() => {
+		if (open) {
+			setFile(null);
+			setFormat('');
+			setDelimiter('');
+			setHasHeader('');
+			setColumns({ front_column: '', back_column: '', tags_column: '', deck_column: '' });
+			setResult(null);
+		}
+	}, [open]);
+
+	// Handle form submission, only options that were set are sent
+	const handleSubmit = useCallback(async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!file) {
+			return;
+		}
+
+		const formData = new FormData();
+		formData.append('file', file);
+
+		const options: Record<string, string> = { format, delimiter, has_header: hasHeader, ...columns };
+		if (deckId) {
+			options.deck_id = deckId;
+		}
+
+		for (const [key, value] of Object.entries(options)) {
+			if (value) {
+				formData.append(key, value);
+			}
+		}
+
+		setIsSubmitting(true);
+
+		try {
+			setResult(await onImport(formData));
+		} finally {
+			setIsSubmitting(false);
+		}
+	}, [file, format, delimiter, hasHeader, columns, deckId, onImport]);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[600px] backdrop-blur-xl bg-gradient-to-b from-slate-900/95 to-slate-800/95 border border-white/10 text-white shadow-2xl">
+				<form onSubmit={handleSubmit}>
+					<DialogHeader>
+						<DialogTitle className="text-2xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-200 to-purple-200">
+							Import Flashcards
+						</DialogTitle>
+						<DialogDescription className="text-blue-100/80">
+							Upload a CSV, TSV or Anki text export. Each row becomes a flashcard.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="space-y-4 py-4">
+						{/* File */}
+						<div className="space-y-2">
+							<Label htmlFor={fileId} className="text-blue-100">
+								File <span className="text-red-400">*</span>
+							</Label>
+							<Input
+								id={fileId}
+								type="file"
+								accept=".csv,.tsv,.tab,.txt,text/csv,text/tab-separated-values,text/plain"
+								onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+								disabled={isSubmitting}
+								className={inputClassName}
+							/>
+						</div>
+
+						{/* Format options */}
+						<div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+							<div className="space-y-2">
+								<Label htmlFor={formatId} className="text-blue-100">
+									Format
+								</Label>
+								<select
+									id={formatId}
+									value={format}
+									onChange={(e) => setFormat(e.target.value as FlashcardImportFormat | '')}
+									disabled={isSubmitting}
+									className={selectClassName}
+								>
+									<option value="">Detect from file name</option>
+									<option value="csv">CSV</option>
+									<option value="tsv">TSV</option>
+									<option value="anki-txt">Anki (.txt)</option>
+								</select>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={delimiterId} className="text-blue-100">
+									Delimiter
+								</Label>
+								<Input
+									id={delimiterId}
+									value={delimiter}
+									onChange={(e) => setDelimiter(e.target.value)}
+									placeholder="Default"
+									maxLength={3}
+									disabled={isSubmitting}
+									className={inputClassName}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={headerId} className="text-blue-100">
+									Header row
+								</Label>
+								<select
+									id={headerId}
+									value={hasHeader}
+									onChange={(e) => setHasHeader(e.target.value as '' | 'true' | 'false')}
+									disabled={isSubmitting}
+									className={selectClassName}
+								>
+									<option value="">Default</option>
+									<option value="true">Yes</option>
+									<option value="false">No</option>
+								</select>
+							</div>
+						</div>
+
+						{/* Column mapping */}
+						<fieldset className="space-y-2" aria-describedby={columnsId}>
+							<legend className="text-sm font-medium text-blue-100">Column numbers (optional)</legend>
+							<p id={columnsId} className="text-xs text-blue-200/70">
+								Leave empty to use the header names (front, back, tags, deck) or the first two columns.
+							</p>
+							<div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+								{COLUMN_FIELDS.map((field) => (
+									<Input
+										key={field.name}
+										type="number"
+										min={1}
+										max={100}
+										value={columns[field.name]}
+										onChange={(e) => setColumns((prev) => ({ ...prev, [field.name]: e.target.value }))}
+										placeholder={field.label}
+										aria-label={`${field.label} column`}
+										disabled={isSubmitting}
+										className={inputClassName}
+									/>
+								))}
+							</div>
+						</fieldset>
+
+						{/* Result */}
+						{result && (
+							<div className="space-y-2 rounded-lg border border-white/20 bg-white/5 p-3 text-sm" role="status">
+								<p className="text-blue-100">
+									Imported {result.imported} flashcard{result.imported === 1 ? '' : 's'}
+									{result.failed > 0 && `, ${result.failed} row error${result.failed === 1 ? '' : 's'}`}.
+								</p>
+								{result.errors.length > 0 && (
+									<ul className="max-h-40 overflow-y-auto space-y-1 text-red-300">
+										{result.errors.slice(0, MAX_VISIBLE_ERRORS).map((error, index) => (
+											<li key={index}>
+												Row {error.row} ({error.field}): {error.message}
+											</li>
+										))}
+										{result.errors.length > MAX_VISIBLE_ERRORS && (
+											<li>...and {result.errors.length - MAX_VISIBLE_ERRORS} more</li>
+										)}
+									</ul>
+								)}
+							</div>
+						)}
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+							disabled={isSubmitting}
+							className="border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white disabled:opacity-50"
+						>
+							{result ? 'Close' : 'Cancel'}
+						</Button>
+						<Button
+							type="submit"
+							disabled={isSubmitting || !file}
+							className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all disabled:opacity-50"
+						>
+							{isSubmitting ? 'Importing...' : 'Import'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,57 @@
+import React, { useId } from 'react';
+import { Label } from '@/components/ui/label';
+import type { AiModelDTO } from '@/types';
+
+interface ModelSelectProps {
+	models: AiModelDTO[];
+	value: string | null;
+	onChange: (modelId: string) => void;
+	disabled?: boolean;
+}
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact' });
+
+/**
+ * Option text with the context window and the USD cost per million input / output tokens
+ * Local models without a known context window or cost only show their label
+ */
+export function describeModel(model: AiModelDTO): string {
+	const details: string[] = [];
+
+	if (model.context_window !== null) {
+		details.push(`${compactNumber.format(model.context_window)} context`);
+	}
+
+	if (model.input_cost_per_token > 0 || model.output_cost_per_token > 0) {
+		const perMillion = (cost: number) =>
+			`$${(cost * 1_000_000).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+		details.push(`${perMillion(model.input_cost_per_token)} / ${perMillion(model.output_cost_per_token)} per 1M tokens`);
+	}
+
+	return details.length > 0 ? `${model.label} (${details.join(', ')})` : model.label;
+}
+
+export function ModelSelect({ models, value, onChange, disabled }: ModelSelectProps) {
+	const selectId = useId();
+
+	return (
+		<div className="space-y-1">
+			<Label htmlFor={selectId} className="text-sm text-blue-100">
+				Model
+			</Label>
+			<select
+				id={selectId}
+				value={value ?? ''}
+				onChange={(e) => onChange(e.target.value)}
+				disabled={disabled}
+				className="w-full h-9 rounded-md px-3 text-sm bg-white/10 border border-white/20 text-white backdrop-blur-sm focus:bg-white/15 focus:border-white/40 focus-visible:outline-none disabled:opacity-50 [&>option]:text-slate-900"
+			>
+				{models.map((model) => (
+					<option key={model.id} value={model.id}>
+						{describeModel(model)}
+					</option>
+				))}
+			</select>
+		</div>
+	);
+}
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import Markdown, { type Components, type Options } from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeKatex from 'rehype-katex';
+import 'highlight.js/styles/github-dark.css';
+import 'katex/dist/katex.min.css';
+import { cn } from '@/lib/utils';
+import { getSearchTerms } from '@/lib/utils/search';
+import { rehypeCloze, rehypeHighlightTerms, sanitizeUrl } from '@/lib/utils/rich-text';
+
+interface RichTextProps {
+	text: string;
+	/** Render cloze deletions, cardIndex null shows the whole note with every deletion marked */
+	cloze?: { cardIndex?: number | null; revealed?: boolean };
+	/** Search query highlighted in the text */
+	query?: string;
+	className?: string;
+}
+
+const components: Components = {
+	a: ({ href, children }) =>
+		href ? (
+			<a
+				href={href}
+				target="_blank"
+				rel="noopener noreferrer nofollow"
+				onClick={(e) => e.stopPropagation()}
+				className="text-blue-300 underline hover:text-blue-200"
+			>
+				{children}
+			</a>
+		) : (
+			<span>{children}</span>
+		),
+	table: ({ children }) => (
+		<div className="overflow-x-auto">
+			<table className="border-collapse text-sm">{children}</table>
+		</div>
+	),
+	th: ({ children, style }) => (
+		<th style={style} className="border border-white/20 px-2 py-1 font-semibold">
+			{children}
+		</th>
+	),
+	td: ({ children, style }) => (
+		<td style={style} className="border border-white/20 px-2 py-1">
+			{children}
+		</td>
+	),
+};
+
+/**
+ * Flashcard content rendered as Markdown (GitHub flavored) with highlighted code blocks and KaTeX math
+ * ($inline$ and $$display$$). Raw HTML and images are not rendered and links are limited to http(s) and
+ * mailto, the output is built from React elements only.
+ */
+export function RichText({ text, cloze, query = '', className }: RichTextProps) {
+	const isCloze = !!cloze;
+	const cardIndex = cloze?.cardIndex ?? null;
+	const revealed = cloze?.revealed ?? true;
+
+	const rehypePlugins = useMemo<Options['rehypePlugins']>(
+		() => [
+			// Cloze runs first, a hidden answer is already replaced when code and math are rendered
+			[rehypeCloze, isCloze ? { cardIndex, revealed } : null],
+			rehypeKatex,
+			[rehypeHighlight, { detect: false }],
+			[rehypeHighlightTerms, getSearchTerms(query)],
+		],
+		[isCloze, cardIndex, revealed, query]
+	);
+
+	return (
+		<div
+			className={cn(
+				'space-y-2 break-words',
+				'[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5',
+				'[&_h1]:text-lg [&_h1]:font-bold [&_h2]:font-semibold [&_h3]:font-semibold',
+				'[&_blockquote]:border-l-2 [&_blockquote]:border-white/30 [&_blockquote]:pl-3 [&_blockquote]:italic',
+				'[&_code]:rounded [&_code]:bg-white/10 [&_code]:px-1 [&_code]:font-mono [&_code]:text-[0.9em]',
+				'[&_pre]:overflow-x-auto [&_pre]:rounded-md [&_pre]:bg-slate-950/80 [&_pre]:p-3 [&_pre]:text-sm',
+				'[&_pre>code]:bg-transparent [&_pre>code]:p-0',
+				'[&_.katex-display]:overflow-x-auto [&_.katex-display]:py-1',
+				className
+			)}
+		>
+			<Markdown
+				remarkPlugins={[remarkGfm, remarkMath, remarkBreaks]}
+				rehypePlugins={rehypePlugins}
+				components={components}
+				urlTransform={sanitizeUrl}
+				disallowedElements={['img']}
+				skipHtml
+			>
+				{text}
+			</Markdown>
+		</div>
+	);
+}
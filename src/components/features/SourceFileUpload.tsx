@@ -0,0 +1,53 @@
+import React, { useRef } from 'react';
+import { FileUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+const ACCEPTED_FILE_TYPES = '.pdf,.docx,.md,.markdown,.html,.htm';
+
+interface SourceFileUploadProps {
+	onFileSelected: (file: File) => void;
+	isExtracting: boolean;
+	disabled?: boolean;
+}
+
+/**
+ * Button picking a PDF, DOCX, Markdown or HTML document to extract the source text from
+ */
+export function SourceFileUpload({ onFileSelected, isExtracting, disabled = false }: SourceFileUploadProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		// Reset so picking the same file again triggers another extraction
+		e.target.value = '';
+
+		if (file) {
+			onFileSelected(file);
+		}
+	};
+
+	return (
+		<div className="flex items-center gap-3">
+			<input
+				ref={inputRef}
+				type="file"
+				accept={ACCEPTED_FILE_TYPES}
+				onChange={handleChange}
+				className="hidden"
+				aria-label="Source document"
+				data-testid="source-file-input"
+			/>
+			<Button
+				type="button"
+				variant="outline"
+				onClick={() => inputRef.current?.click()}
+				disabled={disabled || isExtracting}
+				className="border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white disabled:opacity-50"
+			>
+				<FileUp className="h-4 w-4" />
+				{isExtracting ? 'Reading file...' : 'Upload File'}
+			</Button>
+			<span className="text-sm text-blue-200/70">PDF, DOCX, Markdown or HTML, up to 10 MB</span>
+		</div>
+	);
+}
@@ -0,0 +1,84 @@
+import React from 'react';
+import type { DueFlashcardDTO, FlashcardAudioDTO, FlashcardSide } from '@/types';
+import { RichText } from '@/components/features/RichText';
+import { FlashcardImages } from '@/components/features/FlashcardImages';
+import { AudioPlayButton } from '@/components/features/AudioPlayButton';
+
+interface StudyCardProps {
+	flashcard: DueFlashcardDTO;
+	isFlipped: boolean;
+	onFlip: () => void;
+	/** Reads a side aloud when it has no uploaded clip, omitted when text-to-speech is disabled */
+	onSynthesize?: (side: FlashcardSide) => Promise<FlashcardAudioDTO | null>;
+}
+
+/**
+ * Card under review, cloze cards hide their deletion in the text and reveal it in place
+ * (the back of a cloze note is optional extra information)
+ * Audio of the back is offered once the card is flipped, cloze notes are read with their deletions
+ * revealed so their front audio waits for the flip as well
+ */
+export function StudyCard({ flashcard, isFlipped, onFlip, onSynthesize }: StudyCardProps) {
+	const isCloze = flashcard.card_type === 'cloze';
+	const frontMedia = flashcard.media.filter((media) => media.side === 'front');
+	const backMedia = flashcard.media.filter((media) => media.side === 'back');
+	const frontAudio = flashcard.audio.find((audio) => audio.side === 'front');
+	const backAudio = flashcard.audio.find((audio) => audio.side === 'back');
+	// Remounting per card stops the audio of the previous one
+	const audioKey = `${flashcard.id}-${flashcard.card_index}`;
+
+	return (
+		<div className="space-y-3">
+			<button
+				type="button"
+				onClick={onFlip}
+				aria-pressed={isFlipped}
+				aria-label={isFlipped ? 'Hide answer' : 'Show answer'}
+				className="w-full min-h-[280px] text-left backdrop-blur-xl bg-gradient-to-b from-white/10 to-white/5 rounded-2xl shadow-2xl p-8 border border-white/10 hover:shadow-[0_20px_50px_rgba(139,92,246,0.3)] transition-shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-300"
+			>
+				<div className="space-y-6">
+					<div>
+						<div className="text-sm font-medium text-blue-200/70 mb-2">{isCloze ? 'Fill in the blank' : 'Question'}</div>
+						<RichText
+							text={flashcard.front}
+							cloze={isCloze ? { cardIndex: flashcard.card_index, revealed: isFlipped } : undefined}
+							className="text-xl font-medium text-white"
+						/>
+						<FlashcardImages media={frontMedia} variant="full" className="mt-4" />
+					</div>
+					{isFlipped ? (
+						(!isCloze || flashcard.back || backMedia.length > 0) && (
+							<div className="pt-6 border-t border-white/20">
+								<div className="text-sm font-medium text-blue-200/70 mb-2">{isCloze ? 'Extra' : 'Answer'}</div>
+								<RichText text={flashcard.back} className="text-lg text-blue-100/90" />
+								<FlashcardImages media={backMedia} variant="full" className="mt-4" />
+							</div>
+						)
+					) : (
+						<div className="pt-6 border-t border-white/20 text-sm text-blue-200/60">
+							Click or press Space to reveal the answer
+						</div>
+					)}
+				</div>
+			</button>
+			<div role="group" aria-label="Audio" className="flex justify-center gap-2">
+				{(!isCloze || isFlipped) && (
+					<AudioPlayButton
+						key={`${audioKey}-front`}
+						label="Play front audio"
+						audio={frontAudio}
+						onSynthesize={onSynthesize && (() => onSynthesize('front'))}
+					/>
+				)}
+				{isFlipped && (
+					<AudioPlayButton
+						key={`${audioKey}-back`}
+						label="Play back audio"
+						audio={backAudio}
+						onSynthesize={onSynthesize && flashcard.back.trim() ? () => onSynthesize('back') : undefined}
+					/>
+				)}
+			</div>
+		</div>
+	);
+}
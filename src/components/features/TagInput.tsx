@@ -0,0 +1,85 @@
+import React, { useState, useCallback, useId } from 'react';
+import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_FLASHCARD, normalizeTag } from '@/lib/utils/tags';
+
+interface TagInputProps {
+	tags: string[];
+	onChange: (tags: string[]) => void;
+	label?: string;
+	disabled?: boolean;
+}
+
+export function TagInput({ tags, onChange, label = 'Tags', disabled }: TagInputProps) {
+	const [draft, setDraft] = useState('');
+	const inputId = useId();
+
+	const isFull = tags.length >= MAX_TAGS_PER_FLASHCARD;
+
+	// Add the typed tag (normalized) unless it is empty, a duplicate or the list is full
+	const commitDraft = useCallback(() => {
+		const tag = normalizeTag(draft);
+		setDraft('');
+
+		if (!tag || tag.length > MAX_TAG_LENGTH || tags.includes(tag) || isFull) {
+			return;
+		}
+
+		onChange([...tags, tag]);
+	}, [draft, tags, isFull, onChange]);
+
+	const handleRemove = useCallback((tag: string) => {
+		onChange(tags.filter((t) => t !== tag));
+	}, [tags, onChange]);
+
+	// Enter or comma adds a tag, Backspace on empty input removes the last one
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === 'Enter' || e.key === ',') {
+			e.preventDefault();
+			commitDraft();
+		} else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+			onChange(tags.slice(0, -1));
+		}
+	};
+
+	return (
+		<div className="space-y-2">
+			<Label htmlFor={inputId} className="text-blue-100">
+				{label}
+			</Label>
+			{tags.length > 0 && (
+				<ul className="flex flex-wrap gap-2" aria-label={`${label} list`}>
+					{tags.map((tag) => (
+						<li
+							key={tag}
+							className="inline-flex items-center gap-1 rounded-full bg-blue-500/20 border border-blue-400/40 px-2 py-0.5 text-xs text-blue-100"
+						>
+							{tag}
+							<button
+								type="button"
+								onClick={() => handleRemove(tag)}
+								disabled={disabled}
+								aria-label={`Remove tag ${tag}`}
+								className="rounded-full hover:text-white disabled:opacity-50"
+							>
+								<X className="h-3 w-3" />
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+			<Input
+				id={inputId}
+				value={draft}
+				onChange={(e) => setDraft(e.target.value)}
+				onKeyDown={handleKeyDown}
+				onBlur={commitDraft}
+				placeholder={isFull ? `Maximum ${MAX_TAGS_PER_FLASHCARD} tags` : 'Add a tag and press Enter...'}
+				maxLength={MAX_TAG_LENGTH}
+				disabled={disabled || isFull}
+				className="bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,76 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {cleanup, render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {AudioPlayButton} from '../AudioPlayButton';
+import type {FlashcardAudioDTO} from '@/types';
+
+describe('AudioPlayButton', () => {
+    const clip: FlashcardAudioDTO = {
+        id: 'audio-1',
+        side: 'front',
+        source: 'upload',
+        mime_type: 'audio/mpeg',
+        size_bytes: 2048,
+        created_at: '2025-01-01T00:00:00Z',
+        url: 'https://storage.test/hund.mp3',
+    };
+
+    let play: ReturnType<typeof vi.spyOn>;
+    let pause: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+        play = vi.spyOn(window.HTMLMediaElement.prototype, 'play').mockResolvedValue();
+        pause = vi.spyOn(window.HTMLMediaElement.prototype, 'pause').mockImplementation(vi.fn());
+    });
+
+    afterEach(() => {
+        // Unmounting pauses playing audio, which jsdom does not implement
+        cleanup();
+        vi.restoreAllMocks();
+    });
+
+    it('should play the uploaded clip instead of synthesizing speech', async () => {
+        const user = userEvent.setup();
+        const onSynthesize = vi.fn();
+
+        render(<AudioPlayButton label="Play front audio" audio={clip} onSynthesize={onSynthesize}/>);
+        await user.click(screen.getByRole('button', {name: 'Play front audio'}));
+
+        expect(play).toHaveBeenCalledTimes(1);
+        expect((play.mock.contexts[0] as HTMLAudioElement).src).toBe('https://storage.test/hund.mp3');
+        expect(onSynthesize).not.toHaveBeenCalled();
+        expect(screen.getByRole('button', {name: 'Play front audio'})).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should synthesize speech without a clip and stop on a second click', async () => {
+        const user = userEvent.setup();
+        const onSynthesize = vi.fn().mockResolvedValue({...clip, source: 'tts', url: 'https://storage.test/speech.wav'});
+
+        render(<AudioPlayButton label="Play front audio" onSynthesize={onSynthesize}/>);
+        const button = screen.getByRole('button', {name: 'Play front audio'});
+
+        await user.click(button);
+        expect(onSynthesize).toHaveBeenCalledTimes(1);
+        expect((play.mock.contexts[0] as HTMLAudioElement).src).toBe('https://storage.test/speech.wav');
+
+        await user.click(button);
+        expect(pause).toHaveBeenCalled();
+        expect(button).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('should not play when speech could not be synthesized', async () => {
+        const user = userEvent.setup();
+
+        render(<AudioPlayButton label="Play back audio" onSynthesize={vi.fn().mockResolvedValue(null)}/>);
+        await user.click(screen.getByRole('button', {name: 'Play back audio'}));
+
+        expect(play).not.toHaveBeenCalled();
+        expect(screen.getByRole('button', {name: 'Play back audio'})).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('should render nothing without a clip or text-to-speech', () => {
+        const {container} = render(<AudioPlayButton label="Play front audio"/>);
+
+        expect(container).toBeEmptyDOMElement();
+    });
+});
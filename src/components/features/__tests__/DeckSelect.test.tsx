@@ -0,0 +1,65 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {DeckSelect} from '../DeckSelect';
+import type {DeckDTO} from '@/types';
+
+describe('DeckSelect', () => {
+    const mockDecks: DeckDTO[] = [
+        {
+            id: 'deck-1',
+            name: 'Biology',
+            description: null,
+            flashcard_count: 12,
+            created_at: '2025-01-01T00:00:00Z',
+            updated_at: '2025-01-01T00:00:00Z',
+        },
+        {
+            id: 'deck-2',
+            name: 'History',
+            description: 'World history',
+            flashcard_count: 3,
+            created_at: '2025-01-01T00:00:00Z',
+            updated_at: '2025-01-01T00:00:00Z',
+        },
+    ];
+
+    const defaultProps = {
+        decks: mockDecks,
+        value: null,
+        onChange: vi.fn(),
+        label: 'Deck',
+        emptyOptionLabel: 'All decks',
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should render the empty option and each deck with its flashcard count', () => {
+        render(<DeckSelect {...defaultProps} />);
+
+        expect(screen.getByRole('option', {name: 'All decks'})).toBeInTheDocument();
+        expect(screen.getByRole('option', {name: 'Biology (12)'})).toBeInTheDocument();
+        expect(screen.getByRole('option', {name: 'History (3)'})).toBeInTheDocument();
+        expect(screen.getByLabelText('Deck')).toHaveValue('');
+    });
+
+    it('should call onChange with the selected deck id', async () => {
+        const user = userEvent.setup();
+        render(<DeckSelect {...defaultProps} />);
+
+        await user.selectOptions(screen.getByLabelText('Deck'), 'deck-2');
+
+        expect(defaultProps.onChange).toHaveBeenCalledWith('deck-2');
+    });
+
+    it('should call onChange with null when the empty option is selected', async () => {
+        const user = userEvent.setup();
+        render(<DeckSelect {...defaultProps} value="deck-1"/>);
+
+        await user.selectOptions(screen.getByLabelText('Deck'), '');
+
+        expect(defaultProps.onChange).toHaveBeenCalledWith(null);
+    });
+});
@@ -9,7 +9,12 @@ describe('DeleteFlashcardDialog', () => {
         id: 'test-id-123',
         front: 'What is TypeScript?',
         back: 'A typed superset of JavaScript',
+        card_type: 'basic',
         source: 'manual',
+        deck_id: null,
+        tags: [],
+        media: [],
+        audio: [],
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
     };
@@ -18,7 +23,12 @@ describe('DeleteFlashcardDialog', () => {
         id: 'test-id-456',
         front: 'A'.repeat(150), // 150 characters
         back: 'B'.repeat(150), // 150 characters
+        card_type: 'basic',
         source: 'manual',
+        deck_id: null,
+        tags: [],
+        media: [],
+        audio: [],
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
     };
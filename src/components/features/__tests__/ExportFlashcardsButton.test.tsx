@@ -0,0 +1,28 @@
+import {describe, expect, it} from 'vitest';
+import {render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {ExportFlashcardsButton} from '../ExportFlashcardsButton';
+
+describe('ExportFlashcardsButton', () => {
+    it('should link to a CSV export of all flashcards by default', () => {
+        render(<ExportFlashcardsButton deckId={null} tags={[]} searchQuery=""/>);
+
+        const link = screen.getByRole('link', {name: /export/i});
+        expect(link).toHaveAttribute('href', '/api/flashcards/export?format=csv');
+        expect(link).toHaveAttribute('download');
+    });
+
+    it('should pass the current filters and the selected format', async () => {
+        const user = userEvent.setup();
+        render(<ExportFlashcardsButton deckId="deck-1" tags={['hard', 'exam-1']} searchQuery="react hooks"/>);
+
+        await user.selectOptions(screen.getByLabelText('Export format'), 'anki-txt');
+
+        const href = screen.getByRole('link', {name: /export/i}).getAttribute('href') ?? '';
+        const params = new URLSearchParams(href.split('?')[1]);
+        expect(params.get('format')).toBe('anki-txt');
+        expect(params.get('deck_id')).toBe('deck-1');
+        expect(params.get('tags')).toBe('hard,exam-1');
+        expect(params.get('q')).toBe('react hooks');
+    });
+});
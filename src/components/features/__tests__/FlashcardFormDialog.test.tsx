@@ -9,7 +9,12 @@ describe('FlashcardFormDialog', () => {
         id: 'test-id-123',
         front: 'What is React?',
         back: 'A JavaScript library for building user interfaces',
+        card_type: 'basic',
         source: 'manual',
+        deck_id: null,
+        tags: [],
+        media: [],
+        audio: [],
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
     };
@@ -73,7 +78,9 @@ describe('FlashcardFormDialog', () => {
                 expect(mockOnSubmit).toHaveBeenCalledWith({
                     front: 'What is TypeScript?',
                     back: 'A typed superset of JavaScript',
+                    card_type: 'basic',
                     source: 'manual',
+                    tags: [],
                 } as CreateFlashcardCommand);
             });
         });
@@ -317,7 +324,12 @@ describe('FlashcardFormDialog', () => {
                 id: 'new-id',
                 front: 'New question',
                 back: 'New answer',
+                card_type: 'basic',
                 source: 'manual',
+                deck_id: null,
+                tags: [],
+                media: [],
+                audio: [],
                 created_at: '2025-01-01T00:00:00Z',
                 updated_at: '2025-01-01T00:00:00Z',
             };
@@ -369,6 +381,8 @@ describe('FlashcardFormDialog', () => {
                 expect(mockOnSubmit).toHaveBeenCalledWith({
                     front: 'Updated question',
                     back: 'Updated answer',
+                    card_type: 'basic',
+                    tags: [],
                 } as UpdateFlashcardCommand);
             });
 
@@ -416,4 +430,101 @@ describe('FlashcardFormDialog', () => {
             resolveSubmit!(true);
         });
     });
+
+    describe('edits tags', () => {
+        it('should prefill tags in edit mode and submit the updated list', async () => {
+            const user = userEvent.setup();
+            const mockOnSubmit = vi.fn().mockResolvedValue(true);
+            const taggedFlashcard: FlashcardDTO = {...mockFlashcard, tags: ['frontend', 'hard']};
+
+            render(<FlashcardFormDialog {...defaultProps} flashcard={taggedFlashcard} onSubmit={mockOnSubmit}/>);
+
+            expect(screen.getByText('frontend')).toBeInTheDocument();
+            expect(screen.getByText('hard')).toBeInTheDocument();
+
+            await user.click(screen.getByRole('button', {name: 'Remove tag hard'}));
+            await user.type(screen.getByLabelText('Tags'), 'Exam 1{Enter}');
+            await user.click(screen.getByRole('button', {name: 'Update'}));
+
+            await waitFor(() => {
+                expect(mockOnSubmit).toHaveBeenCalledWith({
+                    front: 'What is React?',
+                    back: 'A JavaScript library for building user interfaces',
+                    card_type: 'basic',
+                    tags: ['frontend', 'exam-1'],
+                } as UpdateFlashcardCommand);
+            });
+        });
+    });
+
+    describe('creates cloze notes', () => {
+        it('should validate deletions and submit a cloze note without a back', async () => {
+            const user = userEvent.setup();
+            const mockOnSubmit = vi.fn().mockResolvedValue(true);
+
+            render(<FlashcardFormDialog {...defaultProps} onSubmit={mockOnSubmit}/>);
+
+            await user.click(screen.getByRole('button', {name: 'Cloze'}));
+            const textTextarea = screen.getByLabelText(/^Text/);
+
+            await user.type(textTextarea, 'Paris is the capital');
+            await user.click(screen.getByRole('button', {name: 'Create'}));
+
+            expect(await screen.findByText(/at least one deletion/)).toBeInTheDocument();
+            expect(mockOnSubmit).not.toHaveBeenCalled();
+
+            await user.clear(textTextarea);
+            await user.type(textTextarea, '{{{{c1::Paris}} is the capital');
+            expect(screen.getByTitle('Cloze 1')).toHaveTextContent('Paris');
+
+            await user.click(screen.getByRole('button', {name: 'Create'}));
+
+            await waitFor(() => {
+                expect(mockOnSubmit).toHaveBeenCalledWith({
+                    front: '{{c1::Paris}} is the capital',
+                    back: '',
+                    card_type: 'cloze',
+                    source: 'manual',
+                    tags: [],
+                } as CreateFlashcardCommand);
+            });
+        });
+    });
+    describe('image attachments', () => {
+        it('should show image fields when editing with media handlers', () => {
+            render(
+                <FlashcardFormDialog
+                    {...defaultProps}
+                    flashcard={mockFlashcard}
+                    onUploadMedia={vi.fn()}
+                    onDeleteMedia={vi.fn()}
+                />
+            );
+
+            expect(screen.getByLabelText('Front image')).toBeInTheDocument();
+            expect(screen.getByLabelText('Back image')).toBeInTheDocument();
+        });
+
+        it('should show audio fields when editing with audio handlers', () => {
+            render(
+                <FlashcardFormDialog
+                    {...defaultProps}
+                    flashcard={mockFlashcard}
+                    onUploadAudio={vi.fn()}
+                    onDeleteAudio={vi.fn()}
+                />
+            );
+
+            expect(screen.getByLabelText('Front audio')).toBeInTheDocument();
+            expect(screen.getByLabelText('Back audio')).toBeInTheDocument();
+            expect(screen.queryByLabelText('Front image')).not.toBeInTheDocument();
+        });
+
+        it('should explain that images are attached after creating the flashcard', () => {
+            render(<FlashcardFormDialog {...defaultProps} onUploadMedia={vi.fn()} onDeleteMedia={vi.fn()}/>);
+
+            expect(screen.queryByLabelText('Front image')).not.toBeInTheDocument();
+            expect(screen.getByText('Images can be attached once the flashcard is created.')).toBeInTheDocument();
+        });
+    });
 });
@@ -0,0 +1,63 @@
+import {describe, expect, it, vi} from 'vitest';
+import {render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {FlashcardMediaField} from '../FlashcardMediaField';
+import type {FlashcardMediaDTO} from '@/types';
+
+describe('FlashcardMediaField', () => {
+    const image = (id: string): FlashcardMediaDTO => ({
+        id,
+        side: 'back',
+        mime_type: 'image/png',
+        size_bytes: 100,
+        created_at: '2025-01-01T00:00:00Z',
+        url: `https://storage.test/${id}.png`,
+    });
+
+    it('should upload a picked image for its side', async () => {
+        const user = userEvent.setup();
+        const onUpload = vi.fn().mockResolvedValue(true);
+        render(<FlashcardMediaField side="back" media={[]} onUpload={onUpload} onRemove={vi.fn()}/>);
+
+        const file = new File(['png'], 'heart.png', {type: 'image/png'});
+        await user.upload(screen.getByLabelText('Back image'), file);
+
+        expect(onUpload).toHaveBeenCalledWith('back', file);
+    });
+
+    it('should not upload unsupported files', async () => {
+        const user = userEvent.setup({applyAccept: false});
+        const onUpload = vi.fn();
+        render(<FlashcardMediaField side="front" media={[]} onUpload={onUpload} onRemove={vi.fn()}/>);
+
+        await user.upload(screen.getByLabelText('Front image'), new File(['<svg/>'], 'icon.svg', {type: 'image/svg+xml'}));
+
+        expect(onUpload).not.toHaveBeenCalled();
+        expect(screen.getByText('Only PNG, JPEG, WebP and GIF images are supported')).toBeInTheDocument();
+    });
+
+    it('should remove an image', async () => {
+        const user = userEvent.setup();
+        const onRemove = vi.fn().mockResolvedValue(true);
+        const media = [image('media-1')];
+        render(<FlashcardMediaField side="back" media={media} onUpload={vi.fn()} onRemove={onRemove}/>);
+
+        await user.click(screen.getByRole('button', {name: 'Remove back image 1'}));
+
+        expect(onRemove).toHaveBeenCalledWith(media[0]);
+    });
+
+    it('should not add images to a full side', () => {
+        render(
+            <FlashcardMediaField
+                side="back"
+                media={['1', '2', '3', '4'].map(image)}
+                onUpload={vi.fn()}
+                onRemove={vi.fn()}
+            />
+        );
+
+        expect(screen.getByRole('button', {name: /add image/i})).toBeDisabled();
+        expect(screen.getByText('At most 4 images')).toBeInTheDocument();
+    });
+});
@@ -9,14 +9,20 @@ describe('FlashcardSuggestionItem', () => {
         id: 'suggestion-1',
         front: 'What is React?',
         back: 'A JavaScript library for building user interfaces',
+        card_type: 'basic',
         isSelected: true,
+        isEdited: false,
+        tags: [],
     };
 
     const mockUnselectedSuggestion: FlashcardSuggestionViewModel = {
         id: 'suggestion-2',
         front: 'What is TypeScript?',
         back: 'A typed superset of JavaScript',
+        card_type: 'basic',
         isSelected: false,
+        isEdited: false,
+        tags: [],
     };
 
     const defaultProps = {
@@ -294,7 +300,10 @@ describe('FlashcardSuggestionItem', () => {
                 id: 'empty-suggestion',
                 front: '',
                 back: '',
+                card_type: 'basic',
                 isSelected: false,
+                isEdited: false,
+                tags: [],
             };
 
             render(<FlashcardSuggestionItem {...defaultProps} suggestion={emptySuggestion}/>);
@@ -309,7 +318,10 @@ describe('FlashcardSuggestionItem', () => {
                 id: 'long-suggestion',
                 front: 'A'.repeat(1000),
                 back: 'B'.repeat(1000),
+                card_type: 'basic',
                 isSelected: true,
+                isEdited: false,
+                tags: [],
             };
 
             render(<FlashcardSuggestionItem {...defaultProps} suggestion={longTextSuggestion}/>);
@@ -326,7 +338,10 @@ describe('FlashcardSuggestionItem', () => {
                 id: 'special-char',
                 front: 'What is <React> & "JSX"?',
                 back: 'It\'s a library with special chars: & < > " \'',
+                card_type: 'basic',
                 isSelected: false,
+                isEdited: false,
+                tags: [],
             };
 
             render(<FlashcardSuggestionItem {...defaultProps} suggestion={specialCharSuggestion}/>);
@@ -0,0 +1,54 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {fireEvent, render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {GenerationSettingsFields, parseCardCount} from '../GenerationSettingsFields';
+
+describe('GenerationSettingsFields', () => {
+    const onChange = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should show the server defaults when nothing is set', () => {
+        render(<GenerationSettingsFields value={{}} onChange={onChange} />);
+
+        expect(screen.getByLabelText('Cards')).toHaveValue(null);
+        expect(screen.getByLabelText('Difficulty')).toHaveValue('');
+        expect(screen.getByLabelText('Card style')).toHaveValue('qa');
+        expect(screen.getByLabelText('Language')).toHaveValue('');
+        expect(screen.getByRole('option', {name: 'Polish'})).toBeInTheDocument();
+    });
+
+    it('should report changed settings', async () => {
+        const user = userEvent.setup();
+        render(<GenerationSettingsFields value={{card_count: 10}} onChange={onChange} />);
+
+        await user.selectOptions(screen.getByLabelText('Card style'), 'true_false');
+        expect(onChange).toHaveBeenLastCalledWith({card_count: 10, card_style: 'true_false'});
+
+        await user.selectOptions(screen.getByLabelText('Language'), 'de');
+        expect(onChange).toHaveBeenLastCalledWith({card_count: 10, language: 'de'});
+
+        fireEvent.change(screen.getByLabelText('Cards'), {target: {value: ''}});
+        expect(onChange).toHaveBeenLastCalledWith({card_count: undefined});
+    });
+
+    it('should disable every field', () => {
+        render(<GenerationSettingsFields value={{}} onChange={onChange} disabled />);
+
+        for (const label of ['Cards', 'Difficulty', 'Card style', 'Language']) {
+            expect(screen.getByLabelText(label)).toBeDisabled();
+        }
+    });
+});
+
+describe('parseCardCount', () => {
+    it('should clamp and round counts and leave empty input to the model', () => {
+        expect(parseCardCount('12')).toBe(12);
+        expect(parseCardCount('7.6')).toBe(8);
+        expect(parseCardCount('0')).toBe(1);
+        expect(parseCardCount('100')).toBe(30);
+        expect(parseCardCount('')).toBeUndefined();
+    });
+});
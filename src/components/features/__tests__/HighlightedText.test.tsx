@@ -0,0 +1,38 @@
+import {describe, expect, it} from 'vitest';
+import {render} from '@testing-library/react';
+import {HighlightedText} from '../HighlightedText';
+
+describe('HighlightedText', () => {
+    const getMarks = (container: HTMLElement) =>
+        Array.from(container.querySelectorAll('mark')).map((mark) => mark.textContent);
+
+    it('should render plain text when the query is empty', () => {
+        const {container} = render(<HighlightedText text="What is React?" query=""/>);
+
+        expect(container.textContent).toBe('What is React?');
+        expect(getMarks(container)).toEqual([]);
+    });
+
+    it('should highlight every term case-insensitively', () => {
+        const {container} = render(
+            <HighlightedText text="React hooks let React components use state" query="react STATE"/>
+        );
+
+        expect(container.textContent).toBe('React hooks let React components use state');
+        expect(getMarks(container)).toEqual(['React', 'React', 'state']);
+    });
+
+    it('should ignore quotes, or operators and excluded terms', () => {
+        const {container} = render(
+            <HighlightedText text="Cell biology or chemistry of the cell" query={'"cell biology" or -chemistry'}/>
+        );
+
+        expect(getMarks(container)).toEqual(['Cell', 'biology', 'cell']);
+    });
+
+    it('should treat regex characters in the query literally', () => {
+        const {container} = render(<HighlightedText text="Use a+b or (c)" query="a+b (c)"/>);
+
+        expect(getMarks(container)).toEqual(['a+b', '(c)']);
+    });
+});
@@ -0,0 +1,63 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {render, screen, waitFor} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {ImportFlashcardsDialog} from '../ImportFlashcardsDialog';
+import type {ImportFlashcardsResponseDTO} from '@/types';
+
+describe('ImportFlashcardsDialog', () => {
+    const defaultProps = {
+        open: true,
+        onOpenChange: vi.fn(),
+        deckId: null,
+        onImport: vi.fn(),
+    };
+
+    const file = new File(['front,back\nQ,A\n'], 'cards.csv', {type: 'text/csv'});
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should disable import until a file is selected', () => {
+        render(<ImportFlashcardsDialog {...defaultProps} />);
+
+        expect(screen.getByRole('button', {name: 'Import'})).toBeDisabled();
+    });
+
+    it('should send the file with only the options that were set', async () => {
+        const user = userEvent.setup();
+        const onImport = vi.fn().mockResolvedValue({imported: 1, failed: 0, errors: []});
+        render(<ImportFlashcardsDialog {...defaultProps} deckId="deck-1" onImport={onImport}/>);
+
+        await user.upload(screen.getByLabelText(/File/), file);
+        await user.type(screen.getByLabelText('Delimiter'), ';');
+        await user.type(screen.getByLabelText('Answer column'), '3');
+        await user.click(screen.getByRole('button', {name: 'Import'}));
+
+        await waitFor(() => expect(onImport).toHaveBeenCalledTimes(1));
+        const formData: FormData = onImport.mock.calls[0][0];
+        expect((formData.get('file') as File).name).toBe('cards.csv');
+        expect(formData.get('delimiter')).toBe(';');
+        expect(formData.get('back_column')).toBe('3');
+        expect(formData.get('deck_id')).toBe('deck-1');
+        expect(formData.has('format')).toBe(false);
+        expect(formData.has('front_column')).toBe(false);
+    });
+
+    it('should show the import summary with row errors', async () => {
+        const user = userEvent.setup();
+        const result: ImportFlashcardsResponseDTO = {
+            imported: 2,
+            failed: 1,
+            errors: [{row: 4, field: 'front', message: 'Front must be at least 1 character'}],
+        };
+        render(<ImportFlashcardsDialog {...defaultProps} onImport={vi.fn().mockResolvedValue(result)}/>);
+
+        await user.upload(screen.getByLabelText(/File/), file);
+        await user.click(screen.getByRole('button', {name: 'Import'}));
+
+        expect(await screen.findByText('Imported 2 flashcards, 1 row error.')).toBeInTheDocument();
+        expect(screen.getByText('Row 4 (front): Front must be at least 1 character')).toBeInTheDocument();
+        expect(screen.queryByRole('button', {name: 'Cancel'})).not.toBeInTheDocument();
+    });
+});
@@ -0,0 +1,63 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {describeModel, ModelSelect} from '../ModelSelect';
+import type {AiModelDTO} from '@/types';
+
+describe('ModelSelect', () => {
+    const mockModels: AiModelDTO[] = [
+        {
+            id: 'openai/gpt-4o-mini',
+            label: 'GPT-4o mini',
+            context_window: 128000,
+            input_cost_per_token: 0.00000015,
+            output_cost_per_token: 0.0000006,
+        },
+        {
+            id: 'openai/gpt-4o',
+            label: 'GPT-4o',
+            context_window: 128000,
+            input_cost_per_token: 0.0000025,
+            output_cost_per_token: 0.00001,
+        },
+    ];
+
+    const defaultProps = {
+        models: mockModels,
+        value: 'openai/gpt-4o-mini',
+        onChange: vi.fn(),
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should render each model with its context window and cost', () => {
+        render(<ModelSelect {...defaultProps} />);
+
+        expect(screen.getByRole('option', {name: 'GPT-4o mini (128K context, $0.15 / $0.6 per 1M tokens)'})).toBeInTheDocument();
+        expect(screen.getByRole('option', {name: 'GPT-4o (128K context, $2.5 / $10 per 1M tokens)'})).toBeInTheDocument();
+        expect(screen.getByLabelText('Model')).toHaveValue('openai/gpt-4o-mini');
+    });
+
+    it('should call onChange with the selected model id', async () => {
+        const user = userEvent.setup();
+        render(<ModelSelect {...defaultProps} />);
+
+        await user.selectOptions(screen.getByLabelText('Model'), 'openai/gpt-4o');
+
+        expect(defaultProps.onChange).toHaveBeenCalledWith('openai/gpt-4o');
+    });
+
+    it('should only show the label of local models', () => {
+        expect(
+            describeModel({
+                id: 'llama3.2',
+                label: 'llama3.2',
+                context_window: null,
+                input_cost_per_token: 0,
+                output_cost_per_token: 0,
+            })
+        ).toBe('llama3.2');
+    });
+});
@@ -0,0 +1,85 @@
+import {describe, expect, it} from 'vitest';
+import {render, screen} from '@testing-library/react';
+import {RichText} from '../RichText';
+
+describe('RichText', () => {
+    it('should render Markdown', () => {
+        const {container} = render(<RichText text={'The **cell** has:\n\n- a nucleus\n- mitochondria'}/>);
+
+        expect(container.querySelector('strong')).toHaveTextContent('cell');
+        expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    });
+
+    it('should keep single line breaks', () => {
+        const {container} = render(<RichText text={'First line\nSecond line'}/>);
+
+        expect(container.querySelector('br')).toBeInTheDocument();
+    });
+
+    it('should highlight fenced code blocks', () => {
+        const {container} = render(<RichText text={'```python\ndef add(a, b):\n    return a + b\n```'}/>);
+
+        const code = container.querySelector('pre code');
+        expect(code).toHaveClass('hljs', 'language-python');
+        expect(code?.querySelector('.hljs-keyword')).toHaveTextContent('def');
+    });
+
+    it('should render inline and display math with KaTeX', () => {
+        const {container} = render(<RichText text={'Area $\\pi r^2$\n\n$$\n\\int_0^1 x\\,dx\n$$'}/>);
+
+        expect(container.querySelectorAll('.katex')).toHaveLength(2);
+        expect(container.querySelector('.katex-display')).toBeInTheDocument();
+        expect(container.querySelector('.katex-mathml')).toBeInTheDocument();
+    });
+
+    it('should not render raw HTML', () => {
+        const {container} = render(
+            <RichText text={'<script>alert(1)</script><img src="x" onerror="alert(1)">\n\n<b>bold</b> text'}/>
+        );
+
+        expect(container.querySelector('script')).not.toBeInTheDocument();
+        expect(container.querySelector('img')).not.toBeInTheDocument();
+        expect(container.querySelector('b')).not.toBeInTheDocument();
+        expect(container).toHaveTextContent('bold text');
+    });
+
+    it('should only link to http(s) and mailto URLs', () => {
+        render(<RichText text={'[docs](https://example.com) and [click](javascript:alert(1))'}/>);
+
+        expect(screen.getByRole('link', {name: 'docs'})).toHaveAttribute('href', 'https://example.com');
+        expect(screen.getByRole('link', {name: 'docs'})).toHaveAttribute('rel', 'noopener noreferrer nofollow');
+        expect(screen.queryByRole('link', {name: 'click'})).not.toBeInTheDocument();
+        expect(screen.getByText('click')).toBeInTheDocument();
+    });
+
+    it('should hide the deletion of a cloze card until revealed', () => {
+        const text = '**{{c1::Mitochondria}}** produce {{c2::ATP}}';
+        const {rerender} = render(<RichText text={text} cloze={{cardIndex: 1, revealed: false}}/>);
+
+        expect(screen.getByLabelText('Hidden answer')).toHaveTextContent('[...]');
+        expect(screen.queryByText('Mitochondria')).not.toBeInTheDocument();
+        expect(screen.getByText(/ATP/)).toBeInTheDocument();
+
+        rerender(<RichText text={text} cloze={{cardIndex: 1, revealed: true}}/>);
+
+        expect(screen.getByTitle('Cloze 1')).toHaveTextContent('Mitochondria');
+    });
+
+    it('should not reveal a hidden deletion inside code', () => {
+        const {container} = render(
+            <RichText text={'```js\nconst x = {{c1::42}};\n```'} cloze={{cardIndex: 1, revealed: false}}/>
+        );
+
+        expect(container).not.toHaveTextContent('42');
+        expect(container).toHaveTextContent('const x = [...];');
+    });
+
+    it('should highlight search terms', () => {
+        const {container} = render(<RichText text={'React **hooks** use state'} query="hooks state"/>);
+
+        const marks = container.querySelectorAll('mark');
+        expect(marks).toHaveLength(2);
+        expect(marks[0]).toHaveTextContent('hooks');
+        expect(marks[1]).toHaveTextContent('state');
+    });
+});
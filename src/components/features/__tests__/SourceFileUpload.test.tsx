@@ -0,0 +1,29 @@
+import {describe, expect, it, vi} from 'vitest';
+import {render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {SourceFileUpload} from '../SourceFileUpload';
+
+describe('SourceFileUpload', () => {
+    it('should pass the picked file to onFileSelected', async () => {
+        const user = userEvent.setup();
+        const onFileSelected = vi.fn();
+        render(<SourceFileUpload onFileSelected={onFileSelected} isExtracting={false}/>);
+
+        const file = new File(['# Notes'], 'notes.md', {type: 'text/markdown'});
+        await user.upload(screen.getByTestId('source-file-input'), file);
+
+        expect(onFileSelected).toHaveBeenCalledWith(file);
+    });
+
+    it('should only accept supported document types', () => {
+        render(<SourceFileUpload onFileSelected={vi.fn()} isExtracting={false}/>);
+
+        expect(screen.getByTestId('source-file-input')).toHaveAttribute('accept', '.pdf,.docx,.md,.markdown,.html,.htm');
+    });
+
+    it('should disable the button while a file is being read', () => {
+        render(<SourceFileUpload onFileSelected={vi.fn()} isExtracting={true}/>);
+
+        expect(screen.getByRole('button', {name: /reading file/i})).toBeDisabled();
+    });
+});
@@ -0,0 +1,125 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {StudyCard} from '../StudyCard';
+import type {DueFlashcardDTO} from '@/types';
+
+describe('StudyCard', () => {
+    const mockFlashcard: DueFlashcardDTO = {
+        id: 'flashcard-1',
+        front: 'What is spaced repetition?',
+        back: 'A learning technique that increases intervals between reviews',
+        card_type: 'basic',
+        card_index: 0,
+        media: [],
+        audio: [],
+        progress: {
+            ease_factor: 2.5,
+            interval: 0,
+            repetitions: 0,
+            next_review_date: '2025-01-01T00:00:00.000Z',
+        },
+    };
+
+    const onFlip = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should show only the front before flipping', () => {
+        render(<StudyCard flashcard={mockFlashcard} isFlipped={false} onFlip={onFlip}/>);
+
+        expect(screen.getByText('What is spaced repetition?')).toBeInTheDocument();
+        expect(
+            screen.queryByText('A learning technique that increases intervals between reviews')
+        ).not.toBeInTheDocument();
+        expect(screen.getByRole('button', {name: 'Show answer'})).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('should show the back when flipped', () => {
+        render(<StudyCard flashcard={mockFlashcard} isFlipped={true} onFlip={onFlip}/>);
+
+        expect(screen.getByText('What is spaced repetition?')).toBeInTheDocument();
+        expect(
+            screen.getByText('A learning technique that increases intervals between reviews')
+        ).toBeInTheDocument();
+        expect(screen.getByRole('button', {name: 'Hide answer'})).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should call onFlip when clicked', async () => {
+        const user = userEvent.setup();
+        render(<StudyCard flashcard={mockFlashcard} isFlipped={false} onFlip={onFlip}/>);
+
+        await user.click(screen.getByRole('button', {name: 'Show answer'}));
+
+        expect(onFlip).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hide the deletion of a cloze card until flipped', () => {
+        const clozeCard: DueFlashcardDTO = {
+            ...mockFlashcard,
+            front: '{{c1::Mitochondria}} produce {{c2::ATP}}',
+            back: '',
+            card_type: 'cloze',
+            card_index: 2,
+        };
+
+        const {rerender} = render(<StudyCard flashcard={clozeCard} isFlipped={false} onFlip={onFlip}/>);
+
+        expect(screen.getByRole('button')).toHaveTextContent('Mitochondria produce [...]');
+        expect(screen.getByLabelText('Hidden answer')).toHaveTextContent('[...]');
+
+        rerender(<StudyCard flashcard={clozeCard} isFlipped={true} onFlip={onFlip}/>);
+
+        expect(screen.getByRole('button')).toHaveTextContent('Mitochondria produce ATP');
+        expect(screen.queryByLabelText('Hidden answer')).not.toBeInTheDocument();
+        expect(screen.queryByText('Extra')).not.toBeInTheDocument();
+    });
+
+    it('should show images of the back only when flipped', () => {
+        const cardWithImages: DueFlashcardDTO = {
+            ...mockFlashcard,
+            media: [
+                {id: 'media-1', side: 'front', mime_type: 'image/png', size_bytes: 100, created_at: '2025-01-01T00:00:00Z', url: 'https://storage.test/front.png'},
+                {id: 'media-2', side: 'back', mime_type: 'image/jpeg', size_bytes: 100, created_at: '2025-01-01T00:00:00Z', url: 'https://storage.test/back.jpg'},
+            ],
+        };
+
+        const {rerender} = render(<StudyCard flashcard={cardWithImages} isFlipped={false} onFlip={onFlip}/>);
+
+        expect(screen.getByAltText('Front image 1')).toHaveAttribute('src', 'https://storage.test/front.png');
+        expect(screen.queryByAltText('Back image 1')).not.toBeInTheDocument();
+
+        rerender(<StudyCard flashcard={cardWithImages} isFlipped={true} onFlip={onFlip}/>);
+
+        expect(screen.getByAltText('Back image 1')).toHaveAttribute('src', 'https://storage.test/back.jpg');
+    });
+    it('should offer audio of the back only when flipped without flipping the card', async () => {
+        const user = userEvent.setup();
+        const play = vi.spyOn(window.HTMLMediaElement.prototype, 'play').mockResolvedValue();
+        const pause = vi.spyOn(window.HTMLMediaElement.prototype, 'pause').mockImplementation(vi.fn());
+        const onSynthesize = vi.fn().mockResolvedValue({
+            id: 'audio-1', side: 'back', source: 'tts', mime_type: 'audio/wav', size_bytes: 100,
+            created_at: '2025-01-01T00:00:00Z', url: 'https://storage.test/back.wav',
+        });
+
+        const {rerender, unmount} = render(<StudyCard flashcard={mockFlashcard} isFlipped={false} onFlip={onFlip} onSynthesize={onSynthesize}/>);
+
+        expect(screen.getByRole('button', {name: 'Play front audio'})).toBeInTheDocument();
+        expect(screen.queryByRole('button', {name: 'Play back audio'})).not.toBeInTheDocument();
+
+        rerender(<StudyCard flashcard={mockFlashcard} isFlipped={true} onFlip={onFlip} onSynthesize={onSynthesize}/>);
+        await user.click(screen.getByRole('button', {name: 'Play back audio'}));
+
+        expect(onSynthesize).toHaveBeenCalledWith('back');
+        expect(play).toHaveBeenCalled();
+        expect(onFlip).not.toHaveBeenCalled();
+
+        // Unmounting stops the playing audio
+        unmount();
+        expect(pause).toHaveBeenCalled();
+        play.mockRestore();
+        pause.mockRestore();
+    });
+});
@@ -0,0 +1,65 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {render, screen} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {TagInput} from '../TagInput';
+
+describe('TagInput', () => {
+    const onChange = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should render existing tags', () => {
+        render(<TagInput tags={['biology', 'exam-1']} onChange={onChange}/>);
+
+        expect(screen.getByText('biology')).toBeInTheDocument();
+        expect(screen.getByText('exam-1')).toBeInTheDocument();
+    });
+
+    it('should add a normalized tag on Enter', async () => {
+        const user = userEvent.setup();
+        render(<TagInput tags={['biology']} onChange={onChange}/>);
+
+        await user.type(screen.getByLabelText('Tags'), '  Cell Biology {Enter}');
+
+        expect(onChange).toHaveBeenCalledWith(['biology', 'cell-biology']);
+    });
+
+    it('should add a tag on comma', async () => {
+        const user = userEvent.setup();
+        render(<TagInput tags={[]} onChange={onChange}/>);
+
+        await user.type(screen.getByLabelText('Tags'), 'hard,');
+
+        expect(onChange).toHaveBeenCalledWith(['hard']);
+    });
+
+    it('should ignore duplicate tags', async () => {
+        const user = userEvent.setup();
+        render(<TagInput tags={['hard']} onChange={onChange}/>);
+
+        await user.type(screen.getByLabelText('Tags'), 'HARD{Enter}');
+
+        expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('should remove a tag when its remove button is clicked', async () => {
+        const user = userEvent.setup();
+        render(<TagInput tags={['biology', 'hard']} onChange={onChange}/>);
+
+        await user.click(screen.getByRole('button', {name: 'Remove tag biology'}));
+
+        expect(onChange).toHaveBeenCalledWith(['hard']);
+    });
+
+    it('should remove the last tag on Backspace in an empty input', async () => {
+        const user = userEvent.setup();
+        render(<TagInput tags={['biology', 'hard']} onChange={onChange}/>);
+
+        await user.click(screen.getByLabelText('Tags'));
+        await user.keyboard('{Backspace}');
+
+        expect(onChange).toHaveBeenCalledWith(['biology']);
+    });
+});
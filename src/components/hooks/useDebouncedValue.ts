@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Returns the value once it stopped changing for the given delay
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+	const [debouncedValue, setDebouncedValue] = useState<T>(value);
+
+	useEffect(() => {
+		const timeoutId = setTimeout(() => setDebouncedValue(value), delayMs);
+		return () => clearTimeout(timeoutId);
+	}, [value, delayMs]);
+
+	return debouncedValue;
+}
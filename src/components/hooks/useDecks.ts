@@ -0,0 +1,75 @@
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import type { CreateDeckCommand, DeckDTO, DeckListResponseDTO } from '@/types';
+
+export function useDecks() {
+	const [decks, setDecks] = useState<DeckDTO[]>([]);
+	const [isLoading, setIsLoading] = useState<boolean>(true);
+
+	// Fetch decks from API
+	const fetchDecks = useCallback(async () => {
+		setIsLoading(true);
+
+		try {
+			const response = await fetch('/api/decks');
+
+			if (!response.ok) {
+				toast.error('Load Failed', { description: 'Failed to load decks.' });
+				return;
+			}
+
+			const data: DeckListResponseDTO = await response.json();
+			setDecks(data.data);
+		} catch (err) {
+			console.error('Error fetching decks:', err);
+			toast.error('Network Error', { description: 'Failed to load decks.' });
+		} finally {
+			setIsLoading(false);
+		}
+	}, []);
+
+	// Load decks on mount
+	useEffect(() => {
+		fetchDecks();
+	}, [fetchDecks]);
+
+	// Create a new deck, returns the created deck or null on failure
+	const createDeck = useCallback(async (command: CreateDeckCommand): Promise<DeckDTO | null> => {
+		try {
+			const response = await fetch('/api/decks', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(command),
+			});
+
+			if (!response.ok) {
+				if (response.status === 400) {
+					toast.error('Validation Error', { description: 'Deck name must be 1-100 characters.' });
+				} else if (response.status === 409) {
+					toast.error('Deck Exists', { description: 'A deck with this name already exists.' });
+				} else {
+					toast.error('Create Failed', { description: 'Failed to create deck.' });
+				}
+				return null;
+			}
+
+			const deck: DeckDTO = await response.json();
+			setDecks((prev) => [...prev, deck].sort((a, b) => a.name.localeCompare(b.name)));
+			toast.success('Deck Created', { description: `Deck "${deck.name}" has been created.` });
+			return deck;
+		} catch (err) {
+			console.error('Error creating deck:', err);
+			toast.error('Network Error', { description: 'Failed to create deck.' });
+			return null;
+		}
+	}, []);
+
+	return {
+		decks,
+		isLoading,
+		createDeck,
+		refetch: fetchDecks,
+	};
+}
@@ -1,10 +1,15 @@
 import { useState, useCallback, useEffect } from 'react';
 import { toast } from 'sonner';
 import type {
+	FlashcardAudioDTO,
 	FlashcardDTO,
 	FlashcardListResponseDTO,
+	FlashcardMediaDTO,
+	FlashcardSide,
 	CreateFlashcardCommand,
 	UpdateFlashcardCommand,
+	ImportFlashcardsResponseDTO,
+	ImportRowErrorDTO,
 } from '@/types';
 
 export function useFlashcards() {
@@ -18,6 +23,11 @@ export function useFlashcards() {
 	const [total, setTotal] = useState<number>(0);
 	const [totalPages, setTotalPages] = useState<number>(0);
 
+	// Filter state
+	const [deckId, setDeckId] = useState<string | null>(null);
+	const [tagFilter, setTagFilter] = useState<string[]>([]);
+	const [searchQuery, setSearchQuery] = useState<string>('');
+
 	// Fetch flashcards from API
 	const fetchFlashcards = useCallback(async () => {
 		setIsLoading(true);
@@ -31,6 +41,18 @@ export function useFlashcards() {
 				order: 'desc',
 			});
 
+			if (deckId) {
+				queryParams.set('deck_id', deckId);
+			}
+
+			if (tagFilter.length > 0) {
+				queryParams.set('tags', tagFilter.join(','));
+			}
+
+			if (searchQuery) {
+				queryParams.set('q', searchQuery);
+			}
+
 			const response = await fetch(`/api/flashcards?${queryParams}`);
 
 			if (!response.ok) {
@@ -58,9 +80,9 @@ export function useFlashcards() {
 		} finally {
 			setIsLoading(false);
 		}
-	}, [page, limit]);
+	}, [page, limit, deckId, tagFilter, searchQuery]);
 
-	// Load flashcards on mount and when page changes
+	// Load flashcards on mount and when page or filters change
 	useEffect(() => {
 		fetchFlashcards();
 	}, [fetchFlashcards]);
@@ -139,6 +161,52 @@ export function useFlashcards() {
 		}
 	}, [fetchFlashcards]);
 
+	// Import flashcards from a file, row errors are returned so they can be shown to the user
+	const importFlashcards = useCallback(async (formData: FormData): Promise<ImportFlashcardsResponseDTO | null> => {
+		try {
+			const response = await fetch('/api/flashcards/import', {
+				method: 'POST',
+				body: formData,
+			});
+
+			if (!response.ok) {
+				const data = await response.json().catch(() => null);
+
+				if (response.status === 400 || response.status === 413) {
+					// No valid rows, report the row errors like a partial import
+					const details: ImportRowErrorDTO[] | undefined = data?.details;
+					if (details?.every((detail) => 'row' in detail)) {
+						toast.error('Import Failed', { description: 'No valid flashcards found in file.' });
+						return { imported: 0, failed: details.length, errors: details };
+					}
+
+					toast.error('Validation Error', {
+						description: data?.details?.[0]?.message ?? 'Please check the file and import options.',
+					});
+				} else if (response.status === 401) {
+					toast.error('Unauthorized', { description: 'You must be logged in.' });
+				} else {
+					toast.error('Import Failed', { description: 'Failed to import flashcards.' });
+				}
+				return null;
+			}
+
+			const result: ImportFlashcardsResponseDTO = await response.json();
+
+			toast.success('Flashcards Imported', {
+				description: `Imported ${result.imported} flashcard${result.imported === 1 ? '' : 's'}${result.failed > 0 ? `, ${result.failed} row errors` : ''}.`
+			});
+
+			// Refresh the list
+			await fetchFlashcards();
+			return result;
+		} catch (err) {
+			console.error('Error importing flashcards:', err);
+			toast.error('Network Error', { description: 'Failed to import flashcards.' });
+			return null;
+		}
+	}, [fetchFlashcards]);
+
 	// Delete a flashcard
 	const deleteFlashcard = useCallback(async (id: string): Promise<boolean> => {
 		try {
@@ -171,6 +239,170 @@ export function useFlashcards() {
 		}
 	}, [fetchFlashcards]);
 
+	// Attach an image to a flashcard side, the flashcard in the list is updated in place
+	const uploadMedia = useCallback(async (flashcardId: string, side: FlashcardSide, file: File): Promise<FlashcardMediaDTO | null> => {
+		try {
+			const formData = new FormData();
+			formData.set('file', file);
+			formData.set('side', side);
+
+			const response = await fetch(`/api/flashcards/${flashcardId}/media`, {
+				method: 'POST',
+				body: formData,
+			});
+
+			if (!response.ok) {
+				if (response.status === 400 || response.status === 413) {
+					const data = await response.json().catch(() => null);
+					toast.error('Upload Failed', { description: data?.details?.[0]?.message ?? 'Please check the image.' });
+				} else if (response.status === 404) {
+					toast.error('Not Found', { description: 'Flashcard not found.' });
+				} else if (response.status === 401) {
+					toast.error('Unauthorized', { description: 'You must be logged in.' });
+				} else {
+					toast.error('Upload Failed', { description: 'Failed to attach image.' });
+				}
+				return null;
+			}
+
+			const media: FlashcardMediaDTO = await response.json();
+			setFlashcards((current) =>
+				current.map((flashcard) =>
+					flashcard.id === flashcardId ? { ...flashcard, media: [...flashcard.media, media] } : flashcard
+				)
+			);
+			return media;
+		} catch (err) {
+			console.error('Error uploading image:', err);
+			toast.error('Network Error', { description: 'Failed to attach image.' });
+			return null;
+		}
+	}, []);
+
+	// Remove an image from a flashcard, the flashcard in the list is updated in place
+	const deleteMedia = useCallback(async (flashcardId: string, mediaId: string): Promise<boolean> => {
+		try {
+			const response = await fetch(`/api/flashcards/${flashcardId}/media/${mediaId}`, {
+				method: 'DELETE',
+			});
+
+			if (!response.ok) {
+				if (response.status === 404) {
+					toast.error('Not Found', { description: 'Image not found.' });
+				} else if (response.status === 401) {
+					toast.error('Unauthorized', { description: 'You must be logged in.' });
+				} else {
+					toast.error('Remove Failed', { description: 'Failed to remove image.' });
+				}
+				return false;
+			}
+
+			setFlashcards((current) =>
+				current.map((flashcard) =>
+					flashcard.id === flashcardId
+						? { ...flashcard, media: flashcard.media.filter((media) => media.id !== mediaId) }
+						: flashcard
+				)
+			);
+			return true;
+		} catch (err) {
+			console.error('Error removing image:', err);
+			toast.error('Network Error', { description: 'Failed to remove image.' });
+			return false;
+		}
+	}, []);
+
+	// Attach an audio clip to a flashcard, the flashcard in the list is updated in place
+	const uploadAudio = useCallback(async (flashcardId: string, side: FlashcardSide, file: File): Promise<FlashcardAudioDTO | null> => {
+		try {
+			const formData = new FormData();
+			formData.set('file', file);
+			formData.set('side', side);
+
+			const response = await fetch(`/api/flashcards/${flashcardId}/audio`, {
+				method: 'POST',
+				body: formData,
+			});
+
+			if (!response.ok) {
+				if (response.status === 400 || response.status === 413) {
+					const data = await response.json().catch(() => null);
+					toast.error('Upload Failed', { description: data?.details?.[0]?.message ?? 'Please check the audio file.' });
+				} else if (response.status === 404) {
+					toast.error('Not Found', { description: 'Flashcard not found.' });
+				} else if (response.status === 401) {
+					toast.error('Unauthorized', { description: 'You must be logged in.' });
+				} else {
+					toast.error('Upload Failed', { description: 'Failed to attach audio.' });
+				}
+				return null;
+			}
+
+			const audio: FlashcardAudioDTO = await response.json();
+			setFlashcards((current) =>
+				current.map((flashcard) =>
+					flashcard.id === flashcardId ? { ...flashcard, audio: [...flashcard.audio, audio] } : flashcard
+				)
+			);
+			return audio;
+		} catch (err) {
+			console.error('Error uploading audio:', err);
+			toast.error('Network Error', { description: 'Failed to attach audio.' });
+			return null;
+		}
+	}, []);
+
+	// Remove an audio clip from a flashcard, the flashcard in the list is updated in place
+	const deleteAudio = useCallback(async (flashcardId: string, audioId: string): Promise<boolean> => {
+		try {
+			const response = await fetch(`/api/flashcards/${flashcardId}/audio/${audioId}`, {
+				method: 'DELETE',
+			});
+
+			if (!response.ok) {
+				if (response.status === 404) {
+					toast.error('Not Found', { description: 'Audio clip not found.' });
+				} else if (response.status === 401) {
+					toast.error('Unauthorized', { description: 'You must be logged in.' });
+				} else {
+					toast.error('Remove Failed', { description: 'Failed to remove audio.' });
+				}
+				return false;
+			}
+
+			setFlashcards((current) =>
+				current.map((flashcard) =>
+					flashcard.id === flashcardId
+						? { ...flashcard, audio: flashcard.audio.filter((audio) => audio.id !== audioId) }
+						: flashcard
+				)
+			);
+			return true;
+		} catch (err) {
+			console.error('Error removing audio:', err);
+			toast.error('Network Error', { description: 'Failed to remove audio.' });
+			return false;
+		}
+	}, []);
+
+	// Filter by deck (null shows all flashcards), restarting from the first page
+	const filterByDeck = useCallback((newDeckId: string | null) => {
+		setDeckId(newDeckId);
+		setPage(1);
+	}, []);
+
+	// Filter by tags (flashcards must have all of them), restarting from the first page
+	const filterByTags = useCallback((newTags: string[]) => {
+		setTagFilter(newTags);
+		setPage(1);
+	}, []);
+
+	// Full-text search over front and back (empty shows all flashcards), restarting from the first page
+	const search = useCallback((query: string) => {
+		setSearchQuery(query.trim());
+		setPage(1);
+	}, []);
+
 	// Pagination handlers
 	const goToPage = useCallback((newPage: number) => {
 		if (newPage >= 1 && newPage <= totalPages) {
@@ -198,9 +430,20 @@ export function useFlashcards() {
 		limit,
 		total,
 		totalPages,
+		deckId,
+		filterByDeck,
+		tagFilter,
+		filterByTags,
+		searchQuery,
+		search,
 		createFlashcard,
 		updateFlashcard,
 		deleteFlashcard,
+		importFlashcards,
+		uploadMedia,
+		deleteMedia,
+		uploadAudio,
+		deleteAudio,
 		goToPage,
 		nextPage,
 		previousPage,
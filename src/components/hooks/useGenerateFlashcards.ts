@@ -1,38 +1,122 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { toast } from 'sonner';
 import type {
 	GenerateFlashcardsCommand,
-	GenerateFlashcardsResponseDTO,
+	GenerateFlashcardsStreamEvent,
 	FlashcardSuggestionDTO,
 	BatchCreateFlashcardCommand,
 	BatchCreateFlashcardResponseDTO,
+	ExtractTextResponseDTO,
+	GenerateFlashcardsFromUrlCommand,
+	GenerateFlashcardsFromUrlResponseDTO,
+	GenerationQuotaName,
+	GenerationSettingsCommand,
 } from '@/types';
+import { SseParser } from '@/lib/utils/sse';
+import { MAX_GENERATION_TEXT_LENGTH, MIN_GENERATION_TEXT_LENGTH } from '@/lib/utils/text-chunks';
 
 export type FlashcardSuggestionViewModel = FlashcardSuggestionDTO & {
 	id: string;
 	isSelected: boolean;
+	isEdited: boolean;
 };
 
-export function useGenerateFlashcards() {
+/**
+ * Chunks of a long text that are finished (including failed ones) out of all chunks
+ */
+export type GenerationProgress = {
+	completed: number;
+	failed: number;
+	total: number;
+};
+
+/**
+ * Generation quota closest to its limit, from the X-RateLimit-* headers of the last generation response
+ */
+export type GenerationQuotaStatus = {
+	name: GenerationQuotaName;
+	limit: number;
+	remaining: number;
+	resetAt: Date;
+};
+
+/**
+ * Read the X-RateLimit-* headers of a generation response
+ * @returns Quota status or null when the response has no rate limit headers
+ */
+export function readQuotaHeaders(headers: Headers): GenerationQuotaStatus | null {
+	const name = headers.get('X-RateLimit-Resource');
+	const limit = Number(headers.get('X-RateLimit-Limit'));
+	const remaining = Number(headers.get('X-RateLimit-Remaining'));
+	const reset = Number(headers.get('X-RateLimit-Reset'));
+
+	if (!name || !headers.has('X-RateLimit-Limit') || [limit, remaining, reset].some(Number.isNaN)) {
+		return null;
+	}
+
+	return { name: name as GenerationQuotaName, limit, remaining, resetAt: new Date(reset * 1000) };
+}
+
+/**
+ * No generation settings, the server defaults apply
+ */
+const DEFAULT_SETTINGS: GenerationSettingsCommand = {};
+
+/**
+ * @param model Model selected for generation, the server default is used when null
+ * @param settings Number, difficulty, style and language of the flashcards, sent with every generation
+ */
+export function useGenerateFlashcards(
+	model: string | null = null,
+	settings: GenerationSettingsCommand = DEFAULT_SETTINGS
+) {
 	const [text, setText] = useState<string>('');
 	const [suggestions, setSuggestions] = useState<FlashcardSuggestionViewModel[]>([]);
 	const [isLoading, setIsLoading] = useState<boolean>(false);
 	const [error, setError] = useState<string | null>(null);
+	const [deckId, setDeckId] = useState<string | null>(null);
+	const [isGenerating, setIsGenerating] = useState<boolean>(false);
+	const [generationId, setGenerationId] = useState<string | null>(null);
+	const [progress, setProgress] = useState<GenerationProgress | null>(null);
+	const [isExtracting, setIsExtracting] = useState<boolean>(false);
+	const [quota, setQuota] = useState<GenerationQuotaStatus | null>(null);
+	const [isCached, setIsCached] = useState<boolean>(false);
+	const abortControllerRef = useRef<AbortController | null>(null);
+
+	// Cancel a running generation when the component unmounts
+	useEffect(() => () => abortControllerRef.current?.abort(), []);
 
-	const handleGenerate = useCallback(async () => {
-		if (text.length < 1000 || text.length > 10000) {
-			const errorMsg = 'Text must be between 1,000 and 10,000 characters.';
+	// Generate suggestions from the text, force skips the suggestions cached for the same text
+	const handleGenerate = useCallback(async ({ force = false }: { force?: boolean } = {}) => {
+		if (text.length < MIN_GENERATION_TEXT_LENGTH || text.length > MAX_GENERATION_TEXT_LENGTH) {
+			const errorMsg = `Text must be between ${MIN_GENERATION_TEXT_LENGTH.toLocaleString('en-US')} and ${MAX_GENERATION_TEXT_LENGTH.toLocaleString('en-US')} characters.`;
 			setError(errorMsg);
 			toast.error('Validation Error', { description: errorMsg });
 			return;
 		}
 
+		const abortController = new AbortController();
+		abortControllerRef.current = abortController;
+
 		setIsLoading(true);
+		setIsGenerating(true);
 		setError(null);
+		setSuggestions([]);
+		setGenerationId(null);
+		setProgress(null);
+		setIsCached(false);
+
+		let received = 0;
+		let lastProgress: GenerationProgress | null = null;
+		let cached = false;
 
 		try {
 			const command: GenerateFlashcardsCommand = {
+				...settings,
 				text,
+				model: model ?? undefined,
+				stream: true,
+				force,
 			};
 
 			const response = await fetch('/api/ai/generate', {
@@ -41,17 +125,43 @@ export function useGenerateFlashcards() {
 					'Content-Type': 'application/json',
 				},
 				body: JSON.stringify(command),
+				signal: abortController.signal,
 			});
 
-			if (!response.ok) {
-				if (response.status === 400) {
-					const errorMsg = 'The provided text must be between 1,000 and 10,000 characters.';
+			setQuota((prev) => readQuotaHeaders(response.headers) ?? prev);
+
+			if (!response.ok || !response.body) {
+				if (response.status === 429) {
+					const body = await response.json().catch(() => null);
+					const errorMsg = body?.message ?? 'You have reached your generation limit. Please try again later.';
+					setError(errorMsg);
+					toast.error('Limit Reached', { description: errorMsg });
+				} else if (response.status === 400) {
+					const body = await response.json().catch(() => null);
+					const modelError = body?.details?.find((detail: { field: string }) => detail.field === 'model');
+					const settingsError = body?.details?.find((detail: { field: string }) => detail.field !== 'text');
+					const errorMsg = modelError
+						? 'The selected model is not available. Please choose another model.'
+						: settingsError
+							? settingsError.message
+							: `The provided text must be between ${MIN_GENERATION_TEXT_LENGTH.toLocaleString('en-US')} and ${MAX_GENERATION_TEXT_LENGTH.toLocaleString('en-US')} characters.`;
 					setError(errorMsg);
 					toast.error('Validation Error', { description: errorMsg });
 				} else if (response.status === 502 || response.status === 503) {
 					const errorMsg = 'The AI service is currently unavailable. Please try again later.';
 					setError(errorMsg);
 					toast.error('Service Unavailable', { description: errorMsg });
+				} else if (response.status === 500) {
+					const body = await response.json().catch(() => null);
+					if (body?.error === 'No suggestions generated') {
+						const errorMsg = 'Could not generate flashcards from the provided text. Please try a different text.';
+						setError(errorMsg);
+						toast.warning('No Results', { description: errorMsg });
+					} else {
+						const errorMsg = 'An unexpected error occurred. Please try again.';
+						setError(errorMsg);
+						toast.error('Generation Failed', { description: errorMsg });
+					}
 				} else {
 					const errorMsg = 'An unexpected error occurred. Please try again.';
 					setError(errorMsg);
@@ -60,39 +170,231 @@ export function useGenerateFlashcards() {
 				return;
 			}
 
-			const data: GenerateFlashcardsResponseDTO = await response.json();
+			// Append suggestions as the server streams them
+			const reader = response.body.getReader();
+			const decoder = new TextDecoder();
+			const parser = new SseParser();
+
+			while (true) {
+				const { value, done } = await reader.read();
+				if (done) {
+					break;
+				}
+
+				for (const sseEvent of parser.feed(decoder.decode(value, { stream: true }))) {
+					const event = { type: sseEvent.event, ...JSON.parse(sseEvent.data) } as GenerateFlashcardsStreamEvent;
+
+					if (event.type === 'start') {
+						setGenerationId(event.generation_id);
+					} else if (event.type === 'suggestion') {
+						received++;
+						setSuggestions((prev) => [
+							...prev,
+							{ ...event.suggestion, id: crypto.randomUUID(), isSelected: true, isEdited: false },
+						]);
+					} else if (event.type === 'progress') {
+						lastProgress = {
+							completed: event.completed_chunks,
+							failed: event.failed_chunks,
+							total: event.total_chunks,
+						};
+						setProgress(lastProgress);
+					} else if (event.type === 'done') {
+						cached = event.cached;
+						setIsCached(event.cached);
+					} else if (event.type === 'error') {
+						const errorMsg = received > 0
+							? 'Generation stopped early. The flashcards received so far are kept.'
+							: 'An unexpected error occurred. Please try again.';
+						setError(errorMsg);
+						toast.error('Generation Failed', { description: errorMsg });
+						return;
+					}
+				}
+			}
 
-			if (!data.suggestions || data.suggestions.length === 0) {
+			if (received === 0) {
 				const errorMsg = 'Could not generate flashcards from the provided text. Please try a different text.';
 				setError(errorMsg);
 				toast.warning('No Results', { description: errorMsg });
 				return;
 			}
 
-			// Transform DTOs to ViewModels with client-side IDs and selection state
-			const viewModels: FlashcardSuggestionViewModel[] = data.suggestions.map((suggestion) => ({
-				...suggestion,
-				id: crypto.randomUUID(),
-				isSelected: true,
-			}));
-
-			setSuggestions(viewModels);
 			toast.success('Flashcards Generated', {
-				description: `Successfully generated ${viewModels.length} flashcard suggestions`
+				description: cached
+					? `Reused ${received} flashcard suggestions generated earlier for this text`
+					: `Successfully generated ${received} flashcard suggestions`
 			});
+
+			if (lastProgress && lastProgress.failed > 0) {
+				toast.warning('Partially Generated', {
+					description: `${lastProgress.failed} of ${lastProgress.total} parts of the text could not be processed.`,
+				});
+			}
 		} catch (err) {
+			if (err instanceof DOMException && err.name === 'AbortError') {
+				toast.info('Generation Cancelled', {
+					description: received > 0 ? `Kept ${received} flashcard suggestion${received > 1 ? 's' : ''}` : undefined,
+				});
+				return;
+			}
+
 			console.error('Error generating flashcards:', err);
 			const errorMsg = 'An unexpected error occurred. Please check your connection and try again.';
 			setError(errorMsg);
 			toast.error('Network Error', { description: errorMsg });
 		} finally {
+			if (abortControllerRef.current === abortController) {
+				abortControllerRef.current = null;
+			}
+			setIsGenerating(false);
+			setIsLoading(false);
+		}
+	}, [text, model, settings]);
+
+	// Generate suggestions from the main content of a web page (not streamed)
+	const handleGenerateFromUrl = useCallback(async (url: string) => {
+		const abortController = new AbortController();
+		abortControllerRef.current = abortController;
+
+		setIsLoading(true);
+		setIsGenerating(true);
+		setError(null);
+		setSuggestions([]);
+		setGenerationId(null);
+		setProgress(null);
+		setIsCached(false);
+
+		try {
+			const command: GenerateFlashcardsFromUrlCommand = { ...settings, url, model: model ?? undefined };
+
+			const response = await fetch('/api/ai/generate-from-url', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(command),
+				signal: abortController.signal,
+			});
+
+			setQuota((prev) => readQuotaHeaders(response.headers) ?? prev);
+
+			if (!response.ok) {
+				const body = await response.json().catch(() => null);
+
+				if (response.status === 429) {
+					const errorMsg = body?.message ?? 'You have reached your generation limit. Please try again later.';
+					setError(errorMsg);
+					toast.error('Limit Reached', { description: errorMsg });
+				} else if (response.status === 400 || response.status === 422) {
+					const errorMsg = body?.details?.[0]?.message ?? body?.message ?? 'The page could not be read.';
+					setError(errorMsg);
+					toast.error('Invalid Page', { description: errorMsg });
+				} else if (response.status === 502 || response.status === 503) {
+					const errorMsg = 'The AI service is currently unavailable. Please try again later.';
+					setError(errorMsg);
+					toast.error('Service Unavailable', { description: errorMsg });
+				} else if (body?.error === 'No suggestions generated') {
+					const errorMsg = 'Could not generate flashcards from this page. Please try a different page.';
+					setError(errorMsg);
+					toast.warning('No Results', { description: errorMsg });
+				} else {
+					const errorMsg = 'An unexpected error occurred. Please try again.';
+					setError(errorMsg);
+					toast.error('Generation Failed', { description: errorMsg });
+				}
+				return;
+			}
+
+			const data: GenerateFlashcardsFromUrlResponseDTO = await response.json();
+
+			setGenerationId(data.generation_id);
+			setSuggestions(
+				data.suggestions.map((suggestion) => ({
+					...suggestion,
+					id: crypto.randomUUID(),
+					isSelected: true,
+					isEdited: false,
+				}))
+			);
+
+			toast.success('Flashcards Generated', {
+				description: `${data.cached ? 'Reused' : 'Generated'} ${data.suggestions.length} flashcard suggestions from ${data.source.title ?? data.source.url}${data.source.truncated ? ' (only the beginning of the page was used)' : ''}`,
+			});
+		} catch (err) {
+			if (err instanceof DOMException && err.name === 'AbortError') {
+				toast.info('Generation Cancelled');
+				return;
+			}
+
+			console.error('Error generating flashcards from URL:', err);
+			const errorMsg = 'An unexpected error occurred. Please check your connection and try again.';
+			setError(errorMsg);
+			toast.error('Network Error', { description: errorMsg });
+		} finally {
+			if (abortControllerRef.current === abortController) {
+				abortControllerRef.current = null;
+			}
+			setIsGenerating(false);
 			setIsLoading(false);
 		}
-	}, [text]);
+	}, [model, settings]);
+
+	// Replace the text with the text extracted from an uploaded document, so it can be reviewed before generating
+	const handleExtractFile = useCallback(async (file: File) => {
+		setIsExtracting(true);
+		setError(null);
+
+		try {
+			const formData = new FormData();
+			formData.append('file', file);
+
+			const response = await fetch('/api/ai/extract', {
+				method: 'POST',
+				body: formData,
+			});
+
+			if (!response.ok) {
+				const body = await response.json().catch(() => null);
+				const errorMsg =
+					response.status === 400 || response.status === 413 || response.status === 422
+						? (body?.details?.[0]?.message ?? body?.message ?? 'The file could not be read.')
+						: 'An unexpected error occurred while reading the file. Please try again.';
+				setError(errorMsg);
+				toast.error('Extraction Failed', { description: errorMsg });
+				return;
+			}
+
+			const data: ExtractTextResponseDTO = await response.json();
+			setText(data.text);
+
+			toast.success('Text Extracted', {
+				description: data.truncated
+					? `Text from ${data.file_name} was shortened to ${MAX_GENERATION_TEXT_LENGTH.toLocaleString('en-US')} characters. Review it before generating.`
+					: `Review the text from ${data.file_name} before generating.`,
+			});
+		} catch (err) {
+			console.error('Error extracting text:', err);
+			const errorMsg = 'An unexpected error occurred while reading the file. Please check your connection and try again.';
+			setError(errorMsg);
+			toast.error('Network Error', { description: errorMsg });
+		} finally {
+			setIsExtracting(false);
+		}
+	}, []);
+
+	// Stop a running generation, suggestions received so far stay in the list
+	const handleCancelGeneration = useCallback(() => {
+		abortControllerRef.current?.abort();
+	}, []);
 
 	const handleUpdateSuggestion = useCallback((id: string, newFront: string, newBack: string) => {
 		setSuggestions((prev) =>
-			prev.map((s) => (s.id === id ? { ...s, front: newFront, back: newBack } : s))
+			prev.map((s) =>
+				s.id === id
+					? { ...s, front: newFront, back: newBack, isEdited: s.isEdited || newFront !== s.front || newBack !== s.back }
+					: s
+			)
 		);
 	}, []);
 
@@ -123,8 +425,13 @@ export function useGenerateFlashcards() {
 				flashcards: selected.map((s) => ({
 					front: s.front,
 					back: s.back,
+					card_type: s.card_type,
 					source: 'ai_generated' as const,
+					tags: s.tags,
+					edited: s.isEdited,
 				})),
+				deck_id: deckId,
+				generation_id: generationId,
 			};
 
 			const response = await fetch('/api/flashcards/batch', {
@@ -173,15 +480,25 @@ export function useGenerateFlashcards() {
 		} finally {
 			setIsLoading(false);
 		}
-	}, [suggestions]);
+	}, [suggestions, deckId, generationId]);
 
 	return {
 		text,
 		setText,
 		suggestions,
 		isLoading,
+		isGenerating,
+		isExtracting,
+		progress,
+		quota,
+		isCached,
 		error,
+		deckId,
+		setDeckId,
 		handleGenerate,
+		handleCancelGeneration,
+		handleExtractFile,
+		handleGenerateFromUrl,
 		handleUpdateSuggestion,
 		handleToggleSelect,
 		handleRemoveSuggestion,
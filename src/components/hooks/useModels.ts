@@ -0,0 +1,70 @@
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import type { AiModelDTO, AiModelListResponseDTO } from '@/types';
+
+/**
+ * localStorage key of the last model selected for generation
+ */
+const SELECTED_MODEL_STORAGE_KEY = 'generate.selectedModel';
+
+function readStoredModel(): string | null {
+	try {
+		return localStorage.getItem(SELECTED_MODEL_STORAGE_KEY);
+	} catch {
+		return null;
+	}
+}
+
+export function useModels() {
+	const [models, setModels] = useState<AiModelDTO[]>([]);
+	const [model, setModelState] = useState<string | null>(null);
+	const [isLoading, setIsLoading] = useState<boolean>(true);
+
+	// Fetch the model catalog, the last choice is kept while it is still available
+	const fetchModels = useCallback(async () => {
+		setIsLoading(true);
+
+		try {
+			const response = await fetch('/api/ai/models');
+
+			if (!response.ok) {
+				toast.error('Load Failed', { description: 'Failed to load AI models.' });
+				return;
+			}
+
+			const data: AiModelListResponseDTO = await response.json();
+			const stored = readStoredModel();
+
+			setModels(data.data);
+			setModelState(data.data.some((m) => m.id === stored) ? stored : data.default_model);
+		} catch (err) {
+			console.error('Error fetching models:', err);
+			toast.error('Network Error', { description: 'Failed to load AI models.' });
+		} finally {
+			setIsLoading(false);
+		}
+	}, []);
+
+	// Load models on mount
+	useEffect(() => {
+		fetchModels();
+	}, [fetchModels]);
+
+	// Select a model and remember it for the next visit
+	const setModel = useCallback((modelId: string) => {
+		setModelState(modelId);
+
+		try {
+			localStorage.setItem(SELECTED_MODEL_STORAGE_KEY, modelId);
+		} catch {
+			// Storage can be unavailable (private mode, quota), the choice then only lasts for this visit
+		}
+	}, []);
+
+	return {
+		models,
+		model,
+		setModel,
+		isLoading,
+	};
+}
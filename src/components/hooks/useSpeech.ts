@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import type { FlashcardAudioDTO, FlashcardSide } from '@/types';
+
+export function useSpeech() {
+	// Read a flashcard side aloud with text-to-speech, the server caches the clip
+	const synthesizeSpeech = useCallback(async (flashcardId: string, side: FlashcardSide): Promise<FlashcardAudioDTO | null> => {
+		try {
+			const response = await fetch(`/api/flashcards/${flashcardId}/audio/speech`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ side }),
+			});
+
+			if (!response.ok) {
+				if (response.status === 400) {
+					const data = await response.json().catch(() => null);
+					toast.error('Speech Failed', { description: data?.details?.[0]?.message ?? 'This side cannot be read aloud.' });
+				} else if (response.status === 404) {
+					toast.error('Not Found', { description: 'Flashcard not found.' });
+				} else if (response.status === 401) {
+					toast.error('Unauthorized', { description: 'You must be logged in.' });
+				} else if (response.status === 503) {
+					toast.error('Speech Unavailable', { description: 'Text-to-speech is not enabled.' });
+				} else {
+					toast.error('Speech Failed', { description: 'Failed to read the flashcard aloud.' });
+				}
+				return null;
+			}
+
+			return await response.json();
+		} catch (err) {
+			console.error('Error synthesizing speech:', err);
+			toast.error('Network Error', { description: 'Failed to read the flashcard aloud.' });
+			return null;
+		}
+	}, []);
+
+	return { synthesizeSpeech };
+}
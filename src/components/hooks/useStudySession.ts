@@ -0,0 +1,130 @@
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import type {
+	DueFlashcardDTO,
+	DueFlashcardsResponseDTO,
+	ReviewFlashcardCommand,
+	ReviewQuality,
+} from '@/types';
+
+export function useStudySession() {
+	const [cards, setCards] = useState<DueFlashcardDTO[]>([]);
+	const [currentIndex, setCurrentIndex] = useState<number>(0);
+	const [isFlipped, setIsFlipped] = useState<boolean>(false);
+	const [isLoading, setIsLoading] = useState<boolean>(true);
+	const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+	const [error, setError] = useState<string | null>(null);
+	const [totalDue, setTotalDue] = useState<number>(0);
+	const [reviewedCount, setReviewedCount] = useState<number>(0);
+
+	// Fetch cards due for review from API
+	const fetchDueCards = useCallback(async () => {
+		setIsLoading(true);
+		setError(null);
+
+		try {
+			const response = await fetch('/api/study/due?limit=20');
+
+			if (!response.ok) {
+				if (response.status === 401) {
+					const errorMsg = 'You must be logged in to study flashcards.';
+					setError(errorMsg);
+					toast.error('Unauthorized', { description: errorMsg });
+				} else {
+					const errorMsg = 'Failed to load flashcards for review. Please try again.';
+					setError(errorMsg);
+					toast.error('Load Failed', { description: errorMsg });
+				}
+				return;
+			}
+
+			const data: DueFlashcardsResponseDTO = await response.json();
+			setCards(data.flashcards);
+			setTotalDue(data.total_due);
+			setCurrentIndex(0);
+			setIsFlipped(false);
+		} catch (err) {
+			console.error('Error fetching due flashcards:', err);
+			const errorMsg = 'An unexpected error occurred. Please check your connection and try again.';
+			setError(errorMsg);
+			toast.error('Network Error', { description: errorMsg });
+		} finally {
+			setIsLoading(false);
+		}
+	}, []);
+
+	// Load due cards on mount
+	useEffect(() => {
+		fetchDueCards();
+	}, [fetchDueCards]);
+
+	const currentCard: DueFlashcardDTO | null = cards[currentIndex] ?? null;
+
+	// Reveal or hide the back of the current card
+	const flip = useCallback(() => {
+		setIsFlipped((prev) => !prev);
+	}, []);
+
+	// Submit a grade for the current card and move to the next one
+	const submitGrade = useCallback(async (quality: ReviewQuality): Promise<boolean> => {
+		if (!currentCard || !isFlipped || isSubmitting) {
+			return false;
+		}
+
+		setIsSubmitting(true);
+
+		try {
+			const command: ReviewFlashcardCommand = {
+				flashcard_id: currentCard.id,
+				card_index: currentCard.card_index,
+				quality,
+			};
+
+			const response = await fetch('/api/study/review', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(command),
+			});
+
+			if (!response.ok) {
+				if (response.status === 404) {
+					toast.error('Not Found', { description: 'Flashcard not found.' });
+				} else if (response.status === 401) {
+					toast.error('Unauthorized', { description: 'You must be logged in.' });
+				} else {
+					toast.error('Review Failed', { description: 'Failed to save your review.' });
+				}
+				return false;
+			}
+
+			setReviewedCount((prev) => prev + 1);
+			setCurrentIndex((prev) => prev + 1);
+			setIsFlipped(false);
+			return true;
+		} catch (err) {
+			console.error('Error submitting review:', err);
+			toast.error('Network Error', { description: 'Failed to save your review.' });
+			return false;
+		} finally {
+			setIsSubmitting(false);
+		}
+	}, [currentCard, isFlipped, isSubmitting]);
+
+	return {
+		currentCard,
+		currentIndex,
+		cardsCount: cards.length,
+		isFlipped,
+		isLoading,
+		isSubmitting,
+		isSessionComplete: !isLoading && cards.length > 0 && currentIndex >= cards.length,
+		error,
+		totalDue,
+		reviewedCount,
+		flip,
+		submitGrade,
+		refetch: fetchDueCards,
+	};
+}
@@ -1,28 +1,88 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { useGenerateFlashcards } from '@/components/hooks/useGenerateFlashcards';
+import { useGenerateFlashcards, type GenerationQuotaStatus } from '@/components/hooks/useGenerateFlashcards';
+import { useDecks } from '@/components/hooks/useDecks';
+import { useModels } from '@/components/hooks/useModels';
 import { FlashcardSuggestionItem } from '@/components/features/FlashcardSuggestionItem';
+import { DeckSelect } from '@/components/features/DeckSelect';
+import { ModelSelect } from '@/components/features/ModelSelect';
+import { GenerationSettingsFields } from '@/components/features/GenerationSettingsFields';
+import { SourceFileUpload } from '@/components/features/SourceFileUpload';
+import { MAX_GENERATION_TEXT_LENGTH, MIN_GENERATION_TEXT_LENGTH } from '@/lib/utils/text-chunks';
+import type { GenerationSettingsCommand } from '@/types';
+
+/**
+ * Remaining generation quota, e.g. "45 of 50 generations left today"
+ */
+function describeQuota(quota: GenerationQuotaStatus): string {
+	const left = `${quota.remaining.toLocaleString()} of ${quota.limit.toLocaleString()}`;
+
+	switch (quota.name) {
+		case 'requests_per_minute':
+			return `${left} requests left this minute`;
+		case 'generations_per_day':
+			return `${left} generations left today`;
+		case 'tokens_per_month':
+			return `${left} AI tokens left this month`;
+	}
+}
 
 export default function GenerateView() {
+	const { models, model, setModel } = useModels();
+	const [settings, setSettings] = useState<GenerationSettingsCommand>({});
 	const {
 		text,
 		setText,
 		suggestions,
 		isLoading,
+		isGenerating,
+		isExtracting,
+		progress,
+		quota,
+		isCached,
 		error,
+		deckId,
+		setDeckId,
 		handleGenerate,
+		handleCancelGeneration,
+		handleExtractFile,
+		handleGenerateFromUrl,
 		handleUpdateSuggestion,
 		handleToggleSelect,
 		handleRemoveSuggestion,
 		handleSaveSelected,
-	} = useGenerateFlashcards();
+	} = useGenerateFlashcards(model, settings);
+	const { decks, createDeck } = useDecks();
+	const [newDeckName, setNewDeckName] = useState('');
+	const [isCreatingDeck, setIsCreatingDeck] = useState(false);
+	const [sourceUrl, setSourceUrl] = useState('');
 
 	const textLength = text.length;
-	const isTextValid = textLength >= 1000 && textLength <= 10000;
-	const canGenerate = isTextValid && !isLoading;
+	const isTextValid = textLength >= MIN_GENERATION_TEXT_LENGTH && textLength <= MAX_GENERATION_TEXT_LENGTH;
+	const canGenerate = isTextValid && !isLoading && !isExtracting;
 	const hasSelectedSuggestions = suggestions.some((s) => s.isSelected);
 
+	// Create a deck inline and select it as the save target
+	const handleCreateDeck = async () => {
+		const name = newDeckName.trim();
+		if (!name) {
+			return;
+		}
+
+		setIsCreatingDeck(true);
+		try {
+			const deck = await createDeck({ name });
+			if (deck) {
+				setDeckId(deck.id);
+				setNewDeckName('');
+			}
+		} finally {
+			setIsCreatingDeck(false);
+		}
+	};
+
 	return (
 		<div className="relative w-full mx-auto min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-blue-900 p-4 sm:p-8">
 			<div className="container mx-auto">
@@ -44,47 +104,115 @@ export default function GenerateView() {
 									Input Text
 								</h2>
 								<p className="text-blue-200/80 text-sm">
-									Paste your text here (1,000 - 10,000 characters)
+									Paste your text here ({MIN_GENERATION_TEXT_LENGTH.toLocaleString()} - {MAX_GENERATION_TEXT_LENGTH.toLocaleString()} characters)
+									or upload a document and review the extracted text, or generate directly from an article URL.
+									Long texts are processed in parts.
 								</p>
 							</div>
 							<div className="space-y-4">
+								{models.length > 0 && (
+									<ModelSelect models={models} value={model} onChange={setModel} disabled={isLoading} />
+								)}
+								<GenerationSettingsFields value={settings} onChange={setSettings} disabled={isLoading} />
+								<SourceFileUpload
+									onFileSelected={handleExtractFile}
+									isExtracting={isExtracting}
+									disabled={isLoading}
+								/>
+								<form
+									className="flex gap-2"
+									onSubmit={(e) => {
+										e.preventDefault();
+										handleGenerateFromUrl(sourceUrl.trim());
+									}}
+								>
+									<Input
+										type="url"
+										value={sourceUrl}
+										onChange={(e) => setSourceUrl(e.target.value)}
+										placeholder="https://example.com/article"
+										aria-label="Article URL"
+										maxLength={2048}
+										disabled={isLoading}
+										className="bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
+									/>
+									<Button
+										type="submit"
+										variant="outline"
+										disabled={!sourceUrl.trim() || isLoading || isExtracting}
+										className="border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white disabled:opacity-50"
+									>
+										Generate from URL
+									</Button>
+								</form>
 								<div>
 									<Textarea
 										value={text}
 										onChange={(e) => setText(e.target.value)}
 										placeholder="Paste your text here..."
 										className="min-h-[400px] resize-none bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
-										disabled={isLoading}
+										disabled={isLoading || isExtracting}
 									/>
 									<div className="mt-2 flex items-center justify-between text-sm">
 										<span
 											className={
-												textLength < 1000
+												textLength < MIN_GENERATION_TEXT_LENGTH
 													? 'text-blue-200/70'
-													: textLength > 10000
+													: textLength > MAX_GENERATION_TEXT_LENGTH
 														? 'text-red-300'
 														: 'text-green-300'
 											}
 										>
-											{textLength.toLocaleString()} / 10,000 characters
+											{textLength.toLocaleString()} / {MAX_GENERATION_TEXT_LENGTH.toLocaleString()} characters
 										</span>
 										{!isTextValid && textLength > 0 && (
 											<span className="text-red-300">
-												{textLength < 1000
-													? `${(1000 - textLength).toLocaleString()} more needed`
+												{textLength < MIN_GENERATION_TEXT_LENGTH
+													? `${(MIN_GENERATION_TEXT_LENGTH - textLength).toLocaleString()} more needed`
 													: 'Text too long'}
 											</span>
 										)}
 									</div>
 								</div>
-								<Button
-									onClick={handleGenerate}
-									disabled={!canGenerate}
-									className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all"
-									size="lg"
-								>
-									{isLoading ? 'Generating...' : 'Generate Flashcards'}
-								</Button>
+								<div className="flex gap-2">
+									<Button
+										onClick={() => handleGenerate()}
+										disabled={!canGenerate}
+										className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all"
+										size="lg"
+									>
+										{isGenerating ? 'Generating...' : 'Generate Flashcards'}
+									</Button>
+									{isGenerating && (
+										<Button
+											type="button"
+											variant="outline"
+											onClick={handleCancelGeneration}
+											className="border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white"
+											size="lg"
+										>
+											Cancel
+										</Button>
+									)}
+									{isCached && !isGenerating && (
+										<Button
+											type="button"
+											variant="outline"
+											onClick={() => handleGenerate({ force: true })}
+											disabled={!canGenerate}
+											title="These suggestions were generated earlier for the same text"
+											className="border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white"
+											size="lg"
+										>
+											Regenerate
+										</Button>
+									)}
+								</div>
+								{quota && (
+									<p className="text-sm text-blue-200/70" role="status">
+										{describeQuota(quota)}
+									</p>
+								)}
 							</div>
 						</div>
 					</div>
@@ -107,16 +235,21 @@ export default function GenerateView() {
 									</div>
 								)}
 
-								{isLoading && (
+								{isGenerating && suggestions.length === 0 && (
 									<div className="flex items-center justify-center py-12">
 										<div className="text-center">
 											<div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-300 mx-auto mb-4" />
 											<p className="text-blue-100/90">Generating flashcards...</p>
+											{progress && (
+												<p className="mt-2 text-sm text-blue-200/80" role="status">
+													{progress.completed} of {progress.total} parts processed
+												</p>
+											)}
 										</div>
 									</div>
 								)}
 
-								{!isLoading && suggestions.length === 0 && !error && (
+								{!isGenerating && suggestions.length === 0 && !error && (
 									<div className="text-center py-12">
 										<p className="text-blue-100/80">
 											No suggestions yet. Paste your text and click "Generate Flashcards"
@@ -125,8 +258,15 @@ export default function GenerateView() {
 									</div>
 								)}
 
-								{!isLoading && suggestions.length > 0 && (
+								{suggestions.length > 0 && (
 									<div className="space-y-4">
+										{isGenerating && (
+											<p className="flex items-center gap-2 text-sm text-blue-100/90" role="status">
+												<span className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-300" />
+												Generating... {suggestions.length} so far
+												{progress && ` (${progress.completed} of ${progress.total} parts processed)`}
+											</p>
+										)}
 										<div className="max-h-[500px] overflow-y-auto space-y-3 pr-2">
 											{suggestions.map((suggestion) => (
 												<FlashcardSuggestionItem
@@ -139,10 +279,37 @@ export default function GenerateView() {
 											))}
 										</div>
 
-										<div className="pt-4 border-t border-white/20">
+										<div className="pt-4 border-t border-white/20 space-y-3">
+											<DeckSelect
+												decks={decks}
+												value={deckId}
+												onChange={setDeckId}
+												label="Save to deck"
+												emptyOptionLabel="No deck"
+											/>
+											<div className="flex gap-2">
+												<Input
+													value={newDeckName}
+													onChange={(e) => setNewDeckName(e.target.value)}
+													placeholder="New deck name..."
+													aria-label="New deck name"
+													maxLength={100}
+													disabled={isCreatingDeck}
+													className="bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
+												/>
+												<Button
+													type="button"
+													variant="outline"
+													onClick={handleCreateDeck}
+													disabled={!newDeckName.trim() || isCreatingDeck}
+													className="border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white disabled:opacity-50"
+												>
+													Create Deck
+												</Button>
+											</div>
 											<Button
 												onClick={handleSaveSelected}
-												disabled={!hasSelectedSuggestions}
+												disabled={!hasSelectedSuggestions || isLoading}
 												className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all"
 												size="lg"
 											>
@@ -1,11 +1,29 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useFlashcards } from '@/components/hooks/useFlashcards';
+import { useDecks } from '@/components/hooks/useDecks';
+import { useDebouncedValue } from '@/components/hooks/useDebouncedValue';
+import { useSpeech } from '@/components/hooks/useSpeech';
+import { AudioPlayButton } from '@/components/features/AudioPlayButton';
+import { DeckSelect } from '@/components/features/DeckSelect';
+import { ExportFlashcardsButton } from '@/components/features/ExportFlashcardsButton';
+import { RichText } from '@/components/features/RichText';
+import { FlashcardImages } from '@/components/features/FlashcardImages';
+import { TagInput } from '@/components/features/TagInput';
 import { FlashcardFormDialog } from '@/components/features/FlashcardFormDialog';
 import { DeleteFlashcardDialog } from '@/components/features/DeleteFlashcardDialog';
-import type { FlashcardDTO } from '@/types';
+import { ImportFlashcardsDialog } from '@/components/features/ImportFlashcardsDialog';
+import { describeClozeCards } from '@/lib/utils/cloze';
+import type { FlashcardDTO, FlashcardSide } from '@/types';
 
-export default function MyFlashcardsView() {
+interface MyFlashcardsViewProps {
+	/** Whether a text-to-speech provider is configured, sides without an uploaded clip can be read aloud */
+	speechEnabled?: boolean;
+}
+
+export default function MyFlashcardsView({ speechEnabled = false }: MyFlashcardsViewProps) {
 	const {
 		flashcards,
 		isLoading,
@@ -13,16 +31,38 @@ export default function MyFlashcardsView() {
 		page,
 		total,
 		totalPages,
+		deckId,
+		filterByDeck,
+		tagFilter,
+		filterByTags,
+		searchQuery,
+		search,
 		nextPage,
 		previousPage,
 		createFlashcard,
 		updateFlashcard,
 		deleteFlashcard,
+		importFlashcards,
+		uploadMedia,
+		deleteMedia,
+		uploadAudio,
+		deleteAudio,
 	} = useFlashcards();
+	const { decks, refetch: refetchDecks } = useDecks();
+	const { synthesizeSpeech } = useSpeech();
+
+	// Search box state, the query is sent once typing pauses
+	const [searchInput, setSearchInput] = useState('');
+	const debouncedSearch = useDebouncedValue(searchInput, 300);
+
+	useEffect(() => {
+		search(debouncedSearch);
+	}, [debouncedSearch, search]);
 
 	// Dialog state
 	const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
 	const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+	const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
 	const [selectedFlashcard, setSelectedFlashcard] = useState<FlashcardDTO | null>(null);
 
 	// Handle create new flashcard
@@ -49,15 +89,50 @@ export default function MyFlashcardsView() {
 			// Edit mode
 			return await updateFlashcard(selectedFlashcard.id, command);
 		} else {
-			// Create mode
-			return await createFlashcard(command);
+			// Create mode - new flashcards go to the currently filtered deck
+			const success = await createFlashcard({ ...command, deck_id: deckId });
+			if (success) {
+				refetchDecks();
+			}
+			return success;
+		}
+	}, [selectedFlashcard, createFlashcard, updateFlashcard, deckId, refetchDecks]);
+
+	// Handle import, imported rows may create decks
+	const handleImport = useCallback(async (formData: FormData) => {
+		const result = await importFlashcards(formData);
+		if (result && result.imported > 0) {
+			refetchDecks();
 		}
-	}, [selectedFlashcard, createFlashcard, updateFlashcard]);
+		return result;
+	}, [importFlashcards, refetchDecks]);
+
+	// Handle image changes of the edited flashcard
+	const handleUploadMedia = useCallback(async (side: FlashcardSide, file: File) => {
+		return selectedFlashcard ? await uploadMedia(selectedFlashcard.id, side, file) : null;
+	}, [selectedFlashcard, uploadMedia]);
+
+	const handleDeleteMedia = useCallback(async (mediaId: string) => {
+		return selectedFlashcard ? await deleteMedia(selectedFlashcard.id, mediaId) : false;
+	}, [selectedFlashcard, deleteMedia]);
+
+	// Handle audio changes of the edited flashcard
+	const handleUploadAudio = useCallback(async (side: FlashcardSide, file: File) => {
+		return selectedFlashcard ? await uploadAudio(selectedFlashcard.id, side, file) : null;
+	}, [selectedFlashcard, uploadAudio]);
+
+	const handleDeleteAudio = useCallback(async (audioId: string) => {
+		return selectedFlashcard ? await deleteAudio(selectedFlashcard.id, audioId) : false;
+	}, [selectedFlashcard, deleteAudio]);
 
 	// Handle delete confirm
 	const handleDeleteConfirm = useCallback(async (id: string) => {
-		return await deleteFlashcard(id);
-	}, [deleteFlashcard]);
+		const success = await deleteFlashcard(id);
+		if (success) {
+			refetchDecks();
+		}
+		return success;
+	}, [deleteFlashcard, refetchDecks]);
 
 	return (
 		<div className="relative w-full mx-auto min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-blue-900 p-4 sm:p-8">
@@ -72,13 +147,58 @@ export default function MyFlashcardsView() {
 							Manage and review your flashcard collection
 						</p>
 					</div>
-					<Button
-						size="lg"
-						onClick={handleCreateClick}
-						className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all"
-					>
-						New Flashcard
-					</Button>
+					<div className="flex gap-2">
+						<Button
+							size="lg"
+							variant="outline"
+							onClick={() => setIsImportDialogOpen(true)}
+							className="border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white"
+						>
+							Import
+						</Button>
+						<Button
+							size="lg"
+							onClick={handleCreateClick}
+							className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all"
+						>
+							New Flashcard
+						</Button>
+					</div>
+				</div>
+
+				{/* Search */}
+				<div className="relative mb-4">
+					<Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-blue-200/70" />
+					<Input
+						type="search"
+						value={searchInput}
+						onChange={(e) => setSearchInput(e.target.value)}
+						placeholder="Search flashcards..."
+						aria-label="Search flashcards"
+						maxLength={200}
+						className="pl-9 bg-white/10 border-white/20 text-white placeholder:text-white/50 backdrop-blur-sm focus:bg-white/15 focus:border-white/40"
+					/>
+				</div>
+
+				{/* Deck and Tag Filters */}
+				<div className="mb-6 flex flex-col md:flex-row md:items-start gap-4">
+					{decks.length > 0 && (
+						<div className="md:w-64">
+							<DeckSelect
+								decks={decks}
+								value={deckId}
+								onChange={filterByDeck}
+								label="Deck"
+								emptyOptionLabel="All decks"
+							/>
+						</div>
+					)}
+					<div className="md:w-80">
+						<TagInput tags={tagFilter} onChange={filterByTags} label="Filter by tags" />
+					</div>
+					<div className="md:ml-auto md:pt-6">
+						<ExportFlashcardsButton deckId={deckId} tags={tagFilter} searchQuery={searchQuery} />
+					</div>
 				</div>
 
 				{/* Error State */}
@@ -103,9 +223,13 @@ export default function MyFlashcardsView() {
 					<div className="text-center py-12">
 						<div className="backdrop-blur-xl bg-gradient-to-b from-white/10 to-white/5 rounded-2xl shadow-2xl p-12 border border-white/10">
 							<div className="max-w-md mx-auto">
-								<h3 className="text-xl font-semibold mb-2 text-blue-100">No flashcards yet</h3>
+								<h3 className="text-xl font-semibold mb-2 text-blue-100">
+									{searchQuery ? 'No matching flashcards' : 'No flashcards yet'}
+								</h3>
 								<p className="text-blue-100/80 mb-6">
-									Create your first flashcard to start learning!
+									{searchQuery
+										? `Nothing found for "${searchQuery}". Try different words.`
+										: 'Create your first flashcard to start learning!'}
 								</p>
 								<Button
 									size="lg"
@@ -130,24 +254,75 @@ export default function MyFlashcardsView() {
 								>
 									<div className="space-y-4">
 										<div>
-											<div className="text-sm font-medium text-blue-200/70 mb-1">
-												Question
-											</div>
-											<div className="text-base font-medium text-white">
-												{flashcard.front}
+											<div className="flex items-center justify-between text-sm font-medium text-blue-200/70 mb-1">
+												{flashcard.card_type === 'cloze' ? 'Cloze' : 'Question'}
+												<AudioPlayButton
+													label="Play front audio"
+													audio={flashcard.audio.find((audio) => audio.side === 'front')}
+													onSynthesize={speechEnabled ? () => synthesizeSpeech(flashcard.id, 'front') : undefined}
+													className="h-6 w-6"
+												/>
 											</div>
+											<RichText
+												text={flashcard.front}
+												cloze={flashcard.card_type === 'cloze' ? {} : undefined}
+												query={searchQuery}
+												className="text-base font-medium text-white"
+											/>
+											<FlashcardImages
+												media={flashcard.media.filter((media) => media.side === 'front')}
+												variant="thumbnail"
+												className="mt-2"
+											/>
 										</div>
-										<div>
-											<div className="text-sm font-medium text-blue-200/70 mb-1">
-												Answer
+										{(flashcard.card_type !== 'cloze' ||
+											flashcard.back ||
+											flashcard.media.some((media) => media.side === 'back') ||
+											flashcard.audio.some((audio) => audio.side === 'back')) && (
+											<div>
+												<div className="flex items-center justify-between text-sm font-medium text-blue-200/70 mb-1">
+													{flashcard.card_type === 'cloze' ? 'Extra' : 'Answer'}
+													<AudioPlayButton
+														label="Play back audio"
+														audio={flashcard.audio.find((audio) => audio.side === 'back')}
+														onSynthesize={
+															speechEnabled && flashcard.back.trim()
+																? () => synthesizeSpeech(flashcard.id, 'back')
+																: undefined
+														}
+														className="h-6 w-6"
+													/>
+												</div>
+												<RichText
+													text={flashcard.back}
+													query={searchQuery}
+													className="text-base text-blue-100/90"
+												/>
+												<FlashcardImages
+													media={flashcard.media.filter((media) => media.side === 'back')}
+													variant="thumbnail"
+													className="mt-2"
+												/>
 											</div>
-											<div className="text-base text-blue-100/90">
-												{flashcard.back}
+										)}
+										{flashcard.tags.length > 0 && (
+											<div className="flex flex-wrap gap-2">
+												{flashcard.tags.map((tag) => (
+													<button
+														key={tag}
+														type="button"
+														onClick={() => !tagFilter.includes(tag) && filterByTags([...tagFilter, tag])}
+														className="rounded-full bg-blue-500/20 border border-blue-400/40 px-2 py-0.5 text-xs text-blue-100 hover:bg-blue-500/30"
+													>
+														#{tag}
+													</button>
+												))}
 											</div>
-										</div>
+										)}
 										<div className="flex items-center justify-between pt-2 border-t border-white/20">
 											<span className="text-xs text-blue-200/60 capitalize">
 												{flashcard.source.replace('_', ' ')}
+												{flashcard.card_type === 'cloze' && ` · ${describeClozeCards(flashcard.front)}`}
 											</span>
 											<div className="flex gap-2">
 												<Button
@@ -209,6 +384,10 @@ export default function MyFlashcardsView() {
 				onOpenChange={setIsFormDialogOpen}
 				flashcard={selectedFlashcard}
 				onSubmit={handleFormSubmit}
+				onUploadMedia={handleUploadMedia}
+				onDeleteMedia={handleDeleteMedia}
+				onUploadAudio={handleUploadAudio}
+				onDeleteAudio={handleDeleteAudio}
 			/>
 			<DeleteFlashcardDialog
 				open={isDeleteDialogOpen}
@@ -216,6 +395,13 @@ export default function MyFlashcardsView() {
 				flashcard={selectedFlashcard}
 				onConfirm={handleDeleteConfirm}
 			/>
+
+			<ImportFlashcardsDialog
+				open={isImportDialogOpen}
+				onOpenChange={setIsImportDialogOpen}
+				deckId={deckId}
+				onImport={handleImport}
+			/>
 		</div>
 	);
 }
@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { useStudySession } from '@/components/hooks/useStudySession';
+import { useSpeech } from '@/components/hooks/useSpeech';
+import { StudyCard } from '@/components/features/StudyCard';
+import type { FlashcardSide, ReviewQuality } from '@/types';
+
+const GRADES: { quality: ReviewQuality; label: string; description: string }[] = [
+	{ quality: 0, label: 'Blackout', description: 'Complete blackout' },
+	{ quality: 1, label: 'Wrong', description: 'Incorrect, the answer felt unfamiliar' },
+	{ quality: 2, label: 'Almost', description: 'Incorrect, but the answer seemed easy to recall' },
+	{ quality: 3, label: 'Hard', description: 'Correct with serious difficulty' },
+	{ quality: 4, label: 'Good', description: 'Correct after some hesitation' },
+	{ quality: 5, label: 'Easy', description: 'Perfect recall' },
+];
+
+interface StudyViewProps {
+	/** Whether a text-to-speech provider is configured, sides without an uploaded clip can be read aloud */
+	speechEnabled?: boolean;
+}
+
+export default function StudyView({ speechEnabled = false }: StudyViewProps) {
+	const {
+		currentCard,
+		currentIndex,
+		cardsCount,
+		isFlipped,
+		isLoading,
+		isSubmitting,
+		isSessionComplete,
+		error,
+		totalDue,
+		reviewedCount,
+		flip,
+		submitGrade,
+		refetch,
+	} = useStudySession();
+	const { synthesizeSpeech } = useSpeech();
+
+	const handleSynthesize = useCallback(async (side: FlashcardSide) => {
+		return currentCard ? await synthesizeSpeech(currentCard.id, side) : null;
+	}, [currentCard, synthesizeSpeech]);
+
+	// Keyboard shortcuts: Space/Enter flips the card, 0-5 grades a revealed card
+	useEffect(() => {
+		const handleKeyDown = (e: KeyboardEvent) => {
+			if (!currentCard || e.repeat || e.metaKey || e.ctrlKey || e.altKey) {
+				return;
+			}
+
+			if (e.key === ' ' || e.key === 'Enter') {
+				e.preventDefault();
+				flip();
+				return;
+			}
+
+			if (isFlipped && /^[0-5]$/.test(e.key)) {
+				e.preventDefault();
+				submitGrade(Number(e.key) as ReviewQuality);
+			}
+		};
+
+		window.addEventListener('keydown', handleKeyDown);
+		return () => window.removeEventListener('keydown', handleKeyDown);
+	}, [currentCard, isFlipped, flip, submitGrade]);
+
+	return (
+		<div className="relative w-full mx-auto min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-blue-900 p-4 sm:p-8">
+			<div className="container mx-auto max-w-3xl">
+				{/* Header */}
+				<div className="mb-8 text-center">
+					<h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-blue-200 via-purple-200 to-pink-200 text-transparent bg-clip-text drop-shadow-lg">
+						Study
+					</h1>
+					<p className="text-blue-100/90 drop-shadow-md">
+						Review your flashcards with spaced repetition
+					</p>
+				</div>
+
+				{/* Error State */}
+				{error && (
+					<div className="p-4 mb-6 bg-red-500/20 border border-red-400/50 rounded-lg text-red-100 backdrop-blur-sm">
+						{error}
+					</div>
+				)}
+
+				{/* Loading State */}
+				{isLoading && (
+					<div className="flex items-center justify-center py-12">
+						<div className="text-center">
+							<div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-300 mx-auto mb-4" />
+							<p className="text-blue-100/90">Loading flashcards...</p>
+						</div>
+					</div>
+				)}
+
+				{/* Nothing Due State */}
+				{!isLoading && cardsCount === 0 && !error && (
+					<div className="text-center py-12">
+						<div className="backdrop-blur-xl bg-gradient-to-b from-white/10 to-white/5 rounded-2xl shadow-2xl p-12 border border-white/10">
+							<h3 className="text-xl font-semibold mb-2 text-blue-100">All caught up!</h3>
+							<p className="text-blue-100/80">
+								There are no flashcards due for review. Come back later.
+							</p>
+						</div>
+					</div>
+				)}
+
+				{/* Session Complete State */}
+				{isSessionComplete && (
+					<div className="text-center py-12">
+						<div className="backdrop-blur-xl bg-gradient-to-b from-white/10 to-white/5 rounded-2xl shadow-2xl p-12 border border-white/10">
+							<h3 className="text-xl font-semibold mb-2 text-blue-100">Session complete</h3>
+							<p className="text-blue-100/80 mb-6">
+								You reviewed {reviewedCount} flashcard{reviewedCount === 1 ? '' : 's'}.
+							</p>
+							<Button
+								size="lg"
+								onClick={refetch}
+								className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all"
+							>
+								Check for more
+							</Button>
+						</div>
+					</div>
+				)}
+
+				{/* Active Card */}
+				{!isLoading && currentCard && (
+					<div className="space-y-6">
+						<div className="flex items-center justify-between text-sm text-blue-100/90">
+							<span>
+								Card {currentIndex + 1} of {cardsCount}
+							</span>
+							<span>{totalDue} due in total</span>
+						</div>
+
+						<StudyCard
+							flashcard={currentCard}
+							isFlipped={isFlipped}
+							onFlip={flip}
+							onSynthesize={speechEnabled ? handleSynthesize : undefined}
+						/>
+
+						{isFlipped ? (
+							<div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+								{GRADES.map((grade) => (
+									<Button
+										key={grade.quality}
+										variant="outline"
+										onClick={() => submitGrade(grade.quality)}
+										disabled={isSubmitting}
+										title={grade.description}
+										className="flex flex-col h-auto py-2 border-white/30 bg-white/10 text-blue-100 hover:bg-white/20 hover:text-white disabled:opacity-50"
+									>
+										<span className="text-base font-semibold">{grade.label}</span>
+										<span className="text-xs text-blue-200/70">{grade.quality}</span>
+									</Button>
+								))}
+							</div>
+						) : (
+							<Button
+								size="lg"
+								onClick={flip}
+								className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all"
+							>
+								Show Answer
+							</Button>
+						)}
+
+						<p className="text-center text-xs text-blue-200/60">
+							Shortcuts: Space or Enter to flip, 0-5 to grade
+						</p>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -19,6 +19,22 @@ interface ImportMetaEnv {
     readonly SUPABASE_URL: string;
     readonly SUPABASE_KEY: string;
     readonly OPENROUTER_API_KEY: string;
+    readonly LLM_PROVIDER?: 'openrouter' | 'openai-compatible' | 'fake';
+    readonly LLM_BASE_URL?: string;
+    readonly LLM_API_KEY?: string;
+    readonly LLM_MODEL?: string;
+    readonly LLM_FALLBACK_MODELS?: string;
+    readonly LLM_MAX_RETRIES?: string;
+    readonly AI_QUOTA_REQUESTS_PER_MINUTE?: string;
+    readonly AI_QUOTA_GENERATIONS_PER_DAY?: string;
+    readonly AI_QUOTA_TOKENS_PER_MONTH?: string;
+    readonly AI_CACHE_TTL_SECONDS?: string;
+    readonly ADMIN_EMAILS?: string;
+    readonly TTS_PROVIDER?: 'local' | 'openai-compatible';
+    readonly TTS_BASE_URL?: string;
+    readonly TTS_API_KEY?: string;
+    readonly TTS_MODEL?: string;
+    readonly TTS_VOICE?: string;
     // more env variables...
 }
 
@@ -0,0 +1,164 @@
+import http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {afterAll, beforeAll, describe, expect, it} from 'vitest';
+import {createLlmProvider, LlmConfigurationError} from '../llm-provider';
+import {buildFakeFlashcards, FakeLlmProvider} from '../fake.provider';
+import {createLocalModel} from '../model-catalog';
+import {OpenAiCompatibleProvider} from '../openai-compatible.provider';
+import type {ResponseFormat} from '@/lib/openrouter/openrouter.service';
+
+const jsonFormat: ResponseFormat = {
+    type: 'json_schema',
+    json_schema: {name: 'flashcard_generation', schema: {type: 'object'}},
+};
+
+const text = 'The mitochondria is the powerhouse of the cell. Short one. Plants use chlorophyll to absorb light energy.';
+
+describe('createLlmProvider', () => {
+    it('should default to OpenRouter', () => {
+        const provider = createLlmProvider({OPENROUTER_API_KEY: 'key'});
+
+        expect(provider).toBeInstanceOf(OpenAiCompatibleProvider);
+        expect(provider.name).toBe('openrouter');
+        expect(provider.defaultModel).toBe('openai/gpt-4o-mini');
+        expect(provider.models.map((model) => model.id)).toContain('openai/gpt-4o-mini');
+    });
+
+    it('should only accept a default OpenRouter model from the catalog', () => {
+        expect(createLlmProvider({LLM_MODEL: 'openai/gpt-4o'}).defaultModel).toBe('openai/gpt-4o');
+        expect(() => createLlmProvider({LLM_MODEL: 'openai/o1-pro'})).toThrow(LlmConfigurationError);
+    });
+
+    it('should configure an OpenAI-compatible server', () => {
+        const provider = createLlmProvider({
+            LLM_PROVIDER: 'openai-compatible',
+            LLM_BASE_URL: 'http://localhost:11434/v1',
+            LLM_MODEL: 'llama3.2',
+        });
+
+        expect(provider.name).toBe('openai-compatible');
+        expect(provider.defaultModel).toBe('llama3.2');
+        expect(provider.models).toEqual([
+            {id: 'llama3.2', label: 'llama3.2', contextWindow: null, inputCostPerToken: 0, outputCostPerToken: 0},
+        ]);
+    });
+
+    it('should validate fallback models and retries', () => {
+        expect(() => createLlmProvider({LLM_FALLBACK_MODELS: 'openai/gpt-4o, openai/o1-pro'})).toThrow('openai/o1-pro');
+        expect(() => createLlmProvider({LLM_MAX_RETRIES: '-1'})).toThrow('LLM_MAX_RETRIES');
+        expect(() => createLlmProvider({LLM_MAX_RETRIES: 'many'})).toThrow(LlmConfigurationError);
+        expect(createLlmProvider({LLM_FALLBACK_MODELS: 'openai/gpt-4o', LLM_MAX_RETRIES: '3'}).name).toBe('openrouter');
+    });
+
+    it('should select the fake provider', () => {
+        expect(createLlmProvider({LLM_PROVIDER: 'fake'})).toBeInstanceOf(FakeLlmProvider);
+    });
+
+    it('should reject unknown providers and missing settings', () => {
+        expect(() => createLlmProvider({LLM_PROVIDER: 'anthropic'})).toThrow(LlmConfigurationError);
+        expect(() => createLlmProvider({LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'llama3.2'})).toThrow(
+            'LLM_BASE_URL'
+        );
+        expect(() =>
+            createLlmProvider({LLM_PROVIDER: 'openai-compatible', LLM_BASE_URL: 'http://localhost:11434/v1'})
+        ).toThrow('LLM_MODEL');
+    });
+});
+
+describe('FakeLlmProvider', () => {
+    it('should turn sentences into the same flashcards every time', () => {
+        const flashcards = buildFakeFlashcards(text);
+
+        expect(flashcards).toEqual([
+            {
+                front: 'Complete: The mitochondria is the ...',
+                back: 'The mitochondria is the powerhouse of the cell.',
+                tags: ['mitochondria'],
+            },
+            {
+                front: 'Complete: Plants use chlorophyll to ...',
+                back: 'Plants use chlorophyll to absorb light energy.',
+                tags: ['chlorophyll'],
+            },
+        ]);
+        expect(buildFakeFlashcards(text)).toEqual(flashcards);
+    });
+
+    it('should skip the instruction before the first blank line', async () => {
+        const provider = new FakeLlmProvider();
+        const result = await provider.complete<{flashcards: unknown[]}>({
+            userMessage: `Generate flashcards from the following text with many words:\n\n${text}`,
+            responseFormat: jsonFormat,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.data?.flashcards).toEqual(buildFakeFlashcards(text));
+    });
+
+    it('should stream the same content in chunks', async () => {
+        const provider = new FakeLlmProvider();
+        const options = {userMessage: `Instruction\n\n${text}`, responseFormat: jsonFormat};
+
+        let streamed = '';
+        for await (const chunk of provider.stream(options)) {
+            streamed += chunk;
+        }
+
+        expect(JSON.parse(streamed)).toEqual((await provider.complete(options)).data);
+    });
+});
+
+describe('OpenAiCompatibleProvider', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const requests: {url?: string; authorization?: string; body: Record<string, unknown>}[] = [];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                requests.push({url: req.url, authorization: req.headers.authorization, body: JSON.parse(body)});
+                res.writeHead(200, {'Content-Type': 'application/json'});
+                res.end(JSON.stringify({choices: [{message: {content: '{"flashcards":[]}'}}]}));
+            });
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should call the chat completions endpoint of the base URL without a key', async () => {
+        const provider = new OpenAiCompatibleProvider({
+            name: 'openai-compatible',
+            baseUrl,
+            defaultModel: 'llama3.2',
+            models: [createLocalModel('llama3.2')],
+        });
+
+        const result = await provider.complete({userMessage: 'Hello', model: 'llama3.2', responseFormat: jsonFormat});
+
+        expect(result).toEqual({success: true, data: {flashcards: []}, error: null, model: 'llama3.2'});
+        expect(requests[0].url).toBe('/v1/chat/completions');
+        expect(requests[0].authorization).toBeUndefined();
+        expect(requests[0].body.model).toBe('llama3.2');
+    });
+
+    it('should send the API key when configured', async () => {
+        const provider = new OpenAiCompatibleProvider({
+            name: 'openai-compatible',
+            baseUrl,
+            apiKey: 'secret',
+            defaultModel: 'llama3.2',
+            models: [createLocalModel('llama3.2')],
+        });
+
+        await provider.complete({userMessage: 'Hello'});
+
+        expect(requests[1].authorization).toBe('Bearer secret');
+    });
+});
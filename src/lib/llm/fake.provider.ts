@@ -0,0 +1,96 @@
+import type { ChatCompletionResponse } from '@/lib/openrouter/openrouter.service';
+import type { FlashcardSuggestionDTO } from '@/types';
+import type { LlmProvider, LlmRequestOptions } from '@/lib/llm/llm-provider';
+import { createLocalModel } from '@/lib/llm/model-catalog';
+
+/**
+ * Most flashcards returned for one request (the generation schema allows 15)
+ */
+const MAX_FAKE_FLASHCARDS = 15;
+
+/**
+ * Shortest sentence, in words, turned into a flashcard
+ */
+const MIN_SENTENCE_WORDS = 5;
+
+/**
+ * Characters per streamed content delta
+ */
+const STREAM_CHUNK_SIZE = 40;
+
+/**
+ * Flashcard as answered by a model, the card type is derived by the generation service
+ */
+type FakeFlashcard = Pick<FlashcardSuggestionDTO, 'front' | 'back' | 'tags'>;
+
+/**
+ * Build flashcards from the sentences of a text, without a model
+ * Every sentence of at least 5 words becomes a fill-in card: the front is the first half of the
+ * sentence, the back the whole sentence, the tag its longest word. With cloze, the front is the
+ * sentence with its longest word as a {{c1::...}} deletion and the back is empty. The same text
+ * always gives the same flashcards.
+ */
+export function buildFakeFlashcards(text: string, cloze = false): FakeFlashcard[] {
+	const sentences = text
+		.replace(/\s+/g, ' ')
+		.split(/(?<=[.!?])\s+/)
+		.map((sentence) => sentence.trim())
+		.filter((sentence) => sentence.split(' ').length >= MIN_SENTENCE_WORDS);
+
+	return [...new Set(sentences)].slice(0, MAX_FAKE_FLASHCARDS).map((sentence) => {
+		const words = sentence.split(' ');
+		const longestWord = words
+			.map((word) => word.replace(/[^\p{L}\p{N}-]/gu, ''))
+			.reduce((longest, word) => (word.length > longest.length ? word : longest), '');
+
+		const tags = longestWord ? [longestWord.toLowerCase()] : [];
+
+		if (cloze && longestWord) {
+			return { front: sentence.replace(longestWord, `{{c1::${longestWord}}}`), back: '', tags };
+		}
+
+		return {
+			front: `Complete: ${words.slice(0, Math.ceil(words.length / 2)).join(' ')} ...`.slice(0, 1000),
+			back: sentence.slice(0, 1000),
+			tags,
+		};
+	});
+}
+
+/**
+ * Deterministic provider for offline development, tests and CI (LLM_PROVIDER=fake)
+ * Answers JSON schema requests with flashcards built from the text after the first blank line of
+ * the user message (the instruction before it is skipped), other requests with that text.
+ * Cloze flashcards are built when the system message asks for {{c1::...}} deletions.
+ */
+export class FakeLlmProvider implements LlmProvider {
+	readonly name = 'fake';
+	readonly defaultModel = 'fake/sentences';
+	readonly models = [createLocalModel('fake/sentences', 'Fake (offline)')];
+
+	async complete<T = string>(options: LlmRequestOptions): Promise<ChatCompletionResponse<T>> {
+		const content = this.buildContent(options);
+		const data = options.responseFormat?.type === 'json_schema' ? JSON.parse(content) : content;
+
+		return { success: true, data: data as T, error: null };
+	}
+
+	async *stream(options: LlmRequestOptions): AsyncGenerator<string> {
+		const content = this.buildContent(options);
+
+		for (let start = 0; start < content.length; start += STREAM_CHUNK_SIZE) {
+			options.signal?.throwIfAborted();
+			yield content.slice(start, start + STREAM_CHUNK_SIZE);
+		}
+	}
+
+	private buildContent(options: LlmRequestOptions): string {
+		const { userMessage } = options;
+		const separator = userMessage.indexOf('\n\n');
+		const text = separator === -1 ? userMessage : userMessage.slice(separator + 2);
+
+		return options.responseFormat?.type === 'json_schema'
+			? JSON.stringify({ flashcards: buildFakeFlashcards(text, !!options.systemMessage?.includes('{{c1::')) })
+			: text;
+	}
+}
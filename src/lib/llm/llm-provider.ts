@@ -0,0 +1,178 @@
+import type { ChatCompletionOptions, ChatCompletionResponse, RetryOptions } from '@/lib/openrouter/openrouter.service';
+import { FakeLlmProvider } from '@/lib/llm/fake.provider';
+import { createLocalModel, OPENROUTER_MODELS, type LlmModel } from '@/lib/llm/model-catalog';
+import { OpenAiCompatibleProvider } from '@/lib/llm/openai-compatible.provider';
+
+/**
+ * Supported values of LLM_PROVIDER
+ */
+export const LLM_PROVIDER_NAMES = ['openrouter', 'openai-compatible', 'fake'] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/**
+ * Chat completion request sent to a provider, connection settings (URL, key) belong to the provider
+ */
+export type LlmRequestOptions = Omit<ChatCompletionOptions, 'apiKey' | 'baseUrl'>;
+
+/**
+ * Chat completion backend used for AI generation
+ */
+export interface LlmProvider {
+	/** Provider name, used in logs */
+	readonly name: LlmProviderName;
+
+	/** Model used when the request doesn't select one, always part of models */
+	readonly defaultModel: string;
+
+	/** Allowlisted models users can select */
+	readonly models: LlmModel[];
+
+	/**
+	 * Request a complete chat completion
+	 * Failures are returned as { success: false, error } with "(status N)" for API error responses
+	 */
+	complete<T = string>(options: LlmRequestOptions): Promise<ChatCompletionResponse<T>>;
+
+	/**
+	 * Stream a chat completion, yielding content deltas as they arrive
+	 * Failures are thrown as errors with the same messages as complete
+	 */
+	stream(options: LlmRequestOptions): AsyncGenerator<string>;
+}
+
+/**
+ * Environment variables selecting and configuring the provider
+ */
+export type LlmProviderConfig = {
+	LLM_PROVIDER?: string;
+	LLM_BASE_URL?: string;
+	LLM_API_KEY?: string;
+	LLM_MODEL?: string;
+	/** Comma-separated models tried in order when the requested one keeps failing */
+	LLM_FALLBACK_MODELS?: string;
+	/** Retries of transient failures per model (0-10) */
+	LLM_MAX_RETRIES?: string;
+	OPENROUTER_API_KEY?: string;
+};
+
+/**
+ * Custom error types for LLM provider configuration
+ */
+export class LlmConfigurationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'LlmConfigurationError';
+	}
+}
+
+const DEFAULT_OPENROUTER_MODEL = 'openai/gpt-4o-mini';
+
+const MAX_LLM_RETRIES = 10;
+
+/**
+ * Retry settings of LLM_MAX_RETRIES, the client defaults apply when it is not set
+ * @throws {LlmConfigurationError} When LLM_MAX_RETRIES is not an integer between 0 and 10
+ */
+function parseRetryOptions(config: LlmProviderConfig): RetryOptions {
+	if (!config.LLM_MAX_RETRIES) {
+		return {};
+	}
+
+	const maxRetries = Number(config.LLM_MAX_RETRIES);
+	if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > MAX_LLM_RETRIES) {
+		throw new LlmConfigurationError(`LLM_MAX_RETRIES must be an integer between 0 and ${MAX_LLM_RETRIES}`);
+	}
+
+	return { maxRetries };
+}
+
+function parseFallbackModels(config: LlmProviderConfig): string[] {
+	return (config.LLM_FALLBACK_MODELS ?? '')
+		.split(',')
+		.map((model) => model.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Create the provider selected by LLM_PROVIDER (default: openrouter)
+ * - openrouter: OpenRouter with OPENROUTER_API_KEY and the models of OPENROUTER_MODELS, LLM_MODEL
+ *   overrides the default model
+ * - openai-compatible: any OpenAI-compatible server at LLM_BASE_URL (e.g. Ollama, llama.cpp) with
+ *   LLM_MODEL as the only model and an optional LLM_API_KEY
+ * - fake: deterministic offline provider for development, tests and CI
+ * LLM_FALLBACK_MODELS and LLM_MAX_RETRIES apply to both HTTP providers.
+ * @throws {LlmConfigurationError} When the provider is unknown or required variables are missing
+ */
+export function createLlmProvider(config: LlmProviderConfig): LlmProvider {
+	const name = config.LLM_PROVIDER || 'openrouter';
+
+	switch (name) {
+		case 'openrouter': {
+			const defaultModel = config.LLM_MODEL || DEFAULT_OPENROUTER_MODEL;
+			if (!OPENROUTER_MODELS.some((model) => model.id === defaultModel)) {
+				throw new LlmConfigurationError(`LLM_MODEL "${defaultModel}" is not in the OpenRouter model catalog`);
+			}
+
+			const fallbackModels = parseFallbackModels(config);
+			const unknownFallback = fallbackModels.find((id) => !OPENROUTER_MODELS.some((model) => model.id === id));
+			if (unknownFallback) {
+				throw new LlmConfigurationError(
+					`LLM_FALLBACK_MODELS entry "${unknownFallback}" is not in the OpenRouter model catalog`
+				);
+			}
+
+			// A missing OPENROUTER_API_KEY is reported per request, like before providers were configurable
+			return new OpenAiCompatibleProvider({
+				name: 'openrouter',
+				apiKey: config.OPENROUTER_API_KEY,
+				defaultModel,
+				models: OPENROUTER_MODELS,
+				fallbackModels,
+				retry: parseRetryOptions(config),
+			});
+		}
+		case 'openai-compatible':
+			if (!config.LLM_BASE_URL) {
+				throw new LlmConfigurationError('LLM_BASE_URL is required for the openai-compatible provider');
+			}
+			if (!config.LLM_MODEL) {
+				throw new LlmConfigurationError('LLM_MODEL is required for the openai-compatible provider');
+			}
+
+			return new OpenAiCompatibleProvider({
+				name: 'openai-compatible',
+				baseUrl: config.LLM_BASE_URL,
+				apiKey: config.LLM_API_KEY,
+				defaultModel: config.LLM_MODEL,
+				models: [createLocalModel(config.LLM_MODEL)],
+				fallbackModels: parseFallbackModels(config),
+				retry: parseRetryOptions(config),
+			});
+		case 'fake':
+			return new FakeLlmProvider();
+		default:
+			throw new LlmConfigurationError(
+				`Unknown LLM_PROVIDER "${name}", expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`
+			);
+	}
+}
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Provider configured by the environment, created on first use
+ * @throws {LlmConfigurationError} When the environment configuration is invalid
+ */
+export function getLlmProvider(): LlmProvider {
+	provider ??= createLlmProvider({
+		LLM_PROVIDER: import.meta.env.LLM_PROVIDER,
+		LLM_BASE_URL: import.meta.env.LLM_BASE_URL,
+		LLM_API_KEY: import.meta.env.LLM_API_KEY,
+		LLM_MODEL: import.meta.env.LLM_MODEL,
+		LLM_FALLBACK_MODELS: import.meta.env.LLM_FALLBACK_MODELS,
+		LLM_MAX_RETRIES: import.meta.env.LLM_MAX_RETRIES,
+		OPENROUTER_API_KEY: import.meta.env.OPENROUTER_API_KEY,
+	});
+	return provider;
+}
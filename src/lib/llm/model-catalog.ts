@@ -0,0 +1,52 @@
+/**
+ * Model that can be selected for AI generation
+ * Costs are in USD per token, contextWindow is null when unknown (custom local models)
+ */
+export type LlmModel = {
+	id: string;
+	label: string;
+	contextWindow: number | null;
+	inputCostPerToken: number;
+	outputCostPerToken: number;
+};
+
+/**
+ * OpenRouter models that support JSON schema responses, the only ones users can select
+ */
+export const OPENROUTER_MODELS: LlmModel[] = [
+	{
+		id: 'openai/gpt-4o-mini',
+		label: 'GPT-4o mini',
+		contextWindow: 128000,
+		inputCostPerToken: 0.00000015,
+		outputCostPerToken: 0.0000006,
+	},
+	{
+		id: 'openai/gpt-4.1-mini',
+		label: 'GPT-4.1 mini',
+		contextWindow: 1047576,
+		inputCostPerToken: 0.0000004,
+		outputCostPerToken: 0.0000016,
+	},
+	{
+		id: 'openai/gpt-4o',
+		label: 'GPT-4o',
+		contextWindow: 128000,
+		inputCostPerToken: 0.0000025,
+		outputCostPerToken: 0.00001,
+	},
+	{
+		id: 'google/gemini-2.0-flash-001',
+		label: 'Gemini 2.0 Flash',
+		contextWindow: 1048576,
+		inputCostPerToken: 0.0000001,
+		outputCostPerToken: 0.0000004,
+	},
+];
+
+/**
+ * Catalog entry of a model served by the user's own server (no cost, unknown context window)
+ */
+export function createLocalModel(id: string, label = id): LlmModel {
+	return { id, label, contextWindow: null, inputCostPerToken: 0, outputCostPerToken: 0 };
+}
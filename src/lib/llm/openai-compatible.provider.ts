@@ -0,0 +1,65 @@
+import {
+	getChatCompletion,
+	streamChatCompletion,
+	type ChatCompletionOptions,
+	type ChatCompletionResponse,
+	type RetryOptions,
+} from '@/lib/openrouter/openrouter.service';
+import type { LlmProvider, LlmProviderName, LlmRequestOptions } from '@/lib/llm/llm-provider';
+import type { LlmModel } from '@/lib/llm/model-catalog';
+
+export type OpenAiCompatibleProviderOptions = {
+	name: LlmProviderName;
+	/** Base URL of the API (e.g. http://localhost:11434/v1), OpenRouter when omitted */
+	baseUrl?: string;
+	apiKey?: string;
+	defaultModel: string;
+	models: LlmModel[];
+	/** Models tried in order when the requested one keeps failing */
+	fallbackModels?: string[];
+	retry?: RetryOptions;
+};
+
+/**
+ * Provider for OpenRouter and any server implementing the OpenAI chat completions API
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+	readonly name: LlmProviderName;
+	readonly defaultModel: string;
+	readonly models: LlmModel[];
+	private readonly baseUrl: string | undefined;
+	private readonly apiKey: string | undefined;
+	private readonly fallbackModels: string[];
+	private readonly retry: RetryOptions;
+
+	constructor(options: OpenAiCompatibleProviderOptions) {
+		this.name = options.name;
+		this.defaultModel = options.defaultModel;
+		this.models = options.models;
+		this.baseUrl = options.baseUrl;
+		this.apiKey = options.apiKey;
+		this.fallbackModels = options.fallbackModels ?? [];
+		this.retry = options.retry ?? {};
+	}
+
+	complete<T = string>(options: LlmRequestOptions): Promise<ChatCompletionResponse<T>> {
+		return getChatCompletion<T>(this.buildOptions(options));
+	}
+
+	stream(options: LlmRequestOptions): AsyncGenerator<string> {
+		return streamChatCompletion(this.buildOptions(options));
+	}
+
+	/**
+	 * Add the connection settings, request retry settings override the provider ones
+	 */
+	private buildOptions(options: LlmRequestOptions): ChatCompletionOptions {
+		return {
+			...options,
+			fallbackModels: options.fallbackModels ?? this.fallbackModels,
+			retry: { ...this.retry, ...options.retry },
+			baseUrl: this.baseUrl,
+			apiKey: this.apiKey,
+		};
+	}
+}
@@ -0,0 +1,204 @@
+import http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {afterAll, beforeAll, beforeEach, describe, expect, it, vi} from 'vitest';
+import {computeBackoffDelay, getChatCompletion, parseRetryAfter, streamChatCompletion} from '../openrouter.service';
+
+type MockReply = {status: number; headers?: Record<string, string>; body: string};
+
+const ok = (content: string): MockReply => ({
+    status: 200,
+    body: JSON.stringify({choices: [{message: {content}}]}),
+});
+
+const failure = (status: number, headers?: Record<string, string>): MockReply => ({
+    status,
+    headers,
+    body: JSON.stringify({error: {message: 'Upstream failure'}}),
+});
+
+const fastRetry = {baseDelayMs: 1, maxDelayMs: 5};
+
+describe('getChatCompletion retries', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let replies: MockReply[];
+    let requestedModels: string[];
+    let requestBodies: Record<string, unknown>[];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                requestBodies.push(JSON.parse(body));
+                requestedModels.push(JSON.parse(body).model);
+                const reply = replies.shift() ?? failure(500);
+                res.writeHead(reply.status, {'Content-Type': 'application/json', ...reply.headers});
+                res.end(reply.body);
+            });
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        replies = [];
+        requestedModels = [];
+        requestBodies = [];
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    it('should retry rate limits and temporary errors', async () => {
+        replies = [failure(429, {'Retry-After': '0'}), failure(503), ok('Hello')];
+
+        const result = await getChatCompletion({userMessage: 'Hi', model: 'primary', baseUrl, retry: fastRetry});
+
+        expect(result).toEqual({success: true, data: 'Hello', error: null, model: 'primary'});
+        expect(requestedModels).toEqual(['primary', 'primary', 'primary']);
+    });
+
+    it('should not retry client errors', async () => {
+        replies = [failure(400), ok('Hello')];
+
+        const result = await getChatCompletion({userMessage: 'Hi', model: 'primary', baseUrl, retry: fastRetry});
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Upstream failure (status 400)');
+        expect(requestedModels).toHaveLength(1);
+    });
+
+    it('should fall back to the next model when the model keeps failing', async () => {
+        replies = [failure(503), failure(503), failure(502), ok('Hello')];
+
+        const result = await getChatCompletion({
+            userMessage: 'Hi',
+            model: 'primary',
+            fallbackModels: ['primary', 'secondary', 'tertiary'],
+            baseUrl,
+            retry: {...fastRetry, maxRetries: 1},
+        });
+
+        expect(result.model).toBe('secondary');
+        expect(result.data).toBe('Hello');
+        expect(requestedModels).toEqual(['primary', 'primary', 'secondary', 'secondary']);
+    });
+
+    it('should return the last error when every model failed', async () => {
+        const result = await getChatCompletion({
+            userMessage: 'Hi',
+            model: 'primary',
+            fallbackModels: ['secondary'],
+            baseUrl,
+            retry: {...fastRetry, maxRetries: 0},
+        });
+
+        expect(result).toMatchObject({success: false, error: 'Upstream failure (status 500)', model: 'secondary'});
+        expect(requestedModels).toEqual(['primary', 'secondary']);
+    });
+
+    it('should not wait longer than the budget', async () => {
+        replies = [failure(429, {'Retry-After': '60'}), ok('Hello')];
+
+        const result = await getChatCompletion({
+            userMessage: 'Hi',
+            model: 'primary',
+            baseUrl,
+            retry: {...fastRetry, budgetMs: 1000},
+        });
+
+        expect(result.error).toBe('Upstream failure (status 429)');
+        expect(requestedModels).toHaveLength(1);
+    });
+
+    it('should return the token usage and cost of the response', async () => {
+        replies = [
+            {
+                status: 200,
+                body: JSON.stringify({
+                    choices: [{message: {content: 'Hello'}}],
+                    usage: {prompt_tokens: 12, completion_tokens: 3, total_tokens: 15, cost: 0.0004},
+                }),
+            },
+            ok('Hello'),
+        ];
+
+        const first = await getChatCompletion({userMessage: 'Hi', baseUrl, retry: fastRetry});
+        const second = await getChatCompletion({userMessage: 'Hi', baseUrl, retry: fastRetry});
+
+        expect(first.usage).toEqual({promptTokens: 12, completionTokens: 3, totalTokens: 15, cost: 0.0004});
+        expect(second.usage).toBeUndefined();
+    });
+
+    it('should request and report the usage of a stream', async () => {
+        replies = [
+            {
+                status: 200,
+                headers: {'Content-Type': 'text/event-stream'},
+                body:
+                    'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n' +
+                    'data: {"choices":[],"usage":{"prompt_tokens":7,"completion_tokens":1}}\n\n' +
+                    'data: [DONE]\n\n',
+            },
+        ];
+        const onUsage = vi.fn();
+
+        for await (const chunk of streamChatCompletion({userMessage: 'Hi', baseUrl, onUsage})) {
+            expect(chunk).toBe('Hi');
+        }
+
+        expect(requestBodies[0].stream_options).toEqual({include_usage: true});
+        expect(onUsage).toHaveBeenCalledWith({promptTokens: 7, completionTokens: 1, totalTokens: 8, cost: null});
+    });
+
+    it('should report the fallback model of a stream before the first delta', async () => {
+        replies = [
+            failure(503),
+            {status: 200, headers: {'Content-Type': 'text/event-stream'}, body: 'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: [DONE]\n\n'},
+        ];
+        const onModelSelected = vi.fn();
+
+        const chunks: string[] = [];
+        for await (const chunk of streamChatCompletion({
+            userMessage: 'Hi',
+            model: 'primary',
+            fallbackModels: ['secondary'],
+            baseUrl,
+            retry: {...fastRetry, maxRetries: 0},
+            onModelSelected,
+        })) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual(['Hi']);
+        expect(onModelSelected).toHaveBeenCalledWith('secondary');
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+        const now = Date.parse('2025-01-01T00:00:00Z');
+
+        expect(parseRetryAfter('3', now)).toBe(3000);
+        expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+        expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+        expect(parseRetryAfter('soon', now)).toBeNull();
+        expect(parseRetryAfter(null, now)).toBeNull();
+    });
+});
+
+describe('computeBackoffDelay', () => {
+    const options = {baseDelayMs: 500, maxDelayMs: 8000};
+
+    it('should double the delay with jitter up to the maximum', () => {
+        expect(computeBackoffDelay(0, options, () => 0)).toBe(250);
+        expect(computeBackoffDelay(0, options, () => 1)).toBe(500);
+        expect(computeBackoffDelay(2, options, () => 1)).toBe(2000);
+        expect(computeBackoffDelay(10, options, () => 1)).toBe(8000);
+    });
+});
@@ -1,7 +1,34 @@
-const OPENROUTER_ENDPOINT = 'https://openrouter.ai/api/v1/chat/completions';
+import { SseParser } from '@/lib/utils/sse';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
 const DEFAULT_SYSTEM_MESSAGE = 'You are a helpful assistant.';
 const DEFAULT_MODEL = 'openai/gpt-4o-mini';
 
+/**
+ * Upstream statuses worth retrying: timeouts, rate limits and temporary server errors
+ */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Retries of transient failures (429, 5xx, network errors)
+ * Delays double from baseDelayMs up to maxDelayMs with jitter, unless the response has a
+ * Retry-After header. No attempt is started when its delay would end after budgetMs (measured
+ * from the first attempt), so callers with a timeout get the upstream error instead.
+ */
+export type RetryOptions = {
+	maxRetries?: number;
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+	budgetMs?: number;
+};
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+	maxRetries: 2,
+	baseDelayMs: 500,
+	maxDelayMs: 8000,
+	budgetMs: 30000,
+};
+
 export type ModelParameters = {
 	temperature?: number;
 	max_tokens?: number;
@@ -33,12 +60,45 @@ export type ChatCompletionOptions = {
 	parameters?: ModelParameters;
 	signal?: AbortSignal;
 	apiKey?: string;
+	/** OpenAI-compatible API base URL, defaults to OpenRouter (the only one requiring an API key) */
+	baseUrl?: string;
+	retry?: RetryOptions;
+	/** Models tried in order when the model keeps failing with transient errors */
+	fallbackModels?: string[];
+	/** Called with the model that answered (model or a fallback) before the first streamed delta */
+	onModelSelected?: (model: string) => void;
+	/** Called with the token usage of a stream, when the API reports it (after the last delta) */
+	onUsage?: (usage: TokenUsage) => void;
+};
+
+/**
+ * Token usage reported by the API
+ */
+export type TokenUsage = {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	/** Cost in USD, only reported by OpenRouter */
+	cost: number | null;
 };
 
 export type ChatCompletionResponse<T> = {
 	success: boolean;
 	data: T | null;
 	error: string | null;
+	/** Model that answered, set when a response was received */
+	model?: string;
+	/** Token usage of a successful response, when the API reports it */
+	usage?: TokenUsage;
+};
+
+/**
+ * Fields read from a chat completion response or stream chunk, all of them may be missing
+ */
+type CompletionPayload = {
+	choices?: { message?: { content?: unknown }; delta?: { content?: unknown } }[];
+	usage?: unknown;
+	error?: { message?: string };
 };
 
 class ConfigurationError extends Error {
@@ -53,33 +113,117 @@ export async function getChatCompletion<T = string>(
 ): Promise<ChatCompletionResponse<T>> {
 	try {
 		validateOptions(options);
-		const apiKey = options.apiKey || process.env.OPENROUTER_API_KEY;
+		const apiKey = resolveApiKey(options);
 
-		if (!apiKey) {
-			throw new ConfigurationError('OPENROUTER_API_KEY is not configured.');
-		}
-
-		const requestBody = buildRequestBody(options);
-		const response = await sendRequest(requestBody, apiKey, options.signal);
+		const { response, model } = await sendWithRetries(buildRequestBody(options), apiKey, options);
 
 		if (!response.ok) {
 			const errorPayload = await safeJson(response);
-			return handleApiError(errorPayload, response.status);
+			return { ...handleApiError<T>(errorPayload, response.status), model };
 		}
 
 		const payload = await safeJson(response);
-		return parseResponse<T>(payload, options.responseFormat);
+		return { ...parseResponse<T>(payload, options.responseFormat), model };
 	} catch (error) {
 		return handleApiError<T>(error);
 	}
 }
 
+/**
+ * Stream a chat completion, yielding content deltas as they arrive (Server-Sent Events)
+ * Unlike getChatCompletion, failures are thrown as errors with the same messages,
+ * including "(status N)" for API error responses.
+ * Retries and fallback models only apply until the response starts.
+ */
+export async function* streamChatCompletion(options: ChatCompletionOptions): AsyncGenerator<string> {
+	validateOptions(options);
+	const apiKey = resolveApiKey(options);
+
+	const requestBody = { ...buildRequestBody(options), stream: true, stream_options: { include_usage: true } };
+	const { response, model } = await sendWithRetries(requestBody, apiKey, options);
+
+	if (!response.ok) {
+		const errorPayload = await safeJson(response);
+		throw new Error(handleApiError(errorPayload, response.status).error ?? 'AI service request failed.');
+	}
+
+	if (!response.body) {
+		throw new Error('Received an empty response from the AI service.');
+	}
+
+	options.onModelSelected?.(model);
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	const parser = new SseParser();
+
+	try {
+		while (true) {
+			const { value, done } = await reader.read();
+			if (done) {
+				return;
+			}
+
+			for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+				if (event.data === '[DONE]') {
+					return;
+				}
+
+				let payload: CompletionPayload | null;
+				try {
+					payload = JSON.parse(event.data) as CompletionPayload | null;
+				} catch {
+					console.error('Failed to parse stream chunk from OpenRouter:', event.data);
+					continue;
+				}
+
+				// Errors after the response started are sent as a chunk with an error object
+				if (payload?.error) {
+					throw new Error(payload.error.message || 'The AI service reported an error while streaming.');
+				}
+
+				const content = payload?.choices?.[0]?.delta?.content;
+				if (typeof content === 'string' && content) {
+					yield content;
+				}
+
+				// The usage is sent with the last chunk, which has no content
+				const usage = parseUsage(payload?.usage);
+				if (usage) {
+					options.onUsage?.(usage);
+				}
+			}
+		}
+	} finally {
+		// Stop the upstream request when the consumer stops early
+		await reader.cancel().catch(() => undefined);
+	}
+}
+
 function validateOptions(options: ChatCompletionOptions) {
 	if (!options.userMessage || typeof options.userMessage !== 'string') {
 		throw new Error('`userMessage` must be a non-empty string.');
 	}
 }
 
+/**
+ * API key of the request, OpenRouter falls back to OPENROUTER_API_KEY and fails without a key
+ * Other OpenAI-compatible servers (e.g. a local Ollama) are called without a key when none is set
+ */
+function resolveApiKey(options: ChatCompletionOptions): string | undefined {
+	if (options.baseUrl) {
+		return options.apiKey || undefined;
+	}
+
+	const apiKey = options.apiKey || process.env.OPENROUTER_API_KEY;
+
+	if (!apiKey) {
+		throw new ConfigurationError('OPENROUTER_API_KEY is not configured.');
+	}
+
+	return apiKey;
+}
+
 function buildRequestBody(options: ChatCompletionOptions) {
 	const { userMessage, systemMessage, model, responseFormat, parameters } = options;
 
@@ -101,6 +245,11 @@ function buildRequestBody(options: ChatCompletionOptions) {
 		Object.assign(body, sanitizeParameters(parameters));
 	}
 
+	// OpenRouter only adds the cost to the usage when asked to
+	if (!options.baseUrl) {
+		body.usage = { include: true };
+	}
+
 	return body;
 }
 
@@ -137,18 +286,143 @@ function sanitizeParameters(parameters: ModelParameters) {
 	}, {});
 }
 
-async function sendRequest(body: Record<string, unknown>, apiKey: string, signal?: AbortSignal) {
+async function sendRequest(
+	body: Record<string, unknown>,
+	apiKey: string | undefined,
+	baseUrl: string = OPENROUTER_BASE_URL,
+	signal?: AbortSignal
+) {
+	const headers: Record<string, string> = {
+		'Content-Type': 'application/json'
+	};
+
+	if (apiKey) {
+		headers.Authorization = `Bearer ${apiKey}`;
+	}
+
 	const requestInit: RequestInit = {
 		method: 'POST',
-		headers: {
-			'Content-Type': 'application/json',
-			Authorization: `Bearer ${apiKey}`
-		},
+		headers,
 		body: JSON.stringify(body),
 		signal
 	};
 
-	return fetch(OPENROUTER_ENDPOINT, requestInit);
+	return fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, requestInit);
+}
+
+/**
+ * Send a request to the model, then to each fallback model, retrying transient failures
+ * Every model gets maxRetries retries, all attempts share the time budget.
+ * @returns The first successful or non-retryable response, otherwise the last one, with its model
+ * @throws The network error of the last attempt when it got no response, or the abort reason
+ */
+async function sendWithRetries(
+	body: Record<string, unknown>,
+	apiKey: string | undefined,
+	options: ChatCompletionOptions
+): Promise<{ response: Response; model: string }> {
+	const retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+	const deadline = Date.now() + retry.budgetMs;
+	const primaryModel = typeof body.model === 'string' ? body.model : DEFAULT_MODEL;
+	const models = [primaryModel, ...(options.fallbackModels ?? []).filter((model) => model !== primaryModel)];
+
+	let last: { response: Response; model: string } | null = null;
+	let lastError: unknown = null;
+
+	for (const model of models) {
+		for (let attempt = 0; Date.now() < deadline; attempt++) {
+			// The failed response is replaced, release its connection
+			await last?.response.body?.cancel().catch(() => undefined);
+			last = null;
+
+			let delayMs: number;
+			try {
+				const response = await sendRequest({ ...body, model }, apiKey, options.baseUrl, options.signal);
+				if (!RETRYABLE_STATUSES.has(response.status)) {
+					return { response, model };
+				}
+
+				last = { response, model };
+				delayMs = parseRetryAfter(response.headers.get('retry-after')) ?? computeBackoffDelay(attempt, retry);
+			} catch (error) {
+				// fetch rejects network failures with a TypeError, anything else (e.g. an abort) is final
+				if (options.signal?.aborted || !(error instanceof TypeError)) {
+					throw error;
+				}
+
+				lastError = error;
+				delayMs = computeBackoffDelay(attempt, retry);
+			}
+
+			if (attempt >= retry.maxRetries || Date.now() + delayMs >= deadline) {
+				break;
+			}
+
+			console.warn(
+				`AI service request to ${model} failed (${last ? `status ${last.response.status}` : 'network error'}), retrying in ${Math.round(delayMs)} ms`
+			);
+			await sleep(delayMs, options.signal);
+		}
+
+		if (models.indexOf(model) < models.length - 1) {
+			console.warn(`AI service request to ${model} keeps failing, falling back to the next model`);
+		}
+	}
+
+	if (last) {
+		return last;
+	}
+	throw lastError ?? new Error('AI service request timed out before it could be sent.');
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date)
+ * @returns Delay in milliseconds or null when the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+	if (!value) {
+		return null;
+	}
+
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value.trim()) * 1000;
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of baseDelayMs * 2^attempt,
+ * capped at maxDelayMs
+ */
+export function computeBackoffDelay(
+	attempt: number,
+	options: Pick<Required<RetryOptions>, 'baseDelayMs' | 'maxDelayMs'>,
+	random: () => number = Math.random
+): number {
+	const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+	return ceiling / 2 + random() * (ceiling / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timeoutId);
+			reject(signal?.reason);
+		};
+		const timeoutId = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
 }
 
 async function safeJson(response: Response) {
@@ -161,8 +435,8 @@ async function safeJson(response: Response) {
 }
 
 
-function parseResponse<T>(payload: any, responseFormat?: ResponseFormat): ChatCompletionResponse<T> {
-	if (!payload) {
+function parseResponse<T>(payload: unknown, responseFormat?: ResponseFormat): ChatCompletionResponse<T> {
+	if (!payload || typeof payload !== 'object') {
 		return {
 			success: false,
 			data: null,
@@ -170,9 +444,10 @@ function parseResponse<T>(payload: any, responseFormat?: ResponseFormat): ChatCo
 		};
 	}
 
-	const content = payload?.choices?.[0]?.message?.content;
+	const { choices, usage: reportedUsage } = payload as CompletionPayload;
+	const content = choices?.[0]?.message?.content;
 
-	if (!content) {
+	if (typeof content !== 'string' || !content) {
 		return {
 			success: false,
 			data: null,
@@ -180,10 +455,12 @@ function parseResponse<T>(payload: any, responseFormat?: ResponseFormat): ChatCo
 		};
 	}
 
+	const usage = parseUsage(reportedUsage);
+
 	if (responseFormat?.type === 'json_schema') {
 		try {
 			const parsed = JSON.parse(content) as T;
-			return { success: true, data: parsed, error: null };
+			return { success: true, data: parsed, error: null, usage };
 		} catch (error) {
 			console.error('Failed to parse JSON content from OpenRouter:', error);
 			return {
@@ -197,7 +474,33 @@ function parseResponse<T>(payload: any, responseFormat?: ResponseFormat): ChatCo
 	return {
 		success: true,
 		data: content as unknown as T,
-		error: null
+		error: null,
+		usage
+	};
+}
+
+/**
+ * Read the usage object of a response or of the last stream chunk
+ * @returns Token usage or undefined when the API didn't report token counts
+ */
+function parseUsage(usage: unknown): TokenUsage | undefined {
+	if (!usage || typeof usage !== 'object') {
+		return undefined;
+	}
+
+	const fields = usage as Record<string, unknown>;
+	const promptTokens = fields.prompt_tokens;
+	const completionTokens = fields.completion_tokens;
+
+	if (typeof promptTokens !== 'number' || typeof completionTokens !== 'number') {
+		return undefined;
+	}
+
+	return {
+		promptTokens,
+		completionTokens,
+		totalTokens: typeof fields.total_tokens === 'number' ? fields.total_tokens : promptTokens + completionTokens,
+		cost: typeof fields.cost === 'number' ? fields.cost : null
 	};
 }
 
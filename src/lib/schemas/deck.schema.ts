@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+/**
+ * Zod validation schema for POST /api/decks request body
+ */
+export const CreateDeckSchema = z.object({
+	/**
+	 * Deck name, unique per user (1-100 characters)
+	 */
+	name: z
+		.string()
+		.trim()
+		.min(1, 'Name must be at least 1 character')
+		.max(100, 'Name must not exceed 100 characters'),
+
+	/**
+	 * Optional deck description (up to 500 characters)
+	 * @optional
+	 */
+	description: z.string().trim().max(500, 'Description must not exceed 500 characters').nullish(),
+});
+
+/**
+ * Type for validated create deck command
+ */
+export type ValidatedCreateDeckCommand = z.infer<typeof CreateDeckSchema>;
+
+/**
+ * Zod validation schema for PUT /api/decks/:id request body
+ */
+export const UpdateDeckSchema = z
+	.object({
+		/**
+		 * Updated deck name
+		 * @optional
+		 */
+		name: z
+			.string()
+			.trim()
+			.min(1, 'Name must be at least 1 character')
+			.max(100, 'Name must not exceed 100 characters')
+			.optional(),
+
+		/**
+		 * Updated deck description, null clears it
+		 * @optional
+		 */
+		description: z.string().trim().max(500, 'Description must not exceed 500 characters').nullish(),
+	})
+	.refine((data) => data.name !== undefined || data.description !== undefined, {
+		message: 'At least one field (name or description) must be provided',
+	});
+
+/**
+ * Type for validated update deck command
+ */
+export type ValidatedUpdateDeckCommand = z.infer<typeof UpdateDeckSchema>;
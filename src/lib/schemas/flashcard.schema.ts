@@ -1,4 +1,79 @@
 import { z } from 'zod';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_FLASHCARD, normalizeTags } from '@/lib/utils/tags';
+import { validateClozeText } from '@/lib/utils/cloze';
+import type { FlashcardCardType } from '@/types';
+
+/**
+ * Zod validation schema for a list of flashcard tags
+ * Tags are normalized (lowercase, whitespace replaced by "-") and deduplicated
+ */
+export const TagListSchema = z
+	.array(
+		z
+			.string()
+			.trim()
+			.min(1, 'Tag cannot be empty')
+			.max(MAX_TAG_LENGTH, `Tag must not exceed ${MAX_TAG_LENGTH} characters`)
+	)
+	.max(MAX_TAGS_PER_FLASHCARD, `Maximum ${MAX_TAGS_PER_FLASHCARD} tags per flashcard`)
+	.transform((tags) => normalizeTags(tags));
+
+/**
+ * Zod validation schema for the card type of a flashcard
+ */
+export const FlashcardCardTypeSchema = z.enum(['basic', 'cloze'], {
+	errorMap: () => ({ message: 'Card type must be either "basic" or "cloze"' }),
+});
+
+/**
+ * Zod validation schema for the content of a flashcard (1-1000 characters per side)
+ * Shared by single and batch creation and file import, refine with refineFlashcardContent
+ * for the rules depending on the card type
+ */
+export const FlashcardContentSchema = z.object({
+	front: z
+		.string()
+		.min(1, 'Front must be at least 1 character')
+		.max(1000, 'Front must not exceed 1000 characters')
+		.trim(),
+	back: z.string().max(1000, 'Back must not exceed 1000 characters').trim(),
+	card_type: FlashcardCardTypeSchema.default('basic'),
+});
+
+/**
+ * Content error depending on the card type, null when the content is valid
+ * Basic cards need a back, the front of cloze notes needs valid deletions (the back is optional extra information)
+ */
+export function getFlashcardContentIssue(content: {
+	front: string;
+	back: string;
+	card_type: FlashcardCardType;
+}): { field: 'front' | 'back'; message: string } | null {
+	if (content.card_type === 'cloze') {
+		const message = validateClozeText(content.front);
+		return message ? { field: 'front', message } : null;
+	}
+
+	if (content.back.length === 0) {
+		return { field: 'back', message: 'Back must be at least 1 character' };
+	}
+
+	return null;
+}
+
+/**
+ * Zod refinement reporting getFlashcardContentIssue on its field
+ */
+export function refineFlashcardContent(
+	content: { front: string; back: string; card_type: FlashcardCardType },
+	ctx: z.RefinementCtx
+): void {
+	const issue = getFlashcardContentIssue(content);
+
+	if (issue) {
+		ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message });
+	}
+}
 
 /**
  * Zod validation schema for GET /api/flashcards query parameters
@@ -32,17 +107,43 @@ export const GetFlashcardsQuerySchema = z.object({
 		),
 
 	/**
-	 * Filter flashcards by source (manual or ai_generated)
+	 * Filter flashcards by source (manual, ai_generated or imported)
 	 * @optional
 	 */
 	source: z
-		.enum(['manual', 'ai_generated'], {
-			errorMap: () => ({ message: 'Source must be either "manual" or "ai_generated"' }),
+		.enum(['manual', 'ai_generated', 'imported'], {
+			errorMap: () => ({ message: 'Source must be one of "manual", "ai_generated" or "imported"' }),
 		})
 		.nullish(),
 
 	/**
-	 * Field to sort by (created_at or updated_at)
+	 * Filter flashcards by deck
+	 * @optional
+	 */
+	deck_id: z.string().uuid('Deck ID must be a valid UUID').nullish(),
+
+	/**
+	 * Filter flashcards by tags (comma-separated), only flashcards having all tags match
+	 * @default []
+	 */
+	tags: z
+		.string()
+		.nullish()
+		.transform((val) => (val ? val.split(',').filter((tag) => tag.trim().length > 0) : []))
+		.pipe(TagListSchema),
+
+	/**
+	 * Full-text search query over front and back, results are ordered by relevance
+	 * @optional
+	 */
+	q: z
+		.string()
+		.nullish()
+		.transform((val) => val?.trim() || null)
+		.pipe(z.string().max(200, 'Search query cannot exceed 200 characters').nullable()),
+
+	/**
+	 * Field to sort by (created_at or updated_at), ignored when q is provided
 	 * @default 'created_at'
 	 */
 	sort: z
@@ -69,27 +170,195 @@ export const GetFlashcardsQuerySchema = z.object({
  */
 export type ValidatedFlashcardQueryParams = z.infer<typeof GetFlashcardsQuerySchema>;
 
+/**
+ * Zod validation schema for GET /api/flashcards/export query parameters
+ * Accepts the same filters as GET /api/flashcards, pagination and sorting are replaced by the export format
+ */
+export const ExportFlashcardsQuerySchema = GetFlashcardsQuerySchema.omit({
+	page: true,
+	limit: true,
+	sort: true,
+	order: true,
+}).extend({
+	/**
+	 * Output format of the export file
+	 * @default 'csv'
+	 */
+	format: z
+		.enum(['csv', 'tsv', 'json', 'anki-txt'], {
+			errorMap: () => ({ message: 'Format must be one of "csv", "tsv", "json" or "anki-txt"' }),
+		})
+		.nullish()
+		.transform((val) => val ?? 'csv'),
+});
+
+/**
+ * Type for validated export query parameters
+ */
+export type ValidatedExportFlashcardsQueryParams = z.infer<typeof ExportFlashcardsQuerySchema>;
+
+/**
+ * Optional 1-based column number of an import file
+ */
+const ImportColumnSchema = z
+	.string()
+	.nullish()
+	.transform((val) => (val ? parseInt(val, 10) : null))
+	.pipe(
+		z
+			.number()
+			.int('Column must be a whole number')
+			.min(1, 'Column must be at least 1')
+			.max(100, 'Column cannot exceed 100')
+			.nullable()
+	);
+
+/**
+ * Zod validation schema for POST /api/flashcards/import form fields (besides the file)
+ * Unset options are derived from the format (and the header row, if any)
+ */
+export const ImportFlashcardsSchema = z.object({
+	/**
+	 * File format, detected from the file extension when omitted
+	 * @optional
+	 */
+	format: z
+		.enum(['csv', 'tsv', 'anki-txt'], {
+			errorMap: () => ({ message: 'Format must be one of "csv", "tsv" or "anki-txt"' }),
+		})
+		.nullish()
+		.transform((val) => val ?? null),
+
+	/**
+	 * Field delimiter, a single character or "tab"
+	 * @optional
+	 */
+	delimiter: z
+		.string()
+		.nullish()
+		.transform((val) => (val === 'tab' ? '\t' : val || null))
+		.pipe(z.string().length(1, 'Delimiter must be a single character or "tab"').nullable()),
+
+	/**
+	 * Whether the first row contains column names
+	 * @default true for csv and tsv, false for anki-txt
+	 */
+	has_header: z
+		.enum(['true', 'false'], {
+			errorMap: () => ({ message: 'has_header must be either "true" or "false"' }),
+		})
+		.nullish()
+		.transform((val) => (val ? val === 'true' : null)),
+
+	/**
+	 * Column mapping (1-based), header names front/back/tags/deck are used when omitted
+	 * @optional
+	 */
+	front_column: ImportColumnSchema,
+	back_column: ImportColumnSchema,
+	tags_column: ImportColumnSchema,
+	deck_column: ImportColumnSchema,
+
+	/**
+	 * Deck for imported flashcards without a deck column value
+	 * @optional
+	 */
+	deck_id: z.string().uuid('Deck ID must be a valid UUID').nullish(),
+});
+
+/**
+ * Type for validated import options
+ */
+export type ValidatedImportFlashcardsOptions = z.infer<typeof ImportFlashcardsSchema>;
+
 /**
  * Zod validation schema for PUT /api/flashcards/:id request body
  * Validates flashcard update command
  */
 export const UpdateFlashcardSchema = z.object({
 	/**
-	 * Front content of the flashcard (question)
+	 * Front content of the flashcard (question, or text with deletions of a cloze note)
 	 * @optional
 	 */
 	front: z.string().min(1, 'Front content cannot be empty').optional(),
 
 	/**
-	 * Back content of the flashcard (answer)
+	 * Back content of the flashcard (answer, or extra information of a cloze note)
+	 * Checked against the card type by the service, the back of a cloze note may be empty
 	 * @optional
 	 */
-	back: z.string().min(1, 'Back content cannot be empty').optional(),
-}).refine((data) => data.front || data.back, {
-	message: 'At least one field (front or back) must be provided',
+	back: z.string().optional(),
+
+	/**
+	 * Card type, the content is validated for the new type
+	 * @optional
+	 */
+	card_type: FlashcardCardTypeSchema.optional(),
+
+	/**
+	 * Complete list of tags, replaces the current tags of the flashcard
+	 * @optional
+	 */
+	tags: TagListSchema.optional(),
+}).refine((data) => data.front || data.back !== undefined || data.card_type || data.tags !== undefined, {
+	message: 'At least one field (front, back, card_type or tags) must be provided',
 });
 
 /**
  * Type for validated update flashcard command
  */
-export type ValidatedUpdateFlashcardCommand = z.infer<typeof UpdateFlashcardSchema>;
\ No newline at end of file
+export type ValidatedUpdateFlashcardCommand = z.infer<typeof UpdateFlashcardSchema>;
+
+/**
+ * Side of a flashcard an attachment belongs to
+ */
+const FlashcardSideSchema = z.enum(['front', 'back'], {
+	errorMap: () => ({ message: 'Side must be either "front" or "back"' }),
+});
+
+/**
+ * Zod validation schema for POST /api/flashcards/:id/media form fields
+ * The file itself is validated by the route (size) and the media service (content)
+ */
+export const UploadFlashcardMediaSchema = z.object({
+	/**
+	 * Side the image is shown on
+	 */
+	side: FlashcardSideSchema,
+});
+
+/**
+ * Type for validated upload flashcard media fields
+ */
+export type ValidatedUploadFlashcardMediaCommand = z.infer<typeof UploadFlashcardMediaSchema>;
+
+/**
+ * Zod validation schema for POST /api/flashcards/:id/audio form fields
+ * The file itself is validated by the route (size) and the audio service (content)
+ */
+export const UploadFlashcardAudioSchema = z.object({
+	/**
+	 * Side the clip is played on
+	 */
+	side: FlashcardSideSchema,
+});
+
+/**
+ * Type for validated upload flashcard audio fields
+ */
+export type ValidatedUploadFlashcardAudioCommand = z.infer<typeof UploadFlashcardAudioSchema>;
+
+/**
+ * Zod validation schema for POST /api/flashcards/:id/audio/speech request body
+ */
+export const SynthesizeSpeechSchema = z.object({
+	/**
+	 * Side whose text is read aloud
+	 */
+	side: FlashcardSideSchema,
+});
+
+/**
+ * Type for validated synthesize speech command
+ */
+export type ValidatedSynthesizeSpeechCommand = z.infer<typeof SynthesizeSpeechSchema>;
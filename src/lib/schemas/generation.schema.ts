@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { getLlmProvider } from '@/lib/llm/llm-provider';
+import {
+	canonicalizeLanguage,
+	GENERATION_CARD_STYLES,
+	GENERATION_DIFFICULTIES,
+	MAX_CARD_COUNT,
+	MIN_CARD_COUNT,
+} from '@/lib/utils/generation-settings';
+
+/**
+ * Optional model selection, restricted to the catalog of the configured provider (GET /api/ai/models)
+ */
+export const GenerationModelSchema = z
+	.string()
+	.optional()
+	.refine(
+		(val) => val === undefined || getLlmProvider().models.some((model) => model.id === val),
+		'Model is not supported'
+	);
+
+/**
+ * Zod validation schema for the optional generation settings of a generation request body
+ */
+export const GenerationSettingsSchema = z.object({
+	/**
+	 * Number of flashcards to generate (1-30), 5-15 per text part when omitted
+	 */
+	card_count: z
+		.number()
+		.int('Card count must be an integer')
+		.min(MIN_CARD_COUNT, `Card count must be at least ${MIN_CARD_COUNT}`)
+		.max(MAX_CARD_COUNT, `Card count cannot exceed ${MAX_CARD_COUNT}`)
+		.optional(),
+
+	/**
+	 * Difficulty of the flashcards
+	 */
+	difficulty: z
+		.enum(GENERATION_DIFFICULTIES, {
+			errorMap: () => ({ message: `Difficulty must be one of: ${GENERATION_DIFFICULTIES.join(', ')}` }),
+		})
+		.optional(),
+
+	/**
+	 * Style of the flashcards
+	 * @default 'qa'
+	 */
+	card_style: z
+		.enum(GENERATION_CARD_STYLES, {
+			errorMap: () => ({ message: `Card style must be one of: ${GENERATION_CARD_STYLES.join(', ')}` }),
+		})
+		.optional(),
+
+	/**
+	 * BCP 47 tag of the flashcard language, normalized to its canonical form (the language of the text when omitted)
+	 */
+	language: z
+		.string()
+		.trim()
+		.max(35, 'Language cannot exceed 35 characters')
+		.refine((val) => canonicalizeLanguage(val) !== null, 'Language must be a BCP 47 language tag (e.g. "en")')
+		.transform((val) => canonicalizeLanguage(val) ?? val)
+		.optional(),
+});
+
+/**
+ * Default and maximum time window of the generation error report
+ */
+export const DEFAULT_ERROR_REPORT_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const MAX_ERROR_REPORT_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Zod validation schema for GET /api/ai/errors query parameters
+ * Both bounds are ISO 8601 timestamps, the window defaults to the 24 hours before `to` (default: now)
+ */
+export const GenerationErrorReportQuerySchema = z
+	.object({
+		/**
+		 * Start of the window (inclusive)
+		 */
+		from: z.string().datetime({ offset: true, message: 'From must be an ISO 8601 timestamp' }).nullish(),
+
+		/**
+		 * End of the window (exclusive)
+		 * @default now
+		 */
+		to: z.string().datetime({ offset: true, message: 'To must be an ISO 8601 timestamp' }).nullish(),
+	})
+	.transform(({ from, to }) => {
+		const toDate = to ? new Date(to) : new Date();
+		const fromDate = from ? new Date(from) : new Date(toDate.getTime() - DEFAULT_ERROR_REPORT_WINDOW_MS);
+
+		return { from: fromDate.toISOString(), to: toDate.toISOString() };
+	})
+	.refine(({ from, to }) => from < to, { message: 'From must be before to', path: ['from'] })
+	.refine(({ from, to }) => Date.parse(to) - Date.parse(from) <= MAX_ERROR_REPORT_WINDOW_MS, {
+		message: 'Time window cannot exceed 90 days',
+		path: ['from'],
+	});
+
+/**
+ * Type for validated generation error report query parameters
+ */
+export type ValidatedGenerationErrorReportQueryParams = z.infer<typeof GenerationErrorReportQuerySchema>;
+
+/**
+ * Zod validation schema for POST /api/ai/generate-from-url request body
+ * Private network targets are rejected by WebPageService when connecting
+ */
+export const GenerateFlashcardsFromUrlSchema = GenerationSettingsSchema.extend({
+	/**
+	 * Public http(s) URL of the page
+	 */
+	url: z
+		.string()
+		.trim()
+		.max(2048, 'URL must not exceed 2048 characters')
+		.url('URL must be a valid URL')
+		.refine((val) => /^https?:\/\//i.test(val), 'URL must use http or https'),
+
+	/**
+	 * Optional model selection
+	 */
+	model: GenerationModelSchema,
+
+	/**
+	 * Generate again instead of reusing cached suggestions
+	 */
+	force: z.boolean().optional(),
+});
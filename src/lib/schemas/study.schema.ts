@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+/**
+ * Zod validation schema for GET /api/study/due query parameters
+ */
+export const GetDueFlashcardsQuerySchema = z.object({
+	/**
+	 * Maximum number of due flashcards to return (must be between 1 and 100)
+	 * @default 20
+	 */
+	limit: z
+		.string()
+		.nullish()
+		.transform((val) => (val ? parseInt(val, 10) : 20))
+		.pipe(
+			z
+				.number()
+				.int()
+				.min(1, 'Limit must be at least 1')
+				.max(100, 'Limit cannot exceed 100')
+		),
+});
+
+/**
+ * Type for validated due flashcards query parameters
+ */
+export type ValidatedDueFlashcardsQueryParams = z.infer<typeof GetDueFlashcardsQuerySchema>;
+
+/**
+ * Zod validation schema for POST /api/study/review request body
+ */
+export const ReviewFlashcardSchema = z.object({
+	/**
+	 * ID of the reviewed flashcard
+	 */
+	flashcard_id: z.string().uuid('Flashcard ID must be a valid UUID'),
+
+	/**
+	 * Reviewed card of a cloze note (deletion number), 0 for basic cards
+	 * @default 0
+	 */
+	card_index: z
+		.number({ invalid_type_error: 'Card index must be a number' })
+		.int('Card index must be an integer')
+		.min(0, 'Card index must be between 0 and 99')
+		.max(99, 'Card index must be between 0 and 99')
+		.default(0),
+
+	/**
+	 * SM-2 quality grade (0-5)
+	 */
+	quality: z
+		.number({ invalid_type_error: 'Quality must be a number' })
+		.int('Quality must be an integer')
+		.min(0, 'Quality must be between 0 and 5')
+		.max(5, 'Quality must be between 0 and 5'),
+});
+
+/**
+ * Type for validated review command
+ */
+export type ValidatedReviewFlashcardCommand = z.infer<typeof ReviewFlashcardSchema>;
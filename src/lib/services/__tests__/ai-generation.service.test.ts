@@ -0,0 +1,315 @@
+// @vitest-environment node
+import {describe, expect, it} from 'vitest';
+import {AiGenerationService, NoSuggestionsError, sumUsage} from '../ai-generation.service';
+import {buildFakeFlashcards, FakeLlmProvider} from '@/lib/llm/fake.provider';
+import type {LlmRequestOptions} from '@/lib/llm/llm-provider';
+import {GenerationCache} from '../generation-cache';
+
+const text = Array.from(
+    {length: 20},
+    (_, i) => `Fact number ${i + 1} explains how cells divide and grow over time.`
+).join(' ');
+
+describe('AiGenerationService with the fake provider', () => {
+    const service = new AiGenerationService(new FakeLlmProvider());
+
+    it('should use the default model of the provider', () => {
+        expect(service.resolveModel(undefined)).toBe('fake/sentences');
+        expect(service.resolveModel('openai/gpt-4o')).toBe('openai/gpt-4o');
+    });
+
+    it('should generate validated suggestions', async () => {
+        const result = await service.generateFlashcards(text, undefined, 'user-1');
+
+        expect(result.model_used).toBe('fake/sentences');
+        expect(result.suggestions).toHaveLength(15);
+        expect(result.usage).toMatchObject({estimated: true, cost: null});
+        expect(result.usage.prompt_tokens).toBeGreaterThan(0);
+        expect(result.tokens_used).toBe(result.usage.prompt_tokens + result.usage.completion_tokens);
+        expect(result.suggestions[0]).toEqual({...buildFakeFlashcards(text)[0], card_type: 'basic'});
+    });
+
+    it('should stream suggestions followed by a done event', async () => {
+        const events = [];
+        for await (const event of service.streamFlashcards(text, undefined, 'user-1')) {
+            events.push(event);
+        }
+
+        expect(events.filter((event) => event.type === 'suggestion')).toHaveLength(15);
+        expect(events.at(-1)).toMatchObject({type: 'done', count: 15, model_used: 'fake/sentences'});
+    });
+
+    it('should fail before the first event when every chunk failed', async () => {
+        class FailingProvider extends FakeLlmProvider {
+            async complete() {
+                return {success: false as const, data: null, error: 'Upstream error (status 500)'};
+            }
+        }
+        const longText = Array.from({length: 3}, () => text.repeat(12)).join('\n\n');
+        const events = new AiGenerationService(new FailingProvider()).streamFlashcards(longText, undefined, 'user-1');
+
+        await expect(events.next()).rejects.toMatchObject({name: 'GatewayError'});
+    });
+
+    it('should fail when the text has no sentences long enough for a flashcard', async () => {
+        await expect(service.generateFlashcards('Too short. '.repeat(150), undefined, 'user-1')).rejects.toBeInstanceOf(
+            NoSuggestionsError
+        );
+    });
+});
+
+describe('AiGenerationService with a fallback model', () => {
+    class FallbackProvider extends FakeLlmProvider {
+        async complete<T = string>(options: LlmRequestOptions) {
+            return {
+                ...(await super.complete<T>(options)),
+                model: 'fake/fallback',
+                usage: {promptTokens: 900, completionTokens: 300, totalTokens: 1200, cost: 0.002},
+            };
+        }
+
+        async *stream(options: LlmRequestOptions) {
+            options.onModelSelected?.('fake/fallback');
+            yield* super.stream(options);
+            options.onUsage?.({promptTokens: 900, completionTokens: 300, totalTokens: 1200, cost: 0.002});
+        }
+    }
+
+    const service = new AiGenerationService(new FallbackProvider());
+
+    it('should report the model that answered', async () => {
+        const result = await service.generateFlashcards(text, undefined, 'user-1');
+
+        expect(result.model_used).toBe('fake/fallback');
+        expect(result.tokens_used).toBe(1200);
+        expect(result.usage).toEqual({
+            prompt_tokens: 900,
+            completion_tokens: 300,
+            total_tokens: 1200,
+            cost: 0.002,
+            estimated: false,
+        });
+    });
+
+    it('should report the model that answered the stream', async () => {
+        const events = [];
+        for await (const event of service.streamFlashcards(text, undefined, 'user-1')) {
+            events.push(event);
+        }
+
+        expect(events.at(-1)).toMatchObject({
+            type: 'done',
+            model_used: 'fake/fallback',
+            tokens_used: 1200,
+            usage: {cost: 0.002, estimated: false},
+        });
+    });
+});
+
+describe('AiGenerationService with a cache', () => {
+    class CountingProvider extends FakeLlmProvider {
+        requests = 0;
+
+        async complete<T = string>(options: LlmRequestOptions) {
+            this.requests++;
+            return super.complete<T>(options);
+        }
+
+        async *stream(options: LlmRequestOptions) {
+            this.requests++;
+            yield* super.stream(options);
+        }
+    }
+
+    it('should reuse the suggestions of an identical request', async () => {
+        const provider = new CountingProvider();
+        const service = new AiGenerationService(provider, new GenerationCache(60000));
+
+        const first = await service.generateFlashcards(text, undefined, 'user-1');
+        const second = await service.generateFlashcards(`  ${text.replace(/ /g, '\n')}  `, undefined, 'user-2');
+
+        expect(provider.requests).toBe(1);
+        expect(first.cached).toBe(false);
+        expect(second).toMatchObject({cached: true, tokens_used: 0, model_used: 'fake/sentences'});
+        expect(second.usage).toMatchObject({total_tokens: 0, cost: 0, estimated: false});
+        expect(second.suggestions).toEqual(first.suggestions);
+    });
+
+    it('should generate again when forced or for another model', async () => {
+        const provider = new CountingProvider();
+        const service = new AiGenerationService(provider, new GenerationCache(60000));
+
+        await service.generateFlashcards(text, undefined, 'user-1');
+        const forced = await service.generateFlashcards(text, undefined, 'user-1', {force: true});
+        await service.generateFlashcards(text, 'fake/other', 'user-1');
+
+        expect(forced.cached).toBe(false);
+        expect(provider.requests).toBe(3);
+    });
+
+    it('should share cached results between streamed and regular requests', async () => {
+        const provider = new CountingProvider();
+        const service = new AiGenerationService(provider, new GenerationCache(60000));
+
+        for await (const event of service.streamFlashcards(text, undefined, 'user-1')) {
+            expect(event.type === 'done' && event.cached).toBe(false);
+        }
+        const events = [];
+        for await (const event of service.streamFlashcards(text, undefined, 'user-1')) {
+            events.push(event);
+        }
+        const result = await service.generateFlashcards(text, undefined, 'user-1');
+
+        expect(provider.requests).toBe(1);
+        expect(events.filter((event) => event.type === 'suggestion')).toHaveLength(15);
+        expect(events.at(-1)).toMatchObject({type: 'done', count: 15, tokens_used: 0, cached: true});
+        expect(result.cached).toBe(true);
+    });
+
+    it('should not cache chunked results when a chunk failed', async () => {
+        class FlakyProvider extends CountingProvider {
+            async complete<T = string>(options: LlmRequestOptions) {
+                const result = super.complete<T>(options);
+                return this.requests === 1 ? {success: false, data: null, error: 'Upstream error (status 500)'} : result;
+            }
+        }
+
+        const provider = new FlakyProvider();
+        const service = new AiGenerationService(provider, new GenerationCache(60000));
+        const longText = Array.from({length: 3}, () => text.repeat(12)).join('\n\n');
+
+        const first = await service.generateFlashcards(longText, undefined, 'user-1');
+        const requests = provider.requests;
+        const second = await service.generateFlashcards(longText, undefined, 'user-1');
+
+        expect(first.cached).toBe(false);
+        expect(second.cached).toBe(false);
+        expect(provider.requests).toBe(requests * 2);
+    });
+});
+
+describe('AiGenerationService with generation settings', () => {
+    class RecordingProvider extends FakeLlmProvider {
+        requests: LlmRequestOptions[] = [];
+
+        async complete<T = string>(options: LlmRequestOptions) {
+            this.requests.push(options);
+            return super.complete<T>(options);
+        }
+
+        async *stream(options: LlmRequestOptions) {
+            this.requests.push(options);
+            yield* super.stream(options);
+        }
+    }
+
+    const maxItems = (options: LlmRequestOptions) =>
+        options.responseFormat?.type === 'json_schema'
+            ? (options.responseFormat.json_schema.schema as {properties: {flashcards: {maxItems: number}}}).properties.flashcards.maxItems
+            : null;
+
+    it('should put the settings in the prompt and the response schema', async () => {
+        const provider = new RecordingProvider();
+        const service = new AiGenerationService(provider);
+
+        const result = await service.generateFlashcards(text, undefined, 'user-1', {
+            settings: {cardCount: 6, difficulty: 'advanced', cardStyle: 'true_false', language: 'pl'},
+        });
+        const [request] = provider.requests;
+
+        expect(result.suggestions).toHaveLength(6);
+        expect(maxItems(request)).toBe(6);
+        expect(request.systemMessage).toContain('Generate 6 flashcards');
+        expect(request.systemMessage).toContain('"True." or "False."');
+        expect(request.systemMessage).toContain('Write for advanced learners');
+        expect(request.systemMessage).toContain('Write the flashcards in Polish');
+    });
+
+    it('should keep the 5-15 range without a card count', async () => {
+        const provider = new RecordingProvider();
+        const service = new AiGenerationService(provider);
+
+        await service.generateFlashcards(text, undefined, 'user-1');
+        const [request] = provider.requests;
+
+        expect(maxItems(request)).toBe(15);
+        expect(request.systemMessage).toContain('Generate 5-15 flashcards');
+        expect(request.systemMessage).toContain('Write the flashcards in the language of the text');
+        expect(request.systemMessage).not.toContain('Write for');
+    });
+
+    it('should ask for Markdown, code and math markup', async () => {
+        const provider = new RecordingProvider();
+        const service = new AiGenerationService(provider);
+
+        await service.generateFlashcards(text, undefined, 'user-1');
+        const [request] = provider.requests;
+
+        expect(request.systemMessage).toContain('fenced code blocks');
+        expect(request.systemMessage).toContain('$...$ (inline) or $$...$$ (display) LaTeX math');
+        expect(request.systemMessage).toContain('never use HTML');
+    });
+
+    it('should share the card count out between chunks', async () => {
+        const provider = new RecordingProvider();
+        const service = new AiGenerationService(provider);
+        const longText = Array.from({length: 3}, (_, i) => text.replace(/Fact/g, `Part ${i} fact`).repeat(12)).join('\n\n');
+        const settings = {cardCount: 10, difficulty: null, cardStyle: 'qa' as const, language: null};
+
+        const result = await service.generateFlashcards(longText, undefined, 'user-1', {settings});
+
+        expect(provider.requests.length).toBeGreaterThan(1);
+        expect(maxItems(provider.requests[0])).toBe(Math.ceil(10 / provider.requests.length));
+        expect(result.suggestions).toHaveLength(10);
+    });
+
+    it('should stop streaming at the card count', async () => {
+        const service = new AiGenerationService(new RecordingProvider());
+        const settings = {cardCount: 4, difficulty: null, cardStyle: 'qa' as const, language: null};
+
+        const events = [];
+        for await (const event of service.streamFlashcards(text, undefined, 'user-1', undefined, {settings})) {
+            events.push(event);
+        }
+
+        expect(events.filter((event) => event.type === 'suggestion')).toHaveLength(4);
+        expect(events.at(-1)).toMatchObject({type: 'done', count: 4});
+    });
+
+    it('should generate cloze notes in the cloze style', async () => {
+        const service = new AiGenerationService(new RecordingProvider());
+        const settings = {cardCount: 3, difficulty: null, cardStyle: 'cloze' as const, language: null};
+
+        const result = await service.generateFlashcards(text, undefined, 'user-1', {settings});
+
+        expect(result.suggestions).toHaveLength(3);
+        expect(result.suggestions[0]).toEqual({
+            front: 'Fact number 1 {{c1::explains}} how cells divide and grow over time.',
+            back: '',
+            card_type: 'cloze',
+            tags: ['explains'],
+        });
+    });
+});
+
+describe('sumUsage', () => {
+    it('should add up tokens and only keep the cost when every request has one', () => {
+        const reported = {prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, cost: 0.5, estimated: false};
+        const estimated = {prompt_tokens: 20, completion_tokens: 10, total_tokens: 30, cost: null, estimated: true};
+
+        expect(sumUsage([reported, reported])).toEqual({
+            prompt_tokens: 20,
+            completion_tokens: 10,
+            total_tokens: 30,
+            cost: 1,
+            estimated: false,
+        });
+        expect(sumUsage([reported, estimated])).toEqual({
+            prompt_tokens: 30,
+            completion_tokens: 15,
+            total_tokens: 45,
+            cost: null,
+            estimated: true,
+        });
+    });
+});
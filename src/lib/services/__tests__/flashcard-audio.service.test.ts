@@ -0,0 +1,176 @@
+// @vitest-environment node
+import {describe, expect, it, vi} from 'vitest';
+import {FlashcardAudioService, SpeechUnavailableError} from '../flashcard-audio.service';
+import {InvalidMediaError} from '../flashcard-media.service';
+import {hashSourceText} from '../generation.service';
+import type {SupabaseClient} from '@/lib/services/flashcard.service';
+import type {FlashcardAudioRow} from '@/lib/services/media-storage';
+import {LocalTtsProvider} from '@/lib/tts/local.provider';
+
+/**
+ * Query builder resolving to the given result, whatever filters are applied
+ */
+const query = (result: unknown) => {
+    const builder: Record<string, unknown> = {
+        then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+    };
+    for (const method of ['select', 'insert', 'delete', 'eq', 'single', 'maybeSingle']) {
+        builder[method] = vi.fn(() => builder);
+    }
+    return builder;
+};
+
+const mockSupabase = (tables: Record<string, unknown[]>) => {
+    const bucket = {
+        upload: vi.fn().mockResolvedValue({data: {}, error: null}),
+        remove: vi.fn().mockResolvedValue({data: [], error: null}),
+        createSignedUrls: vi.fn(async (paths: string[]) => ({
+            data: paths.map((path) => ({path, signedUrl: `https://storage.test/${path}?token=t`, error: null})),
+            error: null,
+        })),
+    };
+    const supabase = {
+        from: vi.fn((table: string) => query(tables[table].shift())),
+        storage: {from: vi.fn(() => bucket)},
+    };
+    return {supabase: supabase as unknown as SupabaseClient, bucket};
+};
+
+const flashcard = {id: 'flashcard-1', front: 'der **Hund**', back: 'the dog', card_type: 'basic'};
+
+const audioRow = (id: string, source: 'upload' | 'tts'): FlashcardAudioRow => ({
+    id,
+    side: 'front',
+    source,
+    storage_path: `user-1/flashcard-1/audio/${id}.wav`,
+    mime_type: 'audio/wav',
+    size_bytes: 1024,
+    created_at: '2025-01-01T00:00:00Z',
+});
+
+describe('synthesizeSpeech', () => {
+    it('should return the cached clip while the text and voice are the same', async () => {
+        const tts = new LocalTtsProvider();
+        const synthesize = vi.spyOn(tts, 'synthesize');
+        const ttsKey = await hashSourceText('local:tones:der Hund');
+        const {supabase, bucket} = mockSupabase({
+            flashcards: [{data: flashcard, error: null}],
+            flashcard_audio: [{data: {...audioRow('audio-1', 'tts'), tts_key: ttsKey}, error: null}],
+        });
+
+        const audio = await new FlashcardAudioService(tts).synthesizeSpeech(supabase, 'user-1', 'flashcard-1', 'front');
+
+        expect(synthesize).not.toHaveBeenCalled();
+        expect(bucket.upload).not.toHaveBeenCalled();
+        expect(audio).toMatchObject({id: 'audio-1', source: 'tts'});
+        expect(audio).not.toHaveProperty('tts_key');
+        expect(audio.url).toBe('https://storage.test/user-1/flashcard-1/audio/audio-1.wav?token=t');
+    });
+
+    it('should replace a clip made from other text', async () => {
+        const {supabase, bucket} = mockSupabase({
+            flashcards: [{data: flashcard, error: null}],
+            flashcard_audio: [
+                {data: {...audioRow('audio-1', 'tts'), tts_key: 'outdated'}, error: null},
+                {error: null},
+                {data: audioRow('audio-2', 'tts'), error: null},
+            ],
+        });
+
+        const audio = await new FlashcardAudioService(new LocalTtsProvider()).synthesizeSpeech(
+            supabase,
+            'user-1',
+            'flashcard-1',
+            'front'
+        );
+
+        const [path, , options] = bucket.upload.mock.calls[0];
+        expect(path).toMatch(/^user-1\/flashcard-1\/audio\/[0-9a-f-]+\.wav$/);
+        expect(options).toEqual({contentType: 'audio/wav', upsert: false});
+        expect(bucket.remove).toHaveBeenCalledWith(['user-1/flashcard-1/audio/audio-1.wav']);
+        expect(audio.id).toBe('audio-2');
+    });
+
+    it('should return the clip of a concurrent request that stored it first', async () => {
+        const {supabase, bucket} = mockSupabase({
+            flashcards: [{data: flashcard, error: null}],
+            flashcard_audio: [
+                {data: null, error: null},
+                {data: null, error: {code: '23505', message: 'duplicate key value'}},
+                {data: {...audioRow('audio-3', 'tts'), tts_key: 'concurrent'}, error: null},
+            ],
+        });
+
+        const audio = await new FlashcardAudioService(new LocalTtsProvider()).synthesizeSpeech(
+            supabase,
+            'user-1',
+            'flashcard-1',
+            'front'
+        );
+
+        expect(audio.id).toBe('audio-3');
+        expect(audio).not.toHaveProperty('tts_key');
+        // The file uploaded by this request is removed again
+        expect(bucket.remove).toHaveBeenCalledWith([bucket.upload.mock.calls[0][0]]);
+    });
+
+    it('should reject sides without text', async () => {
+        const {supabase} = mockSupabase({
+            flashcards: [{data: {...flashcard, front: '{{c1::Paris}}', back: '', card_type: 'cloze'}, error: null}],
+        });
+
+        await expect(
+            new FlashcardAudioService(new LocalTtsProvider()).synthesizeSpeech(supabase, 'user-1', 'flashcard-1', 'back')
+        ).rejects.toBeInstanceOf(InvalidMediaError);
+    });
+
+    it('should fail when text-to-speech is disabled', async () => {
+        const {supabase} = mockSupabase({});
+        const service = new FlashcardAudioService(null);
+
+        expect(service.isSpeechEnabled).toBe(false);
+        await expect(service.synthesizeSpeech(supabase, 'user-1', 'flashcard-1', 'front')).rejects.toBeInstanceOf(
+            SpeechUnavailableError
+        );
+    });
+});
+
+describe('uploadAudio', () => {
+    const wav = () => new File([new TextEncoder().encode('RIFF\u0001\u0002\u0003\u0004WAVEfmt ')], 'hund.wav', {type: 'audio/x-wav'});
+
+    it('should store the clip in the audio folder of the flashcard', async () => {
+        const {supabase, bucket} = mockSupabase({
+            flashcards: [{data: flashcard, error: null}],
+            flashcard_audio: [{data: null, error: null}, {data: audioRow('audio-1', 'upload'), error: null}],
+        });
+
+        const audio = await new FlashcardAudioService(null).uploadAudio(supabase, 'user-1', 'flashcard-1', 'front', wav());
+
+        expect(bucket.upload.mock.calls[0][0]).toMatch(/^user-1\/flashcard-1\/audio\/[0-9a-f-]+\.wav$/);
+        expect(audio).toMatchObject({id: 'audio-1', source: 'upload', mime_type: 'audio/wav'});
+    });
+
+    it('should reject a side that already has a clip', async () => {
+        const {supabase, bucket} = mockSupabase({
+            flashcards: [{data: flashcard, error: null}],
+            flashcard_audio: [{data: {id: 'audio-1'}, error: null}],
+        });
+
+        await expect(
+            new FlashcardAudioService(null).uploadAudio(supabase, 'user-1', 'flashcard-1', 'front', wav())
+        ).rejects.toThrow('This side already has an audio clip');
+        expect(bucket.upload).not.toHaveBeenCalled();
+    });
+
+    it('should reject files that are not audio whatever their type says', async () => {
+        const {supabase} = mockSupabase({
+            flashcards: [{data: flashcard, error: null}],
+            flashcard_audio: [{data: null, error: null}],
+        });
+        const disguised = new File(['<html></html>'], 'clip.mp3', {type: 'audio/mpeg'});
+
+        await expect(
+            new FlashcardAudioService(null).uploadAudio(supabase, 'user-1', 'flashcard-1', 'front', disguised)
+        ).rejects.toBeInstanceOf(InvalidMediaError);
+    });
+});
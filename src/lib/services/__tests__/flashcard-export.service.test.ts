@@ -0,0 +1,138 @@
+import {describe, expect, it} from 'vitest';
+import {
+    escapeAnkiField,
+    escapeCsvField,
+    escapeTsvField,
+    formatExportFooter,
+    formatExportHeader,
+    formatExportItem,
+    flashcardExportService,
+} from '../flashcard-export.service';
+import type {SupabaseClient} from '../flashcard.service';
+import type {FlashcardExportItemDTO} from '@/types';
+
+describe('flashcard export formatting', () => {
+    const item: FlashcardExportItemDTO = {
+        front: 'What is "React"?',
+        back: 'A library,\nfor\tUIs',
+        card_type: 'basic',
+        tags: ['frontend', 'exam-1'],
+        deck: 'Web',
+        source: 'manual',
+        created_at: '2025-01-01T00:00:00Z',
+    };
+
+    describe('escapeCsvField', () => {
+        it('should leave plain values unquoted', () => {
+            expect(escapeCsvField('plain text')).toBe('plain text');
+        });
+
+        it('should quote values with commas, quotes or line breaks and double inner quotes', () => {
+            expect(escapeCsvField('a,b')).toBe('"a,b"');
+            expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+            expect(escapeCsvField('line\r\nbreak')).toBe('"line\r\nbreak"');
+        });
+    });
+
+    describe('escapeTsvField', () => {
+        it('should escape backslashes, tabs and line breaks', () => {
+            expect(escapeTsvField('a\tb\nc\rd\\e')).toBe('a\\tb\\nc\\rd\\\\e');
+        });
+    });
+
+    describe('escapeAnkiField', () => {
+        it('should encode HTML characters and turn line breaks into <br>', () => {
+            expect(escapeAnkiField('<b>&"x"\tend\r\nnext')).toBe('&lt;b&gt;&amp;&quot;x&quot;&#9;end<br>next');
+        });
+    });
+
+    it('should render a CSV file', () => {
+        const output = formatExportHeader('csv') + formatExportItem('csv', item, true) + formatExportFooter('csv', false);
+
+        expect(output).toBe(
+            'front,back,tags,deck,source,created_at\n' +
+            '"What is ""React""?","A library,\nfor\tUIs",frontend exam-1,Web,manual,2025-01-01T00:00:00Z\n'
+        );
+    });
+
+    it('should render a TSV file', () => {
+        expect(formatExportItem('tsv', item, true)).toBe(
+            'What is "React"?\tA library,\\nfor\\tUIs\tfrontend exam-1\tWeb\tmanual\t2025-01-01T00:00:00Z\n'
+        );
+    });
+
+    it('should render an Anki text import with file headers', () => {
+        expect(formatExportHeader('anki-txt')).toContain('#separator:tab\n#html:true\n#tags column:3\n#deck column:4\n');
+        expect(formatExportItem('anki-txt', {...item, deck: null}, true)).toBe(
+            'What is &quot;React&quot;?\tA library,<br>for&#9;UIs\tfrontend exam-1\t\n'
+        );
+    });
+
+    it('should render a valid JSON array', () => {
+        const output = formatExportHeader('json') +
+            formatExportItem('json', item, true) +
+            formatExportItem('json', {...item, front: 'Second'}, false) +
+            formatExportFooter('json', false);
+
+        const parsed = JSON.parse(output);
+        expect(parsed).toHaveLength(2);
+        expect(parsed[0]).toEqual(item);
+        expect(parsed[1].front).toBe('Second');
+    });
+
+    it('should render an empty JSON array when nothing is exported', () => {
+        expect(JSON.parse(formatExportHeader('json') + formatExportFooter('json', true))).toEqual([]);
+    });
+});
+
+describe('exportFlashcards', () => {
+    it('should continue each page after the last exported flashcard', async () => {
+        // Flashcards saved in one transaction share created_at, the ID keeps their order stable
+        const createdAt = '2025-10-20T10:00:00.000000+00:00';
+        const rows = Array.from({length: 101}, (_, index) => ({
+            id: `id-${String(index).padStart(3, '0')}`,
+            front: `Front ${index}`,
+            back: 'Back',
+            source: 'manual',
+            deck_id: null,
+            created_at: createdAt,
+            flashcard_tags: [],
+        }));
+        const pageFilters: string[][] = [];
+        const from = (table: string) => {
+            const filters: string[] = [];
+            const builder = {
+                select: () => builder,
+                eq: () => builder,
+                order: () => builder,
+                limit: () => builder,
+                or: (filter: string) => {
+                    filters.push(filter);
+                    return builder;
+                },
+                then: (resolve: (result: unknown) => void) => {
+                    if (table === 'decks') {
+                        return resolve({data: [], error: null});
+                    }
+                    pageFilters.push(filters);
+                    return resolve({data: pageFilters.length === 1 ? rows.slice(0, 100) : rows.slice(100), error: null});
+                },
+            };
+            return builder;
+        };
+
+        const chunks: string[] = [];
+        const supabase = {from} as unknown as SupabaseClient;
+        for await (const chunk of flashcardExportService.exportFlashcards(supabase, 'user-1', {format: 'csv', tags: [], q: null})) {
+            chunks.push(chunk);
+        }
+
+        expect(pageFilters).toEqual([
+            [],
+            [`created_at.gt."${createdAt}",and(created_at.eq."${createdAt}",id.gt.id-099)`],
+        ]);
+        const lines = chunks.join('').trimEnd().split('\n');
+        expect(lines).toHaveLength(102);
+        expect(lines[101]).toContain('Front 100');
+    });
+});
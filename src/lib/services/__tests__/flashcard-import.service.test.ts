@@ -0,0 +1,163 @@
+import {describe, expect, it, vi} from 'vitest';
+import {
+    decodeAnkiHtmlField,
+    detectImportFormat,
+    flashcardImportService,
+    type ImportRow,
+    parseDelimitedText,
+    parseImportFile,
+} from '../flashcard-import.service';
+import {formatExportHeader, formatExportItem} from '../flashcard-export.service';
+import type {SupabaseClient} from '@/lib/services/flashcard.service';
+import type {FlashcardExportItemDTO} from '@/types';
+
+const defaultOptions = {
+    delimiter: null,
+    has_header: null,
+    front_column: null,
+    back_column: null,
+    tags_column: null,
+    deck_column: null,
+};
+
+describe('detectImportFormat', () => {
+    it('should detect the format from the file extension', () => {
+        expect(detectImportFormat('cards.CSV')).toBe('csv');
+        expect(detectImportFormat('cards.tsv')).toBe('tsv');
+        expect(detectImportFormat('anki export.txt')).toBe('anki-txt');
+        expect(detectImportFormat('cards.xlsx')).toBeNull();
+    });
+});
+
+describe('parseDelimitedText', () => {
+    it('should handle quoted delimiters, doubled quotes and line breaks', () => {
+        const records = parseDelimitedText('a,"b,c"\r\n"say ""hi""","multi\nline"\n\nlast,row', ',', {quoted: true});
+
+        expect(records).toEqual([
+            {line: 1, fields: ['a', 'b,c']},
+            {line: 2, fields: ['say "hi"', 'multi\nline']},
+            {line: 5, fields: ['last', 'row']},
+        ]);
+    });
+
+    it('should keep quotes literally when quoting is disabled', () => {
+        expect(parseDelimitedText('"a"\tb', '\t', {quoted: false})).toEqual([{line: 1, fields: ['"a"', 'b']}]);
+    });
+});
+
+describe('decodeAnkiHtmlField', () => {
+    it('should turn line breaks and entities back into text', () => {
+        expect(decodeAnkiHtmlField('a<br>b<br />c &lt;div&gt; &amp;amp; &quot;x&quot;&#9;y')).toBe('a\nb\nc <div> &amp; "x"\ty');
+    });
+});
+
+describe('parseImportFile', () => {
+    it('should map CSV columns by header names and report invalid rows with line numbers', () => {
+        const csv = 'back,front,tags\nAnswer 1,Question 1,"hard, Exam 1"\nAnswer 2,,\n' + `${'x'.repeat(1001)},Q3,\n`;
+
+        const result = parseImportFile(csv, 'csv', defaultOptions);
+
+        expect(result.rows).toEqual([
+            {row: 2, front: 'Question 1', back: 'Answer 1', card_type: 'basic', tags: ['hard', 'exam', '1'], deck: null},
+        ]);
+        expect(result.errors).toEqual([
+            {row: 3, field: 'front', message: 'Front must be at least 1 character'},
+            {row: 4, field: 'back', message: 'Back must not exceed 1000 characters'},
+        ]);
+    });
+
+    it('should use explicit delimiter and column mapping without a header', () => {
+        const result = parseImportFile('1;Q;A\n2;Q2;A2', 'csv', {
+            ...defaultOptions,
+            delimiter: ';',
+            has_header: false,
+            front_column: 2,
+            back_column: 3,
+        });
+
+        expect(result.rows.map((row) => [row.front, row.back])).toEqual([['Q', 'A'], ['Q2', 'A2']]);
+        expect(result.errors).toEqual([]);
+    });
+
+    it('should read Anki text files with file headers', () => {
+        const anki = '#separator:Pipe\n#html:true\n#tags column:3\n#deck column:4\n' +
+            'What is &lt;b&gt;?|Bold<br>text|html tags|Web::Basics\n';
+
+        const result = parseImportFile(anki, 'anki-txt', defaultOptions);
+
+        expect(result.rows).toEqual([
+            {row: 5, front: 'What is <b>?', back: 'Bold\ntext', card_type: 'basic', tags: ['html', 'tags'], deck: 'Web::Basics'},
+        ]);
+    });
+
+    it('should read lines starting with # after the file headers as data', () => {
+        const anki = '#separator:tab\n#C# version:12\tReleased in 2023\n#hashtags\tMetadata tags\n';
+
+        const result = parseImportFile(anki, 'anki-txt', defaultOptions);
+
+        expect(result.rows.map((row) => [row.row, row.front, row.back])).toEqual([
+            [2, '#C# version:12', 'Released in 2023'],
+            [3, '#hashtags', 'Metadata tags'],
+        ]);
+    });
+
+    it('should recognize cloze notes by their deletions', () => {
+        const csv = 'front,back\n{{c1::Paris}} is the capital of {{c2::France}},\n{{c1::}} is empty,\n';
+
+        const result = parseImportFile(csv, 'csv', defaultOptions);
+
+        expect(result.rows).toEqual([
+            {row: 2, front: '{{c1::Paris}} is the capital of {{c2::France}}', back: '', card_type: 'cloze', tags: [], deck: null},
+        ]);
+        expect(result.errors).toEqual([{row: 3, field: 'front', message: 'Cloze deletion cannot be empty'}]);
+    });
+
+    it.each(['csv', 'tsv', 'anki-txt'] as const)('should read back a %s export', (format) => {
+        const item: FlashcardExportItemDTO = {
+            front: 'Tabs\tand "quotes", commas',
+            back: 'Line\nbreaks & <html>',
+            card_type: 'basic',
+            tags: ['exam-1', 'hard'],
+            deck: 'Biology',
+            source: 'manual',
+            created_at: '2025-01-01T00:00:00Z',
+        };
+
+        const file = formatExportHeader(format) + formatExportItem(format, item, true);
+        const result = parseImportFile(file, format, defaultOptions);
+
+        expect(result.errors).toEqual([]);
+        expect(result.rows).toHaveLength(1);
+        expect(result.rows[0]).toMatchObject({front: item.front, back: item.back, tags: item.tags, deck: 'Biology'});
+    });
+});
+
+describe('importFlashcards', () => {
+    const rows: ImportRow[] = Array.from({length: 150}, (_, index) => ({
+        row: index + 2,
+        front: `front ${index}`,
+        back: `back ${index}`,
+        card_type: 'basic',
+        tags: ['import'],
+        deck: null,
+    }));
+
+    it('should save each chunk with its tags and report a failed chunk as row errors', async () => {
+        const select = vi.fn()
+            .mockResolvedValueOnce({data: null, error: {code: 'P0001', message: 'tag failed'}})
+            .mockResolvedValueOnce({data: rows.slice(100).map((_, index) => ({id: `flashcard-${index}`})), error: null});
+        const rpc = vi.fn(() => ({select}));
+        const supabase = {rpc} as unknown as SupabaseClient;
+
+        const result = await flashcardImportService.importFlashcards(supabase, 'user-1', {rows, errors: []}, null);
+
+        expect(rpc).toHaveBeenCalledTimes(2);
+        expect(rpc).toHaveBeenCalledWith('create_flashcards', expect.objectContaining({
+            p_user_id: 'user-1',
+            p_flashcards: expect.arrayContaining([expect.objectContaining({front: 'front 100', tags: ['import']})]),
+        }));
+        expect(result.imported).toBe(50);
+        expect(result.failed).toBe(100);
+        expect(result.errors[0]).toEqual({row: 2, field: 'row', message: 'Failed to save flashcard'});
+    });
+});
@@ -0,0 +1,136 @@
+// @vitest-environment node
+import {describe, expect, it, vi} from 'vitest';
+import {flashcardMediaService, InvalidMediaError} from '../flashcard-media.service';
+import {FlashcardNotFoundError, type SupabaseClient} from '@/lib/services/flashcard.service';
+import {signFlashcardMedia, type FlashcardMediaRow} from '@/lib/services/media-storage';
+
+/**
+ * Query builder resolving to the given result, whatever filters are applied
+ */
+const query = (result: unknown) => {
+    const builder: Record<string, unknown> = {
+        then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+    };
+    for (const method of ['select', 'insert', 'delete', 'eq', 'single', 'maybeSingle']) {
+        builder[method] = vi.fn(() => builder);
+    }
+    return builder;
+};
+
+const png = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])], 'heart.png', {type: 'image/png'});
+
+const row = (id: string, createdAt: string): FlashcardMediaRow => ({
+    id,
+    side: 'front',
+    storage_path: `user-1/flashcard-1/${id}.png`,
+    mime_type: 'image/png',
+    size_bytes: 9,
+    created_at: createdAt,
+});
+
+const mockSupabase = (tables: Record<string, unknown[]>) => {
+    const bucket = {
+        upload: vi.fn().mockResolvedValue({data: {}, error: null}),
+        remove: vi.fn().mockResolvedValue({data: [], error: null}),
+        createSignedUrls: vi.fn(async (paths: string[]) => ({
+            data: paths.map((path) => ({path, signedUrl: `https://storage.test/${path}?token=t`, error: null})),
+            error: null,
+        })),
+    };
+    const supabase = {
+        from: vi.fn((table: string) => query(tables[table].shift())),
+        storage: {from: vi.fn(() => bucket)},
+    };
+    return {supabase: supabase as unknown as SupabaseClient, bucket};
+};
+
+describe('signFlashcardMedia', () => {
+    it('should sign every group in one request and sort media oldest first', async () => {
+        const {supabase, bucket} = mockSupabase({});
+
+        const [first, second] = await signFlashcardMedia(supabase, [
+            [row('b', '2025-01-02T00:00:00Z'), row('a', '2025-01-01T00:00:00Z')],
+            [],
+        ]);
+
+        expect(bucket.createSignedUrls).toHaveBeenCalledTimes(1);
+        expect(first.map((media) => media.id)).toEqual(['a', 'b']);
+        expect(first[0].url).toBe('https://storage.test/user-1/flashcard-1/a.png?token=t');
+        expect(first[0]).not.toHaveProperty('storage_path');
+        expect(second).toEqual([]);
+    });
+
+    it('should not call Storage without media', async () => {
+        const {supabase, bucket} = mockSupabase({});
+
+        expect(await signFlashcardMedia(supabase, [[], []])).toEqual([[], []]);
+        expect(bucket.createSignedUrls).not.toHaveBeenCalled();
+    });
+});
+
+describe('uploadMedia', () => {
+    it('should store the image under the owner folder and return it with a signed URL', async () => {
+        const {supabase, bucket} = mockSupabase({
+            flashcards: [{data: {id: 'flashcard-1'}, error: null}],
+            flashcard_media: [
+                {count: 0, error: null},
+                {data: row('media-1', '2025-01-01T00:00:00Z'), error: null},
+            ],
+        });
+
+        const media = await flashcardMediaService.uploadMedia(supabase, 'user-1', 'flashcard-1', 'front', png);
+
+        const [path, , options] = bucket.upload.mock.calls[0];
+        expect(path).toMatch(/^user-1\/flashcard-1\/[0-9a-f-]+\.png$/);
+        expect(options).toEqual({contentType: 'image/png', upsert: false});
+        expect(media).toMatchObject({id: 'media-1', side: 'front', mime_type: 'image/png'});
+        expect(media.url).toContain('https://storage.test/');
+    });
+
+    it('should reject files that are not images whatever their type says', async () => {
+        const {supabase, bucket} = mockSupabase({
+            flashcards: [{data: {id: 'flashcard-1'}, error: null}],
+            flashcard_media: [{count: 0, error: null}],
+        });
+        const disguised = new File(['<svg onload="alert(1)"></svg>'], 'image.png', {type: 'image/png'});
+
+        await expect(
+            flashcardMediaService.uploadMedia(supabase, 'user-1', 'flashcard-1', 'front', disguised)
+        ).rejects.toBeInstanceOf(InvalidMediaError);
+        expect(bucket.upload).not.toHaveBeenCalled();
+    });
+
+    it('should reject a side that already has the most images', async () => {
+        const {supabase} = mockSupabase({
+            flashcards: [{data: {id: 'flashcard-1'}, error: null}],
+            flashcard_media: [{count: 4, error: null}],
+        });
+
+        await expect(
+            flashcardMediaService.uploadMedia(supabase, 'user-1', 'flashcard-1', 'back', png)
+        ).rejects.toThrow('A side can have at most 4 images');
+    });
+
+    it('should reject flashcards of other users', async () => {
+        const {supabase} = mockSupabase({flashcards: [{data: null, error: null}]});
+
+        await expect(
+            flashcardMediaService.uploadMedia(supabase, 'user-1', 'flashcard-2', 'front', png)
+        ).rejects.toBeInstanceOf(FlashcardNotFoundError);
+    });
+
+    it('should remove the stored file when the attachment cannot be recorded', async () => {
+        const {supabase, bucket} = mockSupabase({
+            flashcards: [{data: {id: 'flashcard-1'}, error: null}],
+            flashcard_media: [
+                {count: 0, error: null},
+                {data: null, error: {message: 'insert failed'}},
+            ],
+        });
+
+        await expect(
+            flashcardMediaService.uploadMedia(supabase, 'user-1', 'flashcard-1', 'front', png)
+        ).rejects.toThrow('Failed to save flashcard media');
+        expect(bucket.remove).toHaveBeenCalledWith([bucket.upload.mock.calls[0][0]]);
+    });
+});
@@ -0,0 +1,83 @@
+import {describe, expect, it} from 'vitest';
+import {
+    buildGenerationCacheKey,
+    type CachedGeneration,
+    DEFAULT_CACHE_TTL_SECONDS,
+    GenerationCache,
+    normalizeGenerationText,
+    parseCacheTtl,
+} from '../generation-cache';
+import {DEFAULT_GENERATION_SETTINGS} from '@/lib/utils/generation-settings';
+
+const generation: CachedGeneration = {
+    suggestions: [{front: 'Question', back: 'Answer', card_type: 'basic', tags: []}],
+    modelUsed: 'fake/sentences',
+};
+
+describe('buildGenerationCacheKey', () => {
+    it('should ignore whitespace differences and Unicode normalization', async () => {
+        const key = await buildGenerationCacheKey('Café opens  at\n\nnine.', 'model-a', 1, DEFAULT_GENERATION_SETTINGS);
+
+        expect(normalizeGenerationText('  Café opens at nine. ')).toBe('Café opens at nine.');
+        expect(await buildGenerationCacheKey(' Café opens at nine.\n', 'model-a', 1, DEFAULT_GENERATION_SETTINGS)).toBe(key);
+    });
+
+    it('should differ by text, model, prompt version and settings', async () => {
+        const key = await buildGenerationCacheKey('Some text.', 'model-a', 1, DEFAULT_GENERATION_SETTINGS);
+
+        expect(await buildGenerationCacheKey('Some other text.', 'model-a', 1, DEFAULT_GENERATION_SETTINGS)).not.toBe(key);
+        expect(await buildGenerationCacheKey('Some text.', 'model-b', 1, DEFAULT_GENERATION_SETTINGS)).not.toBe(key);
+        expect(await buildGenerationCacheKey('Some text.', 'model-a', 2, DEFAULT_GENERATION_SETTINGS)).not.toBe(key);
+        expect(
+            await buildGenerationCacheKey('Some text.', 'model-a', 1, {...DEFAULT_GENERATION_SETTINGS, cardCount: 10})
+        ).not.toBe(key);
+        expect(
+            await buildGenerationCacheKey('Some text.', 'model-a', 1, {...DEFAULT_GENERATION_SETTINGS, language: 'pl'})
+        ).not.toBe(key);
+    });
+});
+
+describe('GenerationCache', () => {
+    it('should return entries until they expire', () => {
+        let now = 0;
+        const cache = new GenerationCache(1000, 10, () => now);
+
+        cache.set('key', generation);
+        now = 999;
+        expect(cache.get('key')).toEqual(generation);
+        now = 1000;
+        expect(cache.get('key')).toBeNull();
+        expect(cache.get('missing')).toBeNull();
+    });
+
+    it('should drop the oldest entries when full', () => {
+        const cache = new GenerationCache(1000, 2);
+
+        cache.set('first', generation);
+        cache.set('second', generation);
+        cache.set('first', generation);
+        cache.set('third', generation);
+
+        expect(cache.get('second')).toBeNull();
+        expect(cache.get('first')).toEqual(generation);
+        expect(cache.get('third')).toEqual(generation);
+    });
+
+    it('should not cache anything without a time to live', () => {
+        const cache = new GenerationCache(0);
+
+        cache.set('key', generation);
+
+        expect(cache.get('key')).toBeNull();
+    });
+});
+
+describe('parseCacheTtl', () => {
+    it('should read seconds and default missing or invalid values', () => {
+        expect(parseCacheTtl('60')).toBe(60000);
+        expect(parseCacheTtl('0')).toBe(0);
+        expect(parseCacheTtl(undefined)).toBe(DEFAULT_CACHE_TTL_SECONDS * 1000);
+        expect(parseCacheTtl('-5')).toBe(DEFAULT_CACHE_TTL_SECONDS * 1000);
+        expect(parseCacheTtl('1.5')).toBe(DEFAULT_CACHE_TTL_SECONDS * 1000);
+    });
+});
@@ -0,0 +1,16 @@
+import {describe, expect, it} from 'vitest';
+import {toGenerationErrorPayload} from '../generation-recording';
+import {DatabaseQueryError} from '../flashcard.service';
+
+describe('toGenerationErrorPayload', () => {
+    it('should refuse with 503 when the generation could not be recorded', () => {
+        const {status, body} = toGenerationErrorPayload(new DatabaseQueryError('Failed to create generation'));
+
+        expect(status).toBe(503);
+        expect(body).toMatchObject({error: 'Service unavailable', retry_after: 60});
+    });
+
+    it('should report unknown errors as internal errors', () => {
+        expect(toGenerationErrorPayload(new Error('boom')).status).toBe(500);
+    });
+});
@@ -0,0 +1,57 @@
+import {describe, expect, it, vi} from 'vitest';
+import {GenerationQuotaExceededError, generationService, hashSourceText} from '../generation.service';
+import type {SupabaseClient} from '@/lib/services/flashcard.service';
+import {DEFAULT_GENERATION_LIMITS} from '@/lib/utils/rate-limit';
+
+describe('hashSourceText', () => {
+    it('should return the SHA-256 hex digest of the text', async () => {
+        expect(await hashSourceText('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should hash unicode text as UTF-8', async () => {
+        expect(await hashSourceText('zażółć')).toHaveLength(64);
+        expect(await hashSourceText('zażółć')).not.toBe(await hashSourceText('zazolc'));
+    });
+});
+
+describe('createGeneration', () => {
+    const quotaRows = (generationId: string | null, usedPerMinute: number) => [
+        {generation_id: generationId, quota: 'requests_per_minute', quota_limit: 5, used: usedPerMinute, reset_at: '2025-01-01T00:01:00Z'},
+        {generation_id: generationId, quota: 'generations_per_day', quota_limit: 50, used: 7, reset_at: '2025-01-02T00:00:00Z'},
+        {generation_id: generationId, quota: 'tokens_per_month', quota_limit: 1000000, used: 2000, reset_at: '2025-02-01T00:00:00Z'},
+    ];
+    const mockSupabase = (rows: unknown[]) =>
+        ({rpc: vi.fn().mockResolvedValue({data: rows, error: null})}) as unknown as SupabaseClient;
+
+    it('should return the generation and the usage of each quota', async () => {
+        const supabase = mockSupabase(quotaRows('generation-1', 2));
+
+        const result = await generationService.createGeneration(supabase, 'user-1', 'model', 'text', DEFAULT_GENERATION_LIMITS);
+
+        expect(result.generationId).toBe('generation-1');
+        expect(result.quotas[0]).toEqual({
+            name: 'requests_per_minute',
+            limit: 5,
+            used: 2,
+            remaining: 3,
+            reset_at: '2025-01-01T00:01:00Z',
+        });
+        expect(supabase.rpc).toHaveBeenCalledWith('create_generation_within_quota', expect.objectContaining({
+            p_user_id: 'user-1',
+            p_model: 'model',
+            p_source_text_length: 4,
+            p_requests_per_minute: DEFAULT_GENERATION_LIMITS.requestsPerMinute,
+        }));
+    });
+
+    it('should refuse the generation when a quota is used up', async () => {
+        const supabase = mockSupabase(quotaRows(null, 5));
+
+        const error = await generationService
+            .createGeneration(supabase, 'user-1', 'model', 'text', DEFAULT_GENERATION_LIMITS)
+            .catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(GenerationQuotaExceededError);
+        expect((error as GenerationQuotaExceededError).quotas[0].remaining).toBe(0);
+    });
+});
@@ -0,0 +1,45 @@
+import {describe, expect, it} from 'vitest';
+import {calculateNextReview, INITIAL_STUDY_PROGRESS} from '../study.service';
+
+describe('calculateNextReview', () => {
+    const now = new Date('2025-01-01T00:00:00.000Z');
+
+    it('should schedule a first successful review for the next day', () => {
+        const result = calculateNextReview(INITIAL_STUDY_PROGRESS, 4, now);
+
+        expect(result.repetitions).toBe(1);
+        expect(result.interval).toBe(1);
+        expect(result.ease_factor).toBe(2.5);
+        expect(result.next_review_date).toBe('2025-01-02T00:00:00.000Z');
+    });
+
+    it('should use a 6 day interval on the second successful review', () => {
+        const result = calculateNextReview({ease_factor: 2.5, interval: 1, repetitions: 1}, 5, now);
+
+        expect(result.repetitions).toBe(2);
+        expect(result.interval).toBe(6);
+        expect(result.ease_factor).toBe(2.6);
+    });
+
+    it('should multiply the interval by the ease factor after two repetitions', () => {
+        const result = calculateNextReview({ease_factor: 2.5, interval: 6, repetitions: 2}, 3, now);
+
+        expect(result.repetitions).toBe(3);
+        expect(result.interval).toBe(15);
+        expect(result.ease_factor).toBe(2.36);
+    });
+
+    it('should reset repetitions and interval on a failed review', () => {
+        const result = calculateNextReview({ease_factor: 2.5, interval: 15, repetitions: 3}, 2, now);
+
+        expect(result.repetitions).toBe(0);
+        expect(result.interval).toBe(1);
+        expect(result.ease_factor).toBe(2.18);
+    });
+
+    it('should never drop the ease factor below 1.3', () => {
+        const result = calculateNextReview({ease_factor: 1.3, interval: 1, repetitions: 0}, 0, now);
+
+        expect(result.ease_factor).toBe(1.3);
+    });
+});
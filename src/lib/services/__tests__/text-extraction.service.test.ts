@@ -0,0 +1,110 @@
+import {describe, expect, it} from 'vitest';
+import {
+    cleanPdfPages,
+    decodeHtmlEntities,
+    detectSourceFormat,
+    htmlToText,
+    markdownToText,
+    truncateText,
+} from '../text-extraction.service';
+
+describe('detectSourceFormat', () => {
+    it('should detect the format from the file extension', () => {
+        expect(detectSourceFormat('Lecture 1.PDF', '')).toBe('pdf');
+        expect(detectSourceFormat('notes.docx', '')).toBe('docx');
+        expect(detectSourceFormat('README.md', '')).toBe('markdown');
+        expect(detectSourceFormat('page.htm', '')).toBe('html');
+    });
+
+    it('should fall back to the MIME type', () => {
+        expect(detectSourceFormat('download', 'text/html; charset=utf-8')).toBe('html');
+        expect(detectSourceFormat('download', 'application/zip')).toBeNull();
+        expect(detectSourceFormat('slides.pptx', '')).toBeNull();
+    });
+});
+
+describe('decodeHtmlEntities', () => {
+    it('should decode named and numeric references', () => {
+        expect(decodeHtmlEntities('Tom &amp; Jerry &#8211; &#x41;&nbsp;&lt;b&gt;')).toBe('Tom & Jerry – A <b>');
+        expect(decodeHtmlEntities('&unknown; &#0;')).toBe('&unknown; &#0;');
+    });
+});
+
+describe('htmlToText', () => {
+    it('should drop boilerplate and keep paragraphs', () => {
+        const html = `
+            <html>
+            <head><title>Title</title><style>p { color: red; }</style></head>
+            <body>
+                <nav><a href="/">Home</a></nav>
+                <h1>Photosynthesis</h1>
+                <p>Plants convert
+                   light into energy.</p>
+                <script>track();</script>
+                <ul><li>Light</li><li>Water</li></ul>
+                <footer>© 2025</footer>
+            </body>
+            </html>`;
+
+        expect(htmlToText(html)).toBe('Photosynthesis\n\nPlants convert light into energy.\n\n- Light\n- Water');
+    });
+
+    it('should prefer the main content of the page', () => {
+        const html = '<div>Sidebar</div><main><p>Main &amp; only</p></main><div>Related</div>';
+
+        expect(htmlToText(html)).toBe('Main & only');
+    });
+});
+
+describe('markdownToText', () => {
+    it('should remove Markdown syntax and keep the text', () => {
+        const markdown = [
+            '---',
+            'title: Notes',
+            '---',
+            '# Cells',
+            '',
+            'The **nucleus** holds _DNA_, see [biology](https://example.com).',
+            '![diagram](cell.png)',
+            '> Quote',
+            '',
+            '```js',
+            'const cell = 1;',
+            '```',
+        ].join('\n');
+
+        expect(markdownToText(markdown)).toBe(
+            'Cells\n\nThe nucleus holds DNA, see biology.\n\nQuote\n\nconst cell = 1;'
+        );
+    });
+});
+
+describe('cleanPdfPages', () => {
+    it('should remove page numbers and running headers', () => {
+        const pages = [
+            'Biology 101\nFirst page text\n1',
+            'Biology 101\nSecond page with a hyphen-\nated word\nPage 2 of 3',
+            'Biology 101\nThird page text\n3',
+        ];
+
+        expect(cleanPdfPages(pages)).toBe(
+            'First page text\n\nSecond page with a hyphenated word\n\nThird page text'
+        );
+    });
+
+    it('should keep repeated lines of short documents', () => {
+        expect(cleanPdfPages(['Same line', 'Same line'])).toBe('Same line\n\nSame line');
+    });
+});
+
+describe('truncateText', () => {
+    it('should return short text unchanged', () => {
+        expect(truncateText('short', 10)).toEqual({text: 'short', truncated: false});
+    });
+
+    it('should cut long text at the last line break', () => {
+        const text = `${'a'.repeat(30)}\n\n${'b'.repeat(30)}`;
+
+        expect(truncateText(text, 40)).toEqual({text: 'a'.repeat(30), truncated: true});
+    });
+});
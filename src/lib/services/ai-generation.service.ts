@@ -1,6 +1,113 @@
-import type {GenerateFlashcardsResponseDTO, FlashcardSuggestionDTO} from '@/types';
+import type {
+	GenerateFlashcardsResponseDTO,
+	GenerateFlashcardsStreamEvent,
+	FlashcardSuggestionDTO,
+	GenerationUsageDTO,
+	GenerationCardStyle,
+	GenerationDifficulty,
+} from '@/types';
 import {createLogger} from '@/lib/utils/logger';
-import {getChatCompletion, type ResponseFormat} from '@/lib/openrouter/openrouter.service';
+import type {ResponseFormat, TokenUsage} from '@/lib/openrouter/openrouter.service';
+import {getLlmProvider, type LlmProvider} from '@/lib/llm/llm-provider';
+import {normalizeTags} from '@/lib/utils/tags';
+import {hasClozeDeletions} from '@/lib/utils/cloze';
+import {getFlashcardContentIssue} from '@/lib/schemas/flashcard.schema';
+import {JsonArrayItemParser} from '@/lib/utils/json-stream';
+import {MAX_CHUNK_LENGTH, splitTextIntoChunks} from '@/lib/utils/text-chunks';
+import {mapSettledWithConcurrency, type SettledTask} from '@/lib/utils/concurrency';
+import {estimateTokenUsage} from '@/lib/utils/token-count';
+import {buildGenerationCacheKey, type CachedGeneration, type GenerationCache} from '@/lib/services/generation-cache';
+import {
+	DEFAULT_GENERATION_SETTINGS,
+	describeLanguage,
+	type GenerationSettings,
+} from '@/lib/utils/generation-settings';
+
+/**
+ * Chunk requests of a long text that run at the same time
+ */
+const MAX_CONCURRENT_CHUNKS = 3;
+
+/**
+ * Version of the prompts, response format and parameters, part of the cache key
+ * Bump it when changing them so suggestions of the previous prompts are not reused
+ */
+export const PROMPT_VERSION = 4;
+
+/**
+ * Usage of a generation answered from the cache
+ */
+const CACHED_USAGE: GenerationUsageDTO = {
+	prompt_tokens: 0,
+	completion_tokens: 0,
+	total_tokens: 0,
+	cost: 0,
+	estimated: false,
+};
+
+/**
+ * Prompt instruction of each card style
+ */
+const CARD_STYLE_INSTRUCTIONS: Record<GenerationCardStyle, string> = {
+	qa: 'Each flashcard must have a "front" (a clear, specific question) and a "back" (a concise but complete answer).',
+	definition:
+		'Each flashcard must have a "front" with a term or concept from the text and a "back" with its concise definition.',
+	cloze:
+		'Each flashcard must have a "front" with a sentence from the text in which key terms are marked as cloze deletions, e.g. "{{c1::Mitochondria}} produce most of the {{c2::ATP}} of the cell" (number the deletions c1, c2, ... within a sentence, each number becomes a separate card), and a "back" with optional extra context or an empty string.',
+	true_false:
+		'Each flashcard must have a "front" with a statement about the text that is either true or false (mix both) and a "back" starting with "True." or "False." followed by a short explanation.',
+};
+
+/**
+ * Prompt instruction of each difficulty
+ */
+const DIFFICULTY_INSTRUCTIONS: Record<GenerationDifficulty, string> = {
+	beginner: 'Write for beginners: ask about basic facts and definitions in simple wording.',
+	intermediate: 'Write for intermediate learners: combine facts with questions about how and why concepts relate.',
+	advanced:
+		'Write for advanced learners: focus on applying, analyzing and connecting concepts, skip trivial facts.',
+};
+
+/**
+ * Options of a single generation
+ */
+export type GenerationOptions = {
+	/** Generate again even when an identical request is cached */
+	force?: boolean;
+	/** Number, difficulty, style and language of the flashcards */
+	settings?: GenerationSettings;
+};
+
+/**
+ * Events emitted by streamFlashcards (start and error events are added by the route)
+ */
+export type GenerationServiceEvent = Exclude<GenerateFlashcardsStreamEvent, {type: 'start' | 'error'}>;
+
+/**
+ * Raw response of a single chunk request
+ */
+type ChunkResult = {
+	flashcards: unknown[];
+	usage: GenerationUsageDTO;
+	/** Model that answered, a fallback model when the selected one kept failing */
+	modelUsed: string;
+};
+
+/**
+ * Add up the usage of several requests, the cost is only known when it is known for all of them
+ */
+export function sumUsage(usages: GenerationUsageDTO[]): GenerationUsageDTO {
+	return usages.reduce<GenerationUsageDTO>(
+		(total, usage) => ({
+			prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+			completion_tokens: total.completion_tokens + usage.completion_tokens,
+			total_tokens: total.total_tokens + usage.total_tokens,
+			cost: total.cost !== null && usage.cost !== null ? total.cost + usage.cost : null,
+			estimated: total.estimated || usage.estimated,
+		}),
+		{prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0, estimated: false}
+	);
+}
 
 /**
  * Custom error types for AI generation service
@@ -13,14 +120,14 @@ export class TimeoutError extends Error {
 }
 
 export class GatewayError extends Error {
-	constructor(message: string) {
+	constructor(message: string, public readonly upstreamStatus: number | null = null) {
 		super(message);
 		this.name = 'GatewayError';
 	}
 }
 
 export class ServiceUnavailableError extends Error {
-	constructor(message: string) {
+	constructor(message: string, public readonly upstreamStatus: number | null = null) {
 		super(message);
 		this.name = 'ServiceUnavailableError';
 	}
@@ -35,120 +142,400 @@ export class NoSuggestionsError extends Error {
 
 /**
  * AI Generation Service
- * Handles communication with OpenRouter.ai API for flashcard generation
+ * Generates flashcards with an LLM provider, by default the one configured by LLM_PROVIDER
  */
 export class AiGenerationService {
-	private readonly defaultModel = 'openai/gpt-4o-mini';
 	private readonly timeout = 30000; // 30 seconds
 	private readonly logger = createLogger('AiGenerationService');
 
+	/**
+	 * @param provider - LLM provider, defaults to the provider configured in the environment
+	 * @param cache - Cache of generation results, every request goes to the provider without one
+	 * @throws {LlmConfigurationError} When the environment configuration is invalid
+	 */
+	constructor(
+		private readonly provider: LlmProvider = getLlmProvider(),
+		private readonly cache: GenerationCache | null = null
+	) {}
+
+	/**
+	 * Get the model a request is sent to
+	 * @param model - Optional model selection
+	 * @returns Selected model or the default model of the provider
+	 */
+	resolveModel(model: string | undefined): string {
+		return model || this.provider.defaultModel;
+	}
+
 	/**
 	 * Generate flashcard suggestions from text using AI
-	 * @param text - User-provided text (1000-10000 characters)
+	 * Texts longer than MAX_CHUNK_LENGTH are split into chunks that are generated concurrently,
+	 * results are merged in text order and duplicates across chunks are dropped.
+	 * model_used is the model of the first successful chunk, which differs from the selected model
+	 * when the provider fell back to another one.
+	 * Results are cached when every chunk succeeded, identical requests reuse them unless forced.
+	 * With a card count, every chunk asks for its share of the count and the merged result is cut to it.
+	 * @param text - User-provided text (1000-100000 characters)
 	 * @param model - Optional model selection
 	 * @param userId - Authenticated user ID for logging
+	 * @param options - Optional generation options
 	 * @returns Flashcard suggestions with metadata
 	 */
 	async generateFlashcards(
 		text: string,
 		model: string | undefined,
-		userId: string
-	): Promise<GenerateFlashcardsResponseDTO & {model_used: string; tokens_used: number}> {
-		const selectedModel = model || this.defaultModel;
+		userId: string,
+		options: GenerationOptions = {}
+	): Promise<Omit<GenerateFlashcardsResponseDTO, 'generation_id'>> {
+		const selectedModel = this.resolveModel(model);
+		const settings = options.settings ?? DEFAULT_GENERATION_SETTINGS;
+		const cacheKey = await this.getCacheKey(text, selectedModel, settings);
+
+		const cached = this.readCache(cacheKey, options, userId);
+		if (cached) {
+			return {
+				suggestions: cached.suggestions,
+				model_used: cached.modelUsed,
+				tokens_used: 0,
+				usage: CACHED_USAGE,
+				cached: true,
+			};
+		}
+
+		const chunks = splitTextIntoChunks(text, MAX_CHUNK_LENGTH);
 
-		this.logger.info('Generating flashcards with OpenRouter', {
+		this.logger.info('Generating flashcards', {
 			userId,
+			provider: this.provider.name,
 			model: selectedModel,
 			textLength: text.length,
+			chunks: chunks.length,
+			...settings,
 		});
 
+		const chunkSettings = this.getChunkSettings(settings, chunks.length);
+		const results: SettledTask<ChunkResult>[] = [];
+		for await (const result of mapSettledWithConcurrency(chunks, MAX_CONCURRENT_CHUNKS, (chunk) =>
+			this.requestChunk(chunk, selectedModel, chunkSettings, userId)
+		)) {
+			results.push(result);
+		}
+		results.sort((a, b) => a.index - b.index);
+
+		// Fail only when no chunk succeeded, otherwise keep the suggestions of the other chunks
+		const failed = results.filter((result) => result.status === 'rejected');
+		if (failed.length === results.length) {
+			throw failed[0].reason;
+		}
+		if (failed.length > 0) {
+			this.logger.warn('Some chunks failed to generate', {
+				userId,
+				model: selectedModel,
+				failedChunks: failed.map((result) => result.index),
+				totalChunks: chunks.length,
+			});
+		}
+
+		// Merge in text order, dropping duplicates across chunks
+		const seen = new Set<string>();
+		const validSuggestions = results
+			.flatMap((result) =>
+				result.status === 'fulfilled' ? this.validateSuggestions(result.value.flashcards, seen) : []
+			)
+			.slice(0, settings.cardCount ?? undefined);
+
+		if (validSuggestions.length === 0) {
+			this.logger.warn('No valid suggestions generated', {
+				userId,
+				textLength: text.length,
+				model: selectedModel,
+			});
+			throw new NoSuggestionsError('Could not generate valid flashcards from text');
+		}
+
+		const usage = sumUsage(results.flatMap((result) => (result.status === 'fulfilled' ? [result.value.usage] : [])));
+		const modelUsed = results.find((result) => result.status === 'fulfilled')?.value.modelUsed ?? selectedModel;
+
+		// Log success
+		this.logger.info('Successfully generated flashcards', {
+			userId,
+			model: selectedModel,
+			modelUsed,
+			suggestionsCount: validSuggestions.length,
+			...this.toUsageLog(usage),
+		});
+
+		// Partial results are not cached, the next request may succeed for every chunk
+		if (cacheKey && failed.length === 0) {
+			this.cache?.set(cacheKey, {suggestions: validSuggestions, modelUsed});
+		}
+
+		return {
+			suggestions: validSuggestions,
+			model_used: modelUsed,
+			tokens_used: usage.total_tokens,
+			usage,
+			cached: false,
+		};
+	}
+
+	/**
+	 * Cache key of a request, null without a cache
+	 */
+	private async getCacheKey(text: string, selectedModel: string, settings: GenerationSettings): Promise<string | null> {
+		return this.cache ? buildGenerationCacheKey(text, selectedModel, PROMPT_VERSION, settings) : null;
+	}
+
+	/**
+	 * Settings of each chunk request: the card count is shared out between the chunks
+	 */
+	private getChunkSettings(settings: GenerationSettings, chunkCount: number): GenerationSettings {
+		return settings.cardCount === null
+			? settings
+			: {...settings, cardCount: Math.ceil(settings.cardCount / chunkCount)};
+	}
+
+	/**
+	 * Cached result of a request, null when there is none or the request is forced
+	 */
+	private readCache(cacheKey: string | null, options: GenerationOptions, userId: string): CachedGeneration | null {
+		if (!cacheKey || options.force) {
+			return null;
+		}
+
+		const cached = this.cache?.get(cacheKey) ?? null;
+		if (cached) {
+			this.logger.info('Reusing cached flashcards', {
+				userId,
+				modelUsed: cached.modelUsed,
+				suggestionsCount: cached.suggestions.length,
+			});
+		}
+
+		return cached;
+	}
+
+	/**
+	 * Request flashcards for a single chunk of text (at most MAX_CHUNK_LENGTH characters)
+	 * @param text - Chunk of the user-provided text
+	 * @param selectedModel - Model to use
+	 * @param settings - Settings of the chunk (card count of this chunk)
+	 * @param userId - Authenticated user ID for logging
+	 * @param signal - Optional signal cancelling the request
+	 * @returns Raw flashcards of the response (not validated), token usage and the model that answered
+	 */
+	private async requestChunk(
+		text: string,
+		selectedModel: string,
+		settings: GenerationSettings,
+		userId: string,
+		signal?: AbortSignal
+	): Promise<ChunkResult> {
 		// Create abort controller for timeout
 		const abortController = new AbortController();
 		const timeoutId = setTimeout(() => abortController.abort(), this.timeout);
+		const combinedSignal = signal ? AbortSignal.any([signal, abortController.signal]) : abortController.signal;
 
 		try {
-			// Get API key from environment
-			const apiKey = import.meta.env.OPENROUTER_API_KEY;
-
-			if (!apiKey) {
-				this.logger.error('OPENROUTER_API_KEY not found in environment', {userId, model: selectedModel});
-				throw new GatewayError('AI service configuration error: OPENROUTER_API_KEY not configured');
-			}
-
-			// Call OpenRouter API with JSON schema response format
+			// Call the LLM provider with JSON schema response format
 			type FlashcardsResponse = { flashcards: FlashcardSuggestionDTO[] };
 
-			const result = await getChatCompletion<FlashcardsResponse>({
-				userMessage: this.buildUserMessage(text),
-				systemMessage: this.buildSystemPrompt(),
+			const userMessage = this.buildUserMessage(text);
+			const systemMessage = this.buildSystemPrompt(settings);
+			const result = await this.provider.complete<FlashcardsResponse>({
+				userMessage,
+				systemMessage,
 				model: selectedModel,
-				responseFormat: this.getFlashcardResponseFormat(),
+				responseFormat: this.getFlashcardResponseFormat(settings.cardCount),
 				parameters: {
 					temperature: 0.7,
 					max_tokens: 4000,
 				},
-				signal: abortController.signal,
-				apiKey: apiKey,
+				// Retries and fallback models have to fit in the timeout
+				retry: {budgetMs: this.timeout},
+				signal: combinedSignal,
 			});
 
 			clearTimeout(timeoutId);
 
 			// Handle API errors
 			if (!result.success || !result.data) {
-				this.logger.error('OpenRouter API error', {
+				this.logger.error('LLM provider error', {
 					userId,
+					provider: this.provider.name,
 					model: selectedModel,
 					error: result.error,
 				});
 
-				// Check for specific error patterns
-				if (result.error?.includes('timeout') || result.error?.includes('aborted')) {
-					throw new TimeoutError('Request to AI service timed out');
-				}
-				if (result.error?.includes('status 503')) {
-					throw new ServiceUnavailableError('AI service is temporarily unavailable');
-				}
-				if (result.error?.includes('OPENROUTER_API_KEY')) {
-					throw new GatewayError('AI service configuration error');
-				}
+				throw this.classifyApiError(result.error);
+			}
+
+			return {
+				flashcards: result.data.flashcards || [],
+				usage: this.resolveUsage(result.usage, [systemMessage, userMessage], JSON.stringify(result.data)),
+				modelUsed: result.model ?? selectedModel,
+			};
+		} catch (error) {
+			clearTimeout(timeoutId);
 
-				throw new GatewayError(result.error || 'Failed to generate flashcards');
+			// Re-throw known error types
+			if (
+				error instanceof TimeoutError ||
+				error instanceof GatewayError ||
+				error instanceof ServiceUnavailableError ||
+				error instanceof NoSuggestionsError
+			) {
+				throw error;
 			}
 
-			// Extract and validate flashcards from response
-			const flashcards = result.data.flashcards || [];
-			const validSuggestions = this.validateSuggestions(flashcards);
+			// Handle abort errors
+			if (error instanceof Error && error.name === 'AbortError') {
+				this.logger.error('Request aborted', {userId, model: selectedModel}, error);
+				throw new TimeoutError('Request to AI service was aborted');
+			}
 
-			if (validSuggestions.length === 0) {
-				this.logger.warn('No valid suggestions generated', {
+			// Log and wrap unexpected errors
+			this.logger.error(
+				'Unexpected error during flashcard generation',
+				{userId, model: selectedModel},
+				error instanceof Error ? error : new Error(String(error))
+			);
+
+			throw new GatewayError('An unexpected error occurred while generating flashcards');
+		}
+	}
+
+	/**
+	 * Stream flashcard suggestions as the model produces them
+	 * Each suggestion is validated as soon as its JSON object is complete, a final 'done'
+	 * event carries the metadata. The timeout applies to inactivity between chunks, retries and
+	 * fallback models to the time before the first one.
+	 * Texts longer than MAX_CHUNK_LENGTH are generated per chunk instead (see streamChunks).
+	 * Cached results are replayed at once, like in generateFlashcards.
+	 * @param text - User-provided text (1000-100000 characters)
+	 * @param model - Optional model selection
+	 * @param userId - Authenticated user ID for logging
+	 * @param signal - Optional signal cancelling the generation (e.g. client disconnect)
+	 * @param options - Optional generation options
+	 * @returns Async iterator of 'suggestion' events followed by one 'done' event
+	 */
+	async *streamFlashcards(
+		text: string,
+		model: string | undefined,
+		userId: string,
+		signal?: AbortSignal,
+		options: GenerationOptions = {}
+	): AsyncGenerator<GenerationServiceEvent> {
+		const selectedModel = this.resolveModel(model);
+		const settings = options.settings ?? DEFAULT_GENERATION_SETTINGS;
+		const cacheKey = await this.getCacheKey(text, selectedModel, settings);
+
+		const cached = this.readCache(cacheKey, options, userId);
+		if (cached) {
+			for (const suggestion of cached.suggestions) {
+				yield {type: 'suggestion', suggestion};
+			}
+			yield {
+				type: 'done',
+				count: cached.suggestions.length,
+				model_used: cached.modelUsed,
+				tokens_used: 0,
+				usage: CACHED_USAGE,
+				cached: true,
+			};
+			return;
+		}
+
+		const textChunks = splitTextIntoChunks(text, MAX_CHUNK_LENGTH);
+
+		if (textChunks.length > 1) {
+			yield* this.streamChunks(textChunks, selectedModel, settings, userId, signal, cacheKey);
+			return;
+		}
+
+		this.logger.info('Streaming flashcards', {
+			userId,
+			provider: this.provider.name,
+			model: selectedModel,
+			textLength: text.length,
+			...settings,
+		});
+
+		// Abort on inactivity or when the caller cancels
+		const abortController = new AbortController();
+		let timeoutId = setTimeout(() => abortController.abort(), this.timeout);
+		const combinedSignal = signal ? AbortSignal.any([signal, abortController.signal]) : abortController.signal;
+
+		const parser = new JsonArrayItemParser();
+		const seen = new Set<string>();
+		const suggestions: FlashcardSuggestionDTO[] = [];
+		let content = '';
+		let modelUsed = selectedModel;
+		let reportedUsage: TokenUsage | undefined;
+
+		const userMessage = this.buildUserMessage(text);
+		const systemMessage = this.buildSystemPrompt(settings);
+
+		try {
+			const chunks = this.provider.stream({
+				userMessage,
+				systemMessage,
+				model: selectedModel,
+				responseFormat: this.getFlashcardResponseFormat(settings.cardCount),
+				parameters: {
+					temperature: 0.7,
+					max_tokens: 4000,
+				},
+				retry: {budgetMs: this.timeout},
+				onModelSelected: (model) => {
+					modelUsed = model;
+				},
+				onUsage: (usage) => {
+					reportedUsage = usage;
+				},
+				signal: combinedSignal,
+			});
+
+			for await (const chunk of chunks) {
+				clearTimeout(timeoutId);
+				timeoutId = setTimeout(() => abortController.abort(), this.timeout);
+				content += chunk;
+
+				for (const item of parser.feed(chunk)) {
+					const suggestion = this.validateSuggestion(item, seen);
+					if (suggestion && suggestions.length < (settings.cardCount ?? Infinity)) {
+						suggestions.push(suggestion);
+						yield {type: 'suggestion', suggestion};
+					}
+				}
+			}
+
+			const count = suggestions.length;
+			if (count === 0) {
+				this.logger.warn('No valid suggestions streamed', {
 					userId,
 					textLength: text.length,
 					model: selectedModel,
-					rawCount: flashcards.length,
 				});
 				throw new NoSuggestionsError('Could not generate valid flashcards from text');
 			}
 
-			// Estimate token usage (4 chars per token is a rough approximation)
-			// In production, you might want to use the OpenRouter usage stats if available
-			const estimatedTokens = Math.floor((text.length + JSON.stringify(result.data).length) / 4);
+			const usage = this.resolveUsage(reportedUsage, [systemMessage, userMessage], content);
 
-			// Log success
-			this.logger.info('Successfully generated flashcards', {
+			this.logger.info('Successfully streamed flashcards', {
 				userId,
 				model: selectedModel,
-				suggestionsCount: validSuggestions.length,
-				tokensUsed: estimatedTokens,
+				modelUsed,
+				suggestionsCount: count,
+				...this.toUsageLog(usage),
 			});
 
-			return {
-				suggestions: validSuggestions,
-				model_used: selectedModel,
-				tokens_used: estimatedTokens,
-			};
-		} catch (error) {
-			clearTimeout(timeoutId);
+			if (cacheKey) {
+				this.cache?.set(cacheKey, {suggestions, modelUsed});
+			}
 
+			yield {type: 'done', count, model_used: modelUsed, tokens_used: usage.total_tokens, usage, cached: false};
+		} catch (error) {
 			// Re-throw known error types
 			if (
 				error instanceof TimeoutError ||
@@ -159,27 +546,227 @@ export class AiGenerationService {
 				throw error;
 			}
 
-			// Handle abort errors
-			if (error instanceof Error && error.name === 'AbortError') {
-				this.logger.error('Request aborted', {userId, model: selectedModel}, error);
-				throw new TimeoutError('Request to AI service was aborted');
+			// Cancelled by the caller, nobody is waiting for the result
+			if (signal?.aborted) {
+				this.logger.info('Streaming cancelled by client', {
+					userId,
+					model: selectedModel,
+					suggestionsCount: suggestions.length,
+				});
+				return;
+			}
+
+			// Handle inactivity timeout
+			if (abortController.signal.aborted || (error instanceof Error && error.name === 'AbortError')) {
+				this.logger.error('Streaming timed out', {userId, model: selectedModel});
+				throw new TimeoutError('Request to AI service timed out');
 			}
 
-			// Log and wrap unexpected errors
 			this.logger.error(
-				'Unexpected error during flashcard generation',
+				'Error during flashcard streaming',
 				{userId, model: selectedModel},
 				error instanceof Error ? error : new Error(String(error))
 			);
 
-			throw new GatewayError('An unexpected error occurred while generating flashcards');
+			throw error instanceof Error
+				? this.classifyApiError(error.message)
+				: new GatewayError('An unexpected error occurred while generating flashcards');
+		} finally {
+			clearTimeout(timeoutId);
 		}
 	}
 
+	/**
+	 * Stream flashcard suggestions of a long text, generated per chunk with bounded concurrency
+	 * Suggestions of a chunk are emitted when the chunk completes, deduplicated against all earlier
+	 * ones, and a 'progress' event follows every settled chunk from the first successful one on.
+	 * Failed chunks are skipped, the generation only fails when every chunk failed. model_used is
+	 * the model of the first chunk that succeeded.
+	 * @param chunks - Text chunks (at most MAX_CHUNK_LENGTH characters each)
+	 * @param selectedModel - Model to use
+	 * @param settings - Settings of the whole generation, suggestions stop at its card count
+	 * @param userId - Authenticated user ID for logging
+	 * @param signal - Optional signal cancelling the generation (e.g. client disconnect)
+	 * @param cacheKey - Key the result is cached under when every chunk succeeded, null to not cache it
+	 * @returns Async iterator of 'progress' and 'suggestion' events followed by one 'done' event
+	 */
+	private async *streamChunks(
+		chunks: string[],
+		selectedModel: string,
+		settings: GenerationSettings,
+		userId: string,
+		signal?: AbortSignal,
+		cacheKey: string | null = null
+	): AsyncGenerator<GenerationServiceEvent> {
+		this.logger.info('Streaming chunked flashcards', {
+			userId,
+			provider: this.provider.name,
+			model: selectedModel,
+			chunks: chunks.length,
+		});
+
+		// Stops in-flight chunk requests when the consumer stops early
+		const abortController = new AbortController();
+		const combinedSignal = signal ? AbortSignal.any([signal, abortController.signal]) : abortController.signal;
+
+		const seen = new Set<string>();
+		const suggestions: FlashcardSuggestionDTO[] = [];
+		const failures: {index: number; reason: unknown}[] = [];
+		let settledChunks = 0;
+		const usages: GenerationUsageDTO[] = [];
+		let modelUsed: string | null = null;
+		const chunkSettings = this.getChunkSettings(settings, chunks.length);
+
+		try {
+			for await (const result of mapSettledWithConcurrency(chunks, MAX_CONCURRENT_CHUNKS, (chunk) =>
+				this.requestChunk(chunk, selectedModel, chunkSettings, userId, combinedSignal)
+			)) {
+				// Cancelled by the caller, nobody is waiting for the result
+				if (signal?.aborted) {
+					this.logger.info('Streaming cancelled by client', {
+						userId,
+						model: selectedModel,
+						suggestionsCount: suggestions.length,
+					});
+					return;
+				}
+
+				settledChunks++;
+
+				if (result.status === 'fulfilled') {
+					usages.push(result.value.usage);
+					modelUsed ??= result.value.modelUsed;
+
+					for (const item of result.value.flashcards) {
+						const suggestion = this.validateSuggestion(item, seen);
+						if (suggestion && suggestions.length < (settings.cardCount ?? Infinity)) {
+							suggestions.push(suggestion);
+							yield {type: 'suggestion', suggestion};
+						}
+					}
+				} else {
+					failures.push({index: result.index, reason: result.reason});
+					this.logger.warn('Chunk failed to generate', {
+						userId,
+						model: selectedModel,
+						chunk: result.index,
+						error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+					});
+				}
+
+				// Nothing is sent until a chunk succeeded, so a generation failing in every chunk
+				// fails before the first event and gets a regular status code
+				if (failures.length < settledChunks) {
+					yield {
+						type: 'progress',
+						completed_chunks: settledChunks,
+						failed_chunks: failures.length,
+						total_chunks: chunks.length,
+					};
+				}
+			}
+
+			// Fail only when no chunk succeeded, with the error of the first chunk
+			if (failures.length === chunks.length) {
+				throw failures.sort((a, b) => a.index - b.index)[0].reason;
+			}
+
+			const count = suggestions.length;
+			if (count === 0) {
+				this.logger.warn('No valid suggestions streamed', {
+					userId,
+					model: selectedModel,
+					chunks: chunks.length,
+				});
+				throw new NoSuggestionsError('Could not generate valid flashcards from text');
+			}
+
+			const usage = sumUsage(usages);
+
+			this.logger.info('Successfully streamed chunked flashcards', {
+				userId,
+				model: selectedModel,
+				modelUsed,
+				suggestionsCount: count,
+				...this.toUsageLog(usage),
+			});
+
+			// Partial results are not cached, the next request may succeed for every chunk
+			if (cacheKey && failures.length === 0) {
+				this.cache?.set(cacheKey, {suggestions, modelUsed: modelUsed ?? selectedModel});
+			}
+
+			yield {
+				type: 'done',
+				count,
+				model_used: modelUsed ?? selectedModel,
+				tokens_used: usage.total_tokens,
+				usage,
+				cached: false,
+			};
+		} finally {
+			abortController.abort();
+		}
+	}
+
+	/**
+	 * Usage reported by the provider, or counted with the tokenizer when it reported none
+	 * @param reported - Usage of the response, if any
+	 * @param messages - Prompt messages sent
+	 * @param completion - Content of the response
+	 */
+	private resolveUsage(reported: TokenUsage | undefined, messages: string[], completion: string): GenerationUsageDTO {
+		const usage = reported ?? estimateTokenUsage(messages, completion);
+
+		return {
+			prompt_tokens: usage.promptTokens,
+			completion_tokens: usage.completionTokens,
+			total_tokens: usage.totalTokens,
+			cost: usage.cost,
+			estimated: !reported,
+		};
+	}
+
+	/**
+	 * Log fields of a generation usage
+	 */
+	private toUsageLog(usage: GenerationUsageDTO) {
+		return {
+			promptTokens: usage.prompt_tokens,
+			completionTokens: usage.completion_tokens,
+			tokensUsed: usage.total_tokens,
+			cost: usage.cost,
+			usageEstimated: usage.estimated,
+		};
+	}
+
+	/**
+	 * Map a provider error message to the service error types
+	 */
+	private classifyApiError(message: string | null): Error {
+		// Provider error messages end with "(status N)" for HTTP error responses
+		const statusMatch = message?.match(/\(status (\d{3})\)/);
+		const upstreamStatus = statusMatch ? Number(statusMatch[1]) : null;
+
+		// Check for specific error patterns
+		if (message?.includes('timeout') || message?.includes('aborted')) {
+			return new TimeoutError('Request to AI service timed out');
+		}
+		if (upstreamStatus === 503) {
+			return new ServiceUnavailableError('AI service is temporarily unavailable', upstreamStatus);
+		}
+		if (message?.includes('is not configured')) {
+			return new GatewayError('AI service configuration error');
+		}
+
+		return new GatewayError(message || 'Failed to generate flashcards', upstreamStatus);
+	}
+
 	/**
 	 * Get JSON schema response format for flashcard generation
+	 * @param cardCount - Most flashcards of the response, 5-15 when null
 	 */
-	private getFlashcardResponseFormat(): ResponseFormat {
+	private getFlashcardResponseFormat(cardCount: number | null): ResponseFormat {
 		return {
 			type: 'json_schema',
 			json_schema: {
@@ -199,14 +786,21 @@ export class AiGenerationService {
 									},
 									back: {
 										type: 'string',
-										description: 'The answer or explanation for the flashcard (1-1000 characters)'
+										description: 'The answer or explanation for the flashcard (1-1000 characters, may be empty for cloze deletions)'
+									},
+									tags: {
+										type: 'array',
+										items: {
+											type: 'string'
+										},
+										description: '1-3 short lowercase topic tags for the flashcard'
 									}
 								},
-								required: ['front', 'back'],
+								required: ['front', 'back', 'tags'],
 								additionalProperties: false
 							},
-							minItems: 5,
-							maxItems: 15
+							minItems: cardCount === null ? 5 : 1,
+							maxItems: cardCount ?? 15
 						}
 					},
 					required: ['flashcards'],
@@ -218,26 +812,39 @@ export class AiGenerationService {
 
 	/**
 	 * Build system prompt for LLM
+	 * @param settings - Number, difficulty, style and language of the flashcards
 	 */
-	private buildSystemPrompt(): string {
+	private buildSystemPrompt(settings: GenerationSettings): string {
+		const {cardCount, difficulty, cardStyle, language} = settings;
+		const instructions = [
+			'Analyze the text and identify key concepts, facts, definitions, and important information.',
+			'Create flashcards that help users learn and remember the material.',
+			cardCount === null
+				? 'Generate 5-15 flashcards covering the most important points.'
+				: `Generate ${cardCount} flashcard${cardCount === 1 ? '' : 's'} covering the most important points, fewer only when the text does not contain enough distinct points.`,
+			CARD_STYLE_INSTRUCTIONS[cardStyle],
+			'Keep each field between 1 and 1000 characters.',
+			'Use Markdown where it helps: **bold** for key terms, lists for enumerations, fenced code blocks with a language (```python) for code and $...$ (inline) or $$...$$ (display) LaTeX math for formulas. Use plain text when no formatting is needed and never use HTML.',
+			...(difficulty ? [DIFFICULTY_INSTRUCTIONS[difficulty]] : []),
+			language
+				? `Write the flashcards in ${describeLanguage(language)}, translating from the language of the text when it differs.`
+				: 'Write the flashcards in the language of the text.',
+			'Add 1-3 short lowercase "tags" per flashcard naming its topic (e.g. "photosynthesis", "world-war-2").',
+			'Return your response as a JSON object with a "flashcards" array.',
+		];
+
 		return `You are a flashcard generation assistant. Your task is to generate educational flashcards from the provided text.
 
 Instructions:
-1. Analyze the text and identify key concepts, facts, definitions, and important information.
-2. Create flashcards that help users learn and remember the material.
-3. Generate 5-15 flashcards covering the most important points.
-4. Each flashcard must have a "front" (question/prompt) and "back" (answer/explanation).
-5. Keep each field between 1 and 1000 characters.
-6. Make questions clear and specific.
-7. Provide concise but complete answers.
-8. Return your response as a JSON object with a "flashcards" array.
+${instructions.map((instruction, index) => `${index + 1}. ${instruction}`).join('\n')}
 
 Output format (JSON):
 {
   "flashcards": [
     {
       "front": "Question or prompt here",
-      "back": "Answer or explanation here"
+      "back": "Answer or explanation here",
+      "tags": ["topic"]
     }
   ]
 }
@@ -254,45 +861,64 @@ Important: Return ONLY valid JSON. Do not include any additional text or explana
 
 	/**
 	 * Validate and filter flashcard suggestions
+	 * Pass the same seen set to deduplicate across several responses
 	 */
-	private validateSuggestions(suggestions: any[]): FlashcardSuggestionDTO[] {
+	private validateSuggestions(suggestions: unknown[], seen = new Set<string>()): FlashcardSuggestionDTO[] {
 		const validated: FlashcardSuggestionDTO[] = [];
-		const seen = new Set<string>();
 
 		for (const suggestion of suggestions) {
-			// Validate structure
-			if (!suggestion || typeof suggestion !== 'object') {
-				continue;
+			const valid = this.validateSuggestion(suggestion, seen);
+			if (valid) {
+				validated.push(valid);
 			}
+		}
+
+		return validated;
+	}
 
-			const { front, back } = suggestion;
+	/**
+	 * Validate a single suggestion, skipping duplicates of fronts already in seen
+	 * Fronts with {{c1::...}} deletions become cloze notes, their back may be empty
+	 * @returns Trimmed suggestion or null when it is invalid or a duplicate
+	 */
+	private validateSuggestion(suggestion: unknown, seen: Set<string>): FlashcardSuggestionDTO | null {
+		// Validate structure
+		if (!suggestion || typeof suggestion !== 'object') {
+			return null;
+		}
 
-			// Validate front field
-			if (typeof front !== 'string' || front.trim().length === 0 || front.length > 1000) {
-				continue;
-			}
+		const { front, back, tags } = suggestion as Record<string, unknown>;
 
-			// Validate back field
-			if (typeof back !== 'string' || back.trim().length === 0 || back.length > 1000) {
-				continue;
-			}
+		// Validate field types and lengths
+		if (typeof front !== 'string' || front.trim().length === 0 || front.length > 1000) {
+			return null;
+		}
 
-			const trimmedFront = front.trim();
-			const trimmedBack = back.trim();
+		if (typeof back !== 'string' || back.length > 1000) {
+			return null;
+		}
 
-			// Check for duplicates (based on front text)
-			const key = trimmedFront.toLowerCase();
-			if (seen.has(key)) {
-				continue;
-			}
+		const trimmedFront = front.trim();
+		const trimmedBack = back.trim();
+		const cardType = hasClozeDeletions(trimmedFront) ? 'cloze' : 'basic';
 
-			seen.add(key);
-			validated.push({
-				front: trimmedFront,
-				back: trimmedBack,
-			});
+		// Validate content for the card type (answer of basic cards, deletions of cloze notes)
+		if (getFlashcardContentIssue({ front: trimmedFront, back: trimmedBack, card_type: cardType })) {
+			return null;
 		}
 
-		return validated;
+		// Check for duplicates (based on front text)
+		const key = trimmedFront.toLowerCase();
+		if (seen.has(key)) {
+			return null;
+		}
+
+		seen.add(key);
+		return {
+			front: trimmedFront,
+			back: trimmedBack,
+			card_type: cardType,
+			tags: Array.isArray(tags) ? normalizeTags(tags) : [],
+		};
 	}
 }
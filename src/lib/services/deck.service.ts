@@ -0,0 +1,289 @@
+import type { DeckDTO, DeckListResponseDTO } from '@/types';
+import type { ValidatedCreateDeckCommand, ValidatedUpdateDeckCommand } from '@/lib/schemas/deck.schema';
+import { DatabaseQueryError, type SupabaseClient } from '@/lib/services/flashcard.service';
+import { createLogger } from '@/lib/utils/logger';
+
+/**
+ * Custom error types for deck service
+ */
+export class DeckNotFoundError extends Error {
+	constructor(message: string = 'Deck not found') {
+		super(message);
+		this.name = 'DeckNotFoundError';
+	}
+}
+
+export class DeckConflictError extends Error {
+	constructor(message: string = 'Deck with this name already exists') {
+		super(message);
+		this.name = 'DeckConflictError';
+	}
+}
+
+const DECK_COLUMNS = 'id, name, description, created_at, updated_at, flashcards(count)';
+
+type DeckRow = {
+	id: string;
+	name: string;
+	description: string | null;
+	created_at: string;
+	updated_at: string;
+	flashcards: { count: number }[];
+};
+
+/**
+ * Deck Service
+ * Handles business logic for grouping flashcards into decks
+ */
+export class DeckService {
+	private readonly logger = createLogger('DeckService');
+
+	/**
+	 * Get all decks of a user ordered by name
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID to filter decks
+	 * @returns Deck list with flashcard counts
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async getDecks(supabase: SupabaseClient, userId: string): Promise<DeckListResponseDTO> {
+		this.logger.info('Fetching decks', { userId });
+
+		try {
+			const { data, error } = await supabase
+				.from('decks')
+				.select(DECK_COLUMNS)
+				.eq('user_id', userId)
+				.order('name', { ascending: true });
+
+			if (error) {
+				this.logger.error('Failed to fetch decks', { userId }, error);
+				throw new DatabaseQueryError('Failed to fetch decks from database', error);
+			}
+
+			const decks = data.map((row) => this.toDTO(row));
+
+			this.logger.info('Successfully fetched decks', { userId, count: decks.length });
+			return { data: decks };
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof DatabaseQueryError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while fetching decks', { userId }, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while fetching decks', error);
+		}
+	}
+
+	/**
+	 * Ensure a deck exists and belongs to the user
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who should own the deck
+	 * @param deckId - ID of the deck to check
+	 * @throws {DeckNotFoundError} When deck doesn't exist or doesn't belong to user
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async assertDeckOwnership(supabase: SupabaseClient, userId: string, deckId: string): Promise<void> {
+		const { data, error } = await supabase
+			.from('decks')
+			.select('id')
+			.eq('id', deckId)
+			.eq('user_id', userId)
+			.maybeSingle();
+
+		if (error) {
+			this.logger.error('Failed to verify deck ownership', { userId, deckId }, error);
+			throw new DatabaseQueryError('Failed to verify deck ownership', error);
+		}
+
+		if (!data) {
+			this.logger.warn('Deck not found or not owned by user', { userId, deckId });
+			throw new DeckNotFoundError(`Deck with id ${deckId} not found or does not belong to user`);
+		}
+	}
+
+	/**
+	 * Create a new deck
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who will own the deck
+	 * @param command - Validated create command (name, description)
+	 * @returns Created deck DTO
+	 * @throws {DeckConflictError} When user already has a deck with the same name
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async createDeck(
+		supabase: SupabaseClient,
+		userId: string,
+		command: ValidatedCreateDeckCommand
+	): Promise<DeckDTO> {
+		this.logger.info('Creating deck', { userId, name: command.name });
+
+		try {
+			const { data, error } = await supabase
+				.from('decks')
+				.insert({
+					name: command.name,
+					description: command.description ?? null,
+					user_id: userId,
+				})
+				.select(DECK_COLUMNS)
+				.single();
+
+			if (error) {
+				if (error.code === '23505') {
+					this.logger.warn('Duplicate deck name', { userId, name: command.name });
+					throw new DeckConflictError(`Deck named "${command.name}" already exists`);
+				}
+
+				this.logger.error('Failed to create deck', { userId }, error);
+				throw new DatabaseQueryError('Failed to create deck in database', error);
+			}
+
+			this.logger.info('Successfully created deck', { userId, deckId: data.id });
+			return this.toDTO(data);
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof DeckConflictError || error instanceof DatabaseQueryError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while creating deck', { userId }, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while creating deck', error);
+		}
+	}
+
+	/**
+	 * Update an existing deck
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the deck
+	 * @param deckId - ID of the deck to update
+	 * @param command - Validated update command (name, description)
+	 * @returns Updated deck DTO
+	 * @throws {DeckNotFoundError} When deck doesn't exist or doesn't belong to user
+	 * @throws {DeckConflictError} When user already has a deck with the new name
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async updateDeck(
+		supabase: SupabaseClient,
+		userId: string,
+		deckId: string,
+		command: ValidatedUpdateDeckCommand
+	): Promise<DeckDTO> {
+		this.logger.info('Updating deck', { userId, deckId, command });
+
+		try {
+			// Build update object with only provided fields
+			const updateData: Record<string, unknown> = {};
+
+			if (command.name !== undefined) {
+				updateData.name = command.name;
+			}
+
+			if (command.description !== undefined) {
+				updateData.description = command.description;
+			}
+
+			const { data, error } = await supabase
+				.from('decks')
+				.update(updateData)
+				.eq('id', deckId)
+				.eq('user_id', userId)
+				.select(DECK_COLUMNS)
+				.single();
+
+			if (error) {
+				// No rows matched
+				if (error.code === 'PGRST116') {
+					this.logger.warn('Deck not found for update', { userId, deckId });
+					throw new DeckNotFoundError(`Deck with id ${deckId} not found or does not belong to user`);
+				}
+
+				if (error.code === '23505') {
+					this.logger.warn('Duplicate deck name', { userId, deckId, name: command.name });
+					throw new DeckConflictError(`Deck named "${command.name}" already exists`);
+				}
+
+				this.logger.error('Failed to update deck', { userId, deckId }, error);
+				throw new DatabaseQueryError('Failed to update deck in database', error);
+			}
+
+			this.logger.info('Successfully updated deck', { userId, deckId });
+			return this.toDTO(data);
+		} catch (error) {
+			// Re-throw known errors
+			if (
+				error instanceof DeckNotFoundError ||
+				error instanceof DeckConflictError ||
+				error instanceof DatabaseQueryError
+			) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while updating deck', { userId, deckId }, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while updating deck', error);
+		}
+	}
+
+	/**
+	 * Delete a deck, its flashcards are kept without a deck
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the deck
+	 * @param deckId - ID of the deck to delete
+	 * @throws {DeckNotFoundError} When deck doesn't exist or doesn't belong to user
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async deleteDeck(supabase: SupabaseClient, userId: string, deckId: string): Promise<void> {
+		this.logger.info('Deleting deck', { userId, deckId });
+
+		try {
+			const { error, count } = await supabase
+				.from('decks')
+				.delete({ count: 'exact' })
+				.eq('id', deckId)
+				.eq('user_id', userId);
+
+			if (error) {
+				this.logger.error('Failed to delete deck', { userId, deckId }, error);
+				throw new DatabaseQueryError('Failed to delete deck from database', error);
+			}
+
+			if (count === 0) {
+				this.logger.warn('Deck not found for deletion', { userId, deckId });
+				throw new DeckNotFoundError(`Deck with id ${deckId} not found or does not belong to user`);
+			}
+
+			this.logger.info('Successfully deleted deck', { userId, deckId });
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof DeckNotFoundError || error instanceof DatabaseQueryError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while deleting deck', { userId, deckId }, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while deleting deck', error);
+		}
+	}
+
+	/**
+	 * Transform database row with embedded flashcard count to DTO
+	 */
+	private toDTO(row: DeckRow): DeckDTO {
+		return {
+			id: row.id,
+			name: row.name,
+			description: row.description,
+			created_at: row.created_at,
+			updated_at: row.updated_at,
+			flashcard_count: row.flashcards[0]?.count ?? 0,
+		};
+	}
+}
+
+/**
+ * Singleton instance of DeckService
+ */
+export const deckService = new DeckService();
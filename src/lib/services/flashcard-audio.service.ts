@@ -0,0 +1,371 @@
+import type { FlashcardAudioDTO, FlashcardSide } from '@/types';
+import { DatabaseQueryError, FlashcardNotFoundError, type SupabaseClient } from '@/lib/services/flashcard.service';
+import { InvalidMediaError } from '@/lib/services/flashcard-media.service';
+import { hashSourceText } from '@/lib/services/generation.service';
+import {
+	buildAudioPath,
+	FLASHCARD_MEDIA_BUCKET,
+	MediaStorageError,
+	removeMediaFiles,
+	signFlashcardAudio,
+	type FlashcardAudioRow,
+} from '@/lib/services/media-storage';
+import { getTtsProvider, TtsProviderError, type TtsProvider } from '@/lib/tts/tts-provider';
+import { detectAudioType, MAX_AUDIO_SIZE, type AudioMimeType } from '@/lib/utils/media';
+import { toSpeechText } from '@/lib/utils/speech';
+import { createLogger } from '@/lib/utils/logger';
+
+/**
+ * Custom error types for flashcard audio service
+ */
+export class FlashcardAudioNotFoundError extends Error {
+	constructor(message: string = 'Audio clip not found') {
+		super(message);
+		this.name = 'FlashcardAudioNotFoundError';
+	}
+}
+
+export class SpeechUnavailableError extends Error {
+	constructor(message: string = 'Text-to-speech is not enabled') {
+		super(message);
+		this.name = 'SpeechUnavailableError';
+	}
+}
+
+/**
+ * Columns of audio DTOs, the storage path is replaced by a signed URL
+ */
+const AUDIO_COLUMNS = 'id, side, source, storage_path, mime_type, size_bytes, created_at';
+
+/**
+ * Flashcard Audio Service
+ * Handles uploaded audio clips and synthesized speech, both stored in the flashcard-media bucket and
+ * tracked in flashcard_audio
+ */
+export class FlashcardAudioService {
+	private readonly logger = createLogger('FlashcardAudioService');
+
+	/**
+	 * @param tts - Text-to-speech provider, defaults to the provider configured in the environment (null when disabled)
+	 */
+	constructor(private readonly tts: TtsProvider | null = getTtsProvider()) {}
+
+	/**
+	 * Whether speech can be synthesized
+	 */
+	get isSpeechEnabled(): boolean {
+		return this.tts !== null;
+	}
+
+	/**
+	 * Attach an audio clip to a side of a flashcard
+	 * The format is detected from the file content, the declared MIME type is ignored
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the flashcard
+	 * @param flashcardId - ID of the flashcard
+	 * @param side - Side the clip belongs to
+	 * @param file - Uploaded file (size already validated)
+	 * @returns Attached clip with a signed URL
+	 * @throws {FlashcardNotFoundError} When flashcard doesn't exist or doesn't belong to user
+	 * @throws {InvalidMediaError} When the file is not supported audio or the side already has a clip
+	 * @throws {MediaStorageError} When the file cannot be stored
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async uploadAudio(
+		supabase: SupabaseClient,
+		userId: string,
+		flashcardId: string,
+		side: FlashcardSide,
+		file: File
+	): Promise<FlashcardAudioDTO> {
+		this.logger.info('Uploading flashcard audio', { userId, flashcardId, side, size: file.size });
+
+		// 1. Verify the flashcard belongs to the user
+		await this.getFlashcard(supabase, userId, flashcardId);
+
+		// 2. A side has one uploaded clip, it has to be removed before another one is attached
+		const { data: existing, error: existingError } = await supabase
+			.from('flashcard_audio')
+			.select('id')
+			.eq('flashcard_id', flashcardId)
+			.eq('side', side)
+			.eq('source', 'upload')
+			.maybeSingle();
+
+		if (existingError) {
+			this.logger.error('Failed to fetch flashcard audio', { userId, flashcardId }, existingError);
+			throw new DatabaseQueryError('Failed to fetch flashcard audio from database', existingError);
+		}
+
+		if (existing) {
+			throw new InvalidMediaError('This side already has an audio clip, remove it first');
+		}
+
+		// 3. Detect the audio format from the content
+		const bytes = new Uint8Array(await file.arrayBuffer());
+		const mimeType = detectAudioType(bytes);
+
+		if (!mimeType) {
+			this.logger.warn('Rejected upload with unsupported content', { userId, flashcardId, type: file.type });
+			throw new InvalidMediaError('Only MP3, Ogg, WAV, WebM and M4A audio is supported');
+		}
+
+		// 4. Store the file and record the clip
+		const row = await this.storeAudio(supabase, userId, flashcardId, side, bytes, mimeType, null);
+		const [[audio]] = await signFlashcardAudio(supabase, [[row]]);
+
+		this.logger.info('Successfully uploaded flashcard audio', { userId, flashcardId, audioId: audio.id });
+		return audio;
+	}
+
+	/**
+	 * Remove an uploaded audio clip from a flashcard
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the flashcard
+	 * @param flashcardId - ID of the flashcard
+	 * @param audioId - ID of the clip
+	 * @throws {FlashcardAudioNotFoundError} When the clip doesn't exist or doesn't belong to the flashcard and user
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async deleteAudio(supabase: SupabaseClient, userId: string, flashcardId: string, audioId: string): Promise<void> {
+		this.logger.info('Deleting flashcard audio', { userId, flashcardId, audioId });
+
+		// Synthesized clips are a cache managed by synthesizeSpeech, only uploads are removed here
+		const { data, error } = await supabase
+			.from('flashcard_audio')
+			.delete()
+			.eq('id', audioId)
+			.eq('flashcard_id', flashcardId)
+			.eq('user_id', userId)
+			.eq('source', 'upload')
+			.select('storage_path')
+			.maybeSingle();
+
+		if (error) {
+			this.logger.error('Failed to delete flashcard audio', { userId, flashcardId, audioId }, error);
+			throw new DatabaseQueryError('Failed to delete flashcard audio from database', error);
+		}
+
+		if (!data) {
+			this.logger.warn('Flashcard audio not found for deletion', { userId, flashcardId, audioId });
+			throw new FlashcardAudioNotFoundError(`Audio clip with id ${audioId} not found`);
+		}
+
+		await this.removeFile(supabase, data.storage_path);
+
+		this.logger.info('Successfully deleted flashcard audio', { userId, flashcardId, audioId });
+	}
+
+	/**
+	 * Speech for the text of a flashcard side, synthesized on first request and cached in storage
+	 * The cached clip is reused while the provider, voice and text stay the same, otherwise it is replaced
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the flashcard
+	 * @param flashcardId - ID of the flashcard
+	 * @param side - Side to read aloud
+	 * @returns Synthesized clip with a signed URL
+	 * @throws {SpeechUnavailableError} When no text-to-speech provider is configured
+	 * @throws {FlashcardNotFoundError} When flashcard doesn't exist or doesn't belong to user
+	 * @throws {InvalidMediaError} When the side has no text to read
+	 * @throws {TtsProviderError} When the provider fails
+	 * @throws {MediaStorageError} When the clip cannot be stored
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async synthesizeSpeech(
+		supabase: SupabaseClient,
+		userId: string,
+		flashcardId: string,
+		side: FlashcardSide
+	): Promise<FlashcardAudioDTO> {
+		if (!this.tts) {
+			throw new SpeechUnavailableError();
+		}
+
+		// 1. Read the text of the side
+		const flashcard = await this.getFlashcard(supabase, userId, flashcardId);
+		const text = toSpeechText(side === 'front' ? flashcard.front : flashcard.back, flashcard.card_type);
+
+		if (!text) {
+			throw new InvalidMediaError('This side has no text to read');
+		}
+
+		const ttsKey = await hashSourceText(`${this.tts.name}:${this.tts.voice}:${text}`);
+
+		// 2. Reuse the cached clip when it was made from the same text and voice
+		const cached = await this.getCachedSpeech(supabase, userId, flashcardId, side);
+
+		if (cached?.ttsKey === ttsKey) {
+			const [[audio]] = await signFlashcardAudio(supabase, [[cached.row]]);
+			return audio;
+		}
+
+		// 3. Synthesize the speech
+		this.logger.info('Synthesizing speech', { userId, flashcardId, side, provider: this.tts.name });
+
+		const speech = await this.tts.synthesize({ text });
+
+		if (speech.data.byteLength > MAX_AUDIO_SIZE) {
+			throw new TtsProviderError('Synthesized audio exceeds 5 MB');
+		}
+
+		// 4. Replace the outdated clip, the unique constraint allows one synthesized clip per side
+		if (cached) {
+			const { error: deleteError } = await supabase.from('flashcard_audio').delete().eq('id', cached.row.id);
+
+			if (deleteError) {
+				this.logger.error('Failed to delete outdated speech', { userId, flashcardId }, deleteError);
+				throw new DatabaseQueryError('Failed to delete flashcard audio from database', deleteError);
+			}
+
+			await this.removeFile(supabase, cached.row.storage_path);
+		}
+
+		let row: FlashcardAudioRow;
+		try {
+			row = await this.storeAudio(supabase, userId, flashcardId, side, speech.data, speech.mimeType, ttsKey);
+		} catch (error) {
+			// A concurrent request stored its clip first (unique flashcard_id, side, source), return that one
+			const isUniqueViolation =
+				error instanceof DatabaseQueryError &&
+				(error.originalError as { code?: string } | undefined)?.code === '23505';
+			const stored = isUniqueViolation ? await this.getCachedSpeech(supabase, userId, flashcardId, side) : null;
+
+			if (!stored) {
+				throw error;
+			}
+
+			this.logger.info('Speech was stored by a concurrent request', { userId, flashcardId, side });
+			row = stored.row;
+		}
+
+		const [[audio]] = await signFlashcardAudio(supabase, [[row]]);
+
+		this.logger.info('Successfully synthesized speech', { userId, flashcardId, audioId: audio.id });
+		return audio;
+	}
+
+	/**
+	 * Synthesized clip of a flashcard side with the key of the text and voice it was made from
+	 * @returns Clip or null when the side has none
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	private async getCachedSpeech(
+		supabase: SupabaseClient,
+		userId: string,
+		flashcardId: string,
+		side: FlashcardSide
+	): Promise<{ row: FlashcardAudioRow; ttsKey: string | null } | null> {
+		const { data, error } = await supabase
+			.from('flashcard_audio')
+			.select(`${AUDIO_COLUMNS}, tts_key`)
+			.eq('flashcard_id', flashcardId)
+			.eq('side', side)
+			.eq('source', 'tts')
+			.maybeSingle();
+
+		if (error) {
+			this.logger.error('Failed to fetch cached speech', { userId, flashcardId }, error);
+			throw new DatabaseQueryError('Failed to fetch flashcard audio from database', error);
+		}
+
+		if (!data) {
+			return null;
+		}
+
+		const { tts_key: ttsKey, ...row } = data;
+		return { row, ttsKey };
+	}
+
+	/**
+	 * Text of a flashcard owned by the user
+	 * @throws {FlashcardNotFoundError} When flashcard doesn't exist or doesn't belong to user
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	private async getFlashcard(supabase: SupabaseClient, userId: string, flashcardId: string) {
+		const { data, error } = await supabase
+			.from('flashcards')
+			.select('id, front, back, card_type')
+			.eq('id', flashcardId)
+			.eq('user_id', userId)
+			.maybeSingle();
+
+		if (error) {
+			this.logger.error('Failed to fetch flashcard for audio', { userId, flashcardId }, error);
+			throw new DatabaseQueryError('Failed to fetch flashcard from database', error);
+		}
+
+		if (!data) {
+			this.logger.warn('Flashcard not found for audio', { userId, flashcardId });
+			throw new FlashcardNotFoundError(`Flashcard with id ${flashcardId} not found or does not belong to user`);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Upload an audio file and record it, the file is removed again when the row cannot be inserted
+	 * @throws {MediaStorageError} When the file cannot be stored
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	private async storeAudio(
+		supabase: SupabaseClient,
+		userId: string,
+		flashcardId: string,
+		side: FlashcardSide,
+		bytes: Uint8Array,
+		mimeType: AudioMimeType,
+		ttsKey: string | null
+	): Promise<FlashcardAudioRow> {
+		const audioId = crypto.randomUUID();
+		const storagePath = buildAudioPath(userId, flashcardId, audioId, mimeType);
+
+		const { error: uploadError } = await supabase.storage
+			.from(FLASHCARD_MEDIA_BUCKET)
+			.upload(storagePath, bytes, { contentType: mimeType, upsert: false });
+
+		if (uploadError) {
+			this.logger.error('Failed to upload flashcard audio', { userId, flashcardId }, uploadError);
+			throw new MediaStorageError('Failed to store flashcard audio', uploadError);
+		}
+
+		const { data, error } = await supabase
+			.from('flashcard_audio')
+			.insert({
+				id: audioId,
+				flashcard_id: flashcardId,
+				user_id: userId,
+				side,
+				source: ttsKey ? 'tts' : 'upload',
+				storage_path: storagePath,
+				mime_type: mimeType,
+				size_bytes: bytes.byteLength,
+				tts_key: ttsKey,
+			})
+			.select(AUDIO_COLUMNS)
+			.single();
+
+		if (error) {
+			this.logger.error('Failed to insert flashcard audio', { userId, flashcardId }, error);
+			await this.removeFile(supabase, storagePath);
+			throw new DatabaseQueryError('Failed to save flashcard audio', error);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Remove a file whose row is gone, a file left behind only takes up space
+	 */
+	private async removeFile(supabase: SupabaseClient, storagePath: string): Promise<void> {
+		try {
+			await removeMediaFiles(supabase, [storagePath]);
+		} catch (removeError) {
+			this.logger.warn('Failed to remove flashcard audio file', { storagePath }, removeError as Error);
+		}
+	}
+}
+
+/**
+ * Singleton instance of FlashcardAudioService
+ */
+export const flashcardAudioService = new FlashcardAudioService();
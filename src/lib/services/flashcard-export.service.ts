@@ -0,0 +1,256 @@
+import type { FlashcardExportFormat, FlashcardCardType, FlashcardExportItemDTO, FlashcardSource } from '@/types';
+import type { ValidatedExportFlashcardsQueryParams } from '@/lib/schemas/flashcard.schema';
+import { DatabaseQueryError, type SupabaseClient } from '@/lib/services/flashcard.service';
+import { deckService } from '@/lib/services/deck.service';
+import { createLogger } from '@/lib/utils/logger';
+
+/**
+ * Number of flashcards fetched from the database per export chunk
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Columns read for the export, id and created_at also mark where the next page starts
+ */
+const EXPORT_COLUMNS = 'id, front, back, card_type, source, deck_id, created_at, flashcard_tags(tags(name))';
+
+/**
+ * Flashcard row read for the export
+ */
+type ExportRow = {
+	id: string;
+	front: string;
+	back: string;
+	card_type: FlashcardCardType;
+	source: FlashcardSource;
+	deck_id: string | null;
+	created_at: string;
+	flashcard_tags: { tags: { name: string } }[];
+};
+
+/**
+ * Content type and file extension of each export format
+ */
+export const EXPORT_FORMATS: Record<FlashcardExportFormat, { contentType: string; extension: string }> = {
+	csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+	tsv: { contentType: 'text/tab-separated-values; charset=utf-8', extension: 'tsv' },
+	json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+	'anki-txt': { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+};
+
+const COLUMNS = ['front', 'back', 'tags', 'deck', 'source', 'created_at'] as const;
+
+/**
+ * Escape a CSV field (RFC 4180): fields containing commas, quotes or line breaks
+ * are quoted and inner quotes are doubled
+ */
+export function escapeCsvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Escape a TSV field: backslashes, tabs and line breaks are written as \\, \t, \n and \r
+ */
+export function escapeTsvField(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/\t/g, '\\t')
+		.replace(/\n/g, '\\n')
+		.replace(/\r/g, '\\r');
+}
+
+/**
+ * Escape a field of an Anki text import with HTML enabled: special characters become
+ * entities and line breaks become <br>, so no field needs quoting
+ */
+export function escapeAnkiField(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/\t/g, '&#9;')
+		.replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Render the file header of an export format
+ */
+export function formatExportHeader(format: FlashcardExportFormat): string {
+	switch (format) {
+		case 'csv':
+			return `${COLUMNS.join(',')}\n`;
+		case 'tsv':
+			return `${COLUMNS.join('\t')}\n`;
+		case 'json':
+			return '[';
+		case 'anki-txt':
+			// https://docs.ankiweb.net/importing/text-files.html#file-headers
+			return '#separator:tab\n#html:true\n#tags column:3\n#deck column:4\n';
+	}
+}
+
+/**
+ * Render a single flashcard in an export format
+ * @param isFirst - Whether this is the first flashcard of the file (JSON needs no leading comma)
+ */
+export function formatExportItem(format: FlashcardExportFormat, item: FlashcardExportItemDTO, isFirst: boolean): string {
+	// Tags never contain whitespace after normalization, so a space-separated list is unambiguous
+	const values = [item.front, item.back, item.tags.join(' '), item.deck ?? '', item.source, item.created_at];
+
+	switch (format) {
+		case 'csv':
+			return `${values.map(escapeCsvField).join(',')}\n`;
+		case 'tsv':
+			return `${values.map(escapeTsvField).join('\t')}\n`;
+		case 'json':
+			return `${isFirst ? '' : ','}\n  ${JSON.stringify(item)}`;
+		case 'anki-txt':
+			return `${values.slice(0, 4).map(escapeAnkiField).join('\t')}\n`;
+	}
+}
+
+/**
+ * Render the file footer of an export format
+ */
+export function formatExportFooter(format: FlashcardExportFormat, isEmpty: boolean): string {
+	if (format === 'json') {
+		return isEmpty ? ']\n' : '\n]\n';
+	}
+
+	return '';
+}
+
+/**
+ * Flashcard Export Service
+ * Handles rendering a user's flashcards into downloadable files
+ */
+export class FlashcardExportService {
+	private readonly logger = createLogger('FlashcardExportService');
+
+	/**
+	 * Export all flashcards of a user matching the filters, chunk by chunk
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID whose flashcards are exported
+	 * @param queryParams - Validated export parameters (format and list filters)
+	 * @returns Async iterator of file contents, the first chunk (with the header) is produced once the first page is loaded
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async *exportFlashcards(
+		supabase: SupabaseClient,
+		userId: string,
+		queryParams: ValidatedExportFlashcardsQueryParams
+	): AsyncGenerator<string> {
+		const { format, ...filters } = queryParams;
+
+		this.logger.info('Exporting flashcards', { userId, format, filters });
+
+		try {
+			// Resolve deck names once, flashcards only reference decks by ID
+			const { data: decks } = await deckService.getDecks(supabase, userId);
+			const deckNames = new Map(decks.map((deck) => [deck.id, deck.name]));
+
+			// The header is sent together with the first page, so early database errors surface before any output
+			let header = formatExportHeader(format);
+			let lastRow: ExportRow | null = null;
+			let exported = 0;
+
+			while (true) {
+				const rows: ExportRow[] = await this.fetchPage(supabase, userId, filters, lastRow);
+
+				yield header + rows
+					.map((row, index) =>
+						formatExportItem(format, this.toExportItem(row, deckNames), exported + index === 0)
+					)
+					.join('');
+				header = '';
+				exported += rows.length;
+
+				if (rows.length < EXPORT_PAGE_SIZE) {
+					break;
+				}
+				lastRow = rows[rows.length - 1];
+			}
+
+			yield formatExportFooter(format, exported === 0);
+
+			this.logger.info('Successfully exported flashcards', { userId, format, count: exported });
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof DatabaseQueryError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while exporting flashcards', { userId, format }, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while exporting flashcards', error);
+		}
+	}
+
+	/**
+	 * Fetch the next page of flashcards to export
+	 * Pages are ordered by creation time and ID and continue after the last row of the previous page,
+	 * so flashcards created in one transaction (sharing created_at) are neither repeated nor skipped
+	 */
+	private async fetchPage(
+		supabase: SupabaseClient,
+		userId: string,
+		filters: Omit<ValidatedExportFlashcardsQueryParams, 'format'>,
+		after: ExportRow | null
+	): Promise<ExportRow[]> {
+		const { source, deck_id: deckId, tags, q } = filters;
+
+		// Search query and tag filter are applied in the database by filter_flashcards()
+		const filterArgs = { p_query: q ?? undefined, p_tag_names: tags };
+		const isFiltered = Boolean(q) || tags.length > 0;
+
+		let query = (
+			isFiltered
+				? supabase.rpc('filter_flashcards', filterArgs).select(EXPORT_COLUMNS)
+				: supabase.from('flashcards').select(EXPORT_COLUMNS)
+		).eq('user_id', userId);
+
+		if (source) {
+			query = query.eq('source', source);
+		}
+
+		if (deckId) {
+			query = query.eq('deck_id', deckId);
+		}
+
+		if (after) {
+			query = query.or(
+				`created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`
+			);
+		}
+
+		const { data, error } = await query.order('created_at').order('id').limit(EXPORT_PAGE_SIZE);
+
+		if (error) {
+			this.logger.error('Failed to fetch flashcards for export', { userId, filters }, error);
+			throw new DatabaseQueryError('Failed to fetch flashcards from database', error);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Map a flashcard row to its export representation
+	 */
+	private toExportItem(row: ExportRow, deckNames: Map<string, string>): FlashcardExportItemDTO {
+		return {
+			front: row.front,
+			back: row.back,
+			card_type: row.card_type,
+			tags: row.flashcard_tags.map((flashcardTag) => flashcardTag.tags.name),
+			deck: row.deck_id ? deckNames.get(row.deck_id) ?? null : null,
+			source: row.source,
+			created_at: row.created_at,
+		};
+	}
+}
+
+/**
+ * Singleton instance of FlashcardExportService
+ */
+export const flashcardExportService = new FlashcardExportService();
@@ -0,0 +1,441 @@
+import type { FlashcardCardType, FlashcardImportFormat, ImportFlashcardsResponseDTO, ImportRowErrorDTO } from '@/types';
+import {
+	FlashcardContentSchema,
+	refineFlashcardContent,
+	type ValidatedImportFlashcardsOptions,
+} from '@/lib/schemas/flashcard.schema';
+import { DatabaseQueryError, type SupabaseClient } from '@/lib/services/flashcard.service';
+import { deckService } from '@/lib/services/deck.service';
+import { normalizeTags } from '@/lib/utils/tags';
+import { hasClozeDeletions } from '@/lib/utils/cloze';
+import { createLogger } from '@/lib/utils/logger';
+
+/**
+ * Import limits
+ */
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Number of flashcards inserted per database request
+ */
+const IMPORT_CHUNK_SIZE = 100;
+
+const MAX_DECK_NAME_LENGTH = 100;
+
+/**
+ * Named separators of Anki "#separator:" file headers
+ */
+const ANKI_SEPARATORS: Record<string, string> = {
+	tab: '\t',
+	comma: ',',
+	semicolon: ';',
+	pipe: '|',
+	space: ' ',
+	colon: ':',
+};
+
+/**
+ * Keys of Anki file headers (https://docs.ankiweb.net/importing/text-files.html#file-headers)
+ */
+const ANKI_HEADER_KEYS = new Set([
+	'separator',
+	'html',
+	'tags',
+	'columns',
+	'notetype',
+	'deck',
+	'notetype column',
+	'deck column',
+	'tags column',
+	'guid column',
+	'if matches',
+]);
+
+const DEFAULT_DELIMITERS: Record<FlashcardImportFormat, string> = {
+	csv: ',',
+	tsv: '\t',
+	'anki-txt': '\t',
+};
+
+/**
+ * A parsed record and the 1-based line number where it starts
+ */
+export type DelimitedRecord = {
+	line: number;
+	fields: string[];
+};
+
+/**
+ * A validated row ready to be inserted
+ */
+export type ImportRow = {
+	row: number;
+	front: string;
+	back: string;
+	card_type: FlashcardCardType;
+	tags: string[];
+	deck: string | null;
+};
+
+/**
+ * Result of parsing an import file
+ */
+export type ParsedImportFile = {
+	rows: ImportRow[];
+	errors: ImportRowErrorDTO[];
+};
+
+/**
+ * Detect the import format from a file name extension
+ * @returns Format or null when the extension is not recognized
+ */
+export function detectImportFormat(fileName: string): FlashcardImportFormat | null {
+	const extension = fileName.split('.').pop()?.toLowerCase();
+
+	switch (extension) {
+		case 'csv':
+			return 'csv';
+		case 'tsv':
+		case 'tab':
+			return 'tsv';
+		case 'txt':
+			return 'anki-txt';
+		default:
+			return null;
+	}
+}
+
+/**
+ * Split delimiter-separated text into records
+ * With quoting enabled, fields starting with a double quote may contain delimiters and
+ * line breaks, and "" stands for a quote (RFC 4180). Empty lines are skipped.
+ * @param startLine - Line number of the first line of text (for error reporting)
+ */
+export function parseDelimitedText(
+	text: string,
+	delimiter: string,
+	{ quoted, startLine = 1 }: { quoted: boolean; startLine?: number }
+): DelimitedRecord[] {
+	const records: DelimitedRecord[] = [];
+	let fields: string[] = [];
+	let field = '';
+	let line = startLine;
+	let recordLine = startLine;
+	let inQuotes = false;
+	let fieldStart = true;
+
+	const endRecord = () => {
+		fields.push(field);
+		if (fields.length > 1 || fields[0] !== '') {
+			records.push({ line: recordLine, fields });
+		}
+		fields = [];
+		field = '';
+		fieldStart = true;
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				if (char === '\n') {
+					line++;
+				}
+				field += char;
+			}
+			continue;
+		}
+
+		if (quoted && fieldStart && char === '"') {
+			inQuotes = true;
+			fieldStart = false;
+		} else if (char === delimiter) {
+			fields.push(field);
+			field = '';
+			fieldStart = true;
+		} else if (char === '\n' || char === '\r') {
+			// Treat \r\n as a single line break
+			if (char === '\r' && text[i + 1] === '\n') {
+				i++;
+			}
+			endRecord();
+			line++;
+			recordLine = line;
+		} else {
+			field += char;
+			fieldStart = false;
+		}
+	}
+
+	if (field !== '' || fields.length > 0) {
+		endRecord();
+	}
+
+	return records;
+}
+
+/**
+ * Reverse the TSV escaping of the export (\\t, \\n, \\r and \\\\)
+ */
+export function unescapeTsvField(value: string): string {
+	return value.replace(/\\([tnr\\])/g, (_, char: string) => {
+		switch (char) {
+			case 't':
+				return '\t';
+			case 'n':
+				return '\n';
+			case 'r':
+				return '\r';
+			default:
+				return '\\';
+		}
+	});
+}
+
+/**
+ * Convert an HTML field of an Anki text file to plain text
+ * Line breaks (<br>, <div>) become newlines and entities are decoded, other markup is kept
+ */
+export function decodeAnkiHtmlField(value: string): string {
+	return value
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/div>\s*<div>/gi, '\n')
+		.replace(/<\/?div>/gi, '')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 10)))
+		.replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse and validate an import file
+ * Rows failing the flashcard rules are reported with their line number instead of being imported
+ * @param text - File contents
+ * @param format - File format
+ * @param options - Validated import options (delimiter, header and column mapping)
+ */
+export function parseImportFile(
+	text: string,
+	format: FlashcardImportFormat,
+	options: Omit<ValidatedImportFlashcardsOptions, 'format' | 'deck_id'>
+): ParsedImportFile {
+	// Strip the byte order mark written by some spreadsheet tools
+	const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+	// Anki file headers (#key:value) precede the data, the first other line starts it (even when it begins with #)
+	const ankiHeaders = new Map<string, string>();
+	let headerLineCount = 0;
+	if (format === 'anki-txt') {
+		while (headerLineCount < lines.length) {
+			const header = /^#([a-z ]+):(.*)$/i.exec(lines[headerLineCount]);
+			const key = header ? header[1].trim().toLowerCase() : '';
+			if (!header || !ANKI_HEADER_KEYS.has(key)) {
+				break;
+			}
+			ankiHeaders.set(key, header[2].trim());
+			headerLineCount++;
+		}
+	}
+
+	const ankiSeparator = ankiHeaders.get('separator');
+	const delimiter =
+		options.delimiter ??
+		(ankiSeparator ? ANKI_SEPARATORS[ankiSeparator.toLowerCase()] ?? ankiSeparator : DEFAULT_DELIMITERS[format]);
+
+	const records = parseDelimitedText(lines.slice(headerLineCount).join('\n'), delimiter, {
+		quoted: format !== 'tsv',
+		startLine: headerLineCount + 1,
+	});
+
+	// Resolve the column mapping, explicit options win over header names and Anki headers
+	const hasHeader = options.has_header ?? format !== 'anki-txt';
+	const headerNames = hasHeader ? (records.shift()?.fields ?? []).map((name) => name.trim().toLowerCase()) : [];
+	const findColumn = (...names: string[]) => {
+		const index = headerNames.findIndex((name) => names.includes(name));
+		return index >= 0 ? index + 1 : null;
+	};
+	const ankiColumn = (key: string) => {
+		const value = parseInt(ankiHeaders.get(key) ?? '', 10);
+		return Number.isNaN(value) ? null : value;
+	};
+
+	const frontColumn = options.front_column ?? findColumn('front', 'question') ?? 1;
+	const backColumn = options.back_column ?? findColumn('back', 'answer') ?? 2;
+	const tagsColumn = options.tags_column ?? findColumn('tags') ?? ankiColumn('tags column');
+	const deckColumn = options.deck_column ?? findColumn('deck') ?? ankiColumn('deck column');
+
+	const isHtml = format === 'anki-txt' && ankiHeaders.get('html') === 'true';
+	const readField = (record: DelimitedRecord, column: number | null) => {
+		const value = column ? record.fields[column - 1] ?? '' : '';
+		if (format === 'tsv') {
+			return unescapeTsvField(value);
+		}
+		return isHtml ? decodeAnkiHtmlField(value) : value;
+	};
+
+	const rows: ImportRow[] = [];
+	const errors: ImportRowErrorDTO[] = [];
+
+	for (const record of records) {
+		// Cloze notes are recognized by their deletions, as in Anki exports
+		const front = readField(record, frontColumn).trim();
+		const validation = FlashcardContentSchema.superRefine(refineFlashcardContent).safeParse({
+			front,
+			back: readField(record, backColumn).trim(),
+			card_type: hasClozeDeletions(front) ? 'cloze' : 'basic',
+		});
+
+		if (!validation.success) {
+			for (const err of validation.error.errors) {
+				errors.push({ row: record.line, field: err.path.join('.'), message: err.message });
+			}
+			continue;
+		}
+
+		const deck = readField(record, deckColumn).trim() || null;
+		if (deck && deck.length > MAX_DECK_NAME_LENGTH) {
+			errors.push({
+				row: record.line,
+				field: 'deck',
+				message: `Deck name must not exceed ${MAX_DECK_NAME_LENGTH} characters`,
+			});
+			continue;
+		}
+
+		rows.push({
+			row: record.line,
+			front: validation.data.front,
+			back: validation.data.back,
+			card_type: validation.data.card_type,
+			// Tags are separated by whitespace (Anki, export) or commas
+			tags: normalizeTags(readField(record, tagsColumn).split(/[\s,]+/)),
+			deck,
+		});
+	}
+
+	return { rows, errors };
+}
+
+/**
+ * Flashcard Import Service
+ * Handles saving flashcards parsed from an import file
+ */
+export class FlashcardImportService {
+	private readonly logger = createLogger('FlashcardImportService');
+
+	/**
+	 * Save parsed import rows as flashcards of a user, in chunks
+	 * Decks referenced by name are matched case-insensitively and created when missing.
+	 * A failed chunk is reported as row errors and does not stop the remaining chunks.
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who will own the flashcards
+	 * @param parsed - Rows and parse errors from parseImportFile
+	 * @param deckId - Deck for rows without a deck name (ownership must be verified by the caller)
+	 * @returns Number of imported flashcards and all row errors ordered by row
+	 * @throws {DatabaseQueryError} When resolving decks fails
+	 */
+	async importFlashcards(
+		supabase: SupabaseClient,
+		userId: string,
+		parsed: ParsedImportFile,
+		deckId: string | null
+	): Promise<ImportFlashcardsResponseDTO> {
+		const errors = [...parsed.errors];
+		let imported = 0;
+
+		this.logger.info('Importing flashcards', { userId, rows: parsed.rows.length, invalid: errors.length });
+
+		try {
+			const deckIds = await this.resolveDeckNames(supabase, userId, parsed.rows);
+
+			for (let start = 0; start < parsed.rows.length; start += IMPORT_CHUNK_SIZE) {
+				const chunk = parsed.rows.slice(start, start + IMPORT_CHUNK_SIZE);
+
+				// Flashcards of a chunk are saved with their tags in one transaction
+				const { data, error } = await supabase
+					.rpc('create_flashcards', {
+						p_user_id: userId,
+						p_flashcards: chunk.map((row) => ({
+							front: row.front,
+							back: row.back,
+							card_type: row.card_type,
+							source: 'imported',
+							deck_id: row.deck ? deckIds.get(row.deck.toLowerCase()) ?? null : deckId,
+							tags: row.tags,
+						})),
+					})
+					.select('id');
+
+				if (error) {
+					this.logger.error('Failed to insert import chunk', { userId, start, count: chunk.length }, error);
+					errors.push(
+						...chunk.map((row) => ({ row: row.row, field: 'row', message: 'Failed to save flashcard' }))
+					);
+					continue;
+				}
+
+				imported += data.length;
+			}
+
+			errors.sort((a, b) => a.row - b.row);
+
+			this.logger.info('Successfully imported flashcards', { userId, imported, failed: errors.length });
+
+			return { imported, failed: errors.length, errors };
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof DatabaseQueryError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while importing flashcards', { userId }, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while importing flashcards', error);
+		}
+	}
+
+	/**
+	 * Map the deck names used by the rows to deck IDs, creating decks that don't exist yet
+	 * @returns Deck IDs keyed by lowercase deck name
+	 */
+	private async resolveDeckNames(
+		supabase: SupabaseClient,
+		userId: string,
+		rows: ImportRow[]
+	): Promise<Map<string, string>> {
+		const deckIds = new Map<string, string>();
+		const names = new Set(rows.map((row) => row.deck).filter((name): name is string => !!name));
+
+		if (names.size === 0) {
+			return deckIds;
+		}
+
+		const { data: decks } = await deckService.getDecks(supabase, userId);
+		for (const deck of decks) {
+			deckIds.set(deck.name.toLowerCase(), deck.id);
+		}
+
+		for (const name of names) {
+			if (!deckIds.has(name.toLowerCase())) {
+				const deck = await deckService.createDeck(supabase, userId, { name });
+				deckIds.set(name.toLowerCase(), deck.id);
+			}
+		}
+
+		return deckIds;
+	}
+}
+
+/**
+ * Singleton instance of FlashcardImportService
+ */
+export const flashcardImportService = new FlashcardImportService();
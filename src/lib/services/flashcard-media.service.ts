@@ -0,0 +1,190 @@
+import type { FlashcardMediaDTO, FlashcardSide } from '@/types';
+import { DatabaseQueryError, FlashcardNotFoundError, type SupabaseClient } from '@/lib/services/flashcard.service';
+import {
+	buildMediaPath,
+	FLASHCARD_MEDIA_BUCKET,
+	MediaStorageError,
+	removeMediaFiles,
+	signFlashcardMedia,
+} from '@/lib/services/media-storage';
+import { detectImageType, MAX_IMAGES_PER_SIDE } from '@/lib/utils/media';
+import { createLogger } from '@/lib/utils/logger';
+
+/**
+ * Custom error types for flashcard media service
+ */
+export class FlashcardMediaNotFoundError extends Error {
+	constructor(message: string = 'Attachment not found') {
+		super(message);
+		this.name = 'FlashcardMediaNotFoundError';
+	}
+}
+
+export class InvalidMediaError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'InvalidMediaError';
+	}
+}
+
+/**
+ * Flashcard Media Service
+ * Handles image attachments stored in the flashcard-media bucket and tracked in flashcard_media
+ */
+export class FlashcardMediaService {
+	private readonly logger = createLogger('FlashcardMediaService');
+
+	/**
+	 * Attach an image to a side of a flashcard
+	 * The format is detected from the file content, the declared MIME type is ignored
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the flashcard
+	 * @param flashcardId - ID of the flashcard
+	 * @param side - Side the image is shown on
+	 * @param file - Uploaded file (size already validated)
+	 * @returns Attached media with a signed URL
+	 * @throws {FlashcardNotFoundError} When flashcard doesn't exist or doesn't belong to user
+	 * @throws {InvalidMediaError} When the file is not a supported image or the side is full
+	 * @throws {MediaStorageError} When the file cannot be stored
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async uploadMedia(
+		supabase: SupabaseClient,
+		userId: string,
+		flashcardId: string,
+		side: FlashcardSide,
+		file: File
+	): Promise<FlashcardMediaDTO> {
+		this.logger.info('Uploading flashcard media', { userId, flashcardId, side, size: file.size });
+
+		// 1. Verify the flashcard belongs to the user
+		const { data: flashcard, error: flashcardError } = await supabase
+			.from('flashcards')
+			.select('id')
+			.eq('id', flashcardId)
+			.eq('user_id', userId)
+			.maybeSingle();
+
+		if (flashcardError) {
+			this.logger.error('Failed to fetch flashcard for upload', { userId, flashcardId }, flashcardError);
+			throw new DatabaseQueryError('Failed to fetch flashcard from database', flashcardError);
+		}
+
+		if (!flashcard) {
+			this.logger.warn('Flashcard not found for upload', { userId, flashcardId });
+			throw new FlashcardNotFoundError(`Flashcard with id ${flashcardId} not found or does not belong to user`);
+		}
+
+		// 2. Check the number of images already on the side
+		const { count, error: countError } = await supabase
+			.from('flashcard_media')
+			.select('id', { count: 'exact', head: true })
+			.eq('flashcard_id', flashcardId)
+			.eq('side', side);
+
+		if (countError) {
+			this.logger.error('Failed to count flashcard media', { userId, flashcardId }, countError);
+			throw new DatabaseQueryError('Failed to count flashcard media', countError);
+		}
+
+		if ((count ?? 0) >= MAX_IMAGES_PER_SIDE) {
+			throw new InvalidMediaError(`A side can have at most ${MAX_IMAGES_PER_SIDE} images`);
+		}
+
+		// 3. Detect the image format from the content
+		const bytes = new Uint8Array(await file.arrayBuffer());
+		const mimeType = detectImageType(bytes);
+
+		if (!mimeType) {
+			this.logger.warn('Rejected upload with unsupported content', { userId, flashcardId, type: file.type });
+			throw new InvalidMediaError('Only PNG, JPEG, WebP and GIF images are supported');
+		}
+
+		// 4. Store the file, the bucket policies check the owner folder
+		const mediaId = crypto.randomUUID();
+		const storagePath = buildMediaPath(userId, flashcardId, mediaId, mimeType);
+
+		const { error: uploadError } = await supabase.storage
+			.from(FLASHCARD_MEDIA_BUCKET)
+			.upload(storagePath, bytes, { contentType: mimeType, upsert: false });
+
+		if (uploadError) {
+			this.logger.error('Failed to upload flashcard media', { userId, flashcardId }, uploadError);
+			throw new MediaStorageError('Failed to store flashcard media', uploadError);
+		}
+
+		// 5. Record the attachment, the file is removed again when that fails
+		const { data, error } = await supabase
+			.from('flashcard_media')
+			.insert({
+				id: mediaId,
+				flashcard_id: flashcardId,
+				user_id: userId,
+				side,
+				storage_path: storagePath,
+				mime_type: mimeType,
+				size_bytes: bytes.byteLength,
+			})
+			.select('id, side, storage_path, mime_type, size_bytes, created_at')
+			.single();
+
+		if (error) {
+			this.logger.error('Failed to insert flashcard media', { userId, flashcardId }, error);
+			await removeMediaFiles(supabase, [storagePath]).catch((removeError) =>
+				this.logger.warn('Failed to remove orphaned media file', { storagePath }, removeError as Error)
+			);
+			throw new DatabaseQueryError('Failed to save flashcard media', error);
+		}
+
+		const [[media]] = await signFlashcardMedia(supabase, [[data]]);
+
+		this.logger.info('Successfully uploaded flashcard media', { userId, flashcardId, mediaId });
+		return media;
+	}
+
+	/**
+	 * Remove an image from a flashcard
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the flashcard
+	 * @param flashcardId - ID of the flashcard
+	 * @param mediaId - ID of the attachment
+	 * @throws {FlashcardMediaNotFoundError} When the attachment doesn't exist or doesn't belong to the flashcard and user
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async deleteMedia(supabase: SupabaseClient, userId: string, flashcardId: string, mediaId: string): Promise<void> {
+		this.logger.info('Deleting flashcard media', { userId, flashcardId, mediaId });
+
+		const { data, error } = await supabase
+			.from('flashcard_media')
+			.delete()
+			.eq('id', mediaId)
+			.eq('flashcard_id', flashcardId)
+			.eq('user_id', userId)
+			.select('storage_path')
+			.maybeSingle();
+
+		if (error) {
+			this.logger.error('Failed to delete flashcard media', { userId, flashcardId, mediaId }, error);
+			throw new DatabaseQueryError('Failed to delete flashcard media from database', error);
+		}
+
+		if (!data) {
+			this.logger.warn('Flashcard media not found for deletion', { userId, flashcardId, mediaId });
+			throw new FlashcardMediaNotFoundError(`Attachment with id ${mediaId} not found`);
+		}
+
+		// The attachment is gone either way, a file left behind only takes up space
+		try {
+			await removeMediaFiles(supabase, [data.storage_path]);
+		} catch (removeError) {
+			this.logger.warn('Failed to remove flashcard media file', { userId, mediaId }, removeError as Error);
+		}
+
+		this.logger.info('Successfully deleted flashcard media', { userId, flashcardId, mediaId });
+	}
+}
+
+/**
+ * Singleton instance of FlashcardMediaService
+ */
+export const flashcardMediaService = new FlashcardMediaService();
@@ -1,7 +1,8 @@
 import type { SupabaseClient as SupabaseClientType } from '@supabase/supabase-js';
 import type { Database } from '@/db/database.type';
-import type { FlashcardListResponseDTO, FlashcardDTO, UpdateFlashcardCommand } from '@/types';
-import type { ValidatedFlashcardQueryParams } from '@/lib/schemas/flashcard.schema';
+import type { FlashcardListResponseDTO, FlashcardDTO, FlashcardSource, UpdateFlashcardCommand } from '@/types';
+import { getFlashcardContentIssue, type ValidatedFlashcardQueryParams } from '@/lib/schemas/flashcard.schema';
+import { removeMediaFiles, signFlashcardMedia, signUploadedAudio } from '@/lib/services/media-storage';
 import { createLogger } from '@/lib/utils/logger';
 
 /**
@@ -26,6 +27,20 @@ export class FlashcardNotFoundError extends Error {
 	}
 }
 
+export class InvalidFlashcardContentError extends Error {
+	constructor(public readonly field: 'front' | 'back', message: string) {
+		super(message);
+		this.name = 'InvalidFlashcardContentError';
+	}
+}
+
+/**
+ * Columns selected for flashcard DTOs, tags are embedded through the flashcard_tags join table
+ * and attachments from flashcard_media and flashcard_audio (signed before they are returned)
+ */
+const FLASHCARD_COLUMNS =
+	'id, front, back, card_type, source, deck_id, created_at, updated_at, flashcard_tags(tags(name)), flashcard_media(id, side, storage_path, mime_type, size_bytes, created_at), flashcard_audio(id, side, source, storage_path, mime_type, size_bytes, created_at)';
+
 /**
  * Flashcard Service
  * Handles business logic for flashcard operations
@@ -37,7 +52,7 @@ export class FlashcardService {
 	 * Get paginated list of flashcards for a user
 	 * @param supabase - Supabase client instance
 	 * @param userId - User ID to filter flashcards
-	 * @param queryParams - Validated query parameters (page, limit, source, sort, order)
+	 * @param queryParams - Validated query parameters (page, limit, source, deck_id, tags, q, sort, order)
 	 * @returns Paginated flashcard list with metadata
 	 * @throws {DatabaseQueryError} When database query fails
 	 */
@@ -46,7 +61,7 @@ export class FlashcardService {
 		userId: string,
 		queryParams: ValidatedFlashcardQueryParams
 	): Promise<FlashcardListResponseDTO> {
-		const { page, limit, source, sort, order } = queryParams;
+		const { page, limit, source, deck_id: deckId, tags, q, sort, order } = queryParams;
 
 		// Calculate pagination offset
 		const offset = (page - 1) * limit;
@@ -56,25 +71,40 @@ export class FlashcardService {
 			page,
 			limit,
 			source,
+			deckId,
+			tags,
+			q,
 			sort,
 			order,
 			offset,
 		});
 
 		try {
+			// Search query and tag filter are applied in the database by filter_flashcards()
+			const filterArgs = { p_query: q ?? undefined, p_tag_names: tags };
+			const isFiltered = Boolean(q) || tags.length > 0;
+
 			// Build base query for flashcards
-			let query = supabase
-				.from('flashcards')
-				.select('id, front, back, source, created_at, updated_at')
-				.eq('user_id', userId);
+			let query = (
+				isFiltered
+					? supabase.rpc('filter_flashcards', filterArgs).select(FLASHCARD_COLUMNS)
+					: supabase.from('flashcards').select(FLASHCARD_COLUMNS)
+			).eq('user_id', userId);
 
 			// Apply source filter if provided
 			if (source) {
 				query = query.eq('source', source);
 			}
 
-			// Apply sorting
-			query = query.order(sort, { ascending: order === 'asc' });
+			// Apply deck filter if provided
+			if (deckId) {
+				query = query.eq('deck_id', deckId);
+			}
+
+			// Apply sorting, search results keep the relevance order of filter_flashcards()
+			if (!q) {
+				query = query.order(sort, { ascending: order === 'asc' });
+			}
 
 			// Apply pagination
 			query = query.range(offset, offset + limit - 1);
@@ -92,16 +122,21 @@ export class FlashcardService {
 			}
 
 			// Build count query for pagination metadata
-			let countQuery = supabase
-				.from('flashcards')
-				.select('*', { count: 'exact', head: true })
-				.eq('user_id', userId);
+			let countQuery = (
+				isFiltered
+					? supabase.rpc('filter_flashcards', filterArgs, { count: 'exact', head: true })
+					: supabase.from('flashcards').select('*', { count: 'exact', head: true })
+			).eq('user_id', userId);
 
 			// Apply same source filter to count query
 			if (source) {
 				countQuery = countQuery.eq('source', source);
 			}
 
+			if (deckId) {
+				countQuery = countQuery.eq('deck_id', deckId);
+			}
+
 			// Execute count query
 			const { count, error: countError } = await countQuery;
 
@@ -110,12 +145,21 @@ export class FlashcardService {
 				throw new DatabaseQueryError('Failed to fetch flashcard count', countError);
 			}
 
+			// Sign attachment URLs of the whole page at once
+			const media = await signFlashcardMedia(supabase, data.map((row) => row.flashcard_media));
+			const audio = await signUploadedAudio(supabase, data.map((row) => row.flashcard_audio));
+
 			// Transform database rows to DTOs
-			const flashcards: FlashcardDTO[] = data.map((row) => ({
+			const flashcards: FlashcardDTO[] = data.map((row, index) => ({
 				id: row.id,
 				front: row.front,
 				back: row.back,
-				source: row.source as 'manual' | 'ai_generated',
+				card_type: row.card_type,
+				source: row.source as FlashcardSource,
+				deck_id: row.deck_id,
+				tags: row.flashcard_tags.map((flashcardTag) => flashcardTag.tags.name),
+				media: media[index],
+				audio: audio[index],
 				created_at: row.created_at,
 				updated_at: row.updated_at,
 			}));
@@ -163,9 +207,10 @@ export class FlashcardService {
 	 * @param supabase - Supabase client instance
 	 * @param userId - User ID who owns the flashcard
 	 * @param flashcardId - ID of the flashcard to update
-	 * @param command - Update command with optional front and back fields
+	 * @param command - Update command with optional front, back, card_type and tags fields
 	 * @returns Updated flashcard DTO
 	 * @throws {FlashcardNotFoundError} When flashcard doesn't exist or doesn't belong to user
+	 * @throws {InvalidFlashcardContentError} When the updated content is not valid for the card type
 	 * @throws {DatabaseQueryError} When database query fails
 	 */
 	async updateFlashcard(
@@ -177,26 +222,22 @@ export class FlashcardService {
 		this.logger.info('Updating flashcard', { userId, flashcardId, command });
 
 		try {
-			// Build update object with only provided fields
-			const updateData: Record<string, unknown> = {
-				updated_at: new Date().toISOString(),
-			};
-
-			if (command.front !== undefined) {
-				updateData.front = command.front;
+			// Content rules depend on the card type, check the result of a partial update
+			if (command.front !== undefined || command.back !== undefined || command.card_type !== undefined) {
+				await this.assertValidContent(supabase, userId, flashcardId, command);
 			}
 
-			if (command.back !== undefined) {
-				updateData.back = command.back;
-			}
-
-			// Execute update query with user_id filter for security
+			// Update content and replace tags in one transaction, user_id is checked by update_flashcard()
 			const { data, error } = await supabase
-				.from('flashcards')
-				.update(updateData)
-				.eq('id', flashcardId)
-				.eq('user_id', userId)
-				.select('id, front, back, source, created_at, updated_at')
+				.rpc('update_flashcard', {
+					p_flashcard_id: flashcardId,
+					p_user_id: userId,
+					p_front: command.front,
+					p_back: command.back,
+					p_card_type: command.card_type,
+					p_tag_names: command.tags,
+				})
+				.select(FLASHCARD_COLUMNS)
 				.single();
 
 			if (error) {
@@ -212,12 +253,21 @@ export class FlashcardService {
 				throw new DatabaseQueryError('Failed to update flashcard in database', error);
 			}
 
+			const [media] = await signFlashcardMedia(supabase, [data.flashcard_media]);
+			const [audio] = await signUploadedAudio(supabase, [data.flashcard_audio]);
+
 			// Transform to DTO
 			const flashcardDTO: FlashcardDTO = {
 				id: data.id,
 				front: data.front,
 				back: data.back,
-				source: data.source as 'manual' | 'ai_generated',
+				card_type: data.card_type,
+				source: data.source as FlashcardSource,
+				deck_id: data.deck_id,
+				// Embedded tags are read before update_flashcard() runs
+				tags: command.tags ?? data.flashcard_tags.map((flashcardTag) => flashcardTag.tags.name),
+				media,
+				audio,
 				created_at: data.created_at,
 				updated_at: data.updated_at,
 			};
@@ -226,7 +276,11 @@ export class FlashcardService {
 			return flashcardDTO;
 		} catch (error) {
 			// Re-throw known errors
-			if (error instanceof FlashcardNotFoundError || error instanceof DatabaseQueryError) {
+			if (
+				error instanceof FlashcardNotFoundError ||
+				error instanceof InvalidFlashcardContentError ||
+				error instanceof DatabaseQueryError
+			) {
 				throw error;
 			}
 
@@ -241,7 +295,48 @@ export class FlashcardService {
 	}
 
 	/**
-	 * Delete a flashcard
+	 * Validate the content a flashcard will have after an update, merged with its stored fields
+	 * @throws {FlashcardNotFoundError} When flashcard doesn't exist or doesn't belong to user
+	 * @throws {InvalidFlashcardContentError} When the content is not valid for the card type
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	private async assertValidContent(
+		supabase: SupabaseClient,
+		userId: string,
+		flashcardId: string,
+		command: UpdateFlashcardCommand
+	): Promise<void> {
+		const { data, error } = await supabase
+			.from('flashcards')
+			.select('front, back, card_type')
+			.eq('id', flashcardId)
+			.eq('user_id', userId)
+			.maybeSingle();
+
+		if (error) {
+			this.logger.error('Failed to fetch flashcard for update', { userId, flashcardId }, error);
+			throw new DatabaseQueryError('Failed to fetch flashcard from database', error);
+		}
+
+		if (!data) {
+			this.logger.warn('Flashcard not found for update', { userId, flashcardId });
+			throw new FlashcardNotFoundError(`Flashcard with id ${flashcardId} not found or does not belong to user`);
+		}
+
+		const issue = getFlashcardContentIssue({
+			front: command.front ?? data.front,
+			back: command.back ?? data.back,
+			card_type: command.card_type ?? data.card_type,
+		});
+
+		if (issue) {
+			this.logger.warn('Invalid flashcard content for update', { userId, flashcardId, issue });
+			throw new InvalidFlashcardContentError(issue.field, issue.message);
+		}
+	}
+
+	/**
+	 * Delete a flashcard together with its attachment files
 	 * @param supabase - Supabase client instance
 	 * @param userId - User ID who owns the flashcard
 	 * @param flashcardId - ID of the flashcard to delete
@@ -256,6 +351,29 @@ export class FlashcardService {
 		this.logger.info('Deleting flashcard', { userId, flashcardId });
 
 		try {
+			// Attachment rows are removed by the cascade, remember their files first
+			const { data: media, error: mediaError } = await supabase
+				.from('flashcard_media')
+				.select('storage_path')
+				.eq('flashcard_id', flashcardId)
+				.eq('user_id', userId);
+
+			if (mediaError) {
+				this.logger.error('Failed to fetch flashcard media for deletion', { userId, flashcardId }, mediaError);
+				throw new DatabaseQueryError('Failed to fetch flashcard media from database', mediaError);
+			}
+
+			const { data: audio, error: audioError } = await supabase
+				.from('flashcard_audio')
+				.select('storage_path')
+				.eq('flashcard_id', flashcardId)
+				.eq('user_id', userId);
+
+			if (audioError) {
+				this.logger.error('Failed to fetch flashcard audio for deletion', { userId, flashcardId }, audioError);
+				throw new DatabaseQueryError('Failed to fetch flashcard audio from database', audioError);
+			}
+
 			// Execute delete query with user_id filter for security
 			const { error, count } = await supabase
 				.from('flashcards')
@@ -276,6 +394,13 @@ export class FlashcardService {
 				);
 			}
 
+			// The flashcard is gone either way, files left behind only take up space
+			try {
+				await removeMediaFiles(supabase, [...media, ...audio].map((row) => row.storage_path));
+			} catch (removeError) {
+				this.logger.warn('Failed to remove flashcard media files', { userId, flashcardId }, removeError as Error);
+			}
+
 			this.logger.info('Successfully deleted flashcard', { userId, flashcardId });
 		} catch (error) {
 			// Re-throw known errors
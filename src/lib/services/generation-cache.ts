@@ -0,0 +1,121 @@
+import type { FlashcardSuggestionDTO } from '@/types';
+import { hashSourceText } from '@/lib/services/generation.service';
+import type { GenerationSettings } from '@/lib/utils/generation-settings';
+
+/**
+ * Suggestions of a successful generation, reused for identical requests
+ * modelUsed is the model that answered (a fallback model when the selected one failed)
+ */
+export type CachedGeneration = {
+	suggestions: FlashcardSuggestionDTO[];
+	modelUsed: string;
+};
+
+/**
+ * Time cached generations are reused, when AI_CACHE_TTL_SECONDS is not set
+ */
+export const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Most generations kept, the oldest ones are dropped first
+ */
+const MAX_CACHE_ENTRIES = 500;
+
+/**
+ * Text as compared by the cache: Unicode NFC with whitespace runs collapsed and trimmed, so a
+ * reformatted paste of the same text is still a hit
+ */
+export function normalizeGenerationText(text: string): string {
+	return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Cache key of a generation request
+ * @param text - Source text
+ * @param model - Selected model
+ * @param promptVersion - Version of the prompt, cached suggestions of older prompts are not reused
+ * @param settings - Settings the prompt was built with
+ */
+export async function buildGenerationCacheKey(
+	text: string,
+	model: string,
+	promptVersion: number,
+	settings: GenerationSettings
+): Promise<string> {
+	const { cardCount, difficulty, cardStyle, language } = settings;
+	const variant = [promptVersion, model, cardCount, difficulty, cardStyle, language].join(':');
+
+	return `${variant}:${await hashSourceText(normalizeGenerationText(text))}`;
+}
+
+/**
+ * In-memory cache of generation results with a fixed time to live
+ * Entries live in the server process, every instance has its own cache.
+ */
+export class GenerationCache {
+	private readonly entries = new Map<string, { value: CachedGeneration; expiresAt: number }>();
+
+	/**
+	 * @param ttlMs - Time entries are reused, nothing is cached when 0
+	 * @param maxEntries - Most entries kept
+	 * @param now - Clock, replaced in tests
+	 */
+	constructor(
+		private readonly ttlMs: number,
+		private readonly maxEntries: number = MAX_CACHE_ENTRIES,
+		private readonly now: () => number = Date.now
+	) {}
+
+	/**
+	 * @returns Cached generation or null when there is none or it expired
+	 */
+	get(key: string): CachedGeneration | null {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return null;
+		}
+
+		if (entry.expiresAt <= this.now()) {
+			this.entries.delete(key);
+			return null;
+		}
+
+		return entry.value;
+	}
+
+	set(key: string, value: CachedGeneration): void {
+		if (this.ttlMs <= 0) {
+			return;
+		}
+
+		// Maps iterate in insertion order and all entries share the TTL, the first one expires first
+		this.entries.delete(key);
+		for (const oldestKey of this.entries.keys()) {
+			if (this.entries.size < this.maxEntries) {
+				break;
+			}
+			this.entries.delete(oldestKey);
+		}
+
+		this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs });
+	}
+}
+
+/**
+ * Time to live of AI_CACHE_TTL_SECONDS in milliseconds, 0 disables the cache
+ * Missing or invalid values fall back to DEFAULT_CACHE_TTL_SECONDS
+ */
+export function parseCacheTtl(value: string | undefined): number {
+	const seconds = Number(value);
+	return (value && Number.isInteger(seconds) && seconds >= 0 ? seconds : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+}
+
+let cache: GenerationCache | null = null;
+
+/**
+ * Cache shared by the generation routes, created on first use
+ */
+export function getGenerationCache(): GenerationCache {
+	cache ??= new GenerationCache(parseCacheTtl(import.meta.env.AI_CACHE_TTL_SECONDS));
+	return cache;
+}
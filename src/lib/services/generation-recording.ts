@@ -0,0 +1,230 @@
+import {
+	GatewayError,
+	NoSuggestionsError,
+	ServiceUnavailableError,
+	TimeoutError,
+	type GenerationServiceEvent,
+} from '@/lib/services/ai-generation.service';
+import {
+	GenerationQuotaExceededError,
+	generationService,
+	type GenerationOutcome,
+} from '@/lib/services/generation.service';
+import {DatabaseQueryError, type SupabaseClient} from '@/lib/services/flashcard.service';
+import {createLogger} from '@/lib/utils/logger';
+import {buildRateLimitHeaders, selectReportedQuota} from '@/lib/utils/rate-limit';
+import type {GenerationQuotaDTO} from '@/types';
+
+const logger = createLogger('GenerationRecording');
+
+/**
+ * Message shown to users who used up a generation quota
+ */
+function describeExceededQuota(quota: GenerationQuotaDTO): string {
+	switch (quota.name) {
+		case 'requests_per_minute':
+			return 'Too many generation requests. Please wait a minute and try again.';
+		case 'generations_per_day':
+			return `You have reached your limit of ${quota.limit} generations per day. It resets at midnight UTC.`;
+		case 'tokens_per_month':
+			return `You have reached your limit of ${quota.limit.toLocaleString('en-US')} AI tokens per month. It resets on the 1st of the month.`;
+	}
+}
+
+/**
+ * Map a generation error to an HTTP status, error payload and extra response headers
+ * Used for JSON responses and for error events of a stream
+ */
+export function toGenerationErrorPayload(error: unknown): {
+	status: number;
+	body: {error: string; message: string; retry_after?: number; quota?: GenerationQuotaDTO};
+	headers?: Record<string, string>;
+} {
+	// Handle used up quotas
+	if (error instanceof GenerationQuotaExceededError) {
+		const quota = selectReportedQuota(error.quotas);
+
+		return {
+			status: 429,
+			body: {error: 'Too many requests', message: describeExceededQuota(quota), quota},
+			headers: buildRateLimitHeaders(quota, {exceeded: true}),
+		};
+	}
+
+	// Handle a failed write of the generation record, the quotas cannot be checked without it.
+	// The cause is logged by createGeneration()
+	if (error instanceof DatabaseQueryError) {
+		return {
+			status: 503,
+			body: {
+				error: 'Service unavailable',
+				message: 'Could not start the generation, please try again in a moment.',
+				retry_after: 60,
+			},
+		};
+	}
+
+	if (error instanceof Error) {
+		// Handle timeout errors
+		if (error.name === 'TimeoutError' || error.message.includes('timeout')) {
+			return {
+				status: 502,
+				body: {error: 'Gateway timeout', message: 'AI service timeout. Please try again.'},
+			};
+		}
+
+		// Handle LLM API errors
+		if (error.name === 'GatewayError') {
+			return {
+				status: 502,
+				body: {error: 'Bad Gateway', message: 'AI generation service returned an error. Please try again.'},
+			};
+		}
+
+		// Handle service unavailable
+		if (error.name === 'ServiceUnavailableError') {
+			return {
+				status: 503,
+				body: {
+					error: 'Service unavailable',
+					message: 'AI generation service temporarily unavailable',
+					retry_after: 60,
+				},
+			};
+		}
+
+		// Handle no suggestions error
+		if (error.name === 'NoSuggestionsError') {
+			return {
+				status: 500,
+				body: {
+					error: 'No suggestions generated',
+					message: 'Could not generate valid flashcards from the provided text. Please try different text.',
+				},
+			};
+		}
+	}
+
+	return {
+		status: 500,
+		body: {
+			error: 'Internal server error',
+			message: 'An unexpected error occurred during flashcard generation',
+		},
+	};
+}
+
+/**
+ * Generation request being recorded in the generations table
+ */
+export type GenerationContext = {
+	supabase: SupabaseClient;
+	userId: string;
+	generationId: string;
+	model: string;
+	sourceTextLength: number;
+	startedAt: number;
+};
+
+/**
+ * Record the outcome of a generation
+ * Failures are only logged, the user should still get the suggestions
+ */
+export async function recordOutcome(
+	generation: GenerationContext,
+	outcome: Omit<GenerationOutcome, 'model' | 'latencyMs'> & {model?: string}
+): Promise<void> {
+	const {supabase, userId, generationId} = generation;
+
+	try {
+		await generationService.completeGeneration(supabase, userId, generationId, {
+			model: generation.model,
+			latencyMs: Date.now() - generation.startedAt,
+			...outcome,
+		});
+	} catch (error) {
+		logger.error('Failed to record generation outcome', {userId, generationId}, error as Error);
+	}
+}
+
+/**
+ * Error code (service error name) and message stored with a failed generation
+ */
+function toErrorOutcome(error: unknown): Pick<GenerationOutcome, 'errorCode' | 'errorMessage'> {
+	return error instanceof Error
+		? {errorCode: error.name, errorMessage: error.message}
+		: {errorCode: 'UnknownError', errorMessage: String(error)};
+}
+
+/**
+ * Record a failed generation: its outcome and, for AI service errors, an error log entry
+ * Failures are only logged, the user should still get the original error
+ */
+export async function recordFailure(generation: GenerationContext, error: unknown, suggestionsCount: number): Promise<void> {
+	const {supabase, userId, generationId} = generation;
+
+	await recordOutcome(generation, {suggestionsCount, tokensUsed: null, ...toErrorOutcome(error)});
+
+	if (
+		!(error instanceof TimeoutError) &&
+		!(error instanceof GatewayError) &&
+		!(error instanceof ServiceUnavailableError) &&
+		!(error instanceof NoSuggestionsError)
+	) {
+		return;
+	}
+
+	try {
+		await generationService.logGenerationError(supabase, userId, {
+			generationId,
+			errorCode: error.name,
+			model: generation.model,
+			sourceTextLength: generation.sourceTextLength,
+			upstreamStatus: 'upstreamStatus' in error ? error.upstreamStatus : null,
+			errorMessage: error.message,
+		});
+	} catch (logError) {
+		logger.error('Failed to log generation error', {userId, generationId}, logError as Error);
+	}
+}
+
+/**
+ * Pass streamed events through and record the outcome when the stream ends, fails or is cancelled
+ */
+export async function* recordStreamOutcome(
+	events: AsyncGenerator<GenerationServiceEvent>,
+	generation: GenerationContext
+): AsyncGenerator<GenerationServiceEvent> {
+	let suggestionsCount = 0;
+	let recorded = false;
+
+	try {
+		for await (const event of events) {
+			if (event.type === 'suggestion') {
+				suggestionsCount++;
+			} else if (event.type === 'done') {
+				recorded = true;
+				await recordOutcome(generation, {
+					model: event.model_used,
+					suggestionsCount,
+					tokensUsed: event.tokens_used,
+				});
+			}
+			yield event;
+		}
+	} catch (error) {
+		recorded = true;
+		await recordFailure(generation, error, suggestionsCount);
+		throw error;
+	} finally {
+		// Stream stopped before the done event: the client disconnected or cancelled
+		if (!recorded) {
+			await recordOutcome(generation, {
+				suggestionsCount,
+				tokensUsed: null,
+				errorCode: 'Cancelled',
+				errorMessage: 'Generation cancelled by the client',
+			});
+		}
+	}
+}
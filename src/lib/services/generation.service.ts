@@ -0,0 +1,301 @@
+import type { GenerationErrorReportDTO, GenerationQuotaDTO, GenerationQuotaName } from '@/types';
+import type { ValidatedGenerationErrorReportQueryParams } from '@/lib/schemas/generation.schema';
+import { DatabaseQueryError, type SupabaseClient } from '@/lib/services/flashcard.service';
+import { createLogger } from '@/lib/utils/logger';
+import type { GenerationLimits } from '@/lib/utils/rate-limit';
+
+/**
+ * Custom error types for generation service
+ */
+export class GenerationNotFoundError extends Error {
+	constructor(message: string = 'Generation not found') {
+		super(message);
+		this.name = 'GenerationNotFoundError';
+	}
+}
+
+export class GenerationQuotaExceededError extends Error {
+	constructor(public readonly quotas: GenerationQuotaDTO[]) {
+		super('Generation quota exceeded');
+		this.name = 'GenerationQuotaExceededError';
+	}
+}
+
+/**
+ * Longest error message stored with a failed generation
+ */
+const MAX_ERROR_MESSAGE_LENGTH = 1000;
+
+/**
+ * Outcome of a finished generation request
+ * errorCode is the service error name (e.g. 'TimeoutError'), or 'Cancelled' when the client disconnected
+ */
+export type GenerationOutcome = {
+	model: string;
+	suggestionsCount: number;
+	tokensUsed: number | null;
+	latencyMs: number;
+	errorCode?: string | null;
+	errorMessage?: string | null;
+};
+
+/**
+ * Failed generation written to the error log
+ * errorCode is the service error class name, upstreamStatus the HTTP status returned by the AI provider
+ */
+export type GenerationErrorLogEntry = {
+	generationId: string | null;
+	errorCode: string;
+	model: string;
+	sourceTextLength: number;
+	upstreamStatus: number | null;
+	errorMessage: string;
+};
+
+/**
+ * SHA-256 hex digest of the source text, lets us detect repeated generations without storing the text
+ */
+export async function hashSourceText(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generation Service
+ * Records AI generation requests, their outcome and how many suggestions were accepted
+ */
+export class GenerationService {
+	private readonly logger = createLogger('GenerationService');
+
+	/**
+	 * Record the start of a generation request, if the user's quotas allow it
+	 * The quotas are checked and the generation inserted in one transaction, see
+	 * create_generation_within_quota()
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who requested the generation
+	 * @param model - Model the request is sent to
+	 * @param sourceText - Text the flashcards are generated from (only hash and length are stored)
+	 * @param limits - Per-user generation limits
+	 * @returns ID of the created generation and the usage of each quota including it
+	 * @throws {GenerationQuotaExceededError} When a quota is used up
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async createGeneration(
+		supabase: SupabaseClient,
+		userId: string,
+		model: string,
+		sourceText: string,
+		limits: GenerationLimits
+	): Promise<{ generationId: string; quotas: GenerationQuotaDTO[] }> {
+		try {
+			const { data, error } = await supabase.rpc('create_generation_within_quota', {
+				p_user_id: userId,
+				p_model: model,
+				p_source_text_hash: await hashSourceText(sourceText),
+				p_source_text_length: sourceText.length,
+				p_requests_per_minute: limits.requestsPerMinute,
+				p_generations_per_day: limits.generationsPerDay,
+				p_tokens_per_month: limits.tokensPerMonth,
+			});
+
+			if (error || !data?.length) {
+				this.logger.error('Failed to create generation', { userId, model }, error ?? undefined);
+				throw new DatabaseQueryError('Failed to create generation', error);
+			}
+
+			const quotas: GenerationQuotaDTO[] = data.map((row) => ({
+				name: row.quota as GenerationQuotaName,
+				limit: row.quota_limit,
+				used: row.used,
+				remaining: Math.max(0, row.quota_limit - row.used),
+				reset_at: row.reset_at,
+			}));
+
+			if (!data[0].generation_id) {
+				this.logger.warn('Generation quota exceeded', {
+					userId,
+					quotas: quotas.filter((quota) => quota.remaining === 0).map((quota) => quota.name),
+				});
+				throw new GenerationQuotaExceededError(quotas);
+			}
+
+			return { generationId: data[0].generation_id, quotas };
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof DatabaseQueryError || error instanceof GenerationQuotaExceededError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while creating generation', { userId }, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while creating generation', error);
+		}
+	}
+
+	/**
+	 * Record the outcome of a generation request
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the generation
+	 * @param generationId - Generation ID returned by createGeneration
+	 * @param outcome - Model used, suggestion count, token usage, latency and error
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async completeGeneration(
+		supabase: SupabaseClient,
+		userId: string,
+		generationId: string,
+		outcome: GenerationOutcome
+	): Promise<void> {
+		const { error } = await supabase
+			.from('generations')
+			.update({
+				model: outcome.model,
+				suggestions_count: outcome.suggestionsCount,
+				tokens_used: outcome.tokensUsed,
+				latency_ms: Math.round(outcome.latencyMs),
+				error_code: outcome.errorCode ?? null,
+				error_message: outcome.errorMessage?.slice(0, MAX_ERROR_MESSAGE_LENGTH) ?? null,
+			})
+			.eq('id', generationId)
+			.eq('user_id', userId);
+
+		if (error) {
+			this.logger.error('Failed to complete generation', { userId, generationId }, error);
+			throw new DatabaseQueryError('Failed to complete generation', error);
+		}
+	}
+
+	/**
+	 * Ensure a generation exists and belongs to the user
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who should own the generation
+	 * @param generationId - Generation ID to verify
+	 * @throws {GenerationNotFoundError} When generation doesn't exist or doesn't belong to user
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async assertGenerationOwnership(supabase: SupabaseClient, userId: string, generationId: string): Promise<void> {
+		const { data, error } = await supabase
+			.from('generations')
+			.select('id')
+			.eq('id', generationId)
+			.eq('user_id', userId)
+			.maybeSingle();
+
+		if (error) {
+			this.logger.error('Failed to verify generation ownership', { userId, generationId }, error);
+			throw new DatabaseQueryError('Failed to verify generation ownership', error);
+		}
+
+		if (!data) {
+			this.logger.warn('Generation not found or not owned by user', { userId, generationId });
+			throw new GenerationNotFoundError(`Generation with id ${generationId} not found or does not belong to user`);
+		}
+	}
+
+	/**
+	 * Add saved suggestions to the acceptance counters of a generation
+	 * Ownership must be verified by the caller (assertGenerationOwnership)
+	 * @param supabase - Supabase client instance
+	 * @param generationId - Generation the suggestions came from
+	 * @param accepted - Number of saved suggestions
+	 * @param edited - Number of saved suggestions the user changed before saving
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async recordAcceptance(
+		supabase: SupabaseClient,
+		generationId: string,
+		accepted: number,
+		edited: number
+	): Promise<void> {
+		const { error } = await supabase.rpc('record_generation_acceptance', {
+			p_generation_id: generationId,
+			p_accepted: accepted,
+			p_edited: edited,
+		});
+
+		if (error) {
+			this.logger.error('Failed to record generation acceptance', { generationId, accepted, edited }, error);
+			throw new DatabaseQueryError('Failed to record generation acceptance', error);
+		}
+	}
+
+	/**
+	 * Persist a failed generation to the error log
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who requested the generation
+	 * @param entry - Error class, model, text length, upstream status and message
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async logGenerationError(supabase: SupabaseClient, userId: string, entry: GenerationErrorLogEntry): Promise<void> {
+		const { error } = await supabase.from('generation_error_logs').insert({
+			user_id: userId,
+			generation_id: entry.generationId,
+			error_code: entry.errorCode,
+			model: entry.model,
+			source_text_length: entry.sourceTextLength,
+			upstream_status: entry.upstreamStatus,
+			error_message: entry.errorMessage.slice(0, MAX_ERROR_MESSAGE_LENGTH),
+		});
+
+		if (error) {
+			this.logger.error('Failed to log generation error', { userId, errorCode: entry.errorCode }, error);
+			throw new DatabaseQueryError('Failed to log generation error', error);
+		}
+	}
+
+	/**
+	 * Aggregate logged generation errors by model and error type
+	 * @param supabase - Supabase client instance
+	 * @param params - Validated time window (from inclusive, to exclusive)
+	 * @returns Error counts per model and error type, most frequent first
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async getErrorReport(
+		supabase: SupabaseClient,
+		params: ValidatedGenerationErrorReportQueryParams
+	): Promise<GenerationErrorReportDTO> {
+		this.logger.info('Fetching generation error report', params);
+
+		try {
+			const { data, error } = await supabase.rpc('get_generation_error_report', {
+				p_from: params.from,
+				p_to: params.to,
+			});
+
+			if (error) {
+				this.logger.error('Failed to fetch generation error report', params, error);
+				throw new DatabaseQueryError('Failed to fetch generation error report from database', error);
+			}
+
+			const items = data.map((row) => ({
+				model: row.model,
+				error_code: row.error_code,
+				error_count: Number(row.error_count),
+				last_occurred_at: row.last_occurred_at,
+				last_upstream_status: row.last_upstream_status ?? null,
+				last_error_message: row.last_error_message,
+			}));
+
+			return {
+				from: params.from,
+				to: params.to,
+				total_errors: items.reduce((total, item) => total + item.error_count, 0),
+				data: items,
+			};
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof DatabaseQueryError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while fetching generation error report', params, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while fetching generation error report', error);
+		}
+	}
+}
+
+/**
+ * Singleton instance of GenerationService
+ */
+export const generationService = new GenerationService();
@@ -0,0 +1,140 @@
+import type { SupabaseClient } from '@/lib/services/flashcard.service';
+import { AUDIO_EXTENSIONS, IMAGE_EXTENSIONS, type AudioMimeType, type ImageMimeType } from '@/lib/utils/media';
+import type { FlashcardAudioDTO, FlashcardAudioEntity, FlashcardMediaDTO, FlashcardMediaEntity } from '@/types';
+
+/**
+ * Private Storage bucket of flashcard attachments (images and audio)
+ */
+export const FLASHCARD_MEDIA_BUCKET = 'flashcard-media';
+
+/**
+ * Time signed URLs stay valid, long enough for a study session started from one list of due cards
+ */
+export const MEDIA_URL_EXPIRES_IN_SECONDS = 6 * 60 * 60;
+
+/**
+ * Media columns embedded in flashcard queries
+ */
+export type FlashcardMediaRow = Pick<
+	FlashcardMediaEntity,
+	'id' | 'side' | 'storage_path' | 'mime_type' | 'size_bytes' | 'created_at'
+>;
+
+/**
+ * Audio columns embedded in flashcard queries
+ */
+export type FlashcardAudioRow = Pick<
+	FlashcardAudioEntity,
+	'id' | 'side' | 'source' | 'storage_path' | 'mime_type' | 'size_bytes' | 'created_at'
+>;
+
+export class MediaStorageError extends Error {
+	constructor(message: string, public readonly originalError?: unknown) {
+		super(message);
+		this.name = 'MediaStorageError';
+	}
+}
+
+/**
+ * Object name of an attachment, the first folder is the owner (required by the bucket policies)
+ */
+export function buildMediaPath(userId: string, flashcardId: string, mediaId: string, mimeType: ImageMimeType): string {
+	return `${userId}/${flashcardId}/${mediaId}.${IMAGE_EXTENSIONS[mimeType]}`;
+}
+
+/**
+ * Object name of an audio clip, kept in an audio folder next to the images of the flashcard
+ */
+export function buildAudioPath(userId: string, flashcardId: string, audioId: string, mimeType: AudioMimeType): string {
+	return `${userId}/${flashcardId}/audio/${audioId}.${AUDIO_EXTENSIONS[mimeType]}`;
+}
+
+/**
+ * Rows without their storage path and with a signed URL, sorted oldest first
+ * Groups are signed in one Storage request and returned in the same shape
+ * @throws {MediaStorageError} When the URLs cannot be signed
+ */
+async function signRows<T extends { storage_path: string; created_at: string }>(
+	supabase: SupabaseClient,
+	groups: T[][]
+): Promise<(Omit<T, 'storage_path'> & { url: string })[][]> {
+	const paths = groups.flat().map((row) => row.storage_path);
+	if (paths.length === 0) {
+		return groups.map(() => []);
+	}
+
+	const { data, error } = await supabase.storage
+		.from(FLASHCARD_MEDIA_BUCKET)
+		.createSignedUrls(paths, MEDIA_URL_EXPIRES_IN_SECONDS);
+
+	if (error) {
+		throw new MediaStorageError('Failed to sign flashcard media URLs', error);
+	}
+
+	const urls = new Map(data.map((item) => [item.path, item.error ? '' : item.signedUrl]));
+
+	return groups.map((rows) =>
+		[...rows]
+			.sort((a, b) => a.created_at.localeCompare(b.created_at))
+			.map(({ storage_path, ...row }) => ({
+				...row,
+				// A missing file is kept with an empty URL rather than failing the whole list
+				url: urls.get(storage_path) ?? '',
+			}))
+	);
+}
+
+/**
+ * Media DTOs with signed URLs, sorted oldest first
+ * Groups (e.g. the media of every flashcard of a page) are signed in one Storage request and
+ * returned in the same shape
+ * @throws {MediaStorageError} When the URLs cannot be signed
+ */
+export async function signFlashcardMedia(
+	supabase: SupabaseClient,
+	groups: FlashcardMediaRow[][]
+): Promise<FlashcardMediaDTO[][]> {
+	return signRows(supabase, groups);
+}
+
+/**
+ * Audio DTOs with signed URLs, grouped like signFlashcardMedia
+ * @throws {MediaStorageError} When the URLs cannot be signed
+ */
+export async function signFlashcardAudio(
+	supabase: SupabaseClient,
+	groups: FlashcardAudioRow[][]
+): Promise<FlashcardAudioDTO[][]> {
+	return signRows(supabase, groups);
+}
+
+/**
+ * Uploaded audio of each group with signed URLs, as returned in flashcard DTOs
+ * Synthesized clips are left out: they may be outdated and are requested through the speech endpoint
+ * @throws {MediaStorageError} When the URLs cannot be signed
+ */
+export async function signUploadedAudio(
+	supabase: SupabaseClient,
+	groups: FlashcardAudioRow[][]
+): Promise<FlashcardAudioDTO[][]> {
+	return signFlashcardAudio(
+		supabase,
+		groups.map((rows) => rows.filter((row) => row.source === 'upload'))
+	);
+}
+
+/**
+ * Delete attachment files from the bucket
+ * @throws {MediaStorageError} When Storage rejects the request
+ */
+export async function removeMediaFiles(supabase: SupabaseClient, paths: string[]): Promise<void> {
+	if (paths.length === 0) {
+		return;
+	}
+
+	const { error } = await supabase.storage.from(FLASHCARD_MEDIA_BUCKET).remove(paths);
+
+	if (error) {
+		throw new MediaStorageError('Failed to remove flashcard media files', error);
+	}
+}
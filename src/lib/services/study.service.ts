@@ -0,0 +1,262 @@
+import type { DueFlashcardDTO, DueFlashcardsResponseDTO, ReviewFlashcardResponseDTO, StudyProgressDTO } from '@/types';
+import type { ValidatedDueFlashcardsQueryParams, ValidatedReviewFlashcardCommand } from '@/lib/schemas/study.schema';
+import { DatabaseQueryError, FlashcardNotFoundError, type SupabaseClient } from '@/lib/services/flashcard.service';
+import { signFlashcardMedia, signUploadedAudio } from '@/lib/services/media-storage';
+import { getClozeIndexes } from '@/lib/utils/cloze';
+import { createLogger } from '@/lib/utils/logger';
+
+/**
+ * Initial SM-2 state for a flashcard that has never been reviewed
+ * Mirrors the column defaults of the study_progress table
+ */
+export const INITIAL_STUDY_PROGRESS: Omit<StudyProgressDTO, 'next_review_date'> = {
+	ease_factor: 2.5,
+	interval: 0,
+	repetitions: 0,
+};
+
+const MIN_EASE_FACTOR = 1.3;
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Apply the SuperMemo-2 algorithm to the current study progress
+ * @param progress - Current SM-2 state of the flashcard
+ * @param quality - Review grade (0-5), grades below 3 reset the repetition streak
+ * @param now - Reference point for scheduling the next review
+ * @returns Updated SM-2 state with the next review date
+ */
+export function calculateNextReview(
+	progress: Omit<StudyProgressDTO, 'next_review_date'>,
+	quality: number,
+	now: Date = new Date()
+): StudyProgressDTO {
+	let { repetitions, interval } = progress;
+
+	if (quality >= 3) {
+		if (repetitions === 0) {
+			interval = 1;
+		} else if (repetitions === 1) {
+			interval = 6;
+		} else {
+			interval = Math.round(interval * progress.ease_factor);
+		}
+		repetitions += 1;
+	} else {
+		repetitions = 0;
+		interval = 1;
+	}
+
+	const easeFactor = Math.max(
+		MIN_EASE_FACTOR,
+		progress.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+	);
+
+	return {
+		ease_factor: Math.round(easeFactor * 100) / 100,
+		interval,
+		repetitions,
+		next_review_date: new Date(now.getTime() + interval * DAY_IN_MS).toISOString(),
+	};
+}
+
+/**
+ * Study Service
+ * Handles spaced repetition (SM-2) scheduling backed by the study_progress table
+ */
+export class StudyService {
+	private readonly logger = createLogger('StudyService');
+
+	/**
+	 * Get flashcards due for review, oldest due date first
+	 * Every deletion of a cloze note is a separate card with its own progress
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the flashcards
+	 * @param queryParams - Validated query parameters (limit)
+	 * @returns Due flashcards with their progress and the total number of due cards
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async getDueFlashcards(
+		supabase: SupabaseClient,
+		userId: string,
+		queryParams: ValidatedDueFlashcardsQueryParams
+	): Promise<DueFlashcardsResponseDTO> {
+		const { limit } = queryParams;
+		const now = new Date().toISOString();
+
+		this.logger.info('Fetching due flashcards', { userId, limit });
+
+		try {
+			const { data, error } = await supabase
+				.from('study_progress')
+				.select(
+					'card_index, ease_factor, interval, repetitions, next_review_date, flashcards!inner(id, front, back, card_type, user_id, flashcard_media(id, side, storage_path, mime_type, size_bytes, created_at), flashcard_audio(id, side, source, storage_path, mime_type, size_bytes, created_at))'
+				)
+				.eq('flashcards.user_id', userId)
+				.lte('next_review_date', now)
+				.order('next_review_date', { ascending: true })
+				.limit(limit);
+
+			if (error) {
+				this.logger.error('Failed to fetch due flashcards', { userId, limit }, error);
+				throw new DatabaseQueryError('Failed to fetch due flashcards from database', error);
+			}
+
+			const { count, error: countError } = await supabase
+				.from('study_progress')
+				.select('flashcard_id, flashcards!inner(user_id)', { count: 'exact', head: true })
+				.eq('flashcards.user_id', userId)
+				.lte('next_review_date', now);
+
+			if (countError) {
+				this.logger.error('Failed to count due flashcards', { userId }, countError);
+				throw new DatabaseQueryError('Failed to count due flashcards', countError);
+			}
+
+			const media = await signFlashcardMedia(supabase, data.map((row) => row.flashcards.flashcard_media));
+			const audio = await signUploadedAudio(supabase, data.map((row) => row.flashcards.flashcard_audio));
+
+			// Transform joined rows to DTOs
+			const flashcards: DueFlashcardDTO[] = data.map((row, index) => ({
+				id: row.flashcards.id,
+				front: row.flashcards.front,
+				back: row.flashcards.back,
+				card_type: row.flashcards.card_type,
+				media: media[index],
+				audio: audio[index],
+				card_index: row.card_index,
+				progress: {
+					ease_factor: row.ease_factor,
+					interval: row.interval,
+					repetitions: row.repetitions,
+					next_review_date: row.next_review_date,
+				},
+			}));
+
+			this.logger.info('Successfully fetched due flashcards', {
+				userId,
+				count: flashcards.length,
+				totalDue: count ?? 0,
+			});
+
+			return {
+				flashcards,
+				total_due: count ?? 0,
+			};
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof DatabaseQueryError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error('Unexpected error while fetching due flashcards', { userId }, error as Error);
+			throw new DatabaseQueryError('Unexpected error occurred while fetching due flashcards', error);
+		}
+	}
+
+	/**
+	 * Record a review of a flashcard and reschedule it using SM-2
+	 * @param supabase - Supabase client instance
+	 * @param userId - User ID who owns the flashcard
+	 * @param command - Validated review command (flashcard_id, card_index, quality)
+	 * @returns Updated study progress row
+	 * @throws {FlashcardNotFoundError} When flashcard or its card doesn't exist or doesn't belong to user
+	 * @throws {DatabaseQueryError} When database query fails
+	 */
+	async reviewFlashcard(
+		supabase: SupabaseClient,
+		userId: string,
+		command: ValidatedReviewFlashcardCommand
+	): Promise<ReviewFlashcardResponseDTO> {
+		const { flashcard_id: flashcardId, card_index: cardIndex, quality } = command;
+
+		this.logger.info('Reviewing flashcard', { userId, flashcardId, cardIndex, quality });
+
+		try {
+			// Verify ownership before touching the progress row
+			const { data: flashcard, error: flashcardError } = await supabase
+				.from('flashcards')
+				.select('id, front, card_type')
+				.eq('id', flashcardId)
+				.eq('user_id', userId)
+				.maybeSingle();
+
+			if (flashcardError) {
+				this.logger.error('Failed to fetch flashcard for review', { userId, flashcardId }, flashcardError);
+				throw new DatabaseQueryError('Failed to fetch flashcard from database', flashcardError);
+			}
+
+			if (!flashcard) {
+				this.logger.warn('Flashcard not found for review', { userId, flashcardId });
+				throw new FlashcardNotFoundError(
+					`Flashcard with id ${flashcardId} not found or does not belong to user`
+				);
+			}
+
+			// Cloze notes have a card per deletion number, basic cards only card 0
+			const cardIndexes = flashcard.card_type === 'cloze' ? getClozeIndexes(flashcard.front) : [0];
+			if (!cardIndexes.includes(cardIndex)) {
+				this.logger.warn('Card not found for review', { userId, flashcardId, cardIndex });
+				throw new FlashcardNotFoundError(`Card ${cardIndex} of flashcard with id ${flashcardId} not found`);
+			}
+
+			// Load current progress (cards that were never scheduled start from the initial state)
+			const { data: progress, error: progressError } = await supabase
+				.from('study_progress')
+				.select('ease_factor, interval, repetitions')
+				.eq('flashcard_id', flashcardId)
+				.eq('card_index', cardIndex)
+				.maybeSingle();
+
+			if (progressError) {
+				this.logger.error('Failed to fetch study progress', { userId, flashcardId }, progressError);
+				throw new DatabaseQueryError('Failed to fetch study progress from database', progressError);
+			}
+
+			const nextProgress = calculateNextReview(progress ?? INITIAL_STUDY_PROGRESS, quality);
+
+			const { data, error } = await supabase
+				.from('study_progress')
+				.upsert(
+					{ flashcard_id: flashcardId, card_index: cardIndex, ...nextProgress },
+					{ onConflict: 'flashcard_id,card_index' }
+				)
+				.select('flashcard_id, card_index, ease_factor, interval, repetitions, next_review_date')
+				.single();
+
+			if (error) {
+				this.logger.error('Failed to save study progress', { userId, flashcardId }, error);
+				throw new DatabaseQueryError('Failed to save study progress to database', error);
+			}
+
+			this.logger.info('Successfully reviewed flashcard', {
+				userId,
+				flashcardId,
+				cardIndex,
+				quality,
+				interval: data.interval,
+				nextReviewDate: data.next_review_date,
+			});
+
+			return data;
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof FlashcardNotFoundError || error instanceof DatabaseQueryError) {
+				throw error;
+			}
+
+			// Wrap unexpected errors
+			this.logger.error(
+				'Unexpected error while reviewing flashcard',
+				{ userId, flashcardId },
+				error as Error
+			);
+			throw new DatabaseQueryError('Unexpected error occurred while reviewing flashcard', error);
+		}
+	}
+}
+
+/**
+ * Singleton instance of StudyService
+ */
+export const studyService = new StudyService();
@@ -0,0 +1,299 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+import type { ExtractTextResponseDTO, SourceFileFormat } from '@/types';
+import { createLogger } from '@/lib/utils/logger';
+import { MAX_GENERATION_TEXT_LENGTH } from '@/lib/utils/text-chunks';
+
+/**
+ * Custom error types for text extraction service
+ */
+export class TextExtractionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TextExtractionError';
+	}
+}
+
+/**
+ * Largest file accepted for text extraction
+ */
+export const MAX_SOURCE_FILE_SIZE = 10 * 1024 * 1024;
+
+const EXTENSION_FORMATS: Record<string, SourceFileFormat> = {
+	pdf: 'pdf',
+	docx: 'docx',
+	md: 'markdown',
+	markdown: 'markdown',
+	html: 'html',
+	htm: 'html',
+};
+
+const MIME_TYPE_FORMATS: Record<string, SourceFileFormat> = {
+	'application/pdf': 'pdf',
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+	'text/markdown': 'markdown',
+	'text/x-markdown': 'markdown',
+	'text/html': 'html',
+};
+
+/**
+ * Elements that never contain the main content of a page
+ */
+const HTML_BOILERPLATE_ELEMENTS = [
+	'head',
+	'script',
+	'style',
+	'noscript',
+	'template',
+	'svg',
+	'iframe',
+	'nav',
+	'header',
+	'footer',
+	'aside',
+	'form',
+	'button',
+];
+
+/**
+ * Elements rendered as separate paragraphs
+ */
+const HTML_BLOCK_ELEMENTS =
+	'p|div|section|article|main|h[1-6]|ul|ol|table|tr|blockquote|pre|figure|figcaption|dl|dt|dd|hr|address|details|summary';
+
+const HTML_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	laquo: '«',
+	raquo: '»',
+	copy: '©',
+	reg: '®',
+};
+
+/**
+ * Line that only contains a page number ("12", "Page 3", "3 / 10", "Page 3 of 10")
+ */
+const PAGE_NUMBER_PATTERN = /^(page\s+)?\d+(\s*(\/|of)\s*\d+)?$/i;
+
+/**
+ * Detect the source format from the file extension, falling back to the MIME type
+ */
+export function detectSourceFormat(fileName: string, mimeType: string): SourceFileFormat | null {
+	const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+	return EXTENSION_FORMATS[extension] ?? MIME_TYPE_FORMATS[mimeType.split(';')[0].trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Decode named and numeric HTML character references
+ */
+export function decodeHtmlEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+		if (entity[0] === '#') {
+			const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+			return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+		}
+
+		return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+	});
+}
+
+/**
+ * Collapse whitespace: trimmed lines, single spaces, at most one empty line between paragraphs
+ */
+export function normalizeExtractedText(text: string): string {
+	return text
+		.replace(/\r\n?/g, '\n')
+		.replace(/[\t\f\v \u00a0]+/g, ' ')
+		.split('\n')
+		.map((line) => line.replace(/ {2,}/g, ' ').trim())
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+/**
+ * Extract the readable text of an HTML document
+ * Scripts, styles, navigation, headers, footers, asides and forms are dropped, and only the first
+ * <main> or <article> is used when the page has one.
+ */
+export function htmlToText(html: string): string {
+	let content = html.replace(/<!--[\s\S]*?-->/g, '');
+
+	for (const element of HTML_BOILERPLATE_ELEMENTS) {
+		content = content.replace(new RegExp(`<${element}\\b[^>]*>[\\s\\S]*?</${element}\\s*>`, 'gi'), ' ');
+	}
+
+	const main = content.match(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1\s*>/i);
+	if (main) {
+		content = main[2];
+	}
+
+	// Source line breaks are plain spaces, breaks come from the markup
+	const text = content
+		.replace(/\s+/g, ' ')
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<li\b[^>]*>/gi, '\n- ')
+		.replace(/<(td|th)\b[^>]*>/gi, ' ')
+		.replace(new RegExp(`</?(${HTML_BLOCK_ELEMENTS})\\b[^>]*>`, 'gi'), '\n\n')
+		.replace(/<[^>]+>/g, '');
+
+	return normalizeExtractedText(decodeHtmlEntities(text));
+}
+
+/**
+ * Extract the readable text of a Markdown document
+ * Front matter, HTML, images, link targets and formatting markers are removed, code is kept
+ */
+export function markdownToText(markdown: string): string {
+	const text = markdown
+		.replace(/\r\n?/g, '\n')
+		.replace(/^---\n[\s\S]*?\n---\n/, '')
+		.replace(/<!--[\s\S]*?-->/g, '')
+		.replace(/^```[^\n]*\n([\s\S]*?)^```[ \t]*$/gm, '$1')
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+		.replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+		.replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+		.replace(/^[ \t]*\[[^\]]+\]:[ \t]+\S+.*$/gm, '')
+		.replace(/<[^>]+>/g, '')
+		.replace(/^#{1,6}\s+(.*?)\s*#*$/gm, '\n$1\n')
+		.replace(/^[ \t]*>[ \t]?/gm, '')
+		.replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+		.replace(/(\*\*|__)(.+?)\1/g, '$2')
+		.replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+		.replace(/~~(.+?)~~/g, '$1')
+		.replace(/`([^`\n]+)`/g, '$1');
+
+	return normalizeExtractedText(decodeHtmlEntities(text));
+}
+
+/**
+ * Join the text of PDF pages, dropping page numbers and running headers and footers
+ * A line counts as running header or footer when it repeats on at least half of 3 or more pages
+ */
+export function cleanPdfPages(pages: string[]): string {
+	const pageLines = pages.map((page) =>
+		normalizeExtractedText(page)
+			.split('\n')
+			.filter((line) => !PAGE_NUMBER_PATTERN.test(line))
+	);
+
+	const repeated = new Set<string>();
+	if (pages.length >= 3) {
+		const counts = new Map<string, number>();
+		for (const lines of pageLines) {
+			for (const line of new Set(lines)) {
+				if (line) {
+					counts.set(line, (counts.get(line) ?? 0) + 1);
+				}
+			}
+		}
+		for (const [line, count] of counts) {
+			if (count >= pages.length / 2) {
+				repeated.add(line);
+			}
+		}
+	}
+
+	const text = pageLines
+		.map((lines) => lines.filter((line) => !repeated.has(line)).join('\n'))
+		.join('\n\n')
+		// Join words hyphenated across line breaks
+		.replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2');
+
+	return normalizeExtractedText(text);
+}
+
+/**
+ * Shorten text to maxLength characters, cutting at the last paragraph (or line) boundary
+ */
+export function truncateText(text: string, maxLength: number): { text: string; truncated: boolean } {
+	if (text.length <= maxLength) {
+		return { text, truncated: false };
+	}
+
+	const slice = text.slice(0, maxLength);
+	const boundary = Math.max(slice.lastIndexOf('\n\n'), slice.lastIndexOf('\n'));
+
+	return { text: (boundary > maxLength / 2 ? slice.slice(0, boundary) : slice).trim(), truncated: true };
+}
+
+/**
+ * Text Extraction Service
+ * Extracts plain text from uploaded documents locally, without external services
+ */
+export class TextExtractionService {
+	private readonly logger = createLogger('TextExtractionService');
+
+	/**
+	 * Extract the plain text of a document for AI generation
+	 * @param file - Uploaded file (max 10 MB)
+	 * @param format - Source format of the file
+	 * @returns Extracted text, shortened to the maximum generation text length
+	 * @throws {TextExtractionError} When the file cannot be read or contains no text
+	 */
+	async extractText(file: File, format: SourceFileFormat): Promise<ExtractTextResponseDTO> {
+		this.logger.info('Extracting text', { fileName: file.name, format, size: file.size });
+
+		let text: string;
+		try {
+			text = await this.extractByFormat(file, format);
+		} catch (error) {
+			this.logger.error('Failed to extract text', { fileName: file.name, format }, error as Error);
+			throw new TextExtractionError(`Could not read the ${format.toUpperCase()} file. It may be damaged or protected.`);
+		}
+
+		if (!text) {
+			throw new TextExtractionError(
+				format === 'pdf'
+					? 'No text found in the PDF file. Scanned documents without a text layer are not supported.'
+					: 'No text found in the file'
+			);
+		}
+
+		const result = truncateText(text, MAX_GENERATION_TEXT_LENGTH);
+
+		this.logger.info('Successfully extracted text', {
+			fileName: file.name,
+			format,
+			characters: result.text.length,
+			truncated: result.truncated,
+		});
+
+		return {
+			text: result.text,
+			format,
+			file_name: file.name,
+			truncated: result.truncated,
+		};
+	}
+
+	private async extractByFormat(file: File, format: SourceFileFormat): Promise<string> {
+		switch (format) {
+			case 'pdf': {
+				const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+				const { text } = await extractText(pdf, { mergePages: false });
+				return cleanPdfPages(text);
+			}
+			case 'docx': {
+				const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+				return normalizeExtractedText(value);
+			}
+			case 'markdown':
+				return markdownToText(await file.text());
+			case 'html':
+				return htmlToText(await file.text());
+		}
+	}
+}
+
+/**
+ * Singleton instance of TextExtractionService
+ */
+export const textExtractionService = new TextExtractionService();
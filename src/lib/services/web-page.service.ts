@@ -0,0 +1,405 @@
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net, { type LookupFunction } from 'node:net';
+import type { Readable } from 'node:stream';
+import zlib from 'node:zlib';
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+import { htmlToText, normalizeExtractedText, truncateText } from '@/lib/services/text-extraction.service';
+import { createLogger } from '@/lib/utils/logger';
+import { MAX_GENERATION_TEXT_LENGTH } from '@/lib/utils/text-chunks';
+
+/**
+ * Custom error types for web page service
+ */
+export class UnsafeUrlError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UnsafeUrlError';
+	}
+}
+
+export class WebPageFetchError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'WebPageFetchError';
+	}
+}
+
+/**
+ * Largest page body (after decompression) that is downloaded
+ */
+export const MAX_WEB_PAGE_SIZE = 5 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+const USER_AGENT = 'Mozilla/5.0 (compatible; 10xCards/1.0; +https://10xcards.app)';
+
+/**
+ * Content types text can be extracted from
+ */
+const SUPPORTED_CONTENT_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain'];
+
+/**
+ * Loopback, private, link-local, shared, documentation, multicast and reserved ranges
+ * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges by BlockList
+ */
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+	['0.0.0.0', 8],
+	['10.0.0.0', 8],
+	['100.64.0.0', 10],
+	['127.0.0.0', 8],
+	['169.254.0.0', 16],
+	['172.16.0.0', 12],
+	['192.0.0.0', 24],
+	['192.0.2.0', 24],
+	['192.88.99.0', 24],
+	['192.168.0.0', 16],
+	['198.18.0.0', 15],
+	['198.51.100.0', 24],
+	['203.0.113.0', 24],
+	['224.0.0.0', 4],
+	['240.0.0.0', 4],
+] as const) {
+	BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+	['::', 128],
+	['::1', 128],
+	['::', 96],
+	['64:ff9b::', 96],
+	['64:ff9b:1::', 48],
+	['100::', 64],
+	['2001::', 32],
+	['2001:db8::', 32],
+	['2002::', 16],
+	['fc00::', 7],
+	['fe80::', 10],
+	['fec0::', 10],
+	['ff00::', 8],
+] as const) {
+	BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * Page downloaded by WebPageService.fetchPage
+ */
+export type WebPage = {
+	url: string;
+	contentType: string;
+	body: string;
+};
+
+/**
+ * Main content of a web page
+ * url is the final URL after redirects, truncated is true when the text was shortened to the maximum
+ * generation text length
+ */
+export type WebPageArticle = {
+	url: string;
+	title: string | null;
+	text: string;
+	truncated: boolean;
+};
+
+export type WebPageServiceOptions = {
+	/** Allow loopback and private network addresses (local test servers only) */
+	allowPrivateAddresses?: boolean;
+	maxSize?: number;
+	timeoutMs?: number;
+};
+
+/**
+ * Check whether an IP address belongs to a loopback, private or otherwise non-public range
+ */
+export function isPrivateAddress(address: string): boolean {
+	const family = net.isIP(address);
+	if (family === 0) {
+		return true;
+	}
+
+	// Zone IDs (fe80::1%eth0) are only used with link-local addresses
+	return BLOCKED_ADDRESSES.check(address.split('%')[0], family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to private addresses
+ * Runs when the connection is opened, so a second DNS answer (DNS rebinding) is checked as well
+ */
+const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+	dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+		if (error) {
+			callback(error, '', 0);
+			return;
+		}
+
+		if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+			callback(new UnsafeUrlError(`${hostname} resolves to a private network address`), '', 0);
+			return;
+		}
+
+		if (options.all) {
+			(callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+		} else {
+			callback(null, addresses[0].address, addresses[0].family);
+		}
+	});
+};
+
+/**
+ * Extract the title and readable main content of an HTML page
+ * Uses Mozilla Readability and falls back to the whole page without boilerplate when no article is found
+ */
+export function extractMainContent(html: string): { title: string | null; text: string } {
+	const { document } = parseHTML(html);
+	const pageTitle = document.title?.trim() || null;
+	const article = new Readability(document as unknown as Document).parse();
+
+	const text = article?.content ? htmlToText(article.content) : '';
+
+	return {
+		title: article?.title?.trim() || pageTitle,
+		text: text || htmlToText(html),
+	};
+}
+
+/**
+ * Charset of the response from the Content-Type header or the <meta> tags of an HTML page
+ */
+function detectCharset(contentTypeHeader: string, body: Buffer): string {
+	const headerCharset = contentTypeHeader.match(/charset=["']?([\w-]+)/i);
+	if (headerCharset) {
+		return headerCharset[1];
+	}
+
+	const metaCharset = body
+		.subarray(0, 1024)
+		.toString('latin1')
+		.match(/<meta[^>]+charset=["']?([\w-]+)/i);
+
+	return metaCharset?.[1] ?? 'utf-8';
+}
+
+function decodeBody(body: Buffer, charset: string): string {
+	try {
+		return new TextDecoder(charset).decode(body);
+	} catch {
+		// Unknown charset label
+		return new TextDecoder('utf-8').decode(body);
+	}
+}
+
+/**
+ * Web Page Service
+ * Downloads web pages with SSRF protection and extracts their main content locally
+ */
+export class WebPageService {
+	private readonly logger = createLogger('WebPageService');
+	private readonly allowPrivateAddresses: boolean;
+	private readonly maxSize: number;
+	private readonly timeoutMs: number;
+
+	constructor(options: WebPageServiceOptions = {}) {
+		this.allowPrivateAddresses = options.allowPrivateAddresses ?? false;
+		this.maxSize = options.maxSize ?? MAX_WEB_PAGE_SIZE;
+		this.timeoutMs = options.timeoutMs ?? FETCH_TIMEOUT_MS;
+	}
+
+	/**
+	 * Download a page and extract its main content for AI generation
+	 * @param url - Public http(s) URL of the page
+	 * @param signal - Aborts the download, e.g. when the client disconnects
+	 * @returns Title and text of the page, shortened to the maximum generation text length
+	 * @throws {UnsafeUrlError} When the URL is not http(s) or points to a private network
+	 * @throws {WebPageFetchError} When the page cannot be downloaded or contains no text
+	 */
+	async extractArticle(url: string, signal?: AbortSignal): Promise<WebPageArticle> {
+		const page = await this.fetchPage(url, signal);
+
+		const { title, text } =
+			page.contentType === 'text/plain'
+				? { title: null, text: normalizeExtractedText(page.body) }
+				: extractMainContent(page.body);
+
+		if (!text) {
+			throw new WebPageFetchError('No readable text found on the page');
+		}
+
+		const result = truncateText(text, MAX_GENERATION_TEXT_LENGTH);
+
+		this.logger.info('Successfully extracted web page', {
+			url: page.url,
+			characters: result.text.length,
+			truncated: result.truncated,
+		});
+
+		return { url: page.url, title, text: result.text, truncated: result.truncated };
+	}
+
+	/**
+	 * Download an HTML or plain text page, following up to 5 redirects
+	 * Every redirect target is checked again, and connections to private addresses are refused
+	 * @param url - Public http(s) URL of the page
+	 * @param signal - Aborts the download
+	 * @returns Final URL, content type and decoded body
+	 * @throws {UnsafeUrlError} When the URL is not http(s) or points to a private network
+	 * @throws {WebPageFetchError} When the page cannot be downloaded, is too large or not HTML or text
+	 */
+	async fetchPage(url: string, signal?: AbortSignal): Promise<WebPage> {
+		const timeoutSignal = AbortSignal.timeout(this.timeoutMs);
+		const requestSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+		let currentUrl = this.parseUrl(url);
+
+		this.logger.info('Fetching web page', { url: currentUrl.toString() });
+
+		try {
+			for (let redirects = 0; ; redirects++) {
+				const response = await this.request(currentUrl, requestSignal);
+				const status = response.statusCode ?? 0;
+
+				if (status >= 300 && status < 400 && response.headers.location) {
+					response.resume();
+
+					if (redirects >= MAX_REDIRECTS) {
+						throw new WebPageFetchError('The page redirects too many times');
+					}
+
+					currentUrl = this.parseUrl(new URL(response.headers.location, currentUrl).toString());
+					continue;
+				}
+
+				if (status < 200 || status >= 300) {
+					response.resume();
+					throw new WebPageFetchError(`The page responded with HTTP status ${status}`);
+				}
+
+				const contentTypeHeader = response.headers['content-type'] ?? '';
+				const contentType = contentTypeHeader.split(';')[0].trim().toLowerCase();
+
+				if (!SUPPORTED_CONTENT_TYPES.includes(contentType)) {
+					response.resume();
+					throw new WebPageFetchError('Only HTML and plain text pages are supported');
+				}
+
+				if (Number(response.headers['content-length'] ?? 0) > this.maxSize) {
+					response.resume();
+					throw new WebPageFetchError('The page is too large');
+				}
+
+				const body = await this.readBody(response);
+
+				return {
+					url: currentUrl.toString(),
+					contentType,
+					body: decodeBody(body, detectCharset(contentTypeHeader, body)),
+				};
+			}
+		} catch (error) {
+			// Re-throw known errors
+			if (error instanceof UnsafeUrlError || error instanceof WebPageFetchError) {
+				this.logger.warn('Failed to fetch web page', { url: currentUrl.toString(), reason: error.message });
+				throw error;
+			}
+
+			if (timeoutSignal.aborted) {
+				throw new WebPageFetchError(`The page did not respond within ${this.timeoutMs / 1000} seconds`);
+			}
+
+			this.logger.warn('Failed to connect to web page', { url: currentUrl.toString(), reason: (error as Error).message });
+			throw new WebPageFetchError(`Could not download the page from ${currentUrl.hostname}`);
+		}
+	}
+
+	/**
+	 * Parse the URL and reject anything but public http(s) URLs without credentials
+	 * Hostnames are checked when connecting (publicAddressLookup), IP literals are checked here
+	 */
+	private parseUrl(url: string): URL {
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			throw new UnsafeUrlError('Invalid URL');
+		}
+
+		if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+			throw new UnsafeUrlError('Only http and https URLs are supported');
+		}
+
+		if (parsed.username || parsed.password) {
+			throw new UnsafeUrlError('URLs with credentials are not supported');
+		}
+
+		const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+		if (!this.allowPrivateAddresses && net.isIP(hostname) && isPrivateAddress(hostname)) {
+			throw new UnsafeUrlError('URLs pointing to a private network are not allowed');
+		}
+
+		return parsed;
+	}
+
+	private request(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+		const client = url.protocol === 'https:' ? https : http;
+
+		return new Promise((resolve, reject) => {
+			const request = client.request(
+				url,
+				{
+					method: 'GET',
+					headers: {
+						Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9',
+						'Accept-Encoding': 'gzip, deflate, br',
+						'User-Agent': USER_AGENT,
+					},
+					lookup: this.allowPrivateAddresses ? undefined : publicAddressLookup,
+					signal,
+				},
+				resolve
+			);
+
+			request.on('error', reject);
+			request.end();
+		});
+	}
+
+	/**
+	 * Read and decompress the response body, aborting once it exceeds the size limit
+	 */
+	private async readBody(response: http.IncomingMessage): Promise<Buffer> {
+		const encoding = (response.headers['content-encoding'] ?? '').trim().toLowerCase();
+		let stream: Readable = response;
+
+		if (encoding === 'gzip' || encoding === 'x-gzip') {
+			stream = response.pipe(zlib.createGunzip());
+		} else if (encoding === 'deflate') {
+			stream = response.pipe(zlib.createInflate());
+		} else if (encoding === 'br') {
+			stream = response.pipe(zlib.createBrotliDecompress());
+		}
+
+		const chunks: Buffer[] = [];
+		let size = 0;
+
+		try {
+			for await (const chunk of stream) {
+				size += (chunk as Buffer).length;
+				if (size > this.maxSize) {
+					throw new WebPageFetchError('The page is too large');
+				}
+				chunks.push(chunk as Buffer);
+			}
+		} finally {
+			response.destroy();
+		}
+
+		return Buffer.concat(chunks);
+	}
+}
+
+/**
+ * Singleton instance of WebPageService
+ */
+export const webPageService = new WebPageService();
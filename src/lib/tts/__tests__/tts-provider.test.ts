@@ -0,0 +1,115 @@
+// @vitest-environment node
+import http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {afterAll, beforeAll, describe, expect, it} from 'vitest';
+import {createTtsProvider, TtsConfigurationError, TtsProviderError} from '../tts-provider';
+import {buildToneWav, LocalTtsProvider} from '../local.provider';
+import {OpenAiCompatibleTtsProvider} from '../openai-compatible.provider';
+import {detectAudioType} from '@/lib/utils/media';
+
+describe('createTtsProvider', () => {
+    it('should disable text-to-speech by default', () => {
+        expect(createTtsProvider({})).toBeNull();
+        expect(createTtsProvider({TTS_PROVIDER: ''})).toBeNull();
+    });
+
+    it('should select the local provider', () => {
+        expect(createTtsProvider({TTS_PROVIDER: 'local'})).toBeInstanceOf(LocalTtsProvider);
+    });
+
+    it('should configure an OpenAI-compatible server with default model and voice', () => {
+        const provider = createTtsProvider({TTS_PROVIDER: 'openai-compatible', TTS_BASE_URL: 'https://api.openai.com/v1'});
+
+        expect(provider).toBeInstanceOf(OpenAiCompatibleTtsProvider);
+        expect(provider?.voice).toBe('tts-1/alloy');
+        expect(
+            createTtsProvider({TTS_PROVIDER: 'openai-compatible', TTS_BASE_URL: 'http://localhost:8880/v1', TTS_VOICE: 'af_bella'})?.voice
+        ).toBe('tts-1/af_bella');
+    });
+
+    it('should reject unknown providers and missing settings', () => {
+        expect(() => createTtsProvider({TTS_PROVIDER: 'polly'})).toThrow(TtsConfigurationError);
+        expect(() => createTtsProvider({TTS_PROVIDER: 'openai-compatible'})).toThrow('TTS_BASE_URL');
+    });
+});
+
+describe('LocalTtsProvider', () => {
+    it('should build the same WAV file for the same text', async () => {
+        const provider = new LocalTtsProvider();
+        const speech = await provider.synthesize({text: 'der Hund'});
+
+        expect(speech.mimeType).toBe('audio/wav');
+        expect(detectAudioType(speech.data)).toBe('audio/wav');
+        expect(speech.data).toEqual(buildToneWav('der Hund'));
+    });
+
+    it('should give every word a tone', () => {
+        const oneWord = buildToneWav('Hund');
+        const twoWords = buildToneWav('der Hund');
+
+        // 44 header bytes, 16-bit samples
+        expect(twoWords.byteLength - 44).toBe(2 * (oneWord.byteLength - 44));
+        expect(new DataView(twoWords.buffer).getUint32(40, true)).toBe(twoWords.byteLength - 44);
+    });
+
+    it('should reject empty text', async () => {
+        await expect(new LocalTtsProvider().synthesize({text: '  '})).rejects.toBeInstanceOf(TtsProviderError);
+    });
+});
+
+describe('OpenAiCompatibleTtsProvider', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const requests: {url?: string; authorization?: string; body: Record<string, unknown>}[] = [];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                const parsed = JSON.parse(body);
+                requests.push({url: req.url, authorization: req.headers.authorization, body: parsed});
+
+                if (parsed.input === 'fail') {
+                    res.writeHead(500);
+                    res.end();
+                    return;
+                }
+
+                res.writeHead(200, {'Content-Type': 'audio/mpeg'});
+                res.end(Buffer.from('ID3\u0004mp3'));
+            });
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should post the text to the speech endpoint of the base URL', async () => {
+        const provider = new OpenAiCompatibleTtsProvider({baseUrl, apiKey: 'secret', model: 'tts-1', voice: 'nova'});
+
+        const speech = await provider.synthesize({text: 'el perro'});
+
+        expect(speech.mimeType).toBe('audio/mpeg');
+        expect(detectAudioType(speech.data)).toBe('audio/mpeg');
+        expect(requests.at(-1)).toEqual({
+            url: '/v1/audio/speech',
+            authorization: 'Bearer secret',
+            body: {model: 'tts-1', voice: 'nova', input: 'el perro', response_format: 'mp3'},
+        });
+    });
+
+    it('should report error responses with their status', async () => {
+        const provider = new OpenAiCompatibleTtsProvider({baseUrl, model: 'tts-1', voice: 'nova'});
+
+        await expect(provider.synthesize({text: 'fail'})).rejects.toMatchObject({
+            name: 'TtsProviderError',
+            upstreamStatus: 500,
+        });
+        expect(requests.at(-1)?.authorization).toBeUndefined();
+    });
+});
@@ -0,0 +1,97 @@
+import { TtsProviderError, type SpeechRequest, type SynthesizedSpeech, type TtsProvider } from '@/lib/tts/tts-provider';
+
+const SAMPLE_RATE = 8000;
+
+/**
+ * Samples of the tone of one word and of the silence after it
+ */
+const TONE_SAMPLES = Math.round(SAMPLE_RATE * 0.12);
+const GAP_SAMPLES = Math.round(SAMPLE_RATE * 0.06);
+
+/**
+ * Samples faded in and out at both ends of a tone, avoids clicks
+ */
+const FADE_SAMPLES = 80;
+
+/**
+ * Most words read, longer texts are cut (about 11 seconds of audio)
+ */
+const MAX_TONE_WORDS = 60;
+
+const AMPLITUDE = 0.3 * 0x7fff;
+
+/**
+ * Pitch of a word between 220 and 680 Hz, the same word always gets the same pitch
+ */
+function wordFrequency(word: string): number {
+	let hash = 0;
+	for (const char of word) {
+		hash = (hash * 31 + (char.codePointAt(0) ?? 0)) % 24;
+	}
+	return 220 + hash * 20;
+}
+
+/**
+ * 16-bit mono PCM WAV file with one short tone per word of the text
+ */
+export function buildToneWav(text: string): Uint8Array {
+	const words = text.split(/\s+/).filter(Boolean).slice(0, MAX_TONE_WORDS);
+	const sampleCount = words.length * (TONE_SAMPLES + GAP_SAMPLES);
+	const buffer = new ArrayBuffer(44 + sampleCount * 2);
+	const view = new DataView(buffer);
+
+	const writeAscii = (offset: number, value: string) => {
+		for (let i = 0; i < value.length; i++) {
+			view.setUint8(offset + i, value.charCodeAt(i));
+		}
+	};
+
+	// RIFF header and fmt chunk: PCM, 1 channel, 16 bits per sample
+	writeAscii(0, 'RIFF');
+	view.setUint32(4, 36 + sampleCount * 2, true);
+	writeAscii(8, 'WAVE');
+	writeAscii(12, 'fmt ');
+	view.setUint32(16, 16, true);
+	view.setUint16(20, 1, true);
+	view.setUint16(22, 1, true);
+	view.setUint32(24, SAMPLE_RATE, true);
+	view.setUint32(28, SAMPLE_RATE * 2, true);
+	view.setUint16(32, 2, true);
+	view.setUint16(34, 16, true);
+	writeAscii(36, 'data');
+	view.setUint32(40, sampleCount * 2, true);
+
+	words.forEach((word, wordIndex) => {
+		const frequency = wordFrequency(word.toLowerCase());
+		const start = wordIndex * (TONE_SAMPLES + GAP_SAMPLES);
+
+		// Silence after the tone is left as zeros
+		for (let i = 0; i < TONE_SAMPLES; i++) {
+			const fade = Math.min(1, i / FADE_SAMPLES, (TONE_SAMPLES - i) / FADE_SAMPLES);
+			const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * AMPLITUDE * fade;
+			view.setInt16(44 + (start + i) * 2, Math.round(sample), true);
+		}
+	});
+
+	return new Uint8Array(buffer);
+}
+
+/**
+ * Offline stub for development, tests and CI (TTS_PROVIDER=local)
+ * Does not speak: every word becomes a short tone, so the audio pipeline (caching, storage,
+ * playback) can be exercised without a speech service. The same text always gives the same file.
+ */
+export class LocalTtsProvider implements TtsProvider {
+	readonly name = 'local';
+	readonly voice = 'tones';
+
+	async synthesize({ text, signal }: SpeechRequest): Promise<SynthesizedSpeech> {
+		signal?.throwIfAborted();
+
+		if (!text.trim()) {
+			throw new TtsProviderError('There is no text to synthesize');
+		}
+
+		return { data: buildToneWav(text), mimeType: 'audio/wav' };
+	}
+}
@@ -0,0 +1,69 @@
+import {
+	TtsProviderError,
+	type SpeechRequest,
+	type SynthesizedSpeech,
+	type TtsProvider,
+} from '@/lib/tts/tts-provider';
+
+/**
+ * Time a speech request may take before it is aborted
+ */
+const SPEECH_TIMEOUT_MS = 30_000;
+
+export type OpenAiCompatibleTtsProviderOptions = {
+	/** Base URL of the API (e.g. https://api.openai.com/v1) */
+	baseUrl: string;
+	apiKey?: string;
+	model: string;
+	voice: string;
+};
+
+/**
+ * Provider for any server implementing the OpenAI speech API (POST /audio/speech), answers MP3
+ */
+export class OpenAiCompatibleTtsProvider implements TtsProvider {
+	readonly name = 'openai-compatible';
+	readonly voice: string;
+	private readonly baseUrl: string;
+	private readonly apiKey: string | undefined;
+	private readonly model: string;
+	private readonly speaker: string;
+
+	constructor(options: OpenAiCompatibleTtsProviderOptions) {
+		this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+		this.apiKey = options.apiKey;
+		this.model = options.model;
+		this.speaker = options.voice;
+		this.voice = `${options.model}/${options.voice}`;
+	}
+
+	async synthesize({ text, signal }: SpeechRequest): Promise<SynthesizedSpeech> {
+		const timeout = AbortSignal.timeout(SPEECH_TIMEOUT_MS);
+
+		let response: Response;
+		try {
+			response = await fetch(`${this.baseUrl}/audio/speech`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+				},
+				body: JSON.stringify({ model: this.model, voice: this.speaker, input: text, response_format: 'mp3' }),
+				signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+			});
+		} catch (error) {
+			throw new TtsProviderError(`Speech request failed: ${(error as Error).message}`);
+		}
+
+		if (!response.ok) {
+			throw new TtsProviderError(`Speech request failed (status ${response.status})`, response.status);
+		}
+
+		const data = new Uint8Array(await response.arrayBuffer());
+		if (data.byteLength === 0) {
+			throw new TtsProviderError('Speech response was empty');
+		}
+
+		return { data, mimeType: 'audio/mpeg' };
+	}
+}
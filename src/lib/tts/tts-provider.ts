@@ -0,0 +1,125 @@
+import type { AudioMimeType } from '@/lib/utils/media';
+import { LocalTtsProvider } from '@/lib/tts/local.provider';
+import { OpenAiCompatibleTtsProvider } from '@/lib/tts/openai-compatible.provider';
+
+/**
+ * Supported values of TTS_PROVIDER, text-to-speech is disabled when it is not set
+ */
+export const TTS_PROVIDER_NAMES = ['local', 'openai-compatible'] as const;
+
+export type TtsProviderName = (typeof TTS_PROVIDER_NAMES)[number];
+
+/**
+ * Text to read aloud, already converted to plain text
+ */
+export type SpeechRequest = {
+	text: string;
+	signal?: AbortSignal;
+};
+
+export type SynthesizedSpeech = {
+	data: Uint8Array;
+	mimeType: AudioMimeType;
+};
+
+/**
+ * Text-to-speech backend used for flashcard audio
+ */
+export interface TtsProvider {
+	/** Provider name, used in logs and in the cache key of synthesized clips */
+	readonly name: TtsProviderName;
+
+	/** Model and voice settings, part of the cache key so changing them synthesizes clips again */
+	readonly voice: string;
+
+	/**
+	 * Synthesize speech for the text
+	 * @throws {TtsProviderError} When the backend fails or returns no audio
+	 */
+	synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+}
+
+/**
+ * Environment variables selecting and configuring the provider
+ */
+export type TtsProviderConfig = {
+	TTS_PROVIDER?: string;
+	TTS_BASE_URL?: string;
+	TTS_API_KEY?: string;
+	TTS_MODEL?: string;
+	TTS_VOICE?: string;
+};
+
+/**
+ * Custom error types for text-to-speech providers
+ */
+export class TtsConfigurationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TtsConfigurationError';
+	}
+}
+
+export class TtsProviderError extends Error {
+	constructor(message: string, public readonly upstreamStatus: number | null = null) {
+		super(message);
+		this.name = 'TtsProviderError';
+	}
+}
+
+const DEFAULT_OPENAI_TTS_MODEL = 'tts-1';
+
+const DEFAULT_OPENAI_TTS_VOICE = 'alloy';
+
+/**
+ * Create the provider selected by TTS_PROVIDER, null when text-to-speech is disabled (not set)
+ * - local: offline stub for development, tests and CI, reads text as a sequence of tones
+ * - openai-compatible: any server implementing the OpenAI speech API at TTS_BASE_URL (e.g. OpenAI,
+ *   Kokoro-FastAPI) with TTS_MODEL (default: tts-1), TTS_VOICE (default: alloy) and an optional TTS_API_KEY
+ * @throws {TtsConfigurationError} When the provider is unknown or required variables are missing
+ */
+export function createTtsProvider(config: TtsProviderConfig): TtsProvider | null {
+	const name = config.TTS_PROVIDER;
+
+	switch (name) {
+		case undefined:
+		case '':
+			return null;
+		case 'local':
+			return new LocalTtsProvider();
+		case 'openai-compatible':
+			if (!config.TTS_BASE_URL) {
+				throw new TtsConfigurationError('TTS_BASE_URL is required for the openai-compatible provider');
+			}
+
+			return new OpenAiCompatibleTtsProvider({
+				baseUrl: config.TTS_BASE_URL,
+				apiKey: config.TTS_API_KEY,
+				model: config.TTS_MODEL || DEFAULT_OPENAI_TTS_MODEL,
+				voice: config.TTS_VOICE || DEFAULT_OPENAI_TTS_VOICE,
+			});
+		default:
+			throw new TtsConfigurationError(
+				`Unknown TTS_PROVIDER "${name}", expected one of: ${TTS_PROVIDER_NAMES.join(', ')}`
+			);
+	}
+}
+
+let provider: TtsProvider | null | undefined;
+
+/**
+ * Provider configured by the environment, created on first use
+ * @throws {TtsConfigurationError} When the environment configuration is invalid
+ */
+export function getTtsProvider(): TtsProvider | null {
+	if (provider === undefined) {
+		provider = createTtsProvider({
+			TTS_PROVIDER: import.meta.env.TTS_PROVIDER,
+			TTS_BASE_URL: import.meta.env.TTS_BASE_URL,
+			TTS_API_KEY: import.meta.env.TTS_API_KEY,
+			TTS_MODEL: import.meta.env.TTS_MODEL,
+			TTS_VOICE: import.meta.env.TTS_VOICE,
+		});
+	}
+	return provider;
+}
@@ -0,0 +1,29 @@
+import {describe, expect, it} from 'vitest';
+import {isAdminEmail, parseAdminEmails} from '../admin';
+
+describe('admin', () => {
+    describe('parseAdminEmails', () => {
+        it('should split, trim and lowercase the list and drop empty entries', () => {
+            expect(parseAdminEmails(' Admin@Example.com, ,ops@example.com ')).toEqual([
+                'admin@example.com',
+                'ops@example.com',
+            ]);
+        });
+
+        it('should return an empty list when not configured', () => {
+            expect(parseAdminEmails(undefined)).toEqual([]);
+        });
+    });
+
+    describe('isAdminEmail', () => {
+        it('should match configured e-mails case-insensitively', () => {
+            expect(isAdminEmail('ADMIN@example.com', 'admin@example.com')).toBe(true);
+        });
+
+        it('should reject other and missing e-mails', () => {
+            expect(isAdminEmail('user@example.com', 'admin@example.com')).toBe(false);
+            expect(isAdminEmail(undefined, 'admin@example.com')).toBe(false);
+            expect(isAdminEmail('admin@example.com', undefined)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import {describe, expect, it} from 'vitest';
+import {
+    describeClozeCards,
+    getClozeIndexes,
+    getNextClozeIndex,
+    parseCloze,
+    renderClozeText,
+    validateClozeText,
+} from '../cloze';
+
+const note = '{{c1::Mitochondria}} produce {{c2::ATP::energy molecule}} in {{c1::cells}}.';
+
+describe('parseCloze', () => {
+    it('should split text into plain text and deletions', () => {
+        expect(parseCloze(note)).toEqual([
+            {type: 'cloze', index: 1, answer: 'Mitochondria', hint: null},
+            {type: 'text', text: ' produce '},
+            {type: 'cloze', index: 2, answer: 'ATP', hint: 'energy molecule'},
+            {type: 'text', text: ' in '},
+            {type: 'cloze', index: 1, answer: 'cells', hint: null},
+            {type: 'text', text: '.'},
+        ]);
+    });
+
+    it('should keep unclosed deletions as plain text', () => {
+        expect(parseCloze('{{c1::open')).toEqual([{type: 'text', text: '{{c1::open'}]);
+    });
+});
+
+describe('getClozeIndexes', () => {
+    it('should list every deletion number once in ascending order', () => {
+        expect(getClozeIndexes('{{c3::c}} {{c1::a}} {{c3::d}}')).toEqual([1, 3]);
+        expect(getClozeIndexes('No deletions')).toEqual([]);
+        expect(getNextClozeIndex('{{c3::c}} {{c1::a}}')).toBe(4);
+        expect(getNextClozeIndex('No deletions')).toBe(1);
+        expect(describeClozeCards(note)).toBe('2 cloze cards');
+    });
+});
+
+describe('validateClozeText', () => {
+    it('should accept valid notes', () => {
+        expect(validateClozeText(note)).toBeNull();
+    });
+
+    it('should reject missing, unclosed, empty and out of range deletions', () => {
+        expect(validateClozeText('Plain text')).toContain('at least one deletion');
+        expect(validateClozeText('{{c1::a}} and {{c2::b')).toBe('Cloze deletion must be closed with "}}"');
+        expect(validateClozeText('{{c1:: }} is empty')).toBe('Cloze deletion cannot be empty');
+        expect(validateClozeText('{{c0::zero}}')).toBe('Cloze numbers must be between 1 and 99');
+        expect(validateClozeText('{{c100::too high}}')).toBe('Cloze numbers must be between 1 and 99');
+    });
+
+    it('should reject numbers with leading zeros, which are not deletions', () => {
+        expect(validateClozeText('{{c01::x}}')).toBe('Cloze numbers cannot have leading zeros');
+        expect(validateClozeText('{{c05::x}} {{c2::y}}')).toBe('Cloze numbers cannot have leading zeros');
+        expect(getClozeIndexes('{{c05::x}} {{c2::y}}')).toEqual([2]);
+    });
+});
+
+describe('renderClozeText', () => {
+    it('should hide the deletions of one card on the front', () => {
+        expect(renderClozeText(note, 1, 'front')).toBe('[...] produce ATP in [...].');
+        expect(renderClozeText(note, 2, 'front')).toBe('Mitochondria produce [energy molecule] in cells.');
+    });
+
+    it('should reveal every deletion on the back', () => {
+        expect(renderClozeText(note, 1, 'back')).toBe('Mitochondria produce ATP in cells.');
+        expect(renderClozeText(note, null, 'front')).toBe('Mitochondria produce ATP in cells.');
+    });
+});
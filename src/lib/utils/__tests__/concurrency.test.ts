@@ -0,0 +1,56 @@
+import {describe, expect, it} from 'vitest';
+import {mapSettledWithConcurrency} from '../concurrency';
+
+describe('mapSettledWithConcurrency', () => {
+    const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it('should yield results in completion order with their item index', async () => {
+        const results = [];
+
+        for await (const result of mapSettledWithConcurrency([30, 10, 20], 3, async (ms) => {
+            await delay(ms);
+            return ms;
+        })) {
+            results.push(result);
+        }
+
+        expect(results).toEqual([
+            {index: 1, status: 'fulfilled', value: 10},
+            {index: 2, status: 'fulfilled', value: 20},
+            {index: 0, status: 'fulfilled', value: 30},
+        ]);
+    });
+
+    it('should never run more tasks than the limit at the same time', async () => {
+        let running = 0;
+        let maxRunning = 0;
+
+        for await (const result of mapSettledWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await delay(5);
+            running--;
+        })) {
+            expect(result.status).toBe('fulfilled');
+        }
+
+        expect(maxRunning).toBe(2);
+    });
+
+    it('should report rejected tasks without stopping the others', async () => {
+        const results = [];
+
+        for await (const result of mapSettledWithConcurrency(['ok', 'fail'], 2, async (item) => {
+            if (item === 'fail') {
+                throw new Error('Task failed');
+            }
+            return item;
+        })) {
+            results.push(result);
+        }
+
+        expect(results).toHaveLength(2);
+        expect(results).toContainEqual({index: 0, status: 'fulfilled', value: 'ok'});
+        expect(results).toContainEqual({index: 1, status: 'rejected', reason: new Error('Task failed')});
+    });
+});
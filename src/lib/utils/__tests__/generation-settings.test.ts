@@ -0,0 +1,39 @@
+import {describe, expect, it} from 'vitest';
+import {
+    canonicalizeLanguage,
+    DEFAULT_GENERATION_SETTINGS,
+    describeLanguage,
+    toGenerationSettings,
+} from '../generation-settings';
+
+describe('toGenerationSettings', () => {
+    it('should apply the defaults to missing settings', () => {
+        expect(toGenerationSettings({})).toEqual(DEFAULT_GENERATION_SETTINGS);
+        expect(toGenerationSettings({card_count: 8, difficulty: 'advanced', card_style: 'cloze', language: 'pl'})).toEqual({
+            cardCount: 8,
+            difficulty: 'advanced',
+            cardStyle: 'cloze',
+            language: 'pl',
+        });
+    });
+});
+
+describe('canonicalizeLanguage', () => {
+    it('should canonicalize language tags', () => {
+        expect(canonicalizeLanguage('pt-br')).toBe('pt-BR');
+        expect(canonicalizeLanguage('EN')).toBe('en');
+    });
+
+    it('should reject language names and malformed tags', () => {
+        expect(canonicalizeLanguage('english')).toBeNull();
+        expect(canonicalizeLanguage('en_US!')).toBeNull();
+        expect(canonicalizeLanguage('')).toBeNull();
+    });
+});
+
+describe('describeLanguage', () => {
+    it('should name languages in English', () => {
+        expect(describeLanguage('pl')).toBe('Polish');
+        expect(describeLanguage('pt-BR')).toBe('Brazilian Portuguese');
+    });
+});
@@ -0,0 +1,42 @@
+import {describe, expect, it} from 'vitest';
+import {JsonArrayItemParser} from '../json-stream';
+
+describe('JsonArrayItemParser', () => {
+    const document = JSON.stringify({
+        flashcards: [
+            {front: 'What is {JSX}?', back: 'A "syntax" [extension]', tags: ['react']},
+            {front: 'Escaped \\ backslash', back: 'Quote \\" inside'},
+        ],
+    });
+
+    it('should return every item of the array in a complete document', () => {
+        const parser = new JsonArrayItemParser();
+
+        expect(parser.feed(document)).toEqual(JSON.parse(document).flashcards);
+    });
+
+    it('should return items as soon as they are complete when fed character by character', () => {
+        const parser = new JsonArrayItemParser();
+        const firstItemEnd = document.indexOf('},{') + 1;
+        const emitted: {index: number; items: unknown[]}[] = [];
+
+        for (let index = 0; index < document.length; index++) {
+            const items = parser.feed(document[index]);
+            if (items.length > 0) {
+                emitted.push({index, items});
+            }
+        }
+
+        expect(emitted).toHaveLength(2);
+        expect(emitted[0].index).toBe(firstItemEnd - 1);
+        expect(emitted.flatMap((entry) => entry.items)).toEqual(JSON.parse(document).flashcards);
+    });
+
+    it('should skip malformed items and keep parsing', () => {
+        const parser = new JsonArrayItemParser();
+
+        expect(parser.feed('{"flashcards":[{"front":1,},{"front":"ok","back":"yes"}]}')).toEqual([
+            {front: 'ok', back: 'yes'},
+        ]);
+    });
+});
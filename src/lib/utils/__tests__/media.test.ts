@@ -0,0 +1,63 @@
+import {describe, expect, it} from 'vitest';
+import {detectAudioType, detectImageType, MAX_AUDIO_SIZE, MAX_IMAGE_SIZE, validateAudioFile, validateImageFile} from '../media';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('detectImageType', () => {
+    it('should detect images from their leading bytes', () => {
+        expect(detectImageType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00))).toBe('image/png');
+        expect(detectImageType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg');
+        expect(detectImageType(new TextEncoder().encode('GIF89a'))).toBe('image/gif');
+        expect(detectImageType(new TextEncoder().encode('RIFF\u0001\u0002\u0003\u0004WEBPVP8 '))).toBe('image/webp');
+    });
+
+    it('should reject other content whatever it is named', () => {
+        expect(detectImageType(new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBeNull();
+        expect(detectImageType(new TextEncoder().encode('<html><script>alert(1)</script>'))).toBeNull();
+        expect(detectImageType(new TextEncoder().encode('RIFF\u0001\u0002\u0003\u0004WAVE'))).toBeNull();
+        expect(detectImageType(bytes(0x89, 0x50))).toBeNull();
+    });
+});
+
+describe('validateImageFile', () => {
+    it('should accept supported images up to 5 MB', () => {
+        expect(validateImageFile({type: 'image/png', size: MAX_IMAGE_SIZE})).toBeNull();
+        expect(validateImageFile({type: 'image/webp', size: 1024})).toBeNull();
+    });
+
+    it('should reject other types, empty and too large files', () => {
+        expect(validateImageFile({type: 'image/svg+xml', size: 1024})).toBe('Only PNG, JPEG, WebP and GIF images are supported');
+        expect(validateImageFile({type: 'image/png', size: 0})).toBe('Image file is empty');
+        expect(validateImageFile({type: 'image/jpeg', size: MAX_IMAGE_SIZE + 1})).toBe('Image must not exceed 5 MB');
+    });
+});
+
+describe('detectAudioType', () => {
+    it('should detect audio from its leading bytes', () => {
+        expect(detectAudioType(new TextEncoder().encode('ID3\u0004'))).toBe('audio/mpeg');
+        expect(detectAudioType(bytes(0xff, 0xfb, 0x90, 0x64))).toBe('audio/mpeg');
+        expect(detectAudioType(new TextEncoder().encode('OggS\u0000'))).toBe('audio/ogg');
+        expect(detectAudioType(new TextEncoder().encode('RIFF\u0001\u0002\u0003\u0004WAVEfmt '))).toBe('audio/wav');
+        expect(detectAudioType(bytes(0x1a, 0x45, 0xdf, 0xa3, 0x01))).toBe('audio/webm');
+        expect(detectAudioType(new TextEncoder().encode('\u0000\u0000\u0000\u0020ftypM4A '))).toBe('audio/mp4');
+    });
+
+    it('should reject images and other content', () => {
+        expect(detectAudioType(new TextEncoder().encode('RIFF\u0001\u0002\u0003\u0004WEBPVP8 '))).toBeNull();
+        expect(detectAudioType(new TextEncoder().encode('<html></html>'))).toBeNull();
+        expect(detectAudioType(bytes(0x89, 0x50, 0x4e, 0x47))).toBeNull();
+    });
+});
+
+describe('validateAudioFile', () => {
+    it('should accept any declared audio type up to 5 MB', () => {
+        expect(validateAudioFile({type: 'audio/mpeg', size: MAX_AUDIO_SIZE})).toBeNull();
+        expect(validateAudioFile({type: 'audio/x-wav', size: 1024})).toBeNull();
+    });
+
+    it('should reject other types, empty and too large files', () => {
+        expect(validateAudioFile({type: 'video/mp4', size: 1024})).toBe('Only MP3, Ogg, WAV, WebM and M4A audio is supported');
+        expect(validateAudioFile({type: 'audio/ogg', size: 0})).toBe('Audio file is empty');
+        expect(validateAudioFile({type: 'audio/mpeg', size: MAX_AUDIO_SIZE + 1})).toBe('Audio must not exceed 5 MB');
+    });
+});
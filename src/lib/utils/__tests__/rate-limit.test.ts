@@ -0,0 +1,71 @@
+import {describe, expect, it} from 'vitest';
+import {buildRateLimitHeaders, DEFAULT_GENERATION_LIMITS, getGenerationLimits, selectReportedQuota} from '../rate-limit';
+import type {GenerationQuotaDTO} from '@/types';
+
+const minute: GenerationQuotaDTO = {
+    name: 'requests_per_minute',
+    limit: 5,
+    used: 1,
+    remaining: 4,
+    reset_at: '2025-01-01T00:01:00.000Z',
+};
+const day: GenerationQuotaDTO = {
+    name: 'generations_per_day',
+    limit: 50,
+    used: 45,
+    remaining: 5,
+    reset_at: '2025-01-02T00:00:00.000Z',
+};
+const month: GenerationQuotaDTO = {
+    name: 'tokens_per_month',
+    limit: 1000000,
+    used: 1000000,
+    remaining: 0,
+    reset_at: '2025-02-01T00:00:00.000Z',
+};
+
+describe('getGenerationLimits', () => {
+    it('should read positive integer limits and default the others', () => {
+        expect(
+            getGenerationLimits({
+                AI_QUOTA_REQUESTS_PER_MINUTE: '10',
+                AI_QUOTA_GENERATIONS_PER_DAY: '-1',
+                AI_QUOTA_TOKENS_PER_MONTH: 'lots',
+            })
+        ).toEqual({
+            requestsPerMinute: 10,
+            generationsPerDay: DEFAULT_GENERATION_LIMITS.generationsPerDay,
+            tokensPerMonth: DEFAULT_GENERATION_LIMITS.tokensPerMonth,
+        });
+    });
+});
+
+describe('selectReportedQuota', () => {
+    it('should report the quota with the smallest share left', () => {
+        expect(selectReportedQuota([minute, day])).toBe(day);
+        expect(selectReportedQuota([minute, day, month])).toBe(month);
+    });
+
+    it('should report the used up quota that resets last', () => {
+        const usedUpMinute = {...minute, used: 5, remaining: 0};
+
+        expect(selectReportedQuota([usedUpMinute, month])).toBe(month);
+    });
+});
+
+describe('buildRateLimitHeaders', () => {
+    it('should describe the quota', () => {
+        expect(buildRateLimitHeaders(day)).toEqual({
+            'X-RateLimit-Limit': '50',
+            'X-RateLimit-Remaining': '5',
+            'X-RateLimit-Reset': '1735776000',
+            'X-RateLimit-Resource': 'generations_per_day',
+        });
+    });
+
+    it('should add Retry-After in seconds when the request was refused', () => {
+        const now = Date.parse('2025-01-01T00:00:20.500Z');
+
+        expect(buildRateLimitHeaders(minute, {exceeded: true, now})['Retry-After']).toBe('40');
+    });
+});
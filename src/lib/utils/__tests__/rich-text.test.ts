@@ -0,0 +1,34 @@
+import {describe, expect, it} from 'vitest';
+import {hasFormatting, sanitizeUrl} from '../rich-text';
+
+describe('sanitizeUrl', () => {
+    it('should keep http, https and mailto links', () => {
+        expect(sanitizeUrl('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+        expect(sanitizeUrl('http://example.com')).toBe('http://example.com');
+        expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com');
+    });
+
+    it('should drop script, data and relative links', () => {
+        expect(sanitizeUrl('javascript:alert(1)')).toBe('');
+        expect(sanitizeUrl(' JavaScript:alert(1)')).toBe('');
+        expect(sanitizeUrl('data:text/html,<script>alert(1)</script>')).toBe('');
+        expect(sanitizeUrl('/flashcards')).toBe('');
+        expect(sanitizeUrl('#top')).toBe('');
+    });
+});
+
+describe('hasFormatting', () => {
+    it('should detect Markdown, code and math markup', () => {
+        expect(hasFormatting('The **mitochondria**')).toBe(true);
+        expect(hasFormatting('Call `map()`')).toBe(true);
+        expect(hasFormatting('Solve $x^2 = 4$')).toBe(true);
+        expect(hasFormatting('Steps:\n- first\n- second')).toBe(true);
+        expect(hasFormatting('1. first')).toBe(true);
+        expect(hasFormatting('# Heading')).toBe(true);
+    });
+
+    it('should not detect plain text', () => {
+        expect(hasFormatting('What is the powerhouse of the cell?')).toBe(false);
+        expect(hasFormatting('A well-known fact, 2 + 2 = 4.')).toBe(false);
+    });
+});
@@ -0,0 +1,24 @@
+import {describe, expect, it} from 'vitest';
+import {toSpeechText} from '../speech';
+
+describe('toSpeechText', () => {
+    it('should read cloze notes with every deletion revealed', () => {
+        expect(toSpeechText('{{c1::Paris}} is the capital of {{c2::France::country}}', 'cloze')).toBe(
+            'Paris is the capital of France'
+        );
+    });
+
+    it('should drop Markdown syntax and read links by their text', () => {
+        expect(toSpeechText('## The **dog**\n\n- *der* `Hund`\n- see [Duden](https://duden.de)', 'basic')).toBe(
+            'The dog der Hund see Duden'
+        );
+    });
+
+    it('should keep the code of code blocks and the content of math', () => {
+        expect(toSpeechText('```js\nconst a = 1;\n```\n$x^2$', 'basic')).toBe('const a = 1; x^2');
+    });
+
+    it('should not treat deletions of basic cards as cloze', () => {
+        expect(toSpeechText('{{c1::Paris}}', 'basic')).toBe('{{c1::Paris}}');
+    });
+});
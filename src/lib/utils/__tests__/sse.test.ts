@@ -0,0 +1,36 @@
+import {describe, expect, it} from 'vitest';
+import {formatSseEvent, SseParser} from '../sse';
+
+describe('sse', () => {
+    describe('formatSseEvent', () => {
+        it('should serialize the event name and JSON data', () => {
+            expect(formatSseEvent('done', {count: 2})).toBe('event: done\ndata: {"count":2}\n\n');
+        });
+    });
+
+    describe('SseParser', () => {
+        it('should return events once their block is complete', () => {
+            const parser = new SseParser();
+
+            expect(parser.feed('event: suggestion\ndata: {"a"')).toEqual([]);
+            expect(parser.feed(':1}\n\nevent: done\ndata: {}\n\n')).toEqual([
+                {event: 'suggestion', data: '{"a":1}'},
+                {event: 'done', data: '{}'},
+            ]);
+        });
+
+        it('should default to message events, ignore comments and normalize CRLF', () => {
+            const parser = new SseParser();
+
+            expect(parser.feed(': OPENROUTER PROCESSING\r\n\r\ndata: [DONE]\r\n\r\n')).toEqual([
+                {event: 'message', data: '[DONE]'},
+            ]);
+        });
+
+        it('should join multi-line data with newlines', () => {
+            const parser = new SseParser();
+
+            expect(parser.feed('data: first\ndata: second\n\n')).toEqual([{event: 'message', data: 'first\nsecond'}]);
+        });
+    });
+});
@@ -0,0 +1,45 @@
+import {describe, expect, it} from 'vitest';
+import {splitTextIntoChunks} from '../text-chunks';
+
+describe('splitTextIntoChunks', () => {
+    const paragraph = (letter: string, length: number) => letter.repeat(length);
+
+    it('should return short text as a single chunk', () => {
+        expect(splitTextIntoChunks('First paragraph.\n\nSecond paragraph.', 100)).toEqual([
+            'First paragraph.\n\nSecond paragraph.',
+        ]);
+    });
+
+    it('should pack paragraphs into chunks without exceeding the maximum length', () => {
+        const text = [paragraph('a', 40), paragraph('b', 40), paragraph('c', 40)].join('\n\n');
+
+        const chunks = splitTextIntoChunks(text, 100);
+
+        expect(chunks).toEqual([`${paragraph('a', 40)}\n\n${paragraph('b', 40)}`, paragraph('c', 40)]);
+    });
+
+    it('should start a new chunk at a heading once the current chunk is half full', () => {
+        const text = `# One\n${paragraph('a', 50)}\n# Two\n${paragraph('b', 20)}`;
+
+        expect(splitTextIntoChunks(text, 100)).toEqual([`# One\n${paragraph('a', 50)}`, `# Two\n${paragraph('b', 20)}`]);
+    });
+
+    it('should split long paragraphs at sentence boundaries', () => {
+        const sentences = Array.from({length: 6}, (_, index) => `Sentence number ${index} is here.`);
+
+        const chunks = splitTextIntoChunks(sentences.join(' '), 70);
+
+        expect(chunks.every((chunk) => chunk.length <= 70)).toBe(true);
+        expect(chunks.every((chunk) => chunk.endsWith('.'))).toBe(true);
+        expect(chunks.join(' ')).toBe(sentences.join(' '));
+    });
+
+    it('should cut text without sentence boundaries at whitespace', () => {
+        const words = Array.from({length: 30}, () => 'word').join(' ');
+
+        const chunks = splitTextIntoChunks(words, 50);
+
+        expect(chunks.every((chunk) => chunk.length <= 50)).toBe(true);
+        expect(chunks.join(' ')).toBe(words);
+    });
+});
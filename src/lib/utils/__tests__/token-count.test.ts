@@ -0,0 +1,24 @@
+import {describe, expect, it} from 'vitest';
+import {countTextTokens, estimateTokenUsage} from '../token-count';
+
+describe('countTextTokens', () => {
+    it('should count tokens with the tokenizer', () => {
+        expect(countTextTokens('')).toBe(0);
+        expect(countTextTokens('Hello world')).toBe(2);
+    });
+
+    it('should count special tokens as plain text', () => {
+        expect(countTextTokens('<|endoftext|>')).toBeGreaterThan(1);
+    });
+});
+
+describe('estimateTokenUsage', () => {
+    it('should count every prompt message with its chat format overhead', () => {
+        expect(estimateTokenUsage(['Hello world', 'Hello world'], 'Hello world')).toEqual({
+            promptTokens: 12,
+            completionTokens: 2,
+            totalTokens: 14,
+            cost: null,
+        });
+    });
+});
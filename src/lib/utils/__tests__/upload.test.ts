@@ -0,0 +1,25 @@
+import {describe, expect, it} from 'vitest';
+import {exceedsUploadLimit} from '../upload';
+
+const MB = 1024 * 1024;
+
+const upload = (contentLength?: number) =>
+    new Request('http://localhost/api/upload', {
+        method: 'POST',
+        headers: contentLength === undefined ? {} : {'Content-Length': String(contentLength)},
+    });
+
+describe('exceedsUploadLimit', () => {
+    it('should leave room for the multipart encoding around the file', () => {
+        expect(exceedsUploadLimit(upload(5 * MB), 5 * MB)).toBe(false);
+        expect(exceedsUploadLimit(upload(5 * MB + 1024), 5 * MB)).toBe(false);
+    });
+
+    it('should refuse bodies declaring more than the file limit and the encoding', () => {
+        expect(exceedsUploadLimit(upload(6 * MB), 5 * MB)).toBe(true);
+    });
+
+    it('should let requests without a Content-Length through to the file size check', () => {
+        expect(exceedsUploadLimit(upload(), 5 * MB)).toBe(false);
+    });
+});
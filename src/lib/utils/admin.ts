@@ -0,0 +1,24 @@
+/**
+ * Administrators are configured by e-mail address in ADMIN_EMAILS (comma-separated)
+ */
+
+/**
+ * Parse a comma-separated list of e-mail addresses, trimmed and lowercased
+ */
+export function parseAdminEmails(value: string | undefined): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((email) => email.trim().toLowerCase())
+		.filter((email) => email.length > 0);
+}
+
+/**
+ * Check whether a user may access administrator endpoints
+ */
+export function isAdminEmail(email: string | undefined, adminEmails: string | undefined = import.meta.env.ADMIN_EMAILS): boolean {
+	if (!email) {
+		return false;
+	}
+
+	return parseAdminEmails(adminEmails).includes(email.trim().toLowerCase());
+}
@@ -0,0 +1,143 @@
+/**
+ * Cloze deletion parsing and rendering shared by request validation, AI generation and the UI
+ * Deletions use the Anki syntax: {{c1::answer}} or {{c1::answer::hint}}, every number is a separate card
+ */
+export const MIN_CLOZE_INDEX = 1;
+export const MAX_CLOZE_INDEX = 99;
+
+/**
+ * Text shown in place of a hidden deletion without a hint
+ */
+export const CLOZE_PLACEHOLDER = '[...]';
+
+export type ClozeSegment =
+	| { type: 'text'; text: string }
+	| { type: 'cloze'; index: number; answer: string; hint: string | null };
+
+// Numbers without leading zeros, like the check constraint of flashcards.front
+const CLOZE_PATTERN = /\{\{c([1-9]\d?)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+const CLOZE_OPENING_PATTERN = /\{\{c(\d+)::/g;
+
+/**
+ * Split text into plain text and cloze deletion segments
+ * Unclosed or malformed deletions are kept as plain text
+ */
+export function parseCloze(text: string): ClozeSegment[] {
+	const segments: ClozeSegment[] = [];
+	let lastIndex = 0;
+
+	for (const match of text.matchAll(CLOZE_PATTERN)) {
+		if (match.index > lastIndex) {
+			segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+		}
+
+		segments.push({
+			type: 'cloze',
+			index: Number(match[1]),
+			answer: match[2],
+			hint: match[3]?.trim() || null,
+		});
+		lastIndex = match.index + match[0].length;
+	}
+
+	if (lastIndex < text.length) {
+		segments.push({ type: 'text', text: text.slice(lastIndex) });
+	}
+
+	return segments;
+}
+
+/**
+ * Distinct deletion numbers of a cloze note in ascending order, one card each
+ */
+export function getClozeIndexes(text: string): number[] {
+	const indexes = new Set<number>();
+
+	for (const segment of parseCloze(text)) {
+		if (segment.type === 'cloze') {
+			indexes.add(segment.index);
+		}
+	}
+
+	return [...indexes].sort((a, b) => a - b);
+}
+
+/**
+ * Whether the text contains cloze deletion markup
+ */
+export function hasClozeDeletions(text: string): boolean {
+	return getClozeIndexes(text).length > 0;
+}
+
+/**
+ * Error message of an invalid cloze note, null when it is valid
+ */
+export function validateClozeText(text: string): string | null {
+	const segments = parseCloze(text);
+	const deletions = segments.filter((segment) => segment.type === 'cloze');
+
+	for (const [, number] of text.matchAll(CLOZE_OPENING_PATTERN)) {
+		if (number.startsWith('0') && number !== '0') {
+			return 'Cloze numbers cannot have leading zeros';
+		}
+
+		if (Number(number) < MIN_CLOZE_INDEX || Number(number) > MAX_CLOZE_INDEX) {
+			return `Cloze numbers must be between ${MIN_CLOZE_INDEX} and ${MAX_CLOZE_INDEX}`;
+		}
+	}
+
+	if (deletions.length === 0) {
+		return 'Cloze text must contain at least one deletion, e.g. {{c1::answer}}';
+	}
+
+	if ((text.match(CLOZE_OPENING_PATTERN) ?? []).length !== deletions.length) {
+		return 'Cloze deletion must be closed with "}}"';
+	}
+
+	for (const deletion of deletions) {
+		if (deletion.answer.trim().length === 0) {
+			return 'Cloze deletion cannot be empty';
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Plain text of one card of a cloze note
+ * Deletions of the card are hidden on the front (replaced by [hint] or [...]) and revealed on the back,
+ * the other deletions are always shown as their answers
+ * @param text - Cloze note text
+ * @param index - Deletion number of the card, null reveals every deletion
+ * @param side - Side of the card
+ */
+export function renderClozeText(text: string, index: number | null, side: 'front' | 'back'): string {
+	return parseCloze(text)
+		.map((segment) => {
+			if (segment.type === 'text') {
+				return segment.text;
+			}
+
+			if (side === 'front' && segment.index === index) {
+				return segment.hint ? `[${segment.hint}]` : CLOZE_PLACEHOLDER;
+			}
+
+			return segment.answer;
+		})
+		.join('');
+}
+
+/**
+ * Number of the next new deletion of a cloze note (one more than the highest one, 1 for plain text)
+ */
+export function getNextClozeIndex(text: string): number {
+	return Math.max(0, ...getClozeIndexes(text)) + 1;
+}
+
+/**
+ * Number of cards a cloze note is studied as, e.g. "2 cloze cards"
+ */
+export function describeClozeCards(text: string): string {
+	const count = getClozeIndexes(text).length;
+	return `${count} cloze card${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Result of one task run by mapSettledWithConcurrency
+ */
+export type SettledTask<R> = { index: number; status: 'fulfilled'; value: R } | { index: number; status: 'rejected'; reason: unknown };
+
+/**
+ * Run a task for every item with at most `limit` tasks in flight
+ * Yields each result as soon as its task settles (completion order, not item order)
+ */
+export async function* mapSettledWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	task: (item: T, index: number) => Promise<R>
+): AsyncGenerator<SettledTask<R>> {
+	const running = new Map<number, Promise<SettledTask<R>>>();
+	let next = 0;
+
+	const start = (index: number) => {
+		running.set(
+			index,
+			task(items[index], index).then(
+				(value): SettledTask<R> => ({ index, status: 'fulfilled', value }),
+				(reason): SettledTask<R> => ({ index, status: 'rejected', reason })
+			)
+		);
+	};
+
+	while (next < items.length || running.size > 0) {
+		while (next < items.length && running.size < Math.max(1, limit)) {
+			start(next++);
+		}
+
+		const settled = await Promise.race(running.values());
+		running.delete(settled.index);
+		yield settled;
+	}
+}
@@ -0,0 +1,87 @@
+import type { GenerationCardStyle, GenerationDifficulty, GenerationSettingsCommand } from '@/types';
+
+/**
+ * Settings of AI generation: number, difficulty, style and language of the flashcards
+ * Shared by request validation, the generation service and the generate view
+ */
+export const MIN_CARD_COUNT = 1;
+export const MAX_CARD_COUNT = 30;
+
+export const GENERATION_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const satisfies readonly GenerationDifficulty[];
+
+export const GENERATION_CARD_STYLES = ['qa', 'definition', 'cloze', 'true_false'] as const satisfies readonly GenerationCardStyle[];
+
+export const DIFFICULTY_LABELS: Record<GenerationDifficulty, string> = {
+	beginner: 'Beginner',
+	intermediate: 'Intermediate',
+	advanced: 'Advanced',
+};
+
+export const CARD_STYLE_LABELS: Record<GenerationCardStyle, string> = {
+	qa: 'Question & answer',
+	definition: 'Term & definition',
+	cloze: 'Fill in the blank',
+	true_false: 'True / false',
+};
+
+/**
+ * Output languages offered in the generate view, any BCP 47 language tag is accepted by the API
+ */
+export const SUGGESTED_LANGUAGES = ['en', 'pl', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'uk', 'ja', 'zh'];
+
+/**
+ * Settings of a generation with the defaults applied
+ * Null fields are left to the model: 5-15 flashcards per request, any difficulty, the language of the text
+ */
+export type GenerationSettings = {
+	cardCount: number | null;
+	difficulty: GenerationDifficulty | null;
+	cardStyle: GenerationCardStyle;
+	language: string | null;
+};
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+	cardCount: null,
+	difficulty: null,
+	cardStyle: 'qa',
+	language: null,
+};
+
+/**
+ * Settings of a validated generation command
+ */
+export function toGenerationSettings(command: GenerationSettingsCommand): GenerationSettings {
+	return {
+		cardCount: command.card_count ?? DEFAULT_GENERATION_SETTINGS.cardCount,
+		difficulty: command.difficulty ?? DEFAULT_GENERATION_SETTINGS.difficulty,
+		cardStyle: command.card_style ?? DEFAULT_GENERATION_SETTINGS.cardStyle,
+		language: command.language ?? DEFAULT_GENERATION_SETTINGS.language,
+	};
+}
+
+/**
+ * Canonical form of a BCP 47 language tag (e.g. "pt-br" becomes "pt-BR"), null when it is not valid
+ * The language subtag must be an ISO 639 code of 2-3 letters, so names like "english" are rejected.
+ */
+export function canonicalizeLanguage(language: string): string | null {
+	if (!/^[a-z]{2,3}(-|$)/i.test(language)) {
+		return null;
+	}
+
+	try {
+		return Intl.getCanonicalLocales(language)[0] ?? null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * English name of a language tag (e.g. "Polish" for "pl"), the tag itself when unknown
+ */
+export function describeLanguage(language: string): string {
+	try {
+		return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+	} catch {
+		return language;
+	}
+}
@@ -0,0 +1,63 @@
+/**
+ * Incremental parser for streamed JSON of the shape { "key": [ {...}, {...} ] }
+ * Feed it the text as it arrives and it returns every array element object as soon as it is complete,
+ * without waiting for the rest of the document.
+ */
+export class JsonArrayItemParser {
+	private buffer = '';
+	private position = 0;
+	private depth = 0;
+	private inString = false;
+	private escaped = false;
+	private itemStart = -1;
+
+	feed(chunk: string): unknown[] {
+		this.buffer += chunk;
+		const items: unknown[] = [];
+
+		for (; this.position < this.buffer.length; this.position++) {
+			const char = this.buffer[this.position];
+
+			if (this.inString) {
+				if (this.escaped) {
+					this.escaped = false;
+				} else if (char === '\\') {
+					this.escaped = true;
+				} else if (char === '"') {
+					this.inString = false;
+				}
+				continue;
+			}
+
+			if (char === '"') {
+				this.inString = true;
+			} else if (char === '{' || char === '[') {
+				// Depth 2 is inside the array of the root object
+				if (char === '{' && this.depth === 2) {
+					this.itemStart = this.position;
+				}
+				this.depth++;
+			} else if (char === '}' || char === ']') {
+				this.depth--;
+				if (this.depth === 2 && this.itemStart >= 0) {
+					try {
+						items.push(JSON.parse(this.buffer.slice(this.itemStart, this.position + 1)));
+					} catch {
+						// Malformed element, skip it and keep parsing the rest of the stream
+					}
+					this.itemStart = -1;
+				}
+			}
+		}
+
+		// Drop consumed text, keeping the element that is still being streamed
+		const keepFrom = this.itemStart >= 0 ? this.itemStart : this.position;
+		this.buffer = this.buffer.slice(keepFrom);
+		this.position -= keepFrom;
+		if (this.itemStart >= 0) {
+			this.itemStart = 0;
+		}
+
+		return items;
+	}
+}
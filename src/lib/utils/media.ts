@@ -0,0 +1,158 @@
+/**
+ * Image and audio attachment rules shared by the upload endpoints and the flashcard form
+ */
+
+/**
+ * Image formats that can be attached, SVG is not accepted because it can carry scripts
+ */
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'] as const;
+
+export type ImageMimeType = (typeof IMAGE_MIME_TYPES)[number];
+
+/**
+ * Largest image that can be attached (5 MB, same as the storage bucket limit)
+ */
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Most images attached to one side of a flashcard
+ */
+export const MAX_IMAGES_PER_SIDE = 4;
+
+/**
+ * File extension of stored images
+ */
+export const IMAGE_EXTENSIONS: Record<ImageMimeType, string> = {
+	'image/png': 'png',
+	'image/jpeg': 'jpg',
+	'image/webp': 'webp',
+	'image/gif': 'gif',
+};
+
+/**
+ * Audio formats that can be attached or synthesized (MP4 covers M4A and AAC clips)
+ */
+export const AUDIO_MIME_TYPES = ['audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/mp4'] as const;
+
+export type AudioMimeType = (typeof AUDIO_MIME_TYPES)[number];
+
+/**
+ * Largest audio clip that can be attached (same as images, the bucket limit applies to both)
+ */
+export const MAX_AUDIO_SIZE = 5 * 1024 * 1024;
+
+/**
+ * File extension of stored audio clips
+ */
+export const AUDIO_EXTENSIONS: Record<AudioMimeType, string> = {
+	'audio/mpeg': 'mp3',
+	'audio/ogg': 'ogg',
+	'audio/wav': 'wav',
+	'audio/webm': 'webm',
+	'audio/mp4': 'm4a',
+};
+
+/**
+ * Leading bytes of a file format (undefined entries match any byte)
+ */
+type FileSignature<T extends string> = { type: T; bytes: (number | undefined)[] };
+
+const IMAGE_SIGNATURES: FileSignature<ImageMimeType>[] = [
+	{ type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+	{ type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+	{ type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+	// "RIFF", 4 bytes of file size, "WEBP"
+	{
+		type: 'image/webp',
+		bytes: [0x52, 0x49, 0x46, 0x46, undefined, undefined, undefined, undefined, 0x57, 0x45, 0x42, 0x50],
+	},
+];
+
+const AUDIO_SIGNATURES: FileSignature<AudioMimeType>[] = [
+	// "ID3" tag or an MPEG audio frame header without one
+	{ type: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+	{ type: 'audio/mpeg', bytes: [0xff, 0xfb] },
+	{ type: 'audio/mpeg', bytes: [0xff, 0xf3] },
+	{ type: 'audio/mpeg', bytes: [0xff, 0xf2] },
+	{ type: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+	// "RIFF", 4 bytes of file size, "WAVE"
+	{
+		type: 'audio/wav',
+		bytes: [0x52, 0x49, 0x46, 0x46, undefined, undefined, undefined, undefined, 0x57, 0x41, 0x56, 0x45],
+	},
+	// EBML header
+	{ type: 'audio/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+	// 4 bytes of box size, "ftyp"
+	{ type: 'audio/mp4', bytes: [undefined, undefined, undefined, undefined, 0x66, 0x74, 0x79, 0x70] },
+];
+
+function matchSignature<T extends string>(bytes: Uint8Array, signatures: FileSignature<T>[]): T | null {
+	const signature = signatures.find(({ bytes: expected }) =>
+		expected.every((byte, index) => index < bytes.length && (byte === undefined || bytes[index] === byte))
+	);
+
+	return signature?.type ?? null;
+}
+
+/**
+ * Whether the MIME type is an image format that can be attached
+ */
+export function isImageMimeType(type: string): type is ImageMimeType {
+	return (IMAGE_MIME_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Image format of the file content, null when it is not a supported image
+ * The declared MIME type of an upload is not trusted, the content decides how the file is stored and served
+ */
+export function detectImageType(bytes: Uint8Array): ImageMimeType | null {
+	return matchSignature(bytes, IMAGE_SIGNATURES);
+}
+
+/**
+ * Audio format of the file content, null when it is not a supported clip
+ */
+export function detectAudioType(bytes: Uint8Array): AudioMimeType | null {
+	return matchSignature(bytes, AUDIO_SIGNATURES);
+}
+
+/**
+ * Error message of an image that cannot be attached, null when its type and size are valid
+ * Checks the declared type only, the server checks the content as well
+ */
+export function validateImageFile(file: { type: string; size: number }): string | null {
+	if (!isImageMimeType(file.type)) {
+		return 'Only PNG, JPEG, WebP and GIF images are supported';
+	}
+
+	if (file.size === 0) {
+		return 'Image file is empty';
+	}
+
+	if (file.size > MAX_IMAGE_SIZE) {
+		return 'Image must not exceed 5 MB';
+	}
+
+	return null;
+}
+
+/**
+ * Error message of an audio clip that cannot be attached, null when its type and size are valid
+ * Browsers report audio formats under several names (audio/x-wav, audio/x-m4a), so any audio type
+ * passes here and the server decides from the content
+ */
+export function validateAudioFile(file: { type: string; size: number }): string | null {
+	if (!file.type.startsWith('audio/')) {
+		return 'Only MP3, Ogg, WAV, WebM and M4A audio is supported';
+	}
+
+	if (file.size === 0) {
+		return 'Audio file is empty';
+	}
+
+	if (file.size > MAX_AUDIO_SIZE) {
+		return 'Audio must not exceed 5 MB';
+	}
+
+	return null;
+}
@@ -0,0 +1,84 @@
+import type { GenerationQuotaDTO } from '@/types';
+
+/**
+ * Per-user AI generation limits, configured in the environment
+ */
+export type GenerationLimits = {
+	requestsPerMinute: number;
+	generationsPerDay: number;
+	tokensPerMonth: number;
+};
+
+export const DEFAULT_GENERATION_LIMITS: GenerationLimits = {
+	requestsPerMinute: 5,
+	generationsPerDay: 50,
+	tokensPerMonth: 1_000_000,
+};
+
+/**
+ * Parse a positive integer limit, falling back to the default when it is missing or invalid
+ */
+function parseLimit(value: string | undefined, fallback: number): number {
+	const limit = Number(value);
+	return value && Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+/**
+ * Generation limits of AI_QUOTA_REQUESTS_PER_MINUTE, AI_QUOTA_GENERATIONS_PER_DAY and AI_QUOTA_TOKENS_PER_MONTH
+ */
+export function getGenerationLimits(
+	env: {
+		AI_QUOTA_REQUESTS_PER_MINUTE?: string;
+		AI_QUOTA_GENERATIONS_PER_DAY?: string;
+		AI_QUOTA_TOKENS_PER_MONTH?: string;
+	} = {
+		AI_QUOTA_REQUESTS_PER_MINUTE: import.meta.env.AI_QUOTA_REQUESTS_PER_MINUTE,
+		AI_QUOTA_GENERATIONS_PER_DAY: import.meta.env.AI_QUOTA_GENERATIONS_PER_DAY,
+		AI_QUOTA_TOKENS_PER_MONTH: import.meta.env.AI_QUOTA_TOKENS_PER_MONTH,
+	}
+): GenerationLimits {
+	return {
+		requestsPerMinute: parseLimit(env.AI_QUOTA_REQUESTS_PER_MINUTE, DEFAULT_GENERATION_LIMITS.requestsPerMinute),
+		generationsPerDay: parseLimit(env.AI_QUOTA_GENERATIONS_PER_DAY, DEFAULT_GENERATION_LIMITS.generationsPerDay),
+		tokensPerMonth: parseLimit(env.AI_QUOTA_TOKENS_PER_MONTH, DEFAULT_GENERATION_LIMITS.tokensPerMonth),
+	};
+}
+
+/**
+ * Quota reported in the X-RateLimit-* headers: the one with the smallest share left, of used up
+ * quotas the one that resets last
+ */
+export function selectReportedQuota(quotas: GenerationQuotaDTO[]): GenerationQuotaDTO {
+	return quotas.reduce((selected, quota) => {
+		const share = quota.remaining / quota.limit;
+		const selectedShare = selected.remaining / selected.limit;
+
+		if (share === selectedShare) {
+			return quota.reset_at > selected.reset_at ? quota : selected;
+		}
+		return share < selectedShare ? quota : selected;
+	});
+}
+
+/**
+ * X-RateLimit-* headers of a quota, with Retry-After (seconds until the reset) when the request was refused
+ * X-RateLimit-Resource names the quota, X-RateLimit-Reset is a Unix timestamp in seconds
+ */
+export function buildRateLimitHeaders(
+	quota: GenerationQuotaDTO,
+	options: { exceeded?: boolean; now?: number } = {}
+): Record<string, string> {
+	const resetAt = Date.parse(quota.reset_at);
+	const headers: Record<string, string> = {
+		'X-RateLimit-Limit': String(quota.limit),
+		'X-RateLimit-Remaining': String(quota.remaining),
+		'X-RateLimit-Reset': String(Math.ceil(resetAt / 1000)),
+		'X-RateLimit-Resource': quota.name,
+	};
+
+	if (options.exceeded) {
+		headers['Retry-After'] = String(Math.max(1, Math.ceil((resetAt - (options.now ?? Date.now())) / 1000)));
+	}
+
+	return headers;
+}
@@ -0,0 +1,156 @@
+import type { Element, ElementContent, Parent, Root, RootContent, Text } from 'hast';
+import { CLOZE_PLACEHOLDER, parseCloze } from '@/lib/utils/cloze';
+import { splitByTerms } from '@/lib/utils/search';
+
+/**
+ * Rehype plugins rendering cloze deletions and search matches inside Markdown flashcard content
+ * Both work on text nodes of the rendered tree, so a deletion has to be within one run of plain text
+ * (e.g. **{{c1::bold}}** works, {{c1::**bold**}} is shown as typed)
+ */
+
+/**
+ * Schemes links in flashcard content may use, any other link is rendered without a target
+ */
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Inline markers (emphasis, code, math, links, tables) or a line starting a heading, quote or list
+ */
+const FORMATTING_PATTERN = /[*_`$|~[]|^\s*(?:#{1,6}\s|>|[-+]\s|\d+[.)]\s)/m;
+
+/**
+ * Elements whose text is left untouched: KaTeX output and the annotation it keeps for screen readers
+ */
+function isSkipped(node: Element): boolean {
+	const className = node.properties.className;
+	return Array.isArray(className) && className.some((name) => String(name).startsWith('katex'));
+}
+
+/**
+ * Replace every text node of the tree by the nodes returned by the callback (kept as is when it returns null)
+ */
+function transformText(node: Parent, transform: (text: string) => ElementContent[] | null): void {
+	node.children = node.children.flatMap((child): RootContent[] => {
+		if (child.type === 'text') {
+			return transform(child.value) ?? [child];
+		}
+
+		if (child.type === 'element' && !isSkipped(child)) {
+			transformText(child, transform);
+		}
+
+		return [child];
+	});
+}
+
+function text(value: string): Text {
+	return { type: 'text', value };
+}
+
+/**
+ * Link target of Markdown content, only http(s) and mailto URLs are kept
+ * Relative URLs and fragments have no meaning in a flashcard and are dropped as well.
+ */
+export function sanitizeUrl(url: string): string {
+	try {
+		return SAFE_URL_PROTOCOLS.includes(new URL(url).protocol) ? url : '';
+	} catch {
+		return '';
+	}
+}
+
+/**
+ * Whether the text uses Markdown or math markup, plain text needs no rendered preview
+ */
+export function hasFormatting(text: string): boolean {
+	return FORMATTING_PATTERN.test(text);
+}
+
+export interface RehypeClozeOptions {
+	/** Deletion number of the studied card, null marks every deletion */
+	cardIndex: number | null;
+	/** Whether the deletions of the card are revealed */
+	revealed: boolean;
+}
+
+/**
+ * Render {{cN::answer::hint}} deletions, deletions of the card are hidden as [hint] or [...] until revealed
+ * @param options - Card to render, null for content that is not a cloze note (left as is)
+ */
+export function rehypeCloze(options: RehypeClozeOptions | null) {
+	return (tree: Root) => {
+		if (!options) {
+			return;
+		}
+
+		const { cardIndex, revealed } = options;
+		transformText(tree, (value) => {
+			const segments = parseCloze(value);
+			if (!segments.some((segment) => segment.type === 'cloze')) {
+				return null;
+			}
+
+			return segments.map((segment): ElementContent => {
+				if (segment.type === 'text') {
+					return text(segment.text);
+				}
+
+				if (segment.index === cardIndex && !revealed) {
+					return {
+						type: 'element',
+						tagName: 'span',
+						properties: {
+							ariaLabel: 'Hidden answer',
+							className: ['rounded', 'bg-blue-500/30', 'px-1', 'font-semibold', 'text-blue-100'],
+						},
+						children: [text(segment.hint ? `[${segment.hint}]` : CLOZE_PLACEHOLDER)],
+					};
+				}
+
+				if (segment.index === cardIndex || cardIndex === null) {
+					return {
+						type: 'element',
+						tagName: 'span',
+						properties: {
+							title: `Cloze ${segment.index}`,
+							className: ['rounded', 'bg-blue-500/30', 'px-1', 'font-semibold', 'text-white'],
+						},
+						children: [text(segment.answer)],
+					};
+				}
+
+				return text(segment.answer);
+			});
+		});
+	};
+}
+
+/**
+ * Wrap the search terms found in the text in <mark> elements
+ */
+export function rehypeHighlightTerms(terms: string[]) {
+	return (tree: Root) => {
+		if (terms.length === 0) {
+			return;
+		}
+
+		transformText(tree, (value) => {
+			const segments = splitByTerms(value, terms);
+			if (!segments.some((segment) => segment.match)) {
+				return null;
+			}
+
+			return segments.map(
+				(segment): ElementContent =>
+					segment.match
+						? {
+								type: 'element',
+								tagName: 'mark',
+								properties: { className: ['rounded', 'bg-yellow-300/40', 'px-0.5', 'text-inherit'] },
+								children: [text(segment.text)],
+							}
+						: text(segment.text)
+			);
+		});
+	};
+}
@@ -0,0 +1,41 @@
+/**
+ * Helpers for highlighting full-text search matches in the UI
+ */
+
+/**
+ * Extract the words to highlight from a web search style query
+ * Quotes are ignored, "or" operators and excluded (-word) terms are skipped
+ */
+export function getSearchTerms(query: string): string[] {
+	const terms = new Set<string>();
+
+	for (const token of query.replace(/"/g, ' ').split(/\s+/)) {
+		if (token.length === 0 || token.startsWith('-') || token.toLowerCase() === 'or') {
+			continue;
+		}
+
+		terms.add(token.toLowerCase());
+	}
+
+	return [...terms];
+}
+
+/**
+ * Split text into segments, marking the ones matching any of the terms (case-insensitive)
+ */
+export function splitByTerms(text: string, terms: string[]): { text: string; match: boolean }[] {
+	if (terms.length === 0) {
+		return [{ text, match: false }];
+	}
+
+	// Longer terms first so they win over their own prefixes
+	const pattern = [...terms]
+		.sort((a, b) => b.length - a.length)
+		.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+		.join('|');
+
+	return text
+		.split(new RegExp(`(${pattern})`, 'gi'))
+		.filter((segment) => segment.length > 0)
+		.map((segment) => ({ text: segment, match: terms.includes(segment.toLowerCase()) }));
+}
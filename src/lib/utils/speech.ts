@@ -0,0 +1,25 @@
+import { renderClozeText } from '@/lib/utils/cloze';
+import type { FlashcardCardType } from '@/types';
+
+/**
+ * Plain text read aloud for a flashcard side
+ * Cloze notes are read with every deletion revealed (the study view plays them after the card is
+ * flipped), Markdown syntax is dropped and links are read by their text.
+ */
+export function toSpeechText(text: string, cardType: FlashcardCardType): string {
+	const plain = cardType === 'cloze' ? renderClozeText(text, null, 'back') : text;
+
+	return (
+		plain
+			// Code fences and their language, the code itself is kept
+			.replace(/^```.*$/gm, ' ')
+			// [text](url) links
+			.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+			// List and quote markers, headings
+			.replace(/^\s*(?:[-*+]|\d+\.|>|#{1,6})\s+/gm, '')
+			// Emphasis, inline code, math delimiters and table pipes
+			.replace(/[*_`~$|\\]/g, '')
+			.replace(/\s+/g, ' ')
+			.trim()
+	);
+}
@@ -0,0 +1,61 @@
+/**
+ * Server-Sent Events helpers shared by the OpenRouter client, the generate route and the browser
+ */
+
+export interface SseEvent {
+	event: string;
+	data: string;
+}
+
+/**
+ * Serialize a single SSE event with a JSON payload
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+	return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Incremental SSE parser, feed it decoded chunks as they arrive and it returns the completed events
+ * Comment lines (": keep-alive") are ignored, multi-line data is joined with newlines
+ */
+export class SseParser {
+	private buffer = '';
+
+	feed(chunk: string): SseEvent[] {
+		this.buffer += chunk.replace(/\r\n?/g, '\n');
+		const events: SseEvent[] = [];
+
+		let separatorIndex = this.buffer.indexOf('\n\n');
+		while (separatorIndex >= 0) {
+			const block = this.buffer.slice(0, separatorIndex);
+			this.buffer = this.buffer.slice(separatorIndex + 2);
+
+			let event = 'message';
+			const data: string[] = [];
+
+			for (const line of block.split('\n')) {
+				if (line.startsWith(':')) {
+					continue;
+				}
+
+				const colonIndex = line.indexOf(':');
+				const field = colonIndex >= 0 ? line.slice(0, colonIndex) : line;
+				const value = colonIndex >= 0 ? line.slice(colonIndex + 1).replace(/^ /, '') : '';
+
+				if (field === 'event') {
+					event = value;
+				} else if (field === 'data') {
+					data.push(value);
+				}
+			}
+
+			if (data.length > 0) {
+				events.push({ event, data: data.join('\n') });
+			}
+
+			separatorIndex = this.buffer.indexOf('\n\n');
+		}
+
+		return events;
+	}
+}
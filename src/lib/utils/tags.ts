@@ -0,0 +1,38 @@
+/**
+ * Tag normalization shared by request validation and AI generation
+ */
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_FLASHCARD = 10;
+
+/**
+ * Normalize a single tag: trimmed, lowercase, inner whitespace replaced by "-"
+ */
+export function normalizeTag(tag: string): string {
+	return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Normalize a list of tags, dropping empty, too long and duplicate entries
+ * and keeping at most MAX_TAGS_PER_FLASHCARD tags
+ */
+export function normalizeTags(tags: unknown[]): string[] {
+	const normalized = new Set<string>();
+
+	for (const tag of tags) {
+		if (typeof tag !== 'string') {
+			continue;
+		}
+
+		const value = normalizeTag(tag);
+		if (value.length === 0 || value.length > MAX_TAG_LENGTH) {
+			continue;
+		}
+
+		normalized.add(value);
+		if (normalized.size === MAX_TAGS_PER_FLASHCARD) {
+			break;
+		}
+	}
+
+	return [...normalized];
+}
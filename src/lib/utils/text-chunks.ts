@@ -0,0 +1,104 @@
+/**
+ * Length limits and chunking of the source text of AI generation
+ * Shared by request validation, the generation service and the generate view
+ */
+export const MIN_GENERATION_TEXT_LENGTH = 1000;
+export const MAX_GENERATION_TEXT_LENGTH = 100000;
+
+/**
+ * Longest text sent to the model in a single request, longer texts are split into chunks
+ */
+export const MAX_CHUNK_LENGTH = 10000;
+
+/**
+ * Markdown heading line ("# Title" to "###### Title")
+ */
+const HEADING_PATTERN = /^#{1,6}\s/;
+
+/**
+ * Split text into chunks of at most maxLength characters
+ * Chunks end at paragraph boundaries, a heading starts a new chunk once the current one is at least
+ * half full. Paragraphs longer than maxLength are split at sentence boundaries, then at whitespace.
+ */
+export function splitTextIntoChunks(text: string, maxLength: number): string[] {
+	const blocks = splitIntoBlocks(text).flatMap((block) =>
+		block.length > maxLength ? splitLongBlock(block, maxLength) : [block]
+	);
+
+	const chunks: string[] = [];
+	let current = '';
+
+	for (const block of blocks) {
+		const candidate = current ? `${current}\n\n${block}` : block;
+		const startsSection = HEADING_PATTERN.test(block) && current.length >= maxLength / 2;
+
+		if (current && (candidate.length > maxLength || startsSection)) {
+			chunks.push(current);
+			current = block;
+		} else {
+			current = candidate;
+		}
+	}
+
+	if (current) {
+		chunks.push(current);
+	}
+
+	return chunks;
+}
+
+/**
+ * Split text into paragraphs, heading lines always start a new paragraph
+ */
+function splitIntoBlocks(text: string): string[] {
+	return text
+		.replace(/\r\n?/g, '\n')
+		.replace(/\n(?=#{1,6}\s)/g, '\n\n')
+		.split(/\n\s*\n/)
+		.map((block) => block.trim())
+		.filter((block) => block.length > 0);
+}
+
+/**
+ * Split a paragraph longer than maxLength at sentence boundaries
+ * Sentences that are still too long are cut at the last whitespace before maxLength
+ */
+function splitLongBlock(block: string, maxLength: number): string[] {
+	const parts: string[] = [];
+	let current = '';
+
+	for (const sentence of block.split(/(?<=[.!?])\s+/).flatMap((s) => hardSplit(s, maxLength))) {
+		const candidate = current ? `${current} ${sentence}` : sentence;
+
+		if (current && candidate.length > maxLength) {
+			parts.push(current);
+			current = sentence;
+		} else {
+			current = candidate;
+		}
+	}
+
+	if (current) {
+		parts.push(current);
+	}
+
+	return parts;
+}
+
+function hardSplit(text: string, maxLength: number): string[] {
+	const parts: string[] = [];
+	let rest = text;
+
+	while (rest.length > maxLength) {
+		const whitespace = rest.lastIndexOf(' ', maxLength);
+		const end = whitespace > 0 ? whitespace : maxLength;
+		parts.push(rest.slice(0, end).trim());
+		rest = rest.slice(end).trim();
+	}
+
+	if (rest) {
+		parts.push(rest);
+	}
+
+	return parts;
+}
@@ -0,0 +1,34 @@
+import { countTokens } from 'gpt-tokenizer/encoding/o200k_base';
+import type { TokenUsage } from '@/lib/openrouter/openrouter.service';
+
+/**
+ * Tokens the chat format adds per message (role and separators)
+ */
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * Count the tokens of a text with the o200k_base tokenizer of the GPT-4o family
+ * Other models use other tokenizers, for them the count is a close estimate.
+ * Special tokens in the text (e.g. "<|endoftext|>") are counted as plain text.
+ */
+export function countTextTokens(text: string): number {
+	return countTokens(text, { disallowedSpecial: new Set() });
+}
+
+/**
+ * Estimate the usage of a chat completion for providers that don't report it
+ * @param messages - Contents of the prompt messages (system and user)
+ * @param completion - Content of the response
+ * @returns Token counts, the cost is unknown
+ */
+export function estimateTokenUsage(messages: string[], completion: string): TokenUsage {
+	const promptTokens = messages.reduce((total, message) => total + TOKENS_PER_MESSAGE + countTextTokens(message), 0);
+	const completionTokens = countTextTokens(completion);
+
+	return {
+		promptTokens,
+		completionTokens,
+		totalTokens: promptTokens + completionTokens,
+		cost: null,
+	};
+}
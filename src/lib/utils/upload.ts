@@ -0,0 +1,16 @@
+/**
+ * Room for multipart boundaries, part headers, the file name and other form fields on top of the file itself
+ */
+const MAX_MULTIPART_OVERHEAD = 64 * 1024;
+
+/**
+ * Check whether a multipart request declares a body too large for a file of at most maxFileSize bytes
+ * formData() reads the whole body into memory, so uploads are refused by their Content-Length before it runs.
+ * Requests without a Content-Length (chunked bodies) pass and are checked by the file size afterwards.
+ * @param request - Incoming multipart/form-data request
+ * @param maxFileSize - Largest accepted file in bytes
+ */
+export function exceedsUploadLimit(request: Request, maxFileSize: number): boolean {
+	const contentLength = Number(request.headers.get('Content-Length'));
+	return contentLength > maxFileSize + MAX_MULTIPART_OVERHEAD;
+}
@@ -20,6 +20,7 @@ const PUBLIC_PATHS = [
 const PROTECTED_PATHS = [
 	'/generate',
 	'/flashcards',
+	'/study',
 ];
 
 export const onRequest = defineMiddleware(async ({ locals, cookies, url, request, redirect }, next) => {
@@ -0,0 +1,115 @@
+import type { APIRoute } from 'astro';
+import { GenerationErrorReportQuerySchema } from '@/lib/schemas/generation.schema';
+import { generationService } from '@/lib/services/generation.service';
+import { DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { isAdminEmail } from '@/lib/utils/admin';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('GenerationErrorsAPI');
+
+/**
+ * GET /api/ai/errors
+ * Report of failed AI generations aggregated by model and error type (administrators only)
+ *
+ * Query Parameters:
+ * - from (string, optional): Start of the window (ISO 8601, inclusive), defaults to 24 hours before `to`
+ * - to (string, optional): End of the window (ISO 8601, exclusive), defaults to now
+ *
+ * The window cannot exceed 90 days. Administrators are configured in ADMIN_EMAILS.
+ *
+ * Returns:
+ * - 200: Success with error counts per model and error type, most frequent first
+ * - 400: Bad request (invalid query parameters)
+ * - 401: Unauthorized (no valid session)
+ * - 403: Forbidden (user is not an administrator)
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to view the generation error report',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+
+	// Check administrator access
+	if (!isAdminEmail(locals.user.email)) {
+		logger.warn('Non-admin user requested generation error report', { userId });
+
+		return new Response(
+			JSON.stringify({
+				error: 'Forbidden',
+				message: 'Only administrators can view the generation error report',
+			}),
+			{ status: 403, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	try {
+		// 1. Validate query parameters with Zod schema
+		const rawParams = {
+			from: url.searchParams.get('from'),
+			to: url.searchParams.get('to'),
+		};
+
+		const validation = GenerationErrorReportQuerySchema.safeParse(rawParams);
+
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Query parameter validation failed', { userId, rawParams, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Call service to aggregate errors
+		const result = await generationService.getErrorReport(supabase, validation.data);
+
+		// 3. Return success response
+		return new Response(JSON.stringify(result), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		if (error instanceof DatabaseQueryError) {
+			logger.error('Database query failed', { userId }, error);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to fetch generation error report',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		logger.error('Unexpected error in GET /api/ai/errors', { userId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while fetching the generation error report',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
@@ -0,0 +1,143 @@
+import type { APIRoute } from 'astro';
+import {
+	detectSourceFormat,
+	MAX_SOURCE_FILE_SIZE,
+	TextExtractionError,
+	textExtractionService,
+} from '@/lib/services/text-extraction.service';
+import { createLogger } from '@/lib/utils/logger';
+import { exceedsUploadLimit } from '@/lib/utils/upload';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('ExtractTextAPI');
+
+/**
+ * POST /api/ai/extract
+ * Extract plain text from an uploaded document, to review it before generating flashcards
+ *
+ * Request Body (multipart/form-data):
+ * - file (File, required): PDF, DOCX, Markdown or HTML document (max 10 MB)
+ *
+ * Bodies declaring a Content-Length above the file limit are refused before they are read.
+ * The format is detected from the file extension, falling back to the MIME type.
+ * Text is extracted locally: scripts, navigation, headers and footers of HTML pages,
+ * Markdown syntax and PDF page numbers and running headers are removed.
+ * Text longer than the generation limit is truncated and flagged.
+ *
+ * Returns:
+ * - 200: Success with extracted text
+ * - 400: Bad request (invalid form, missing, empty or too large file, unsupported format)
+ * - 401: Unauthorized (no valid session)
+ * - 413: Request body too large
+ * - 422: File could not be read or contains no text
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to extract text from files',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+
+	try {
+		// 1. Refuse oversized bodies, formData() would read them into memory before the size check
+		if (exceedsUploadLimit(request, MAX_SOURCE_FILE_SIZE)) {
+			logger.warn('Request body too large', { userId, contentLength: request.headers.get('Content-Length') });
+			return new Response(
+				JSON.stringify({
+					error: 'Payload too large',
+					details: [{ field: 'file', message: 'File must not exceed 10 MB' }],
+				}),
+				{ status: 413, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Parse multipart form data
+		let formData: FormData;
+		try {
+			formData = await request.formData();
+		} catch (parseError) {
+			logger.error('Failed to parse form data', { userId }, parseError as Error);
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'Invalid form data in request body',
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 3. Validate the uploaded file
+		const file = formData.get('file');
+		if (!(file instanceof File) || file.size === 0) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: 'A non-empty file is required' }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (file.size > MAX_SOURCE_FILE_SIZE) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: 'File must not exceed 10 MB' }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		const format = detectSourceFormat(file.name, file.type);
+
+		if (!format) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: 'Only PDF, DOCX, Markdown and HTML files are supported' }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 4. Extract text
+		const result = await textExtractionService.extractText(file, format);
+
+		// 5. Return success response
+		return new Response(JSON.stringify(result), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle unreadable files and files without text
+		if (error instanceof TextExtractionError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Unprocessable entity',
+					message: error.message,
+				}),
+				{ status: 422, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		logger.error('Unexpected error in POST /api/ai/extract', { userId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while extracting text',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
@@ -0,0 +1,189 @@
+import type { APIRoute } from 'astro';
+import type { GenerateFlashcardsFromUrlCommand, GenerateFlashcardsFromUrlResponseDTO } from '@/types';
+import { GenerateFlashcardsFromUrlSchema } from '@/lib/schemas/generation.schema';
+import { AiGenerationService } from '@/lib/services/ai-generation.service';
+import { getGenerationCache } from '@/lib/services/generation-cache';
+import { generationService } from '@/lib/services/generation.service';
+import {
+	recordFailure,
+	recordOutcome,
+	toGenerationErrorPayload,
+	type GenerationContext,
+} from '@/lib/services/generation-recording';
+import { getLlmProvider } from '@/lib/llm/llm-provider';
+import { UnsafeUrlError, WebPageFetchError, webPageService } from '@/lib/services/web-page.service';
+import { createLogger } from '@/lib/utils/logger';
+import { buildRateLimitHeaders, getGenerationLimits, selectReportedQuota } from '@/lib/utils/rate-limit';
+import { toGenerationSettings } from '@/lib/utils/generation-settings';
+import { MIN_GENERATION_TEXT_LENGTH } from '@/lib/utils/text-chunks';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('GenerateFlashcardsFromUrlAPI');
+
+/**
+ * POST /api/ai/generate-from-url
+ * Generate flashcard suggestions from the main content of a web page
+ *
+ * Request Body:
+ * - url (string, required): Public http(s) URL of the page (max 2048 characters)
+ * - model (string, optional): Model selection, same as POST /api/ai/generate
+ * - card_count, difficulty, card_style, language (optional): Generation settings, same as POST /api/ai/generate
+ * - force (boolean, optional): Generate again instead of reusing cached suggestions of the same page text
+ *
+ * The page is downloaded server-side (max 5 MB, 10 second timeout, up to 5 redirects) and its
+ * main content is extracted with Readability. URLs resolving to loopback, private or link-local
+ * addresses are refused, also after redirects and DNS changes. The text is truncated to
+ * MAX_GENERATION_TEXT_LENGTH and generated like POST /api/ai/generate, the request is recorded in
+ * the generations table.
+ *
+ * Returns:
+ * - 200: Success with suggestions, generation_id and the source page
+ * - 400: Bad request (invalid body, unsupported or private URL)
+ * - 401: Unauthorized (no valid session)
+ * - 422: Page could not be downloaded or has too little text
+ * - 429: Generation quota used up, same as POST /api/ai/generate
+ * - 500/502/503: Generation errors, same as POST /api/ai/generate
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to generate flashcards',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+
+	try {
+		// 1. Parse request body
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'Invalid JSON in request body',
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Validate input with Zod schema
+		const validation = GenerateFlashcardsFromUrlSchema.safeParse(body);
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		const command: GenerateFlashcardsFromUrlCommand = validation.data;
+
+		// 3. Download the page and extract its main content
+		const article = await webPageService.extractArticle(command.url, request.signal);
+
+		if (article.text.length < MIN_GENERATION_TEXT_LENGTH) {
+			logger.warn('Not enough text on web page', { userId, url: article.url, length: article.text.length });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Unprocessable entity',
+					message: `The page contains only ${article.text.length} characters of text, at least ${MIN_GENERATION_TEXT_LENGTH} are needed`,
+				}),
+				{ status: 422, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		const aiService = new AiGenerationService(getLlmProvider(), getGenerationCache());
+		const model = aiService.resolveModel(command.model);
+
+		// 4. Record the generation request within the user's quotas
+		const { generationId, quotas } = await generationService.createGeneration(
+			locals.supabase,
+			userId,
+			model,
+			article.text,
+			getGenerationLimits()
+		);
+		const generation: GenerationContext = {
+			supabase: locals.supabase,
+			userId,
+			generationId,
+			model,
+			sourceTextLength: article.text.length,
+			startedAt: Date.now(),
+		};
+
+		// 5. Call AI Generation Service
+		let result: Awaited<ReturnType<AiGenerationService['generateFlashcards']>>;
+		try {
+			result = await aiService.generateFlashcards(article.text, command.model, userId, {
+				force: command.force,
+				settings: toGenerationSettings(command),
+			});
+		} catch (error) {
+			await recordFailure(generation, error, 0);
+			throw error;
+		}
+
+		await recordOutcome(generation, {
+			model: result.model_used,
+			suggestionsCount: result.suggestions.length,
+			tokensUsed: result.tokens_used,
+		});
+
+		// 6. Return success response
+		const response: GenerateFlashcardsFromUrlResponseDTO = {
+			...result,
+			generation_id: generation.generationId,
+			source: { url: article.url, title: article.title, truncated: article.truncated },
+		};
+
+		return new Response(JSON.stringify(response), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json', ...buildRateLimitHeaders(selectReportedQuota(quotas)) },
+		});
+	} catch (error) {
+		// Handle URLs that are not allowed
+		if (error instanceof UnsafeUrlError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'url', message: error.message }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle pages that cannot be downloaded or read
+		if (error instanceof WebPageFetchError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Unprocessable entity',
+					message: error.message,
+				}),
+				{ status: 422, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Map generation errors to status codes
+		const { status, body, headers } = toGenerationErrorPayload(error);
+
+		return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+	}
+};
@@ -1,7 +1,22 @@
 import type {APIRoute} from 'astro';
 import {z} from 'zod';
-import type {GenerateFlashcardsCommand, GenerateFlashcardsResponseDTO} from '@/types';
+import type {GenerateFlashcardsCommand, GenerateFlashcardsResponseDTO, GenerateFlashcardsStreamEvent} from '@/types';
 import {AiGenerationService} from '@/lib/services/ai-generation.service';
+import {getGenerationCache} from '@/lib/services/generation-cache';
+import {generationService} from '@/lib/services/generation.service';
+import {
+    recordFailure,
+    recordOutcome,
+    recordStreamOutcome,
+    toGenerationErrorPayload,
+    type GenerationContext,
+} from '@/lib/services/generation-recording';
+import {GenerationModelSchema, GenerationSettingsSchema} from '@/lib/schemas/generation.schema';
+import {getLlmProvider} from '@/lib/llm/llm-provider';
+import {buildRateLimitHeaders, getGenerationLimits, selectReportedQuota} from '@/lib/utils/rate-limit';
+import {toGenerationSettings} from '@/lib/utils/generation-settings';
+import {formatSseEvent} from '@/lib/utils/sse';
+import {MAX_GENERATION_TEXT_LENGTH, MIN_GENERATION_TEXT_LENGTH} from '@/lib/utils/text-chunks';
 
 // Disable prerendering for this API route (SSR only)
 export const prerender = false;
@@ -9,19 +24,46 @@ export const prerender = false;
 /**
  * Zod validation schema for flashcard generation request
  */
-const GenerateFlashcardsSchema = z.object({
+const GenerateFlashcardsSchema = GenerationSettingsSchema.extend({
     text: z
         .string()
-        .min(1000, 'Text must be at least 1000 characters')
-        .max(10000, 'Text must not exceed 10000 characters')
+        .min(MIN_GENERATION_TEXT_LENGTH, `Text must be at least ${MIN_GENERATION_TEXT_LENGTH} characters`)
+        .max(MAX_GENERATION_TEXT_LENGTH, `Text must not exceed ${MAX_GENERATION_TEXT_LENGTH} characters`)
         .trim()
         .refine((val) => val.length > 0, 'Text cannot be empty'),
-    model: z.string().optional(),
+    model: GenerationModelSchema,
+    stream: z.boolean().optional(),
+    force: z.boolean().optional(),
 });
 
 /**
  * POST /api/ai/generate
  * Generate flashcard suggestions from user-provided text using AI
+ *
+ * Every request is recorded in the generations table, the returned generation_id links the
+ * suggestions saved through POST /api/flashcards/batch to it. The generation is recorded before
+ * the model is called, when that fails the request is refused with 503.
+ *
+ * Texts over MAX_CHUNK_LENGTH (10000) characters are split into chunks at paragraph and heading boundaries and
+ * generated with bounded concurrency, duplicates across chunks are dropped.
+ *
+ * With `stream: true` the response is a Server-Sent Events stream: a `start` event with the
+ * generation_id, one `suggestion` event per flashcard as soon as the model completes it, then a
+ * `done` event with the metadata. Long texts also get a `progress` event per finished chunk.
+ * Errors before the first event use the regular status codes, later errors are sent as an
+ * `error` event.
+ * Closing the connection cancels the generation.
+ *
+ * Optional settings choose the number (card_count, 1-30), difficulty, style and language of the
+ * flashcards, they are part of the prompt and of the response schema sent to the model.
+ *
+ * Requests are limited per user (AI_QUOTA_* in the environment). Responses carry X-RateLimit-*
+ * headers of the quota closest to its limit, used up quotas are refused with 429 and Retry-After.
+ *
+ * Results are cached for AI_CACHE_TTL_SECONDS (default 24 hours) by text, ignoring whitespace
+ * differences, model and prompt version. Identical requests get the cached suggestions with
+ * `cached: true` and no tokens used, they are still recorded and count towards the request quotas.
+ * `force: true` skips the cache and generates again.
  */
 export const POST: APIRoute = async ({request, locals}) => {
     // Check authentication
@@ -70,75 +112,106 @@ export const POST: APIRoute = async ({request, locals}) => {
         }
 
         const command: GenerateFlashcardsCommand = validation.data;
+        const options = {force: command.force, settings: toGenerationSettings(command)};
+        const aiService = new AiGenerationService(getLlmProvider(), getGenerationCache());
+        const model = aiService.resolveModel(command.model);
 
-        // 3. Call AI Generation Service
-        const aiService = new AiGenerationService();
-        const result: GenerateFlashcardsResponseDTO = await aiService.generateFlashcards(
+        // 3. Record the generation request within the user's quotas
+        const {generationId, quotas} = await generationService.createGeneration(
+            locals.supabase,
+            userId,
+            model,
             command.text,
-            command.model,
-            userId
+            getGenerationLimits()
         );
+        const rateLimitHeaders = buildRateLimitHeaders(selectReportedQuota(quotas));
+        const generation: GenerationContext = {
+            supabase: locals.supabase,
+            userId,
+            generationId,
+            model,
+            sourceTextLength: command.text.length,
+            startedAt: Date.now(),
+        };
 
-        // 4. Return success response
-        return new Response(JSON.stringify(result), {
+        // 4a. Stream suggestions as Server-Sent Events
+        if (command.stream) {
+            const events = recordStreamOutcome(
+                aiService.streamFlashcards(command.text, command.model, userId, request.signal, options),
+                generation
+            );
+
+            // Wait for the first event so early failures still get a proper status code
+            const first = await events.next();
+            const encoder = new TextEncoder();
+            const encodeEvent = ({type, ...data}: GenerateFlashcardsStreamEvent) =>
+                encoder.encode(formatSseEvent(type, data));
+
+            const stream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(encodeEvent({type: 'start', generation_id: generation.generationId}));
+                    if (first.done) {
+                        controller.close();
+                    } else {
+                        controller.enqueue(encodeEvent(first.value));
+                    }
+                },
+                async pull(controller) {
+                    try {
+                        const {value, done} = await events.next();
+                        if (done) {
+                            controller.close();
+                        } else {
+                            controller.enqueue(encodeEvent(value));
+                        }
+                    } catch (error) {
+                        controller.enqueue(encodeEvent({type: 'error', ...toGenerationErrorPayload(error).body}));
+                        controller.close();
+                    }
+                },
+                async cancel() {
+                    await events.return(undefined);
+                },
+            });
+
+            return new Response(stream, {
+                status: 200,
+                headers: {
+                    'Content-Type': 'text/event-stream',
+                    'Cache-Control': 'no-cache',
+                    Connection: 'keep-alive',
+                    'X-Accel-Buffering': 'no',
+                    ...rateLimitHeaders,
+                },
+            });
+        }
+
+        // 4b. Call AI Generation Service
+        let result: Awaited<ReturnType<AiGenerationService['generateFlashcards']>>;
+        try {
+            result = await aiService.generateFlashcards(command.text, command.model, userId, options);
+        } catch (error) {
+            await recordFailure(generation, error, 0);
+            throw error;
+        }
+
+        await recordOutcome(generation, {
+            model: result.model_used,
+            suggestionsCount: result.suggestions.length,
+            tokensUsed: result.tokens_used,
+        });
+
+        // 5. Return success response
+        const response: GenerateFlashcardsResponseDTO = {...result, generation_id: generation.generationId};
+
+        return new Response(JSON.stringify(response), {
             status: 200,
-            headers: {'Content-Type': 'application/json'},
+            headers: {'Content-Type': 'application/json', ...rateLimitHeaders},
         });
     } catch (error) {
-        // Check for specific error types from service
-        if (error instanceof Error) {
-            // Handle timeout errors
-            if (error.name === 'TimeoutError' || error.message.includes('timeout')) {
-                return new Response(
-                    JSON.stringify({
-                        error: 'Gateway timeout',
-                        message: 'AI service timeout. Please try again.',
-                    }),
-                    {status: 502, headers: {'Content-Type': 'application/json'}}
-                );
-            }
-
-            // Handle LLM API errors
-            if (error.name === 'GatewayError') {
-                return new Response(
-                    JSON.stringify({
-                        error: 'Bad Gateway',
-                        message: 'AI generation service returned an error. Please try again.',
-                    }),
-                    {status: 502, headers: {'Content-Type': 'application/json'}}
-                );
-            }
-
-            // Handle service unavailable
-            if (error.name === 'ServiceUnavailableError') {
-                return new Response(
-                    JSON.stringify({
-                        error: 'Service unavailable',
-                        message: 'AI generation service temporarily unavailable',
-                        retry_after: 60,
-                    }),
-                    {status: 503, headers: {'Content-Type': 'application/json'}}
-                );
-            }
-
-            // Handle no suggestions error
-            if (error.name === 'NoSuggestionsError') {
-                return new Response(
-                    JSON.stringify({
-                        error: 'No suggestions generated',
-                        message: 'Could not generate valid flashcards from the provided text. Please try different text.',
-                    }),
-                    {status: 500, headers: {'Content-Type': 'application/json'}}
-                );
-            }
-        }
+        // Map service errors to status codes
+        const {status, body, headers} = toGenerationErrorPayload(error);
 
-        return new Response(
-            JSON.stringify({
-                error: 'Internal server error',
-                message: 'An unexpected error occurred during flashcard generation',
-            }),
-            {status: 500, headers: {'Content-Type': 'application/json'}}
-        );
+        return new Response(JSON.stringify(body), {status, headers: {'Content-Type': 'application/json', ...headers}});
     }
 };
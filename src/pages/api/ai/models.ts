@@ -0,0 +1,77 @@
+import type { APIRoute } from 'astro';
+import type { AiModelListResponseDTO } from '@/types';
+import { getLlmProvider, LlmConfigurationError } from '@/lib/llm/llm-provider';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('AiModelsAPI');
+
+/**
+ * GET /api/ai/models
+ * Models of the configured LLM provider that can be selected for AI generation
+ *
+ * POST /api/ai/generate and POST /api/ai/generate-from-url reject any other model.
+ *
+ * Returns:
+ * - 200: Success with the model catalog and the default model
+ * - 401: Unauthorized (no valid session)
+ * - 500: Internal server error (LLM provider misconfigured)
+ */
+export const GET: APIRoute = async ({ locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to list AI models',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	try {
+		// 1. Load the catalog of the configured provider
+		const provider = getLlmProvider();
+
+		const result: AiModelListResponseDTO = {
+			data: provider.models.map((model) => ({
+				id: model.id,
+				label: model.label,
+				context_window: model.contextWindow,
+				input_cost_per_token: model.inputCostPerToken,
+				output_cost_per_token: model.outputCostPerToken,
+			})),
+			default_model: provider.defaultModel,
+		};
+
+		// 2. Return success response
+		return new Response(JSON.stringify(result), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		if (error instanceof LlmConfigurationError) {
+			logger.error('LLM provider is misconfigured', { userId: locals.user.id }, error);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'AI generation is not configured',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		logger.error('Unexpected error in GET /api/ai/models', { userId: locals.user.id }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while listing AI models',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
@@ -0,0 +1,247 @@
+import type { APIRoute } from 'astro';
+import { UpdateDeckSchema } from '@/lib/schemas/deck.schema';
+import { deckService, DeckConflictError, DeckNotFoundError } from '@/lib/services/deck.service';
+import { DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('DeckDetailAPI');
+
+/**
+ * PUT /api/decks/:id
+ * Rename or update the description of a deck
+ *
+ * Path Parameters:
+ * - id (string): Deck ID
+ *
+ * Request Body:
+ * - name (string, optional): Updated deck name
+ * - description (string | null, optional): Updated description, null clears it
+ * - At least one field must be provided
+ *
+ * Returns:
+ * - 200: Success with updated deck
+ * - 400: Bad request (invalid input)
+ * - 401: Unauthorized (no valid session)
+ * - 404: Deck not found
+ * - 409: Conflict (deck with this name already exists)
+ * - 500: Internal server error
+ */
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to update decks',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+	const deckId = params.id;
+
+	// Validate deck ID
+	if (!deckId) {
+		logger.warn('Missing deck ID in PUT request', { userId });
+		return new Response(
+			JSON.stringify({
+				error: 'Bad request',
+				message: 'Deck ID is required',
+			}),
+			{ status: 400, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	try {
+		// 1. Parse request body
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch (parseError) {
+			logger.error('Failed to parse request body', { userId, deckId }, parseError as Error);
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'Invalid JSON in request body',
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Validate request body with Zod schema
+		const validation = UpdateDeckSchema.safeParse(body);
+
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Deck update validation failed', { userId, deckId, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 3. Call service to update deck
+		const deck = await deckService.updateDeck(supabase, userId, deckId, validation.data);
+
+		// 4. Return success response
+		return new Response(JSON.stringify(deck), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle deck not found error
+		if (error instanceof DeckNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle duplicate deck name
+		if (error instanceof DeckConflictError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Conflict',
+					message: error.message,
+				}),
+				{ status: 409, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle known service errors
+		if (error instanceof DatabaseQueryError) {
+			logger.error(
+				'Database query failed',
+				{ userId, deckId },
+				error.originalError instanceof Error
+					? error.originalError
+					: new Error(String(error.originalError))
+			);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to update deck',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle unexpected errors
+		logger.error('Unexpected error in PUT /api/decks/:id', { userId, deckId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while updating deck',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
+
+/**
+ * DELETE /api/decks/:id
+ * Delete a deck, its flashcards are kept without a deck
+ *
+ * Path Parameters:
+ * - id (string): Deck ID
+ *
+ * Returns:
+ * - 204: Success (no content)
+ * - 401: Unauthorized (no valid session)
+ * - 404: Deck not found
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to delete decks',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+	const deckId = params.id;
+
+	// Validate deck ID
+	if (!deckId) {
+		logger.warn('Missing deck ID in DELETE request', { userId });
+		return new Response(
+			JSON.stringify({
+				error: 'Bad request',
+				message: 'Deck ID is required',
+			}),
+			{ status: 400, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	try {
+		await deckService.deleteDeck(supabase, userId, deckId);
+
+		// Return success response (204 No Content)
+		return new Response(null, { status: 204 });
+	} catch (error) {
+		// Handle deck not found error
+		if (error instanceof DeckNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle known service errors
+		if (error instanceof DatabaseQueryError) {
+			logger.error(
+				'Database query failed',
+				{ userId, deckId },
+				error.originalError instanceof Error
+					? error.originalError
+					: new Error(String(error.originalError))
+			);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to delete deck',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle unexpected errors
+		logger.error('Unexpected error in DELETE /api/decks/:id', { userId, deckId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while deleting deck',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
@@ -0,0 +1,191 @@
+import type { APIRoute } from 'astro';
+import { CreateDeckSchema } from '@/lib/schemas/deck.schema';
+import { deckService, DeckConflictError } from '@/lib/services/deck.service';
+import { DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('DecksListAPI');
+
+/**
+ * GET /api/decks
+ * Retrieve all decks of the authenticated user with flashcard counts
+ *
+ * Returns:
+ * - 200: Success with deck list
+ * - 401: Unauthorized (no valid session)
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to view decks',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+
+	try {
+		const result = await deckService.getDecks(supabase, userId);
+
+		return new Response(JSON.stringify(result), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle known service errors
+		if (error instanceof DatabaseQueryError) {
+			logger.error(
+				'Database query failed',
+				{ userId },
+				error.originalError instanceof Error
+					? error.originalError
+					: new Error(String(error.originalError))
+			);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to retrieve decks',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle unexpected errors
+		logger.error('Unexpected error in GET /api/decks', { userId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while retrieving decks',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
+
+/**
+ * POST /api/decks
+ * Create a new deck
+ *
+ * Request Body:
+ * - name (string, required): Deck name, unique per user (1-100 characters)
+ * - description (string, optional): Deck description (up to 500 characters)
+ *
+ * Returns:
+ * - 201: Success with created deck
+ * - 400: Bad request (validation failed)
+ * - 401: Unauthorized (no valid session)
+ * - 409: Conflict (deck with this name already exists)
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to create decks',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+
+	try {
+		// 1. Parse request body
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch (parseError) {
+			logger.error('Failed to parse request body', { userId }, parseError as Error);
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'Invalid JSON in request body',
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Validate input with Zod schema
+		const validation = CreateDeckSchema.safeParse(body);
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Validation failed for deck creation', { userId, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 3. Call service to create deck
+		const deck = await deckService.createDeck(supabase, userId, validation.data);
+
+		// 4. Return success response
+		return new Response(JSON.stringify(deck), {
+			status: 201,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle duplicate deck name
+		if (error instanceof DeckConflictError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Conflict',
+					message: error.message,
+				}),
+				{ status: 409, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle known service errors
+		if (error instanceof DatabaseQueryError) {
+			logger.error(
+				'Database query failed',
+				{ userId },
+				error.originalError instanceof Error
+					? error.originalError
+					: new Error(String(error.originalError))
+			);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to create deck',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle unexpected errors
+		logger.error('Unexpected error in POST /api/decks', { userId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while creating deck',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
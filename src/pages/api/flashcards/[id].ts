@@ -4,6 +4,7 @@ import {
 	flashcardService,
 	DatabaseQueryError,
 	FlashcardNotFoundError,
+	InvalidFlashcardContentError,
 } from '@/lib/services/flashcard.service';
 import { createLogger } from '@/lib/utils/logger';
 
@@ -22,11 +23,13 @@ const logger = createLogger('FlashcardDetailAPI');
  * Request Body:
  * - front (string, optional): Updated front content
  * - back (string, optional): Updated back content
+ * - card_type (string, optional): Updated card type ('basic' | 'cloze')
+ * - tags (string[], optional): Replaces all tags of the flashcard
  * - At least one field must be provided
  *
  * Returns:
  * - 200: Success with updated flashcard
- * - 400: Bad request (invalid input)
+ * - 400: Bad request (invalid input, or content not valid for the card type)
  * - 401: Unauthorized (no valid session)
  * - 404: Flashcard not found
  * - 500: Internal server error
@@ -118,6 +121,17 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
 			);
 		}
 
+		// Handle content not valid for the card type of the updated flashcard
+		if (error instanceof InvalidFlashcardContentError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: error.field, message: error.message }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
 		// Handle known service errors
 		if (error instanceof DatabaseQueryError) {
 			logger.error(
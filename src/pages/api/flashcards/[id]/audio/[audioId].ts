@@ -0,0 +1,97 @@
+import type { APIRoute } from 'astro';
+import { DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { FlashcardAudioNotFoundError, flashcardAudioService } from '@/lib/services/flashcard-audio.service';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('FlashcardAudioDetailAPI');
+
+/**
+ * DELETE /api/flashcards/:id/audio/:audioId
+ * Remove an uploaded audio clip from a flashcard, the stored file is deleted as well
+ *
+ * Path Parameters:
+ * - id (string): Flashcard ID
+ * - audioId (string): Audio clip ID
+ *
+ * Returns:
+ * - 204: Success (no content)
+ * - 400: Bad request (missing IDs)
+ * - 401: Unauthorized (no valid session)
+ * - 404: Uploaded clip not found
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to remove audio',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+	const { id: flashcardId, audioId } = params;
+
+	// Validate path parameters
+	if (!flashcardId || !audioId) {
+		logger.warn('Missing IDs in audio DELETE request', { userId });
+		return new Response(
+			JSON.stringify({
+				error: 'Bad request',
+				message: 'Flashcard ID and audio clip ID are required',
+			}),
+			{ status: 400, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	try {
+		await flashcardAudioService.deleteAudio(supabase, userId, flashcardId, audioId);
+
+		// Return success response (204 No Content)
+		return new Response(null, { status: 204 });
+	} catch (error) {
+		// Handle audio clip not found error
+		if (error instanceof FlashcardAudioNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (error instanceof DatabaseQueryError) {
+			logger.error('Database query failed', { userId, flashcardId, audioId }, error);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to remove audio',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		logger.error(
+			'Unexpected error in DELETE /api/flashcards/:id/audio/:audioId',
+			{ userId, flashcardId, audioId },
+			error as Error
+		);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while removing audio',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
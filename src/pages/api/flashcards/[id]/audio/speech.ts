@@ -0,0 +1,176 @@
+import type { APIRoute } from 'astro';
+import { SynthesizeSpeechSchema } from '@/lib/schemas/flashcard.schema';
+import { DatabaseQueryError, FlashcardNotFoundError } from '@/lib/services/flashcard.service';
+import { flashcardAudioService, SpeechUnavailableError } from '@/lib/services/flashcard-audio.service';
+import { InvalidMediaError } from '@/lib/services/flashcard-media.service';
+import { MediaStorageError } from '@/lib/services/media-storage';
+import { TtsProviderError } from '@/lib/tts/tts-provider';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('FlashcardSpeechAPI');
+
+/**
+ * POST /api/flashcards/:id/audio/speech
+ * Read the text of a flashcard side aloud with the configured text-to-speech provider
+ *
+ * Path Parameters:
+ * - id (string): Flashcard ID
+ *
+ * Request Body:
+ * - side (string, required): 'front' | 'back'
+ *
+ * The clip is synthesized on the first request and cached in the flashcard-media bucket, later
+ * requests return the cached clip until the text or the voice changes.
+ *
+ * Returns:
+ * - 200: Success with the synthesized clip
+ * - 400: Bad request (invalid JSON, invalid side, side without text)
+ * - 401: Unauthorized (no valid session)
+ * - 404: Flashcard not found
+ * - 500: Internal server error
+ * - 502: Text-to-speech provider error
+ * - 503: Text-to-speech is not enabled (TTS_PROVIDER not set)
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to play audio',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+	const flashcardId = params.id;
+
+	// Validate flashcard ID
+	if (!flashcardId) {
+		logger.warn('Missing flashcard ID in speech request', { userId });
+		return new Response(
+			JSON.stringify({
+				error: 'Bad request',
+				message: 'Flashcard ID is required',
+			}),
+			{ status: 400, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	try {
+		// 1. Parse request body
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch (parseError) {
+			logger.error('Failed to parse request body', { userId, flashcardId }, parseError as Error);
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'Invalid JSON in request body',
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Validate input with Zod schema
+		const validation = SynthesizeSpeechSchema.safeParse(body);
+
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Validation failed for speech request', { userId, flashcardId, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 3. Return the cached clip or synthesize a new one
+		const audio = await flashcardAudioService.synthesizeSpeech(supabase, userId, flashcardId, validation.data.side);
+
+		// 4. Return success response
+		return new Response(JSON.stringify(audio), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle flashcard not found error
+		if (error instanceof FlashcardNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle sides without text
+		if (error instanceof InvalidMediaError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'side', message: error.message }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (error instanceof SpeechUnavailableError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Service unavailable',
+					message: error.message,
+				}),
+				{ status: 503, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (error instanceof TtsProviderError) {
+			logger.error('Text-to-speech provider failed', { userId, flashcardId }, error);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Bad Gateway',
+					message: 'Text-to-speech service returned an error. Please try again.',
+				}),
+				{ status: 502, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (error instanceof DatabaseQueryError || error instanceof MediaStorageError) {
+			logger.error('Failed to synthesize speech', { userId, flashcardId }, error);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to synthesize speech',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		logger.error('Unexpected error in POST /api/flashcards/:id/audio/speech', { userId, flashcardId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while synthesizing speech',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
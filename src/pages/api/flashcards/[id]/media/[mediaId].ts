@@ -0,0 +1,97 @@
+import type { APIRoute } from 'astro';
+import { DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { FlashcardMediaNotFoundError, flashcardMediaService } from '@/lib/services/flashcard-media.service';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('FlashcardMediaDetailAPI');
+
+/**
+ * DELETE /api/flashcards/:id/media/:mediaId
+ * Remove an image from a flashcard, the stored file is deleted as well
+ *
+ * Path Parameters:
+ * - id (string): Flashcard ID
+ * - mediaId (string): Attachment ID
+ *
+ * Returns:
+ * - 204: Success (no content)
+ * - 400: Bad request (missing IDs)
+ * - 401: Unauthorized (no valid session)
+ * - 404: Attachment not found
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to remove images',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+	const { id: flashcardId, mediaId } = params;
+
+	// Validate path parameters
+	if (!flashcardId || !mediaId) {
+		logger.warn('Missing IDs in media DELETE request', { userId });
+		return new Response(
+			JSON.stringify({
+				error: 'Bad request',
+				message: 'Flashcard ID and attachment ID are required',
+			}),
+			{ status: 400, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	try {
+		await flashcardMediaService.deleteMedia(supabase, userId, flashcardId, mediaId);
+
+		// Return success response (204 No Content)
+		return new Response(null, { status: 204 });
+	} catch (error) {
+		// Handle attachment not found error
+		if (error instanceof FlashcardMediaNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (error instanceof DatabaseQueryError) {
+			logger.error('Database query failed', { userId, flashcardId, mediaId }, error);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to remove image',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		logger.error(
+			'Unexpected error in DELETE /api/flashcards/:id/media/:mediaId',
+			{ userId, flashcardId, mediaId },
+			error as Error
+		);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while removing image',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
@@ -0,0 +1,199 @@
+import type { APIRoute } from 'astro';
+import { UploadFlashcardMediaSchema } from '@/lib/schemas/flashcard.schema';
+import { DatabaseQueryError, FlashcardNotFoundError } from '@/lib/services/flashcard.service';
+import { flashcardMediaService, InvalidMediaError } from '@/lib/services/flashcard-media.service';
+import { MediaStorageError } from '@/lib/services/media-storage';
+import { MAX_IMAGE_SIZE } from '@/lib/utils/media';
+import { createLogger } from '@/lib/utils/logger';
+import { exceedsUploadLimit } from '@/lib/utils/upload';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('FlashcardMediaAPI');
+
+/**
+ * POST /api/flashcards/:id/media
+ * Attach an image to the front or back of a flashcard
+ *
+ * Path Parameters:
+ * - id (string): Flashcard ID
+ *
+ * Request Body (multipart/form-data):
+ * - file (File, required): PNG, JPEG, WebP or GIF image (max 5 MB)
+ * - side (string, required): 'front' | 'back'
+ *
+ * The format is detected from the file content, a side can have at most 4 images.
+ * Files are stored in the private flashcard-media bucket and returned with a signed URL.
+ * Bodies declaring a Content-Length above the file limit are refused before they are read.
+ *
+ * Returns:
+ * - 201: Success with the attached media
+ * - 400: Bad request (invalid form, missing, empty, too large or unsupported file, side full)
+ * - 401: Unauthorized (no valid session)
+ * - 404: Flashcard not found
+ * - 413: Request body too large
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to attach images',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+	const flashcardId = params.id;
+
+	// Validate flashcard ID
+	if (!flashcardId) {
+		logger.warn('Missing flashcard ID in media upload', { userId });
+		return new Response(
+			JSON.stringify({
+				error: 'Bad request',
+				message: 'Flashcard ID is required',
+			}),
+			{ status: 400, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	try {
+		// 1. Refuse oversized bodies, formData() would read them into memory before the size check
+		if (exceedsUploadLimit(request, MAX_IMAGE_SIZE)) {
+			logger.warn('Request body too large', {
+				userId,
+				flashcardId,
+				contentLength: request.headers.get('Content-Length'),
+			});
+			return new Response(
+				JSON.stringify({
+					error: 'Payload too large',
+					details: [{ field: 'file', message: 'Image must not exceed 5 MB' }],
+				}),
+				{ status: 413, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Parse multipart form data
+		let formData: FormData;
+		try {
+			formData = await request.formData();
+		} catch (parseError) {
+			logger.error('Failed to parse form data', { userId, flashcardId }, parseError as Error);
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'Invalid form data in request body',
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 3. Validate the uploaded file
+		const file = formData.get('file');
+		if (!(file instanceof File) || file.size === 0) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: 'A non-empty file is required' }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (file.size > MAX_IMAGE_SIZE) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: 'Image must not exceed 5 MB' }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 4. Validate form fields with Zod schema
+		const validation = UploadFlashcardMediaSchema.safeParse({ side: formData.get('side') });
+
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Validation failed for media upload', { userId, flashcardId, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 5. Store the image and record the attachment
+		const media = await flashcardMediaService.uploadMedia(
+			supabase,
+			userId,
+			flashcardId,
+			validation.data.side,
+			file
+		);
+
+		// 6. Return success response
+		return new Response(JSON.stringify(media), {
+			status: 201,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle flashcard not found error
+		if (error instanceof FlashcardNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle unsupported file content and full sides
+		if (error instanceof InvalidMediaError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: error.message }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (error instanceof DatabaseQueryError || error instanceof MediaStorageError) {
+			logger.error('Failed to attach image', { userId, flashcardId }, error);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to attach image',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		logger.error('Unexpected error in POST /api/flashcards/:id/media', { userId, flashcardId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while attaching image',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
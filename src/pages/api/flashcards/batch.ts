@@ -4,7 +4,11 @@ import type {
 	BatchCreateFlashcardCommand,
 	BatchCreateFlashcardResponseDTO,
 	FlashcardDTO,
+	FlashcardSource,
 } from '@/types';
+import { FlashcardContentSchema, refineFlashcardContent, TagListSchema } from '@/lib/schemas/flashcard.schema';
+import { deckService, DeckNotFoundError } from '@/lib/services/deck.service';
+import { generationService, GenerationNotFoundError } from '@/lib/services/generation.service';
 import { createLogger } from '@/lib/utils/logger';
 
 // Disable prerendering for this API route (SSR only)
@@ -15,32 +19,31 @@ const logger = createLogger('BatchFlashcardsAPI');
 /**
  * Zod validation schema for batch flashcard creation
  */
-const FlashcardSchema = z.object({
-	front: z
-		.string()
-		.min(1, 'Front must be at least 1 character')
-		.max(1000, 'Front must not exceed 1000 characters')
-		.trim(),
-	back: z
-		.string()
-		.min(1, 'Back must be at least 1 character')
-		.max(1000, 'Back must not exceed 1000 characters')
-		.trim(),
+const FlashcardSchema = FlashcardContentSchema.extend({
 	source: z.enum(['manual', 'ai_generated'], {
 		errorMap: () => ({ message: 'Source must be either "manual" or "ai_generated"' }),
 	}),
-});
+	deck_id: z.string().uuid('Deck ID must be a valid UUID').nullish(),
+	tags: TagListSchema.optional(),
+	edited: z.boolean().optional(),
+}).superRefine(refineFlashcardContent);
 
 const BatchCreateFlashcardSchema = z.object({
 	flashcards: z
 		.array(FlashcardSchema)
 		.min(1, 'At least one flashcard is required')
 		.max(50, 'Maximum 50 flashcards per batch'),
+	deck_id: z.string().uuid('Deck ID must be a valid UUID').nullish(),
+	generation_id: z.string().uuid('Generation ID must be a valid UUID').nullish(),
 });
 
 /**
  * POST /api/flashcards/batch
  * Create multiple flashcards at once (for AI-generated acceptance)
+ * Flashcards are saved together with their tags by create_flashcards(), all or none; initial
+ * study_progress rows are created by a database trigger in the same transaction.
+ * With generation_id, AI-generated flashcards are linked to their generation and counted as
+ * accepted (and edited, when marked as such) in the generation history.
  */
 export const POST: APIRoute = async ({ request, locals }) => {
 	// Check authentication
@@ -94,19 +97,35 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
 		const command: BatchCreateFlashcardCommand = validation.data;
 
-		// 3. Prepare flashcards for insertion
+		// 3. Prepare flashcards for insertion (batch-level deck applies to cards without their own)
+		const generationId = command.generation_id ?? null;
 		const flashcardsToInsert = command.flashcards.map((flashcard) => ({
 			front: flashcard.front,
 			back: flashcard.back,
+			card_type: flashcard.card_type,
 			source: flashcard.source,
-			user_id: userId,
+			deck_id: flashcard.deck_id ?? command.deck_id ?? null,
+			generation_id: flashcard.source === 'ai_generated' ? generationId : null,
+			tags: flashcard.tags ?? [],
 		}));
 
-		// 4. Insert flashcards into database
+		// 4. Verify every target deck belongs to the user
+		const deckIds = new Set(
+			flashcardsToInsert.map((flashcard) => flashcard.deck_id).filter((id): id is string => !!id)
+		);
+		for (const deckId of deckIds) {
+			await deckService.assertDeckOwnership(supabase, userId, deckId);
+		}
+
+		// 4b. Verify the generation belongs to the user
+		if (generationId) {
+			await generationService.assertGenerationOwnership(supabase, userId, generationId);
+		}
+
+		// 5. Insert flashcards and their tags into database
 		const { data, error } = await supabase
-			.from('flashcards')
-			.insert(flashcardsToInsert)
-			.select('id, front, back, source, created_at, updated_at');
+			.rpc('create_flashcards', { p_user_id: userId, p_flashcards: flashcardsToInsert })
+			.select('id, front, back, card_type, source, deck_id, created_at, updated_at');
 
 		if (error) {
 			logger.error('Failed to insert flashcards', { userId, count: flashcardsToInsert.length }, error);
@@ -143,16 +162,35 @@ export const POST: APIRoute = async ({ request, locals }) => {
 			);
 		}
 
-		// 5. Build response
-		const flashcards: FlashcardDTO[] = data.map((row) => ({
+		// 6. Build DTOs (inserted rows are returned in request order)
+		const flashcards: FlashcardDTO[] = data.map((row, index) => ({
 			id: row.id,
 			front: row.front,
 			back: row.back,
-			source: row.source as 'manual' | 'ai_generated',
+			card_type: row.card_type,
+			source: row.source as FlashcardSource,
+			deck_id: row.deck_id,
+			tags: flashcardsToInsert[index]?.tags ?? [],
+			media: [],
+			audio: [],
 			created_at: row.created_at,
 			updated_at: row.updated_at,
 		}));
 
+		// 7. Record accepted suggestions in the generation history
+		const accepted = command.flashcards.filter((flashcard) => flashcard.source === 'ai_generated');
+		if (generationId && accepted.length > 0) {
+			const edited = accepted.filter((flashcard) => flashcard.edited).length;
+
+			try {
+				await generationService.recordAcceptance(supabase, generationId, accepted.length, edited);
+			} catch (recordError) {
+				// Flashcards are saved, a missing metric must not fail the request
+				logger.error('Failed to record accepted suggestions', { userId, generationId }, recordError as Error);
+			}
+		}
+
+		// 8. Build response
 		const response: BatchCreateFlashcardResponseDTO = {
 			created: flashcards.length,
 			flashcards,
@@ -163,12 +201,34 @@ export const POST: APIRoute = async ({ request, locals }) => {
 			created: flashcards.length,
 		});
 
-		// 6. Return success response
+		// 9. Return success response
 		return new Response(JSON.stringify(response), {
 			status: 201,
 			headers: { 'Content-Type': 'application/json' },
 		});
 	} catch (error) {
+		// Handle deck not found error
+		if (error instanceof DeckNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle generation not found error
+		if (error instanceof GenerationNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
 		logger.error('Unexpected error in batch create', { userId }, error as Error);
 
 		return new Response(
@@ -0,0 +1,157 @@
+import type { APIRoute } from 'astro';
+import { ExportFlashcardsQuerySchema } from '@/lib/schemas/flashcard.schema';
+import { DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { EXPORT_FORMATS, flashcardExportService } from '@/lib/services/flashcard-export.service';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('FlashcardExportAPI');
+
+/**
+ * GET /api/flashcards/export
+ * Download all flashcards of the authenticated user as a file
+ *
+ * Query Parameters:
+ * - format (string, default: 'csv'): File format ('csv' | 'tsv' | 'json' | 'anki-txt')
+ * - source, deck_id, tags, q, sort, order: Same filters as GET /api/flashcards
+ *
+ * The file is streamed in chunks, so large collections are not held in memory.
+ * 'anki-txt' is a tab-separated Anki text import with file headers (HTML fields,
+ * tags in column 3, deck name in column 4).
+ *
+ * Returns:
+ * - 200: File download (Content-Disposition: attachment)
+ * - 400: Bad request (invalid query parameters)
+ * - 401: Unauthorized (no valid session)
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to export flashcards',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+
+	try {
+		// 1. Extract query parameters from URL
+		const searchParams = url.searchParams;
+		const rawParams = {
+			format: searchParams.get('format'),
+			source: searchParams.get('source'),
+			deck_id: searchParams.get('deck_id'),
+			tags: searchParams.get('tags'),
+			q: searchParams.get('q'),
+			sort: searchParams.get('sort'),
+			order: searchParams.get('order'),
+		};
+
+		// 2. Validate query parameters with Zod schema
+		const validation = ExportFlashcardsQuerySchema.safeParse(rawParams);
+
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Query parameter validation failed', { userId, rawParams, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		const queryParams = validation.data;
+
+		logger.info('Processing flashcard export request', { userId, queryParams });
+
+		// 3. Start the export, the first chunk is awaited so database errors still produce an error response
+		const chunks = flashcardExportService.exportFlashcards(supabase, userId, queryParams);
+		const first = await chunks.next();
+		const encoder = new TextEncoder();
+
+		// 4. Stream the remaining chunks as they are produced
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				if (first.done) {
+					controller.close();
+				} else {
+					controller.enqueue(encoder.encode(first.value));
+				}
+			},
+			async pull(controller) {
+				try {
+					const { value, done } = await chunks.next();
+					if (done) {
+						controller.close();
+					} else {
+						controller.enqueue(encoder.encode(value));
+					}
+				} catch (error) {
+					logger.error('Export failed while streaming', { userId }, error as Error);
+					controller.error(error);
+				}
+			},
+			async cancel() {
+				await chunks.return(undefined);
+			},
+		});
+
+		// 5. Return file download response
+		const { contentType, extension } = EXPORT_FORMATS[queryParams.format];
+		const filename = `flashcards-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+		return new Response(stream, {
+			status: 200,
+			headers: {
+				'Content-Type': contentType,
+				'Content-Disposition': `attachment; filename="${filename}"`,
+				'Cache-Control': 'no-store',
+			},
+		});
+	} catch (error) {
+		// Handle known service errors
+		if (error instanceof DatabaseQueryError) {
+			logger.error(
+				'Database query failed',
+				{ userId },
+				error.originalError instanceof Error
+					? error.originalError
+					: new Error(String(error.originalError))
+			);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to export flashcards',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle unexpected errors
+		logger.error('Unexpected error in GET /api/flashcards/export', { userId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while exporting flashcards',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
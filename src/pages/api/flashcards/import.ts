@@ -0,0 +1,248 @@
+import type { APIRoute } from 'astro';
+import { ImportFlashcardsSchema } from '@/lib/schemas/flashcard.schema';
+import { DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { deckService, DeckConflictError, DeckNotFoundError } from '@/lib/services/deck.service';
+import {
+	detectImportFormat,
+	flashcardImportService,
+	MAX_IMPORT_FILE_SIZE,
+	MAX_IMPORT_ROWS,
+	parseImportFile,
+} from '@/lib/services/flashcard-import.service';
+import { createLogger } from '@/lib/utils/logger';
+import { exceedsUploadLimit } from '@/lib/utils/upload';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('ImportFlashcardsAPI');
+
+/**
+ * POST /api/flashcards/import
+ * Create flashcards from an uploaded CSV, TSV or Anki text file
+ *
+ * Request Body (multipart/form-data):
+ * - file (File, required): File to import (max 5 MB, max 5000 rows)
+ * - format (string, optional): 'csv' | 'tsv' | 'anki-txt', detected from the file extension when omitted
+ * - delimiter (string, optional): Single character or 'tab', defaults to the format's delimiter
+ * - has_header (string, optional): 'true' | 'false', defaults to true for csv/tsv and false for anki-txt
+ * - front_column, back_column, tags_column, deck_column (number, optional): 1-based column mapping,
+ *   header names (front, back, tags, deck) and Anki file headers are used when omitted
+ * - deck_id (string, optional): Deck for rows without a deck name
+ *
+ * Bodies declaring a Content-Length above the file limit are refused before they are read.
+ * Each row is validated with the same rules as batch creation (front and back 1-1000 characters).
+ * Valid rows are saved in chunks with source 'imported', invalid rows are reported per line.
+ * Decks referenced by name are created when missing.
+ *
+ * Returns:
+ * - 201: At least one flashcard imported, with per-row errors of skipped rows
+ * - 400: Bad request (invalid form, options or file, or no valid rows)
+ * - 401: Unauthorized (no valid session)
+ * - 404: Deck not found
+ * - 409: Deck name conflict while creating a deck
+ * - 413: Request body too large
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to import flashcards',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+
+	try {
+		// 1. Refuse oversized bodies, formData() would read them into memory before the size check
+		if (exceedsUploadLimit(request, MAX_IMPORT_FILE_SIZE)) {
+			logger.warn('Request body too large', { userId, contentLength: request.headers.get('Content-Length') });
+			return new Response(
+				JSON.stringify({
+					error: 'Payload too large',
+					details: [{ field: 'file', message: 'File must not exceed 5 MB' }],
+				}),
+				{ status: 413, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Parse multipart form data
+		let formData: FormData;
+		try {
+			formData = await request.formData();
+		} catch (parseError) {
+			logger.error('Failed to parse form data', { userId }, parseError as Error);
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'Invalid form data in request body',
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 3. Validate the uploaded file
+		const file = formData.get('file');
+		if (!(file instanceof File) || file.size === 0) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: 'A non-empty file is required' }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (file.size > MAX_IMPORT_FILE_SIZE) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: 'File must not exceed 5 MB' }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 4. Validate import options with Zod schema
+		const rawOptions = Object.fromEntries(
+			[
+				'format',
+				'delimiter',
+				'has_header',
+				'front_column',
+				'back_column',
+				'tags_column',
+				'deck_column',
+				'deck_id',
+			].map((key) => [key, formData.get(key)])
+		);
+		const validation = ImportFlashcardsSchema.safeParse(rawOptions);
+
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Validation failed for import', { userId, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		const { format: requestedFormat, deck_id: deckId, ...options } = validation.data;
+		const format = requestedFormat ?? detectImportFormat(file.name);
+
+		if (!format) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'format', message: 'Format could not be detected from the file name' }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 5. Parse and validate rows
+		const parsed = parseImportFile(await file.text(), format, options);
+		const totalRows = parsed.rows.length + new Set(parsed.errors.map((err) => err.row)).size;
+
+		logger.info('Parsed import file', {
+			userId,
+			fileName: file.name,
+			format,
+			valid: parsed.rows.length,
+			invalid: parsed.errors.length,
+		});
+
+		if (totalRows > MAX_IMPORT_ROWS) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: [{ field: 'file', message: `File must not contain more than ${MAX_IMPORT_ROWS} rows` }],
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (parsed.rows.length === 0) {
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'No valid flashcards found in file',
+					details: parsed.errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 6. Verify the target deck belongs to the user
+		if (deckId) {
+			await deckService.assertDeckOwnership(supabase, userId, deckId);
+		}
+
+		// 7. Save valid rows in chunks
+		const result = await flashcardImportService.importFlashcards(supabase, userId, parsed, deckId ?? null);
+
+		// 8. Return success response
+		return new Response(JSON.stringify(result), {
+			status: 201,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle deck not found error
+		if (error instanceof DeckNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle deck created concurrently with the same name
+		if (error instanceof DeckConflictError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Conflict',
+					message: error.message,
+				}),
+				{ status: 409, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		if (error instanceof DatabaseQueryError) {
+			logger.error('Database query failed', { userId }, error as Error);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to import flashcards',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		logger.error('Unexpected error in POST /api/flashcards/import', { userId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while importing flashcards',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
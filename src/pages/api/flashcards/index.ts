@@ -1,9 +1,15 @@
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
-import { GetFlashcardsQuerySchema } from '@/lib/schemas/flashcard.schema';
+import {
+	FlashcardContentSchema,
+	GetFlashcardsQuerySchema,
+	refineFlashcardContent,
+	TagListSchema,
+} from '@/lib/schemas/flashcard.schema';
 import { flashcardService, DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { deckService, DeckNotFoundError } from '@/lib/services/deck.service';
 import { createLogger } from '@/lib/utils/logger';
-import type { CreateFlashcardCommand, FlashcardDTO } from '@/types';
+import type { CreateFlashcardCommand, FlashcardDTO, FlashcardSource } from '@/types';
 
 // Disable prerendering for this API route (SSR only)
 export const prerender = false;
@@ -13,35 +19,35 @@ const logger = createLogger('FlashcardsListAPI');
 /**
  * Zod validation schema for single flashcard creation
  */
-const CreateFlashcardSchema = z.object({
-	front: z
-		.string()
-		.min(1, 'Front must be at least 1 character')
-		.max(1000, 'Front must not exceed 1000 characters')
-		.trim(),
-	back: z
-		.string()
-		.min(1, 'Back must be at least 1 character')
-		.max(1000, 'Back must not exceed 1000 characters')
-		.trim(),
+const CreateFlashcardSchema = FlashcardContentSchema.extend({
 	source: z.enum(['manual', 'ai_generated'], {
 		errorMap: () => ({ message: 'Source must be either "manual" or "ai_generated"' }),
 	}),
-});
+	deck_id: z.string().uuid('Deck ID must be a valid UUID').nullish(),
+	tags: TagListSchema.optional(),
+}).superRefine(refineFlashcardContent);
 
 /**
  * POST /api/flashcards
  * Create a single flashcard
  *
  * Request Body:
- * - front (string, required): Front content of the flashcard (1-1000 characters)
- * - back (string, required): Back content of the flashcard (1-1000 characters)
+ * - front (string, required): Front content of the flashcard (1-1000 characters), cloze notes mark
+ *   deletions as {{c1::answer}} or {{c1::answer::hint}}
+ * - back (string, required): Back content of the flashcard (1-1000 characters), may be empty for cloze notes
+ * - card_type (string, optional): Card type ('basic' | 'cloze'), defaults to 'basic'
  * - source (string, required): Source type ('manual' | 'ai_generated')
+ * - deck_id (string, optional): Deck the flashcard belongs to
+ * - tags (string[], optional): Tags of the flashcard (max 10, normalized to lowercase)
+ *
+ * The flashcard is saved together with its tags by create_flashcards(), the initial study_progress
+ * row is created by a database trigger in the same transaction.
  *
  * Returns:
  * - 201: Success with created flashcard
  * - 400: Bad request (validation failed)
  * - 401: Unauthorized (no valid session)
+ * - 404: Deck not found
  * - 500: Internal server error
  */
 export const POST: APIRoute = async ({ request, locals }) => {
@@ -98,16 +104,27 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
 		logger.info('Creating flashcard', { userId, command });
 
-		// 3. Insert flashcard into database
+		// 3. Verify the target deck belongs to the user
+		if (command.deck_id) {
+			await deckService.assertDeckOwnership(supabase, userId, command.deck_id);
+		}
+
+		// 4. Insert flashcard and its tags into database
 		const { data, error } = await supabase
-			.from('flashcards')
-			.insert({
-				front: command.front,
-				back: command.back,
-				source: command.source,
-				user_id: userId,
+			.rpc('create_flashcards', {
+				p_user_id: userId,
+				p_flashcards: [
+					{
+						front: command.front,
+						back: command.back,
+						card_type: command.card_type,
+						source: command.source,
+						deck_id: command.deck_id ?? null,
+						tags: command.tags ?? [],
+					},
+				],
 			})
-			.select('id, front, back, source, created_at, updated_at')
+			.select('id, front, back, card_type, source, deck_id, created_at, updated_at')
 			.single();
 
 		if (error) {
@@ -145,24 +162,40 @@ export const POST: APIRoute = async ({ request, locals }) => {
 			);
 		}
 
-		// 4. Build response DTO
+		// 5. Build response DTO
 		const flashcard: FlashcardDTO = {
 			id: data.id,
 			front: data.front,
 			back: data.back,
-			source: data.source as 'manual' | 'ai_generated',
+			card_type: data.card_type,
+			source: data.source as FlashcardSource,
+			deck_id: data.deck_id,
+			tags: command.tags ?? [],
+			media: [],
+			audio: [],
 			created_at: data.created_at,
 			updated_at: data.updated_at,
 		};
 
 		logger.info('Successfully created flashcard', { userId, flashcardId: flashcard.id });
 
-		// 5. Return success response
+		// 6. Return success response
 		return new Response(JSON.stringify(flashcard), {
 			status: 201,
 			headers: { 'Content-Type': 'application/json' },
 		});
 	} catch (error) {
+		// Handle deck not found error
+		if (error instanceof DeckNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
 		logger.error('Unexpected error in POST /api/flashcards', { userId }, error as Error);
 
 		return new Response(
@@ -182,8 +215,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
  * Query Parameters:
  * - page (number, default: 1): Page number for pagination
  * - limit (number, default: 20, max: 100): Number of items per page
- * - source (string, optional): Filter by source ('manual' | 'ai_generated')
- * - sort (string, default: 'created_at'): Sort field ('created_at' | 'updated_at')
+ * - source (string, optional): Filter by source ('manual' | 'ai_generated' | 'imported')
+ * - deck_id (string, optional): Filter by deck
+ * - tags (string, optional): Comma-separated tags, only flashcards having all of them are returned
+ * - q (string, optional): Full-text search over front and back, results are ordered by relevance
+ * - sort (string, default: 'created_at'): Sort field ('created_at' | 'updated_at'), ignored when q is set
  * - order (string, default: 'desc'): Sort order ('asc' | 'desc')
  *
  * Returns:
@@ -214,6 +250,9 @@ export const GET: APIRoute = async ({ url, locals }) => {
 			page: searchParams.get('page'),
 			limit: searchParams.get('limit'),
 			source: searchParams.get('source'),
+			deck_id: searchParams.get('deck_id'),
+			tags: searchParams.get('tags'),
+			q: searchParams.get('q'),
 			sort: searchParams.get('sort'),
 			order: searchParams.get('order'),
 		};
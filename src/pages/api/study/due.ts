@@ -0,0 +1,105 @@
+import type { APIRoute } from 'astro';
+import { GetDueFlashcardsQuerySchema } from '@/lib/schemas/study.schema';
+import { studyService } from '@/lib/services/study.service';
+import { DatabaseQueryError } from '@/lib/services/flashcard.service';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('StudyDueAPI');
+
+/**
+ * GET /api/study/due
+ * Retrieve flashcards due for review for the authenticated user
+ * Cloze notes are returned once per due deletion, identified by card_index
+ *
+ * Query Parameters:
+ * - limit (number, default: 20, max: 100): Maximum number of flashcards to return
+ *
+ * Returns:
+ * - 200: Success with due flashcards and total due count
+ * - 400: Bad request (invalid query parameters)
+ * - 401: Unauthorized (no valid session)
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to study flashcards',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+
+	try {
+		// 1. Validate query parameters with Zod schema
+		const rawParams = {
+			limit: url.searchParams.get('limit'),
+		};
+
+		const validation = GetDueFlashcardsQuerySchema.safeParse(rawParams);
+
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Query parameter validation failed', { userId, rawParams, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Call service to fetch due flashcards
+		const result = await studyService.getDueFlashcards(supabase, userId, validation.data);
+
+		// 3. Return success response
+		return new Response(JSON.stringify(result), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle known service errors
+		if (error instanceof DatabaseQueryError) {
+			logger.error(
+				'Database query failed',
+				{ userId },
+				error.originalError instanceof Error
+					? error.originalError
+					: new Error(String(error.originalError))
+			);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to retrieve due flashcards',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle unexpected errors
+		logger.error('Unexpected error in GET /api/study/due', { userId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while retrieving due flashcards',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
@@ -0,0 +1,128 @@
+import type { APIRoute } from 'astro';
+import { ReviewFlashcardSchema } from '@/lib/schemas/study.schema';
+import { studyService } from '@/lib/services/study.service';
+import { DatabaseQueryError, FlashcardNotFoundError } from '@/lib/services/flashcard.service';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable prerendering for this API route (SSR only)
+export const prerender = false;
+
+const logger = createLogger('StudyReviewAPI');
+
+/**
+ * POST /api/study/review
+ * Submit a review grade for a flashcard and reschedule it using SM-2
+ *
+ * Request Body:
+ * - flashcard_id (string, required): ID of the reviewed flashcard
+ * - card_index (number, default: 0): Deletion number of the reviewed card of a cloze note
+ * - quality (number, required): Quality grade from 0 (blackout) to 5 (perfect recall)
+ *
+ * Returns:
+ * - 200: Success with updated study progress
+ * - 400: Bad request (validation failed)
+ * - 401: Unauthorized (no valid session)
+ * - 404: Flashcard or card not found
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+	// Check authentication
+	if (!locals.user) {
+		return new Response(
+			JSON.stringify({
+				error: 'Unauthorized',
+				message: 'You must be logged in to review flashcards',
+			}),
+			{ status: 401, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+
+	const userId = locals.user.id;
+	const supabase = locals.supabase;
+
+	try {
+		// 1. Parse request body
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch (parseError) {
+			logger.error('Failed to parse request body', { userId }, parseError as Error);
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					message: 'Invalid JSON in request body',
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 2. Validate input with Zod schema
+		const validation = ReviewFlashcardSchema.safeParse(body);
+		if (!validation.success) {
+			const errors = validation.error.errors.map((err) => ({
+				field: err.path.join('.'),
+				message: err.message,
+			}));
+
+			logger.warn('Validation failed for flashcard review', { userId, errors });
+
+			return new Response(
+				JSON.stringify({
+					error: 'Validation failed',
+					details: errors,
+				}),
+				{ status: 400, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// 3. Call service to apply the review
+		const progress = await studyService.reviewFlashcard(supabase, userId, validation.data);
+
+		// 4. Return success response
+		return new Response(JSON.stringify(progress), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		// Handle flashcard not found error
+		if (error instanceof FlashcardNotFoundError) {
+			return new Response(
+				JSON.stringify({
+					error: 'Not found',
+					message: error.message,
+				}),
+				{ status: 404, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle known service errors
+		if (error instanceof DatabaseQueryError) {
+			logger.error(
+				'Database query failed',
+				{ userId },
+				error.originalError instanceof Error
+					? error.originalError
+					: new Error(String(error.originalError))
+			);
+
+			return new Response(
+				JSON.stringify({
+					error: 'Internal server error',
+					message: 'Failed to save review',
+				}),
+				{ status: 500, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
+		// Handle unexpected errors
+		logger.error('Unexpected error in POST /api/study/review', { userId }, error as Error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Internal server error',
+				message: 'An unexpected error occurred while saving review',
+			}),
+			{ status: 500, headers: { 'Content-Type': 'application/json' } }
+		);
+	}
+};
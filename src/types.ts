@@ -14,33 +14,140 @@ export type FlashcardEntity = Tables<'flashcards'>;
  */
 export type FlashcardSource = Enums<'flashcard_source'>;
 
+/**
+ * Flashcard card type enum
+ * Basic cards have a question and an answer, cloze notes hide {{c1::deletions}} in front (one card per deletion number)
+ */
+export type FlashcardCardType = Enums<'flashcard_card_type'>;
+
+/**
+ * Side of a flashcard an attachment is shown on
+ */
+export type FlashcardSide = Enums<'flashcard_side'>;
+
+/**
+ * Origin of a flashcard audio clip: uploaded by the user or synthesized by text-to-speech
+ */
+export type FlashcardAudioSource = Enums<'flashcard_audio_source'>;
+
 // ============================================
 // Flashcard DTOs
 // ============================================
 
+/**
+ * Tag entity from database
+ */
+export type TagEntity = Tables<'tags'>;
+
 /**
  * Flashcard DTO - Response object for flashcard endpoints
- * Derived from FlashcardEntity but excludes user_id for security
+ * Derived from FlashcardEntity but excludes user_id for security and the internal search_vector and generation_id
+ * Tags are resolved from the flashcard_tags join table as normalized names
+ * media lists the images attached to both sides, oldest first
+ * audio lists the uploaded audio clips (at most one per side), synthesized speech is requested on demand
  */
-export type FlashcardDTO = Omit<FlashcardEntity, 'user_id'>;
+export type FlashcardDTO = Omit<FlashcardEntity, 'user_id' | 'search_vector' | 'generation_id'> & {
+	tags: string[];
+	media: FlashcardMediaDTO[];
+	audio: FlashcardAudioDTO[];
+};
 
 /**
  * Command for creating a new flashcard
  * Based on TablesInsert but requires only user-provided fields
+ * deck_id is optional, flashcards without a deck stay ungrouped
+ * card_type defaults to 'basic', the back of a cloze note holds optional extra information
  */
-export type CreateFlashcardCommand = Pick<TablesInsert<'flashcards'>, 'front' | 'back' | 'source'>;
+export type CreateFlashcardCommand = Pick<TablesInsert<'flashcards'>, 'front' | 'back' | 'source' | 'deck_id' | 'card_type'> & {
+	tags?: string[];
+};
 
 /**
  * Command for updating an existing flashcard
- * Only front and back can be updated, both optional
+ * Front, back, card type and tags can be updated, all optional
+ * Providing tags replaces the complete tag list of the flashcard
  */
-export type UpdateFlashcardCommand = Partial<Pick<TablesUpdate<'flashcards'>, 'front' | 'back'>>;
+export type UpdateFlashcardCommand = Partial<Pick<TablesUpdate<'flashcards'>, 'front' | 'back' | 'card_type'>> & {
+	tags?: string[];
+};
 
 /**
  * Command for batch creating flashcards
+ * Batch-level deck_id is applied to every flashcard that doesn't specify its own
+ * generation_id links saved AI suggestions to their generation, edited marks suggestions changed before saving
  */
 export type BatchCreateFlashcardCommand = {
-	flashcards: CreateFlashcardCommand[];
+	flashcards: (CreateFlashcardCommand & { edited?: boolean })[];
+	deck_id?: string | null;
+	generation_id?: string | null;
+};
+
+// ============================================
+// Flashcard Media DTOs
+// ============================================
+
+/**
+ * Flashcard media entity from database (file kept in the flashcard-media storage bucket)
+ */
+export type FlashcardMediaEntity = Tables<'flashcard_media'>;
+
+/**
+ * Image attached to a flashcard side
+ * url is a signed URL of the private file, valid for a limited time (the storage path is not exposed)
+ */
+export type FlashcardMediaDTO = Pick<FlashcardMediaEntity, 'id' | 'side' | 'mime_type' | 'size_bytes' | 'created_at'> & {
+	url: string;
+};
+
+/**
+ * Flashcard audio entity from database (file kept in the flashcard-media storage bucket)
+ * tts_key identifies the provider, voice and text of synthesized clips
+ */
+export type FlashcardAudioEntity = Tables<'flashcard_audio'>;
+
+/**
+ * Audio clip of a flashcard side, url is a signed URL like the one of images
+ */
+export type FlashcardAudioDTO = Pick<
+	FlashcardAudioEntity,
+	'id' | 'side' | 'source' | 'mime_type' | 'size_bytes' | 'created_at'
+> & {
+	url: string;
+};
+
+// ============================================
+// Deck DTOs
+// ============================================
+
+/**
+ * Deck entity from database
+ */
+export type DeckEntity = Tables<'decks'>;
+
+/**
+ * Deck DTO - Response object for deck endpoints
+ * Excludes user_id for security, includes the number of flashcards in the deck
+ */
+export type DeckDTO = Omit<DeckEntity, 'user_id'> & {
+	flashcard_count: number;
+};
+
+/**
+ * Command for creating a new deck
+ */
+export type CreateDeckCommand = Pick<TablesInsert<'decks'>, 'name' | 'description'>;
+
+/**
+ * Command for updating an existing deck
+ * Name and description are optional, at least one must be provided
+ */
+export type UpdateDeckCommand = Partial<Pick<TablesUpdate<'decks'>, 'name' | 'description'>>;
+
+/**
+ * Response DTO for deck list endpoint
+ */
+export type DeckListResponseDTO = {
+	data: DeckDTO[];
 };
 
 // ============================================
@@ -84,31 +191,313 @@ export type FlashcardQueryParams = {
 	page?: number;
 	limit?: number;
 	source?: FlashcardSource;
+	deck_id?: string;
+	tags?: string[];
+	q?: string;
 	sort?: 'created_at' | 'updated_at';
 	order?: 'asc' | 'desc';
 };
 
+/**
+ * Supported file formats of GET /api/flashcards/export
+ */
+export type FlashcardExportFormat = 'csv' | 'tsv' | 'json' | 'anki-txt';
+
+/**
+ * Query parameters for GET /api/flashcards/export (same filters as the list, without pagination and sorting)
+ */
+export type FlashcardExportQueryParams = Omit<FlashcardQueryParams, 'page' | 'limit' | 'sort' | 'order'> & {
+	format?: FlashcardExportFormat;
+};
+
+/**
+ * Single flashcard in an export file
+ * Deck is exported by name so the file can be imported into other tools (e.g. Anki)
+ * card_type is only written to JSON, the other formats keep the cloze markup the import recognizes cloze notes by
+ */
+export type FlashcardExportItemDTO = Pick<
+	FlashcardDTO,
+	'front' | 'back' | 'card_type' | 'tags' | 'source' | 'created_at'
+> & {
+	deck: string | null;
+};
+
+/**
+ * Supported file formats of POST /api/flashcards/import
+ */
+export type FlashcardImportFormat = Exclude<FlashcardExportFormat, 'json'>;
+
+/**
+ * Validation or save error of a single row of an import file
+ * Row is the 1-based line number in the file where the record starts
+ */
+export type ImportRowErrorDTO = {
+	row: number;
+	field: string;
+	message: string;
+};
+
+/**
+ * Response for POST /api/flashcards/import
+ */
+export type ImportFlashcardsResponseDTO = {
+	imported: number;
+	failed: number;
+	errors: ImportRowErrorDTO[];
+};
+
 // ============================================
 // AI Generation DTOs
 // ============================================
 
+/**
+ * Difficulty of AI generated flashcards
+ */
+export type GenerationDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+/**
+ * Style of AI generated flashcards: question and answer, term and definition, sentence with a blank
+ * or true/false statement
+ */
+export type GenerationCardStyle = 'qa' | 'definition' | 'cloze' | 'true_false';
+
+/**
+ * Optional settings of an AI generation, shared by all generation commands
+ * card_count is the number of flashcards wanted (1-30), language a BCP 47 tag (e.g. "en", "pt-BR");
+ * left out, the model picks 5-15 flashcards per text part, any difficulty and the language of the text
+ */
+export type GenerationSettingsCommand = {
+	card_count?: number;
+	difficulty?: GenerationDifficulty;
+	card_style?: GenerationCardStyle;
+	language?: string;
+};
+
 /**
  * Command for generating flashcards from text using AI
+ * Identical requests (same text, ignoring whitespace, model and settings) reuse earlier suggestions unless force is true
  */
-export type GenerateFlashcardsCommand = {
+export type GenerateFlashcardsCommand = GenerationSettingsCommand & {
 	text: string;
 	model?: string;
+	stream?: boolean;
+	force?: boolean;
 };
 
 /**
  * Single flashcard suggestion from AI generation
- * Contains only front and back, no metadata
+ * Contains front, back, card type and proposed tags, no metadata
+ */
+export type FlashcardSuggestionDTO = Pick<FlashcardDTO, 'front' | 'back' | 'card_type' | 'tags'>;
+
+/**
+ * Token usage of an AI generation, summed over all requests of a chunked text
+ * Counts reported by the provider, or counted with a tokenizer when it reports none (estimated: true)
+ * cost is in USD and null unless the provider reported it for every request
  */
-export type FlashcardSuggestionDTO = Pick<FlashcardDTO, 'front' | 'back'>;
+export type GenerationUsageDTO = {
+	prompt_tokens: number;
+	completion_tokens: number;
+	total_tokens: number;
+	cost: number | null;
+	estimated: boolean;
+};
 
 /**
  * Response DTO for AI flashcard generation
+ * generation_id is sent back with the accepted suggestions to POST /api/flashcards/batch
+ * tokens_used equals usage.total_tokens
+ * cached is true when the suggestions of an identical earlier request were reused, no tokens are used then
  */
 export type GenerateFlashcardsResponseDTO = {
 	suggestions: FlashcardSuggestionDTO[];
+	generation_id: string;
+	model_used: string;
+	tokens_used: number;
+	usage: GenerationUsageDTO;
+	cached: boolean;
+};
+
+/**
+ * Command for generating flashcards from the main content of a web page
+ */
+export type GenerateFlashcardsFromUrlCommand = GenerationSettingsCommand & {
+	url: string;
+	model?: string;
+	force?: boolean;
+};
+
+/**
+ * Response DTO for POST /api/ai/generate-from-url
+ * source.url is the final URL after redirects, truncated is true when the page text was shortened
+ */
+export type GenerateFlashcardsFromUrlResponseDTO = GenerateFlashcardsResponseDTO & {
+	source: {
+		url: string;
+		title: string | null;
+		truncated: boolean;
+	};
+};
+
+/**
+ * Model that can be selected for AI generation (GET /api/ai/models)
+ * Costs are in USD per token, context_window is null when unknown
+ */
+export type AiModelDTO = {
+	id: string;
+	label: string;
+	context_window: number | null;
+	input_cost_per_token: number;
+	output_cost_per_token: number;
+};
+
+/**
+ * Response DTO for GET /api/ai/models
+ * default_model is used when a generation request doesn't select a model
+ */
+export type AiModelListResponseDTO = {
+	data: AiModelDTO[];
+	default_model: string;
 };
+
+/**
+ * Per-user limit of AI generation
+ * - requests_per_minute: generation requests in the last 60 seconds
+ * - generations_per_day: generation requests since midnight UTC
+ * - tokens_per_month: tokens used since the 1st of the month (UTC)
+ */
+export type GenerationQuotaName = 'requests_per_minute' | 'generations_per_day' | 'tokens_per_month';
+
+/**
+ * Usage of a generation quota, sent in the body of 429 responses
+ * reset_at is when usage drops below the limit again (ISO 8601)
+ */
+export type GenerationQuotaDTO = {
+	name: GenerationQuotaName;
+	limit: number;
+	used: number;
+	remaining: number;
+	reset_at: string;
+};
+
+/**
+ * Generation entity from database (one AI generation request and its outcome)
+ */
+export type GenerationEntity = Tables<'generations'>;
+
+/**
+ * Query parameters for GET /api/ai/errors (ISO 8601 timestamps)
+ */
+export type GenerationErrorReportQueryParams = {
+	from?: string;
+	to?: string;
+};
+
+/**
+ * Failures of one model and error type within the report window
+ * error_code is the service error class name (e.g. 'TimeoutError')
+ */
+export type GenerationErrorReportItemDTO = {
+	model: string;
+	error_code: string;
+	error_count: number;
+	last_occurred_at: string;
+	last_upstream_status: number | null;
+	last_error_message: string;
+};
+
+/**
+ * Response DTO for GET /api/ai/errors
+ */
+export type GenerationErrorReportDTO = {
+	from: string;
+	to: string;
+	total_errors: number;
+	data: GenerationErrorReportItemDTO[];
+};
+
+/**
+ * Server-Sent Event of a streamed AI generation (POST /api/ai/generate with stream: true)
+ * The SSE event name is the type, the data is the rest of the object
+ * Progress events are only sent for long texts generated in several chunks
+ */
+export type GenerateFlashcardsStreamEvent =
+	| { type: 'start'; generation_id: string }
+	| { type: 'suggestion'; suggestion: FlashcardSuggestionDTO }
+	| { type: 'progress'; completed_chunks: number; failed_chunks: number; total_chunks: number }
+	| {
+			type: 'done';
+			count: number;
+			model_used: string;
+			tokens_used: number;
+			usage: GenerationUsageDTO;
+			cached: boolean;
+	  }
+	| { type: 'error'; error: string; message: string };
+
+/**
+ * Document format text can be extracted from (POST /api/ai/extract)
+ */
+export type SourceFileFormat = 'pdf' | 'docx' | 'markdown' | 'html';
+
+/**
+ * Response DTO for POST /api/ai/extract
+ * truncated is true when the text was shortened to the maximum generation text length
+ */
+export type ExtractTextResponseDTO = {
+	text: string;
+	format: SourceFileFormat;
+	file_name: string;
+	truncated: boolean;
+};
+
+// ============================================
+// Study Session DTOs
+// ============================================
+
+/**
+ * Study progress entity from database (SM-2 scheduling state)
+ */
+export type StudyProgressEntity = Tables<'study_progress'>;
+
+/**
+ * Study progress DTO - SM-2 scheduling state without the flashcard and card reference
+ */
+export type StudyProgressDTO = Omit<StudyProgressEntity, 'flashcard_id' | 'card_index'>;
+
+/**
+ * Flashcard due for review together with its current study progress
+ * card_index is the deletion number of a cloze card (0 for basic cards), a cloze note is due once per deletion
+ */
+export type DueFlashcardDTO = Pick<FlashcardDTO, 'id' | 'front' | 'back' | 'card_type' | 'media' | 'audio'> & {
+	card_index: number;
+	progress: StudyProgressDTO;
+};
+
+/**
+ * Response DTO for GET /api/study/due
+ */
+export type DueFlashcardsResponseDTO = {
+	flashcards: DueFlashcardDTO[];
+	total_due: number;
+};
+
+/**
+ * SM-2 quality grade (0 = complete blackout, 5 = perfect response)
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Command for submitting a review result for a flashcard
+ * card_index selects the card of a cloze note (deletion number), 0 for basic cards
+ */
+export type ReviewFlashcardCommand = {
+	flashcard_id: string;
+	card_index?: number;
+	quality: ReviewQuality;
+};
+
+/**
+ * Response DTO for POST /api/study/review
+ */
+export type ReviewFlashcardResponseDTO = StudyProgressEntity;
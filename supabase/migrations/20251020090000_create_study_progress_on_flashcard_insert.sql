@@ -0,0 +1,63 @@
+-- =============================================================================
+-- Migration: Create study progress automatically for new flashcards
+-- =============================================================================
+-- Purpose: Guarantee that every flashcard has a study_progress row so it can be
+--          scheduled by the SM-2 algorithm
+-- Affected tables: study_progress (insert trigger on flashcards)
+-- Special considerations:
+--   - The trigger runs in the same transaction as the flashcard insert, so a
+--     flashcard and its progress record are created atomically
+--   - Applies to every insert path (single, batch and any future import)
+--   - Backfills progress rows for flashcards created before this migration
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create trigger function inserting the initial progress record
+-- -----------------------------------------------------------------------------
+-- Uses the study_progress column defaults (ease_factor 2.5, interval 0,
+-- repetitions 0, next_review_date now()) so new cards are due immediately.
+-- security definer: the insert must succeed regardless of the caller's RLS
+-- context, ownership is already enforced by the flashcards insert policy.
+-- on conflict do nothing: keeps the trigger idempotent if a row already exists.
+create or replace function handle_new_flashcard_study_progress()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.study_progress (flashcard_id)
+  values (new.id)
+  on conflict (flashcard_id) do nothing;
+  return new;
+end;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 2. Attach trigger to flashcards table
+-- -----------------------------------------------------------------------------
+-- Rationale: after insert so the referenced flashcard row already exists
+create trigger on_flashcards_insert_create_study_progress
+  after insert on flashcards
+  for each row
+  execute procedure handle_new_flashcard_study_progress();
+
+-- -----------------------------------------------------------------------------
+-- 3. Backfill progress rows for existing flashcards
+-- -----------------------------------------------------------------------------
+-- Existing cards become due immediately, matching the behaviour of new cards
+insert into study_progress (flashcard_id)
+select f.id
+from flashcards f
+where not exists (
+  select 1 from study_progress sp where sp.flashcard_id = f.id
+);
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created handle_new_flashcard_study_progress() trigger function
+--   - Created after insert trigger on flashcards
+--   - Backfilled study_progress for flashcards without a progress record
+-- =============================================================================
@@ -0,0 +1,126 @@
+-- =============================================================================
+-- Migration: Create decks
+-- =============================================================================
+-- Purpose: Allow users to group flashcards into named collections (decks)
+-- Affected tables: decks (new), flashcards (new deck_id column)
+-- Special considerations:
+--   - Row-level security mirrors the flashcards policies
+--   - Deck names are unique per user
+--   - Deleting a deck keeps its flashcards (deck_id is set to null)
+--   - GDPR-compliant cascade deletion on user removal
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create decks table
+-- -----------------------------------------------------------------------------
+-- Each deck belongs to a single user and groups any number of flashcards
+create table decks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (length(name) > 0 and length(name) <= 100),
+  description text check (description is null or length(description) <= 500),
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  unique (user_id, name)
+);
+
+-- Enable row level security for decks table
+-- This ensures users can only access their own decks
+alter table decks enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- 2. Link flashcards to decks
+-- -----------------------------------------------------------------------------
+-- Nullable: flashcards created before this migration (or without a deck) stay
+-- ungrouped. on delete set null keeps flashcards when their deck is removed.
+alter table flashcards
+  add column deck_id uuid references decks(id) on delete set null;
+
+-- -----------------------------------------------------------------------------
+-- 3. Create indexes for query optimization
+-- -----------------------------------------------------------------------------
+-- Index on decks.user_id: Speeds up listing all decks of a user
+create index idx_decks_user_id on decks(user_id);
+
+-- Index on flashcards.deck_id: Speeds up filtering flashcards by deck
+create index idx_flashcards_deck_id on flashcards(deck_id);
+
+-- -----------------------------------------------------------------------------
+-- 4. Create RLS policies for decks table
+-- -----------------------------------------------------------------------------
+
+-- Policy: Anonymous users cannot select decks
+-- Rationale: Decks are private user data
+create policy "anon users cannot select decks"
+  on decks for select
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to select only their own decks
+-- Rationale: Users should only see their personal decks
+create policy "authenticated users can select own decks"
+  on decks for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot insert decks
+-- Rationale: Only authenticated users can create decks
+create policy "anon users cannot insert decks"
+  on decks for insert
+  to anon
+  with check (false);
+
+-- Policy: Allow authenticated users to insert their own decks
+-- Rationale: Users can create new decks for themselves
+create policy "authenticated users can insert own decks"
+  on decks for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot update decks
+-- Rationale: Only authenticated users can modify decks
+create policy "anon users cannot update decks"
+  on decks for update
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to update only their own decks
+-- Rationale: Users can rename or describe their personal decks
+create policy "authenticated users can update own decks"
+  on decks for update
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot delete decks
+-- Rationale: Only authenticated users can delete decks
+create policy "anon users cannot delete decks"
+  on decks for delete
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to delete only their own decks
+-- Rationale: Users can delete their personal decks
+create policy "authenticated users can delete own decks"
+  on decks for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- 5. Create trigger for automatic updated_at timestamp
+-- -----------------------------------------------------------------------------
+-- Reuses handle_updated_at() created in the initial schema migration
+create trigger on_decks_update
+  before update on decks
+  for each row
+  execute procedure handle_updated_at();
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created decks table with per-user unique names
+--   - Added nullable flashcards.deck_id with on delete set null
+--   - Enabled RLS on decks with 8 granular policies
+--   - Created 2 indexes for query optimization
+--   - Created trigger for automatic updated_at handling
+-- =============================================================================
@@ -0,0 +1,336 @@
+-- =============================================================================
+-- Migration: Create tags
+-- =============================================================================
+-- Purpose: Allow free-form tags (e.g. "exam-1", "hard") on flashcards
+-- Affected tables: tags (new), flashcard_tags (new join table)
+-- Special considerations:
+--   - Tag names are stored normalized (lowercase) and unique per user
+--   - flashcard_tags is a many-to-many join between flashcards and tags
+--   - set_flashcard_tags() replaces the tags of a flashcard in one transaction
+--   - create_flashcards() and update_flashcard() save flashcards together with
+--     their tags, a failure saves neither
+--   - filter_flashcards() applies the tag filter of the flashcard list in SQL,
+--     the matching IDs never pass through the application
+--   - Row-level security mirrors the flashcards / study_progress policies
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create tags table
+-- -----------------------------------------------------------------------------
+-- Per-user tag vocabulary, names are normalized by the application
+create table tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (length(name) > 0 and length(name) <= 50),
+  created_at timestamp with time zone not null default now(),
+  unique (user_id, name)
+);
+
+-- Enable row level security for tags table
+alter table tags enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- 2. Create flashcard_tags join table
+-- -----------------------------------------------------------------------------
+-- Deleting a flashcard or a tag removes the link
+create table flashcard_tags (
+  flashcard_id uuid not null references flashcards(id) on delete cascade,
+  tag_id uuid not null references tags(id) on delete cascade,
+  primary key (flashcard_id, tag_id)
+);
+
+-- Enable row level security for flashcard_tags table
+alter table flashcard_tags enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- 3. Create indexes for query optimization
+-- -----------------------------------------------------------------------------
+-- Index on tags.user_id: Speeds up resolving tag names of a user
+create index idx_tags_user_id on tags(user_id);
+
+-- Index on flashcard_tags.tag_id: Speeds up filtering flashcards by tag
+-- (flashcard_id lookups are covered by the primary key)
+create index idx_flashcard_tags_tag_id on flashcard_tags(tag_id);
+
+-- -----------------------------------------------------------------------------
+-- 4. Create RLS policies for tags table
+-- -----------------------------------------------------------------------------
+
+-- Policy: Anonymous users cannot select tags
+-- Rationale: Tags are private user data
+create policy "anon users cannot select tags"
+  on tags for select
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to select only their own tags
+-- Rationale: Users should only see their personal tags
+create policy "authenticated users can select own tags"
+  on tags for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot insert tags
+-- Rationale: Only authenticated users can create tags
+create policy "anon users cannot insert tags"
+  on tags for insert
+  to anon
+  with check (false);
+
+-- Policy: Allow authenticated users to insert their own tags
+-- Rationale: Users can create new tags for themselves
+create policy "authenticated users can insert own tags"
+  on tags for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot update tags
+-- Rationale: Only authenticated users can modify tags
+create policy "anon users cannot update tags"
+  on tags for update
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to update only their own tags
+-- Rationale: Users can rename their personal tags
+create policy "authenticated users can update own tags"
+  on tags for update
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot delete tags
+-- Rationale: Only authenticated users can delete tags
+create policy "anon users cannot delete tags"
+  on tags for delete
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to delete only their own tags
+-- Rationale: Users can delete their personal tags
+create policy "authenticated users can delete own tags"
+  on tags for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- 5. Create RLS policies for flashcard_tags table
+-- -----------------------------------------------------------------------------
+-- Access is granted through ownership of the linked flashcard
+
+-- Policy: Anonymous users cannot select flashcard tags
+-- Rationale: Tag assignments are private user data
+create policy "anon users cannot select flashcard tags"
+  on flashcard_tags for select
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to select tags of their flashcards
+-- Rationale: Users need to see how their flashcards are tagged
+create policy "authenticated users can select own flashcard tags"
+  on flashcard_tags for select
+  to authenticated
+  using (auth.uid() = (select user_id from flashcards where id = flashcard_id));
+
+-- Policy: Anonymous users cannot insert flashcard tags
+-- Rationale: Only authenticated users can tag flashcards
+create policy "anon users cannot insert flashcard tags"
+  on flashcard_tags for insert
+  to anon
+  with check (false);
+
+-- Policy: Allow authenticated users to tag their flashcards with their tags
+-- Rationale: Both the flashcard and the tag must belong to the user
+create policy "authenticated users can insert own flashcard tags"
+  on flashcard_tags for insert
+  to authenticated
+  with check (
+    auth.uid() = (select user_id from flashcards where id = flashcard_id)
+    and auth.uid() = (select user_id from tags where id = tag_id)
+  );
+
+-- Policy: Anonymous users cannot update flashcard tags
+-- Rationale: Only authenticated users can modify tag assignments
+create policy "anon users cannot update flashcard tags"
+  on flashcard_tags for update
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to update tags of their flashcards
+-- Rationale: Users can re-link their flashcards to their tags
+create policy "authenticated users can update own flashcard tags"
+  on flashcard_tags for update
+  to authenticated
+  using (auth.uid() = (select user_id from flashcards where id = flashcard_id));
+
+-- Policy: Anonymous users cannot delete flashcard tags
+-- Rationale: Only authenticated users can remove tag assignments
+create policy "anon users cannot delete flashcard tags"
+  on flashcard_tags for delete
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to untag their flashcards
+-- Rationale: Users can remove tags from their flashcards
+create policy "authenticated users can delete own flashcard tags"
+  on flashcard_tags for delete
+  to authenticated
+  using (auth.uid() = (select user_id from flashcards where id = flashcard_id));
+
+-- -----------------------------------------------------------------------------
+-- 6. Create function replacing the tags of a flashcard
+-- -----------------------------------------------------------------------------
+-- Creates missing tags for the flashcard owner, links the given tags and
+-- unlinks all others, in a single transaction. Runs with the caller's
+-- privileges (security invoker) so RLS still applies to authenticated users.
+-- p_tag_names must already be normalized by the application.
+create or replace function set_flashcard_tags(p_flashcard_id uuid, p_tag_names text[])
+returns void
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_user_id uuid;
+begin
+  select user_id into v_user_id from public.flashcards where id = p_flashcard_id;
+
+  if v_user_id is null then
+    raise exception 'flashcard % not found', p_flashcard_id using errcode = 'P0002';
+  end if;
+
+  insert into public.tags (user_id, name)
+  select v_user_id, tag_name from unnest(p_tag_names) as tag_name
+  on conflict (user_id, name) do nothing;
+
+  delete from public.flashcard_tags ft
+  using public.tags t
+  where ft.flashcard_id = p_flashcard_id
+    and ft.tag_id = t.id
+    and not (t.name = any(p_tag_names));
+
+  insert into public.flashcard_tags (flashcard_id, tag_id)
+  select p_flashcard_id, t.id
+  from public.tags t
+  where t.user_id = v_user_id
+    and t.name = any(p_tag_names)
+  on conflict do nothing;
+end;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 7. Create function filtering flashcards by tags
+-- -----------------------------------------------------------------------------
+-- p_tag_names: flashcards must have every tag, empty or null skips the filter.
+-- Tag names must already be normalized (and deduplicated) by the application,
+-- the tags of each flashcard are counted through the flashcard_tags primary key.
+-- Runs with the caller's privileges (security invoker) so RLS still applies to
+-- authenticated users.
+create or replace function filter_flashcards(p_tag_names text[] default null)
+returns setof flashcards
+language sql
+stable
+set search_path = ''
+as $$
+  select f.*
+  from public.flashcards f
+  where coalesce(cardinality(p_tag_names), 0) = 0
+    or (
+      select count(distinct t.name)
+      from public.flashcard_tags ft
+      join public.tags t on t.id = ft.tag_id
+      where ft.flashcard_id = f.id
+        and t.name = any(p_tag_names)
+    ) = cardinality(p_tag_names);
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 8. Create function inserting flashcards with their tags
+-- -----------------------------------------------------------------------------
+-- p_flashcards: JSON array of objects with front, back, source, deck_id and
+-- tags (normalized names, optional). Returns the inserted flashcards in the
+-- order given. Runs with the caller's privileges (security invoker), tags are
+-- set through set_flashcard_tags(). Constraint violations keep their error
+-- codes (23505, 23514) and roll back the whole call.
+create or replace function create_flashcards(p_user_id uuid, p_flashcards jsonb)
+returns setof flashcards
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_flashcard jsonb;
+  v_row public.flashcards;
+begin
+  for v_flashcard in select value from jsonb_array_elements(p_flashcards) with ordinality order by ordinality loop
+    insert into public.flashcards (user_id, front, back, source, deck_id)
+    values (
+      p_user_id,
+      v_flashcard->>'front',
+      v_flashcard->>'back',
+      (v_flashcard->>'source')::public.flashcard_source,
+      (v_flashcard->>'deck_id')::uuid
+    )
+    returning * into v_row;
+
+    if jsonb_array_length(coalesce(v_flashcard->'tags', '[]'::jsonb)) > 0 then
+      perform public.set_flashcard_tags(
+        v_row.id,
+        array(select jsonb_array_elements_text(v_flashcard->'tags'))
+      );
+    end if;
+
+    return next v_row;
+  end loop;
+end;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 9. Create function updating a flashcard and its tags
+-- -----------------------------------------------------------------------------
+-- Null arguments keep the current value, p_tag_names replaces the complete
+-- tag list (an empty array removes all tags). Returns no row when the
+-- flashcard doesn't exist or doesn't belong to p_user_id. updated_at is set
+-- by the on_flashcards_update trigger.
+create or replace function update_flashcard(
+  p_flashcard_id uuid,
+  p_user_id uuid,
+  p_front text default null,
+  p_back text default null,
+  p_tag_names text[] default null
+)
+returns setof flashcards
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_row public.flashcards;
+begin
+  update public.flashcards
+  set front = coalesce(p_front, front),
+    back = coalesce(p_back, back)
+  where id = p_flashcard_id
+    and user_id = p_user_id
+  returning * into v_row;
+
+  if not found then
+    return;
+  end if;
+
+  if p_tag_names is not null then
+    perform public.set_flashcard_tags(p_flashcard_id, p_tag_names);
+  end if;
+
+  return next v_row;
+end;
+$$;
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created tags table with per-user unique names
+--   - Created flashcard_tags join table
+--   - Enabled RLS on both tables with 16 granular policies
+--   - Created 2 indexes for query optimization
+--   - Created set_flashcard_tags() function
+--   - Created filter_flashcards(), create_flashcards() and update_flashcard()
+--     functions
+-- =============================================================================
@@ -0,0 +1,75 @@
+-- =============================================================================
+-- Migration: Add full-text search over flashcards
+-- =============================================================================
+-- Purpose: Allow users to find flashcards by the content of front and back
+-- Affected tables: flashcards (new search_vector column)
+-- Special considerations:
+--   - search_vector is a stored generated column, kept in sync by postgres
+--   - The 'simple' text search configuration is used because flashcards can be
+--     written in any language (no language specific stemming or stop words)
+--   - Matches on the front (question) are weighted higher than on the back
+--   - filter_flashcards() gains a search query argument and runs with the
+--     caller's privileges, so RLS still applies to authenticated users
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Add search_vector column to flashcards table
+-- -----------------------------------------------------------------------------
+-- Weight A for the front, weight B for the back
+alter table flashcards
+  add column search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('simple', coalesce(front, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(back, '')), 'B')
+  ) stored;
+
+-- -----------------------------------------------------------------------------
+-- 2. Create indexes for query optimization
+-- -----------------------------------------------------------------------------
+-- GIN index on flashcards.search_vector: Speeds up @@ full-text matching
+create index idx_flashcards_search_vector on flashcards using gin(search_vector);
+
+-- -----------------------------------------------------------------------------
+-- 3. Replace the tag filter function with one that also searches
+-- -----------------------------------------------------------------------------
+-- The argument list changes, so the old function is dropped first
+drop function if exists filter_flashcards(text[]);
+
+-- p_query: web search syntax ("quoted phrases", or, -excluded words) over
+-- front and back, null skips the search.
+-- p_tag_names: flashcards must have every tag, empty or null skips the filter.
+-- Search results are ordered by relevance, newest first on equal rank. Callers
+-- filter the result further (user_id, source, deck, pagination) via PostgREST.
+create or replace function filter_flashcards(p_query text default null, p_tag_names text[] default null)
+returns setof flashcards
+language sql
+stable
+set search_path = ''
+as $$
+  select f.*
+  from public.flashcards f
+  where (p_query is null or f.search_vector @@ websearch_to_tsquery('simple', p_query))
+    and (
+      coalesce(cardinality(p_tag_names), 0) = 0
+      or (
+        select count(distinct t.name)
+        from public.flashcard_tags ft
+        join public.tags t on t.id = ft.tag_id
+        where ft.flashcard_id = f.id
+          and t.name = any(p_tag_names)
+      ) = cardinality(p_tag_names)
+    )
+  order by
+    case when p_query is null then 0 else ts_rank(f.search_vector, websearch_to_tsquery('simple', p_query)) end desc,
+    f.created_at desc;
+$$;
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Added generated search_vector column to flashcards table
+--   - Created 1 GIN index for full-text search
+--   - Replaced filter_flashcards() with a version that also searches, ordered
+--     by rank
+-- =============================================================================
@@ -0,0 +1,21 @@
+-- =============================================================================
+-- Migration: Add imported flashcard source
+-- =============================================================================
+-- Purpose: Distinguish flashcards created by bulk file import (CSV/TSV/Anki)
+-- Affected types: flashcard_source (new 'imported' value)
+-- Special considerations:
+--   - Enum values can only be added, existing rows are not affected
+--   - The new value cannot be used in the same transaction it was added in
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Extend flashcard_source enum
+-- -----------------------------------------------------------------------------
+alter type flashcard_source add value if not exists 'imported';
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Added 'imported' value to flashcard_source enum
+-- =============================================================================
@@ -0,0 +1,184 @@
+-- =============================================================================
+-- Migration: Create generations
+-- =============================================================================
+-- Purpose: Record every AI generation request and its outcome, so the
+--          acceptance rate of AI suggestions can be measured
+-- Affected tables: generations (new), flashcards (new generation_id column)
+-- Special considerations:
+--   - The source text itself is not stored, only its SHA-256 hash and length
+--   - A row is inserted when generation starts and completed with latency,
+--     suggestion count and error once the model has answered
+--   - accepted_count / edited_count are incremented when suggestions are saved
+--     (edited_count is the subset of accepted suggestions changed by the user)
+--   - Generations cannot be deleted by users, they are removed with the account
+--   - Deleting a generation keeps its flashcards (generation_id is set to null)
+--   - create_flashcards() is replaced to also save generation_id
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create generations table
+-- -----------------------------------------------------------------------------
+-- latency_ms is null while the generation is still running
+create table generations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  model text not null,
+  source_text_hash text not null check (length(source_text_hash) = 64),
+  source_text_length integer not null check (source_text_length > 0),
+  suggestions_count integer not null default 0 check (suggestions_count >= 0),
+  accepted_count integer not null default 0 check (accepted_count >= 0),
+  edited_count integer not null default 0 check (edited_count >= 0 and edited_count <= accepted_count),
+  tokens_used integer check (tokens_used is null or tokens_used >= 0),
+  latency_ms integer check (latency_ms is null or latency_ms >= 0),
+  error_code text,
+  error_message text,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+-- Enable row level security for generations table
+alter table generations enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- 2. Link flashcards to the generation they were accepted from
+-- -----------------------------------------------------------------------------
+-- Nullable: only flashcards saved from AI suggestions have a generation
+alter table flashcards
+  add column generation_id uuid references generations(id) on delete set null;
+
+-- -----------------------------------------------------------------------------
+-- 3. Create indexes for query optimization
+-- -----------------------------------------------------------------------------
+-- Composite index on generations(user_id, created_at): Speeds up listing the
+-- generation history of a user, newest first
+create index idx_generations_user_id_created_at on generations(user_id, created_at desc);
+
+-- Index on flashcards.generation_id: Speeds up finding cards of a generation
+create index idx_flashcards_generation_id on flashcards(generation_id);
+
+-- -----------------------------------------------------------------------------
+-- 4. Create RLS policies for generations table
+-- -----------------------------------------------------------------------------
+-- No delete policies: the history is kept for product metrics
+
+-- Policy: Anonymous users cannot select generations
+-- Rationale: Generation history is private user data
+create policy "anon users cannot select generations"
+  on generations for select
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to select only their own generations
+-- Rationale: Users should only see their personal generation history
+create policy "authenticated users can select own generations"
+  on generations for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot insert generations
+-- Rationale: Only authenticated users can generate flashcards
+create policy "anon users cannot insert generations"
+  on generations for insert
+  to anon
+  with check (false);
+
+-- Policy: Allow authenticated users to insert their own generations
+-- Rationale: A generation is recorded for the user who requested it
+create policy "authenticated users can insert own generations"
+  on generations for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot update generations
+-- Rationale: Only authenticated users can modify generations
+create policy "anon users cannot update generations"
+  on generations for update
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to update only their own generations
+-- Rationale: Outcome and acceptance counts are recorded after the insert
+create policy "authenticated users can update own generations"
+  on generations for update
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- 5. Create trigger for automatic updated_at timestamp
+-- -----------------------------------------------------------------------------
+-- Reuses handle_updated_at() created in the initial schema migration
+create trigger on_generations_update
+  before update on generations
+  for each row
+  execute procedure handle_updated_at();
+
+-- -----------------------------------------------------------------------------
+-- 6. Create function recording accepted suggestions
+-- -----------------------------------------------------------------------------
+-- Increments the counters in a single statement so concurrent saves from the
+-- same generation don't overwrite each other. Runs with the caller's
+-- privileges (security invoker) so RLS still applies to authenticated users.
+create or replace function record_generation_acceptance(
+  p_generation_id uuid,
+  p_accepted integer,
+  p_edited integer
+)
+returns void
+language sql
+set search_path = ''
+as $$
+  update public.generations
+  set accepted_count = accepted_count + p_accepted,
+    edited_count = edited_count + p_edited
+  where id = p_generation_id;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 7. Replace function inserting flashcards with their tags
+-- -----------------------------------------------------------------------------
+-- Same as before, p_flashcards objects may also carry generation_id
+create or replace function create_flashcards(p_user_id uuid, p_flashcards jsonb)
+returns setof flashcards
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_flashcard jsonb;
+  v_row public.flashcards;
+begin
+  for v_flashcard in select value from jsonb_array_elements(p_flashcards) with ordinality order by ordinality loop
+    insert into public.flashcards (user_id, front, back, source, deck_id, generation_id)
+    values (
+      p_user_id,
+      v_flashcard->>'front',
+      v_flashcard->>'back',
+      (v_flashcard->>'source')::public.flashcard_source,
+      (v_flashcard->>'deck_id')::uuid,
+      (v_flashcard->>'generation_id')::uuid
+    )
+    returning * into v_row;
+
+    if jsonb_array_length(coalesce(v_flashcard->'tags', '[]'::jsonb)) > 0 then
+      perform public.set_flashcard_tags(
+        v_row.id,
+        array(select jsonb_array_elements_text(v_flashcard->'tags'))
+      );
+    end if;
+
+    return next v_row;
+  end loop;
+end;
+$$;
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created generations table with outcome and acceptance counters
+--   - Added nullable flashcards.generation_id with on delete set null
+--   - Enabled RLS on generations with 6 granular policies
+--   - Created 2 indexes for query optimization
+--   - Created trigger for automatic updated_at handling
+--   - Created record_generation_acceptance() function
+--   - Replaced create_flashcards() to save generation_id
+-- =============================================================================
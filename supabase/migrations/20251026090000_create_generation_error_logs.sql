@@ -0,0 +1,101 @@
+-- =============================================================================
+-- Migration: Create generation error logs
+-- =============================================================================
+-- Purpose: Persist failed AI generations so failures can be reported by model
+--          and error type over time
+-- Affected tables: generation_error_logs (new)
+-- Special considerations:
+--   - One row per failed generation (timeouts, gateway errors, unavailable
+--     service, no valid suggestions), cancelled generations are not logged
+--   - error_code is the service error class name (e.g. 'TimeoutError')
+--   - Users can only insert their own logs, there are no select policies:
+--     the error report is read with the service role by administrators
+--   - get_generation_error_report() aggregates failures in a time window
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create generation_error_logs table
+-- -----------------------------------------------------------------------------
+-- upstream_status is the HTTP status returned by the AI provider, if any
+create table generation_error_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  generation_id uuid references generations(id) on delete set null,
+  error_code text not null check (length(error_code) > 0 and length(error_code) <= 100),
+  model text not null,
+  source_text_length integer not null check (source_text_length >= 0),
+  upstream_status integer check (upstream_status is null or upstream_status between 100 and 599),
+  error_message text not null check (length(error_message) <= 1000),
+  created_at timestamp with time zone not null default now()
+);
+
+-- Enable row level security for generation_error_logs table
+alter table generation_error_logs enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- 2. Create indexes for query optimization
+-- -----------------------------------------------------------------------------
+-- Index on generation_error_logs.created_at: Speeds up reports over a time window
+create index idx_generation_error_logs_created_at on generation_error_logs(created_at);
+
+-- Index on generation_error_logs.user_id: Speeds up cascade deletion of a user
+create index idx_generation_error_logs_user_id on generation_error_logs(user_id);
+
+-- -----------------------------------------------------------------------------
+-- 3. Create RLS policies for generation_error_logs table
+-- -----------------------------------------------------------------------------
+
+-- Policy: Anonymous users cannot insert generation error logs
+-- Rationale: Only authenticated users can generate flashcards
+create policy "anon users cannot insert generation error logs"
+  on generation_error_logs for insert
+  to anon
+  with check (false);
+
+-- Policy: Allow authenticated users to insert logs of their own generations
+-- Rationale: Failures are recorded for the user who requested the generation
+create policy "authenticated users can insert own generation error logs"
+  on generation_error_logs for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- 4. Create function aggregating errors by model and error type
+-- -----------------------------------------------------------------------------
+-- Counts failures in [p_from, p_to) per model and error code, most frequent
+-- first, together with the most recent upstream status and message.
+create or replace function get_generation_error_report(p_from timestamptz, p_to timestamptz)
+returns table (
+  model text,
+  error_code text,
+  error_count bigint,
+  last_occurred_at timestamptz,
+  last_upstream_status integer,
+  last_error_message text
+)
+language sql
+stable
+set search_path = ''
+as $$
+  select
+    l.model,
+    l.error_code,
+    count(*) as error_count,
+    max(l.created_at) as last_occurred_at,
+    (array_agg(l.upstream_status order by l.created_at desc))[1] as last_upstream_status,
+    (array_agg(l.error_message order by l.created_at desc))[1] as last_error_message
+  from public.generation_error_logs l
+  where l.created_at >= p_from and l.created_at < p_to
+  group by l.model, l.error_code
+  order by error_count desc, last_occurred_at desc;
+$$;
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created generation_error_logs table
+--   - Enabled RLS on generation_error_logs with 2 insert policies
+--   - Created 2 indexes for query optimization
+--   - Created get_generation_error_report() function
+-- =============================================================================
@@ -0,0 +1,133 @@
+-- =============================================================================
+-- Migration: Create generation quotas
+-- =============================================================================
+-- Purpose: Limit how much AI generation each user can request, so a single
+--          account cannot exhaust the LLM provider budget
+-- Affected tables: generations (read and insert through the new function,
+--                  update policy replaced)
+-- Special considerations:
+--   - Usage is counted from the generations table, no separate counters:
+--       requests_per_minute: generations created in the last 60 seconds
+--       generations_per_day: generations created since midnight UTC
+--       tokens_per_month:    tokens_used of generations since the 1st (UTC)
+--   - Failed and cancelled generations count as well, they were sent to the
+--     provider
+--   - Limits are passed by the application (configured in the environment)
+--   - Requests of the same user are serialized with an advisory lock, so
+--     concurrent requests cannot both pass the check
+--   - The server calls the function with its own client, which does not carry
+--     the user's JWT, so the user is passed explicitly, like every other
+--     service filters by user_id
+--   - security definer and executable by service_role only: users cannot call
+--     it through PostgREST with a user or limits of their choice
+--   - Users can no longer update their generations: with the update policy
+--     they could rewrite tokens_used or created_at and get past the quotas.
+--     Outcome and acceptance counts are recorded by the server
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create function recording a generation within the user's quotas
+-- -----------------------------------------------------------------------------
+-- Returns one row per quota with its usage (including the new generation) and
+-- when it resets. generation_id is null when a quota was already used up, no
+-- generation is recorded then. security definer: the caller is the server,
+-- ownership is established by the application.
+create or replace function create_generation_within_quota(
+  p_user_id uuid,
+  p_model text,
+  p_source_text_hash text,
+  p_source_text_length integer,
+  p_requests_per_minute integer,
+  p_generations_per_day integer,
+  p_tokens_per_month integer
+)
+returns table (
+  generation_id uuid,
+  quota text,
+  quota_limit integer,
+  used bigint,
+  reset_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := p_user_id;
+  v_now timestamptz := now();
+  v_day_start timestamptz := date_trunc('day', now() at time zone 'utc') at time zone 'utc';
+  v_month_start timestamptz := date_trunc('month', now() at time zone 'utc') at time zone 'utc';
+  v_minute_count bigint;
+  v_minute_oldest timestamptz;
+  v_day_count bigint;
+  v_month_tokens bigint;
+  v_generation_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'create_generation_within_quota requires a user';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtextextended('generation_quota:' || v_user_id::text, 0));
+
+  select
+    count(*) filter (where g.created_at > v_now - interval '1 minute'),
+    min(g.created_at) filter (where g.created_at > v_now - interval '1 minute'),
+    count(*) filter (where g.created_at >= v_day_start),
+    coalesce(sum(g.tokens_used) filter (where g.created_at >= v_month_start), 0)
+  into v_minute_count, v_minute_oldest, v_day_count, v_month_tokens
+  from public.generations g
+  where g.user_id = v_user_id
+    and g.created_at >= least(v_month_start, v_now - interval '1 minute');
+
+  if v_minute_count < p_requests_per_minute
+    and v_day_count < p_generations_per_day
+    and v_month_tokens < p_tokens_per_month then
+    insert into public.generations (user_id, model, source_text_hash, source_text_length)
+    values (v_user_id, p_model, p_source_text_hash, p_source_text_length)
+    returning id into v_generation_id;
+
+    v_minute_count := v_minute_count + 1;
+    v_day_count := v_day_count + 1;
+  end if;
+
+  return query values
+    (v_generation_id, 'requests_per_minute', p_requests_per_minute, v_minute_count,
+      coalesce(v_minute_oldest, v_now) + interval '1 minute'),
+    (v_generation_id, 'generations_per_day', p_generations_per_day, v_day_count,
+      v_day_start + interval '1 day'),
+    (v_generation_id, 'tokens_per_month', p_tokens_per_month, v_month_tokens,
+      v_month_start + interval '1 month');
+end;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 2. Restrict who can call the function
+-- -----------------------------------------------------------------------------
+-- Functions are executable by everyone by default
+revoke execute on function create_generation_within_quota(uuid, text, text, integer, integer, integer, integer)
+  from public, anon, authenticated;
+grant execute on function create_generation_within_quota(uuid, text, text, integer, integer, integer, integer)
+  to service_role;
+
+-- -----------------------------------------------------------------------------
+-- 3. Replace update policy for authenticated users
+-- -----------------------------------------------------------------------------
+-- The policy denying updates to anonymous users is kept
+drop policy if exists "authenticated users can update own generations" on generations;
+
+-- Policy: Authenticated users cannot update generations
+-- Rationale: The generation history is the basis of the quotas
+create policy "authenticated users cannot update generations"
+  on generations for update
+  to authenticated
+  using (false);
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created create_generation_within_quota() function, running as
+--     security definer and executable by service_role only
+--   - Replaced the authenticated update policy on generations with one
+--     denying updates
+-- =============================================================================
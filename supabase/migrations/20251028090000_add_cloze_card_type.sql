@@ -0,0 +1,206 @@
+-- =============================================================================
+-- Migration: Add cloze deletion card type
+-- =============================================================================
+-- Purpose: Support cloze notes ("{{c1::Mitochondria}} is the powerhouse of the
+--          cell"), where every numbered deletion is reviewed as its own card
+-- Affected tables: flashcards (card_type column, content checks),
+--                  study_progress (card_index column, primary key, triggers)
+-- Special considerations:
+--   - Existing flashcards become 'basic' cards, their progress rows get
+--     card_index 0 and keep their scheduling state
+--   - Cloze notes keep the text with deletions in front, back holds optional
+--     extra information shown with the answer and may be empty
+--   - A cloze note has one study_progress row per deletion number (card_index
+--     is the N of {{cN::...}}), basic cards a single row with card_index 0
+--   - Progress rows are kept in sync when the front or card type changes:
+--     rows of removed deletions are deleted, new deletions are due immediately
+--   - create_flashcards() and update_flashcard() save the card type, the
+--     signature of update_flashcard() changes so it is dropped first
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create card type enum and column
+-- -----------------------------------------------------------------------------
+create type flashcard_card_type as enum ('basic', 'cloze');
+
+alter table flashcards
+  add column card_type flashcard_card_type not null default 'basic';
+
+-- -----------------------------------------------------------------------------
+-- 2. Relax back content check for cloze notes
+-- -----------------------------------------------------------------------------
+-- Basic cards still need an answer, the answer of a cloze card is its deletion
+alter table flashcards drop constraint if exists flashcards_back_check;
+
+alter table flashcards
+  add constraint flashcards_back_check check (
+    length(back) <= 1000 and (card_type = 'cloze' or length(back) > 0)
+  );
+
+-- Cloze notes need at least one deletion, the full syntax is validated by the
+-- application (src/lib/utils/cloze.ts)
+alter table flashcards
+  add constraint flashcards_cloze_front_check check (
+    card_type <> 'cloze' or front ~ '\{\{c[1-9][0-9]?::'
+  );
+
+-- -----------------------------------------------------------------------------
+-- 3. Track study progress per card of a note
+-- -----------------------------------------------------------------------------
+alter table study_progress
+  add column card_index integer not null default 0 check (card_index >= 0 and card_index <= 99);
+
+alter table study_progress drop constraint study_progress_pkey;
+
+alter table study_progress
+  add constraint study_progress_pkey primary key (flashcard_id, card_index);
+
+-- -----------------------------------------------------------------------------
+-- 4. Create function listing the card indexes of a flashcard
+-- -----------------------------------------------------------------------------
+-- Distinct deletion numbers of a cloze note, 0 for basic cards
+create or replace function flashcard_card_indexes(p_card_type public.flashcard_card_type, p_front text)
+returns setof integer
+language sql
+immutable
+set search_path = ''
+as $$
+  select 0 where p_card_type = 'basic'
+  union
+  select distinct m[1]::integer
+  from regexp_matches(p_front, '\{\{c([1-9][0-9]?)::', 'g') as m
+  where p_card_type = 'cloze';
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 5. Replace trigger function creating progress records
+-- -----------------------------------------------------------------------------
+-- Runs after insert and after updates of front or card_type. Inserts missing
+-- progress rows (due immediately) and deletes rows of cards that no longer
+-- exist. security definer for the same reason as before: ownership is already
+-- enforced by the flashcards policies.
+create or replace function handle_new_flashcard_study_progress()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.study_progress (flashcard_id, card_index)
+  select new.id, i
+  from public.flashcard_card_indexes(new.card_type, new.front) as i
+  on conflict (flashcard_id, card_index) do nothing;
+
+  if tg_op = 'UPDATE' then
+    delete from public.study_progress sp
+    where sp.flashcard_id = new.id
+      and sp.card_index not in (
+        select i from public.flashcard_card_indexes(new.card_type, new.front) as i
+      );
+  end if;
+
+  return new;
+end;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 6. Attach trigger to flashcard updates
+-- -----------------------------------------------------------------------------
+create trigger on_flashcards_update_sync_study_progress
+  after update of front, card_type on flashcards
+  for each row
+  when (old.front is distinct from new.front or old.card_type is distinct from new.card_type)
+  execute procedure handle_new_flashcard_study_progress();
+
+-- -----------------------------------------------------------------------------
+-- 7. Replace function inserting flashcards with their tags
+-- -----------------------------------------------------------------------------
+-- Same as before, p_flashcards objects may also carry card_type (default basic)
+create or replace function create_flashcards(p_user_id uuid, p_flashcards jsonb)
+returns setof flashcards
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_flashcard jsonb;
+  v_row public.flashcards;
+begin
+  for v_flashcard in select value from jsonb_array_elements(p_flashcards) with ordinality order by ordinality loop
+    insert into public.flashcards (user_id, front, back, card_type, source, deck_id, generation_id)
+    values (
+      p_user_id,
+      v_flashcard->>'front',
+      v_flashcard->>'back',
+      coalesce((v_flashcard->>'card_type')::public.flashcard_card_type, 'basic'),
+      (v_flashcard->>'source')::public.flashcard_source,
+      (v_flashcard->>'deck_id')::uuid,
+      (v_flashcard->>'generation_id')::uuid
+    )
+    returning * into v_row;
+
+    if jsonb_array_length(coalesce(v_flashcard->'tags', '[]'::jsonb)) > 0 then
+      perform public.set_flashcard_tags(
+        v_row.id,
+        array(select jsonb_array_elements_text(v_flashcard->'tags'))
+      );
+    end if;
+
+    return next v_row;
+  end loop;
+end;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- 8. Replace function updating a flashcard and its tags
+-- -----------------------------------------------------------------------------
+-- Same as before with a p_card_type argument. The signature changes, create or
+-- replace would add an overload instead
+drop function if exists update_flashcard(uuid, uuid, text, text, text[]);
+
+create or replace function update_flashcard(
+  p_flashcard_id uuid,
+  p_user_id uuid,
+  p_front text default null,
+  p_back text default null,
+  p_card_type public.flashcard_card_type default null,
+  p_tag_names text[] default null
+)
+returns setof flashcards
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_row public.flashcards;
+begin
+  update public.flashcards
+  set front = coalesce(p_front, front),
+    back = coalesce(p_back, back),
+    card_type = coalesce(p_card_type, card_type)
+  where id = p_flashcard_id
+    and user_id = p_user_id
+  returning * into v_row;
+
+  if not found then
+    return;
+  end if;
+
+  if p_tag_names is not null then
+    perform public.set_flashcard_tags(p_flashcard_id, p_tag_names);
+  end if;
+
+  return next v_row;
+end;
+$$;
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created flashcard_card_type enum and flashcards.card_type column
+--   - Allowed empty back content for cloze notes, required a deletion in front
+--   - Added study_progress.card_index, primary key is (flashcard_id, card_index)
+--   - Created flashcard_card_indexes() function
+--   - Replaced handle_new_flashcard_study_progress() to sync progress per card
+--   - Created after update trigger on flashcards
+--   - Replaced create_flashcards() and update_flashcard() to save card_type
+-- =============================================================================
@@ -0,0 +1,154 @@
+-- =============================================================================
+-- Migration: Create flashcard media
+-- =============================================================================
+-- Purpose: Attach images (anatomy diagrams, maps) to the front or back of a
+--          flashcard, files are kept in Supabase Storage
+-- Affected tables: flashcard_media (new), storage.buckets (flashcard-media
+--                  bucket), storage.objects (policies)
+-- Special considerations:
+--   - Files live in the private "flashcard-media" bucket under
+--     <user_id>/<flashcard_id>/<media_id>.<ext>, the first folder is the owner
+--   - The bucket accepts PNG, JPEG, WebP and GIF up to 5 MB, the application
+--     checks the file content as well (src/lib/utils/media.ts)
+--   - Rows are removed with their flashcard (on delete cascade), the files are
+--     removed by the application (Storage objects cannot be deleted from SQL)
+--   - Media rows are immutable: there are no update policies
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create flashcard side enum
+-- -----------------------------------------------------------------------------
+create type flashcard_side as enum ('front', 'back');
+
+-- -----------------------------------------------------------------------------
+-- 2. Create flashcard_media table
+-- -----------------------------------------------------------------------------
+-- user_id is denormalized from the flashcard so policies do not need a join
+create table flashcard_media (
+  id uuid primary key default gen_random_uuid(),
+  flashcard_id uuid not null references flashcards(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  side flashcard_side not null,
+  storage_path text not null unique check (length(storage_path) > 0),
+  mime_type text not null check (mime_type in ('image/png', 'image/jpeg', 'image/webp', 'image/gif')),
+  size_bytes integer not null check (size_bytes > 0 and size_bytes <= 5242880),
+  created_at timestamp with time zone not null default now()
+);
+
+-- Enable row level security for flashcard_media table
+alter table flashcard_media enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- 3. Create indexes for query optimization
+-- -----------------------------------------------------------------------------
+-- Index on flashcard_media.flashcard_id: Speeds up embedding media in
+-- flashcard lists and counting the images of a side
+create index idx_flashcard_media_flashcard_id on flashcard_media(flashcard_id, side);
+
+-- -----------------------------------------------------------------------------
+-- 4. Create RLS policies for flashcard_media table
+-- -----------------------------------------------------------------------------
+
+-- Policy: Anonymous users cannot select flashcard media
+-- Rationale: Attachments are private user data
+create policy "anon users cannot select flashcard media"
+  on flashcard_media for select
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to select only their own flashcard media
+-- Rationale: Users should only see attachments of their flashcards
+create policy "authenticated users can select own flashcard media"
+  on flashcard_media for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot insert flashcard media
+-- Rationale: Only authenticated users can attach files
+create policy "anon users cannot insert flashcard media"
+  on flashcard_media for insert
+  to anon
+  with check (false);
+
+-- Policy: Allow authenticated users to attach media to their flashcards
+-- Rationale: Both the row and the linked flashcard must belong to the user
+create policy "authenticated users can insert own flashcard media"
+  on flashcard_media for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and auth.uid() = (select user_id from flashcards where id = flashcard_id)
+  );
+
+-- Policy: Anonymous users cannot delete flashcard media
+-- Rationale: Only authenticated users can remove attachments
+create policy "anon users cannot delete flashcard media"
+  on flashcard_media for delete
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to delete only their own flashcard media
+-- Rationale: Users can remove attachments of their flashcards
+create policy "authenticated users can delete own flashcard media"
+  on flashcard_media for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- 5. Create storage bucket
+-- -----------------------------------------------------------------------------
+-- Private bucket, files are served through signed URLs
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'flashcard-media',
+  'flashcard-media',
+  false,
+  5242880,
+  array['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+)
+on conflict (id) do nothing;
+
+-- -----------------------------------------------------------------------------
+-- 6. Create RLS policies for storage objects
+-- -----------------------------------------------------------------------------
+-- The first folder of the object name is the owner's user id
+
+-- Policy: Allow authenticated users to read files in their own folder
+-- Rationale: Signed URLs are created for the owner only
+create policy "authenticated users can select own flashcard media files"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'flashcard-media'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Policy: Allow authenticated users to upload files to their own folder
+-- Rationale: Users cannot write into other users' folders
+create policy "authenticated users can insert own flashcard media files"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'flashcard-media'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Policy: Allow authenticated users to delete files in their own folder
+-- Rationale: Removing an attachment or a flashcard removes its files
+create policy "authenticated users can delete own flashcard media files"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'flashcard-media'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created flashcard_side enum and flashcard_media table with RLS policies
+--   - Created index on flashcard_media(flashcard_id, side)
+--   - Created private flashcard-media storage bucket (images up to 5 MB)
+--   - Created per-user storage policies on the bucket
+-- =============================================================================
@@ -0,0 +1,114 @@
+-- =============================================================================
+-- Migration: Create flashcard audio
+-- =============================================================================
+-- Purpose: Pronunciation audio for the front or back of a flashcard, either
+--          uploaded by the user or synthesized by the text-to-speech provider
+-- Affected tables: flashcard_audio (new), storage.buckets (flashcard-media
+--                  bucket accepts audio)
+-- Special considerations:
+--   - Files live in the flashcard-media bucket next to the images, under
+--     <user_id>/<flashcard_id>/audio/<audio_id>.<ext>, so the existing
+--     per-user storage policies apply
+--   - A side has at most one uploaded clip and one synthesized clip
+--   - Synthesized clips are a cache: tts_key identifies the provider, voice
+--     and text they were made from, a clip with another key is replaced when
+--     speech is requested again
+--   - Rows are removed with their flashcard (on delete cascade), the files are
+--     removed by the application (Storage objects cannot be deleted from SQL)
+--   - Audio rows are immutable: there are no update policies
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Create flashcard audio source enum
+-- -----------------------------------------------------------------------------
+create type flashcard_audio_source as enum ('upload', 'tts');
+
+-- -----------------------------------------------------------------------------
+-- 2. Create flashcard_audio table
+-- -----------------------------------------------------------------------------
+-- user_id is denormalized from the flashcard so policies do not need a join
+create table flashcard_audio (
+  id uuid primary key default gen_random_uuid(),
+  flashcard_id uuid not null references flashcards(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  side flashcard_side not null,
+  source flashcard_audio_source not null,
+  storage_path text not null unique check (length(storage_path) > 0),
+  mime_type text not null check (mime_type in ('audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/mp4')),
+  size_bytes integer not null check (size_bytes > 0 and size_bytes <= 5242880),
+  tts_key text check ((source = 'tts') = (tts_key is not null)),
+  created_at timestamp with time zone not null default now(),
+  -- Also serves lookups of the audio of a flashcard
+  unique (flashcard_id, side, source)
+);
+
+-- Enable row level security for flashcard_audio table
+alter table flashcard_audio enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- 3. Create RLS policies for flashcard_audio table
+-- -----------------------------------------------------------------------------
+
+-- Policy: Anonymous users cannot select flashcard audio
+-- Rationale: Audio clips are private user data
+create policy "anon users cannot select flashcard audio"
+  on flashcard_audio for select
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to select only their own flashcard audio
+-- Rationale: Users should only hear audio of their flashcards
+create policy "authenticated users can select own flashcard audio"
+  on flashcard_audio for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Anonymous users cannot insert flashcard audio
+-- Rationale: Only authenticated users can add audio
+create policy "anon users cannot insert flashcard audio"
+  on flashcard_audio for insert
+  to anon
+  with check (false);
+
+-- Policy: Allow authenticated users to add audio to their flashcards
+-- Rationale: Both the row and the linked flashcard must belong to the user
+create policy "authenticated users can insert own flashcard audio"
+  on flashcard_audio for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and auth.uid() = (select user_id from flashcards where id = flashcard_id)
+  );
+
+-- Policy: Anonymous users cannot delete flashcard audio
+-- Rationale: Only authenticated users can remove audio
+create policy "anon users cannot delete flashcard audio"
+  on flashcard_audio for delete
+  to anon
+  using (false);
+
+-- Policy: Allow authenticated users to delete only their own flashcard audio
+-- Rationale: Users can remove uploaded clips and replace outdated synthesized ones
+create policy "authenticated users can delete own flashcard audio"
+  on flashcard_audio for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- 4. Allow audio in the storage bucket
+-- -----------------------------------------------------------------------------
+update storage.buckets
+set allowed_mime_types = array[
+  'image/png', 'image/jpeg', 'image/webp', 'image/gif',
+  'audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/mp4'
+]
+where id = 'flashcard-media';
+
+-- =============================================================================
+-- Migration complete
+-- =============================================================================
+-- Summary:
+--   - Created flashcard_audio_source enum and flashcard_audio table with RLS
+--     policies and a unique constraint on (flashcard_id, side, source)
+--   - Allowed MP3, Ogg, WAV, WebM and MP4 audio in the flashcard-media bucket
+-- =============================================================================